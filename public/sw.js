@@ -0,0 +1,187 @@
+// Frostie service worker: precaches the app shell so the app opens offline,
+// asks an open window to replay queued writes when the connection returns, and
+// shows expiration digests sent by the send-expiry-notifications edge function.
+
+const VERSION = new URL(self.location.href).searchParams.get('v') || 'dev';
+const SHELL_CACHE = `frostie-shell-${VERSION}`;
+const IMAGE_CACHE = 'frostie-images';
+const MAX_CACHED_IMAGES = 100;
+const SYNC_TAG = 'frostie-sync';
+
+// Files in public/ aren't part of the Vite bundle, so they're listed here
+const SHELL_FILES = [
+  '/',
+  '/index.html',
+  '/manifest.webmanifest',
+  '/icon.svg',
+  '/icon-192.png',
+  '/icon-512.png'
+];
+
+// The build writes precache-manifest.json with the hashed JS and CSS; it doesn't
+// exist under the dev server, where only the shell files are cached
+const precacheShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  let files = [];
+
+  try {
+    const response = await fetch('/precache-manifest.json', { cache: 'no-store' });
+    if (response.ok) {
+      const manifest = await response.json();
+      files = manifest.files.map((file) => `/${file}`);
+    }
+  } catch {
+    // Offline during install; the shell files below still have to succeed
+  }
+
+  await cache.addAll([...new Set([...SHELL_FILES, ...files])]);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('frostie-shell-') && key !== SHELL_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Pages always try the network so deploys show up right away, and fall back to
+// the cached shell; routing happens client-side so every path gets index.html
+const handleNavigation = async (request) => {
+  try {
+    return await fetch(request);
+  } catch {
+    const cache = await caches.open(SHELL_CACHE);
+    return (await cache.match('/index.html')) || (await cache.match('/')) || Response.error();
+  }
+};
+
+const trimCache = async (cache, maxEntries) => {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+// Item and meal images come from other hosts; show the cached copy and refresh it
+const handleImage = async (request) => {
+  const cache = await caches.open(IMAGE_CACHE);
+  const cached = await cache.match(request);
+
+  const network = fetch(request)
+    .then(async (response) => {
+      if (response.ok || response.type === 'opaque') {
+        await cache.put(request, response.clone());
+        await trimCache(cache, MAX_CACHED_IMAGES);
+      }
+      return response;
+    })
+    .catch(() => cached || Response.error());
+
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    // Hashed build files never change, so the precached copy is always right
+    event.respondWith(
+      caches.open(SHELL_CACHE)
+        .then((cache) => cache.match(request))
+        .then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
+  if (request.destination === 'image') {
+    event.respondWith(handleImage(request));
+  }
+
+  // Everything else, including Supabase, goes straight to the network; the app
+  // keeps its own offline copy of the data
+});
+
+// Queued writes live in IndexedDB but replaying them needs the app's merge logic,
+// so an open window does the work and reports back. Rejecting lets the browser
+// retry later, e.g. when the app is opened again.
+const requestClientSync = async () => {
+  const windows = await self.clients.matchAll({ type: 'window' });
+  if (windows.length === 0) {
+    throw new Error('No open window to sync from');
+  }
+
+  await new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timeout = setTimeout(() => reject(new Error('Sync timed out')), 60000);
+
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timeout);
+      if (event.data && event.data.ok) {
+        resolve();
+      } else {
+        reject(new Error('Sync failed'));
+      }
+    };
+
+    windows[0].postMessage({ type: 'sync-now' }, [channel.port2]);
+  });
+};
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(requestClientSync());
+  }
+});
+
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = data.title || 'Frostie';
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: data.body || 'Some items in your freezer are expiring soon.',
+      icon: '/icon-192.png',
+      badge: '/icon-192.png',
+      tag: data.tag || 'expiry-digest',
+      data: { url: data.url || '/freezer' }
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/freezer', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      // Reuse an open Frostie tab if there is one
+      for (const client of windows) {
+        if (client.url.startsWith(self.location.origin) && 'focus' in client) {
+          client.navigate(url);
+          return client.focus();
+        }
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -1,13 +1,16 @@
 import React, { useEffect, useState } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
-import { Snowflake, Home, Refrigerator, ShoppingCart, ChefHat, Settings } from 'lucide-react';
+import { Snowflake, Home, Refrigerator, ShoppingCart, ChefHat, CalendarDays, BarChart3, Settings } from 'lucide-react';
 import { Toaster, toast } from 'react-hot-toast';
 import Navbar from './components/Navbar';
 import HomePage from './pages/HomePage';
 import FreezerPage from './pages/FreezerPage';
 import ShoppingPage from './pages/ShoppingPage';
 import IdeasPage from './pages/IdeasPage';
+import PlanPage from './pages/PlanPage';
+import StatsPage from './pages/StatsPage';
 import SettingsPage from './pages/SettingsPage';
+import SharedListPage from './pages/SharedListPage';
 import { useTheme } from './contexts/ThemeContext';
 import { 
   initSupabase, 
@@ -15,8 +18,10 @@ import {
 } from './api/supabase';
 import { AuthContext, AuthProvider } from './contexts/AuthContext';
 import { SettingsProvider } from './contexts/SettingsContext';
+import { HouseholdProvider } from './contexts/HouseholdContext';
 import { StorageProvider } from './store/StorageContext';
 import SkipLink from './components/SkipLink';
+import SyncStatus from './components/SyncStatus';
 
 const AppContent: React.FC = () => {
   const [isDesktop, setIsDesktop] = useState(window.innerWidth >= 768);
@@ -51,6 +56,8 @@ const AppContent: React.FC = () => {
     { id: 'freezer', label: 'Freezer', icon: <Refrigerator size={20} />, path: '/freezer' },
     { id: 'shopping', label: 'Shopping', icon: <ShoppingCart size={20} />, path: '/shopping' },
     { id: 'ideas', label: 'Ideas', icon: <ChefHat size={20} />, path: '/ideas' },
+    { id: 'plan', label: 'Plan', icon: <CalendarDays size={20} />, path: '/plan' },
+    { id: 'stats', label: 'Stats', icon: <BarChart3 size={20} />, path: '/stats' },
     { id: 'settings', label: 'Settings', icon: <Settings size={20} />, path: '/settings' }
   ];
 
@@ -68,6 +75,7 @@ const AppContent: React.FC = () => {
         <header role="banner" className="flex items-center gap-2 mb-6">
           <Snowflake className="text-blue-500" size={28} aria-hidden="true" />
           <h1 className="text-2xl font-bold text-slate-800 dark:text-white">Frostie</h1>
+          <SyncStatus />
         </header>
         
         <Routes>
@@ -75,6 +83,8 @@ const AppContent: React.FC = () => {
           <Route path="/freezer" element={<FreezerPage />} />
           <Route path="/shopping" element={<ShoppingPage />} />
           <Route path="/ideas" element={<IdeasPage />} />
+          <Route path="/plan" element={<PlanPage />} />
+          <Route path="/stats" element={<StatsPage />} />
           <Route path="/settings" element={<SettingsPage />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
@@ -111,13 +121,24 @@ const AppContent: React.FC = () => {
 const App: React.FC = () => {
   return (
     <Router>
-      <AuthProvider>
-        <StorageProvider>
-          <SettingsProvider>
-            <AppContent />
-          </SettingsProvider>
-        </StorageProvider>
-      </AuthProvider>
+      <Routes>
+        {/* Shared list links are opened without an account, so they skip the app's providers */}
+        <Route path="/shared/:token" element={<SharedListPage />} />
+        <Route
+          path="*"
+          element={
+            <AuthProvider>
+              <HouseholdProvider>
+                <StorageProvider>
+                  <SettingsProvider>
+                    <AppContent />
+                  </SettingsProvider>
+                </StorageProvider>
+              </HouseholdProvider>
+            </AuthProvider>
+          }
+        />
+      </Routes>
     </Router>
   );
 };
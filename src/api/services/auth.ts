@@ -1,5 +1,4 @@
 import { supabase } from './client';
-import { migrateLocalDataToSupabase } from './migration';
 import { logger } from "@/lib/logger";
 
 // ==================== AUTH STATE CHANGE LISTENER ====================
@@ -76,9 +75,6 @@ export const signInWithEmail = async (email: string, password: string): Promise<
     logger.error('Error signing in with email:', error);
     throw error;
   }
-  
-  // After successful sign-in, migrate local data
-  await migrateLocalDataToSupabase();
 };
 
 export const signUp = async (email: string, password: string): Promise<void> => {
@@ -102,8 +98,6 @@ export const signUp = async (email: string, password: string): Promise<void> =>
   // In Supabase, signUp doesn't automatically sign in the user if email confirmation is required
   if (data.session) {
     logger.debug('Session created, user is signed in');
-    // After successful sign-up with immediate session, migrate local data
-    await migrateLocalDataToSupabase();
   } else if (data.user) {
     logger.debug('User created but needs email confirmation');
     // User needs to confirm email
@@ -0,0 +1,70 @@
+import { supabase } from './client';
+import { BarcodeMapping } from '../../types';
+import { logger } from "@/lib/logger";
+
+// Transform from DB format to app format
+const fromRow = (row: any): BarcodeMapping => ({
+  id: row.id,
+  barcode: row.barcode,
+  name: row.name,
+  size: row.size || '',
+  category: row.category || 'Other',
+  shelfLifeDays: row.shelf_life_days ?? null,
+  household_id: row.household_id
+});
+
+export const fetchBarcodeMappings = async (householdId: string): Promise<BarcodeMapping[]> => {
+  const { data, error } = await supabase
+    .from('barcode_mappings')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    logger.error('Error fetching barcode mappings:', error);
+    throw error;
+  }
+
+  return data.map(fromRow);
+};
+
+// Saving a barcode the household already mapped replaces the old mapping
+export const saveBarcodeMapping = async (
+  householdId: string,
+  mapping: Omit<BarcodeMapping, 'id'>
+): Promise<BarcodeMapping> => {
+  const { data: user } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('barcode_mappings')
+    .upsert({
+      household_id: householdId,
+      user_id: user?.user?.id,
+      barcode: mapping.barcode,
+      name: mapping.name,
+      size: mapping.size,
+      category: mapping.category,
+      shelf_life_days: mapping.shelfLifeDays
+    }, { onConflict: 'household_id,barcode' })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error saving barcode mapping:', error);
+    throw error;
+  }
+
+  return fromRow(data);
+};
+
+export const deleteBarcodeMapping = async (mappingId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('barcode_mappings')
+    .delete()
+    .eq('id', mappingId);
+
+  if (error) {
+    logger.error('Error deleting barcode mapping:', error);
+    throw error;
+  }
+};
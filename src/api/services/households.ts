@@ -0,0 +1,204 @@
+import { supabase } from './client';
+import { Household, HouseholdMember, HouseholdInvitation, HouseholdRole } from '../../types';
+import { logger } from "@/lib/logger";
+
+// Make sure the signed-in user has a household and return its id
+export const ensurePersonalHousehold = async (): Promise<string> => {
+  const { data, error } = await supabase.rpc('ensure_personal_household');
+
+  if (error) {
+    logger.error('Error ensuring personal household:', error);
+    throw error;
+  }
+
+  return data as string;
+};
+
+// Fetch every household the signed-in user belongs to, with their role
+export const fetchHouseholds = async (): Promise<Household[]> => {
+  const { data: user } = await supabase.auth.getUser();
+
+  if (!user?.user) {
+    logger.debug('No authenticated user, returning empty array');
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('household_members')
+    .select('role, households ( id, name )')
+    .eq('user_id', user.user.id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('Error fetching households:', error);
+    throw error;
+  }
+
+  // Transform from DB format to app format
+  return data
+    .filter((row: any) => row.households)
+    .map((row: any) => ({
+      id: row.households.id,
+      name: row.households.name,
+      role: row.role as HouseholdRole
+    }));
+};
+
+export const createHousehold = async (name: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('create_household', { household_name: name });
+
+  if (error) {
+    logger.error('Error creating household:', error);
+    throw error;
+  }
+
+  return data as string;
+};
+
+export const renameHousehold = async (householdId: string, name: string): Promise<void> => {
+  const { error } = await supabase
+    .from('households')
+    .update({ name })
+    .eq('id', householdId);
+
+  if (error) {
+    logger.error('Error renaming household:', error);
+    throw error;
+  }
+};
+
+export const fetchHouseholdMembers = async (householdId: string): Promise<HouseholdMember[]> => {
+  const { data, error } = await supabase
+    .from('household_members')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('Error fetching household members:', error);
+    throw error;
+  }
+
+  return data.map(member => ({
+    id: member.id,
+    householdId: member.household_id,
+    userId: member.user_id,
+    email: member.email || '',
+    role: member.role as HouseholdRole
+  }));
+};
+
+export const updateHouseholdMemberRole = async (memberId: string, role: HouseholdRole): Promise<void> => {
+  const { error } = await supabase
+    .from('household_members')
+    .update({ role })
+    .eq('id', memberId);
+
+  if (error) {
+    logger.error('Error updating household member role:', error);
+    throw error;
+  }
+};
+
+export const removeHouseholdMember = async (memberId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('household_members')
+    .delete()
+    .eq('id', memberId);
+
+  if (error) {
+    logger.error('Error removing household member:', error);
+    throw error;
+  }
+};
+
+// Fetch invitations that have not been accepted yet
+export const fetchHouseholdInvitations = async (householdId: string): Promise<HouseholdInvitation[]> => {
+  const { data, error } = await supabase
+    .from('household_invitations')
+    .select('*')
+    .eq('household_id', householdId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error('Error fetching household invitations:', error);
+    throw error;
+  }
+
+  return data.map(invitation => ({
+    id: invitation.id,
+    householdId: invitation.household_id,
+    email: invitation.email,
+    role: invitation.role,
+    token: invitation.token,
+    expiresAt: new Date(invitation.expires_at)
+  }));
+};
+
+export const inviteToHousehold = async (
+  householdId: string,
+  email: string,
+  role: Exclude<HouseholdRole, 'owner'>
+): Promise<HouseholdInvitation> => {
+  const { data: user } = await supabase.auth.getUser();
+
+  if (!user?.user) {
+    logger.error('No authenticated user');
+    throw new Error('User must be authenticated to invite members');
+  }
+
+  const { data, error } = await supabase
+    .from('household_invitations')
+    .insert([{
+      household_id: householdId,
+      email: email.trim().toLowerCase(),
+      role,
+      invited_by: user.user.id
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error creating household invitation:', error);
+    throw error;
+  }
+
+  return {
+    id: data.id,
+    householdId: data.household_id,
+    email: data.email,
+    role: data.role,
+    token: data.token,
+    expiresAt: new Date(data.expires_at)
+  };
+};
+
+export const revokeHouseholdInvitation = async (invitationId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('household_invitations')
+    .delete()
+    .eq('id', invitationId);
+
+  if (error) {
+    logger.error('Error revoking household invitation:', error);
+    throw error;
+  }
+};
+
+// Accept an invitation and return the id of the household that was joined
+export const acceptHouseholdInvitation = async (token: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('accept_household_invitation', { invite_token: token });
+
+  if (error) {
+    logger.error('Error accepting household invitation:', error);
+    throw error;
+  }
+
+  return data as string;
+};
+
+// Build the link an invitee opens to join a household
+export const getInvitationLink = (token: string): string => {
+  return `${window.location.origin}/settings?invite=${token}`;
+};
@@ -1,4 +1,6 @@
 import { supabase } from './client';
+import { v4 as uuidv4 } from 'uuid';
+import { BarcodeLookup, ImageDetection, ReceiptScan } from '../../types';
 import { logger } from "@/lib/logger";
 
 // Extract barcode from image using Gemini AI
@@ -158,7 +160,34 @@ export const recognizeImageContent = async (imageFile: File): Promise<string> =>
   return mockRecognitions[Math.floor(Math.random() * mockRecognitions.length)];
 };
 
-export const scanBarcode = async (barcodeData: string): Promise<string> => {
+// Find every item in a photo, such as an open freezer drawer, with where each one is
+export const detectImageItems = async (imageFile: File): Promise<ImageDetection[]> => {
+  const formData = new FormData();
+  formData.append('image', imageFile);
+
+  const response = await fetch(`${supabase.supabaseUrl}/functions/v1/recognize-image`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${supabase.supabaseKey}`
+    },
+    body: formData
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logger.error(`Image detection failed with status: ${response.status}`, errorText);
+    throw new Error(`Image detection failed with status: ${response.status}`);
+  }
+
+  const data = await response.json();
+  // Older deployments of the function only return one recognizedText
+  const detections: Omit<ImageDetection, 'id'>[] = data.detections
+    || (data.recognizedText ? [{ text: data.recognizedText, confidence: 1, box: null }] : []);
+
+  return detections.map(detection => ({ id: uuidv4(), ...detection }));
+};
+
+export const scanBarcode = async (barcodeData: string): Promise<BarcodeLookup> => {
   // Check if we have a valid API endpoint to call
   const apiEndpoint = `${supabase.supabaseUrl}/functions/v1/scan-barcode`;
   
@@ -181,20 +210,30 @@ export const scanBarcode = async (barcodeData: string): Promise<string> => {
       }
       
       const data = await response.json();
-      return data.productName;
+      return { productName: data.productName, product: data.product ?? null };
     }
   } catch (error) {
     logger.error('Error scanning barcode:', error);
   }
   
+  // If the edge function is unreachable, ask Open Food Facts directly (without the cache)
+  const productName = await searchOpenFoodFacts(barcodeData);
+  if (productName) {
+    return {
+      productName,
+      product: { barcode: barcodeData, name: productName, brand: '', size: '', category: 'Other', imageUrl: null, source: 'openfoodfacts' }
+    };
+  }
+  
   // If API call fails or we don't have a valid endpoint, use mock data
   logger.debug('Using mock barcode data');
   
   // Mock response
-  return `Scanned Item ${barcodeData.substring(0, 4)}`;
+  return { productName: `Scanned Item ${barcodeData.substring(0, 4)}`, product: null };
 };
 
-export const parseItemTextWithAI = async (text: string): Promise<any> => {
+// Resolves with { items, source }; splitItems: false keeps the text as one item
+export const parseItemTextWithAI = async (text: string, splitItems: boolean = true): Promise<any> => {
   try {
     logger.debug('Calling parse-item-text-with-ai edge function with URL:', supabase.supabaseUrl);
     
@@ -206,7 +245,8 @@ export const parseItemTextWithAI = async (text: string): Promise<any> => {
       },
       body: JSON.stringify({ 
         inputText: text,
-        defaultExpirationDays: 30
+        defaultExpirationDays: 30,
+        splitItems
       })
     });
     
@@ -221,4 +261,53 @@ export const parseItemTextWithAI = async (text: string): Promise<any> => {
     logger.error('Error parsing text with AI:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+// Send recorded dictation to the transcribe-audio edge function
+export const transcribeAudio = async (audio: Blob): Promise<{ transcription: string; source: string }> => {
+  const formData = new FormData();
+  formData.append('audio', audio, 'dictation.webm');
+
+  const response = await fetch(`${supabase.supabaseUrl}/functions/v1/transcribe-audio`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${supabase.supabaseKey}`
+    },
+    body: formData
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logger.error(`Transcription failed with status: ${response.status}`, errorText);
+    throw new Error(`Transcription failed with status: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Read the freezer products off a receipt photo with the scan-receipt edge function
+export const scanReceipt = async (imageFile: File): Promise<ReceiptScan> => {
+  const formData = new FormData();
+  formData.append('image', imageFile);
+
+  const response = await fetch(`${supabase.supabaseUrl}/functions/v1/scan-receipt`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${supabase.supabaseKey}`
+    },
+    body: formData
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logger.error(`Receipt scan failed with status: ${response.status}`, errorText);
+    throw new Error(`Receipt scan failed with status: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return {
+    items: data.items || [],
+    skipped: data.skipped || [],
+    source: data.source || 'unknown'
+  };
+};
@@ -0,0 +1,131 @@
+import { supabase } from './client';
+import { SharedShoppingItem, SharedShoppingList, ShoppingListShare } from '../../types';
+import { logger } from "@/lib/logger";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Transform from DB format to app format
+const fromRow = (row: any): ShoppingListShare => ({
+  id: row.id,
+  listId: row.list_id || null,
+  token: row.token,
+  expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+  createdAt: new Date(row.created_at)
+});
+
+// Links for one list (null for the main list) that still work
+export const fetchListShares = async (householdId: string, listId: string | null): Promise<ShoppingListShare[]> => {
+  const query = supabase
+    .from('shopping_list_shares')
+    .select('*')
+    .eq('household_id', householdId)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+
+  const { data, error } = await (listId ? query.eq('list_id', listId) : query.is('list_id', null))
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error('Error fetching shared list links:', error);
+    throw error;
+  }
+
+  return data.map(fromRow);
+};
+
+// Create a link to a list; it stops working after `expiresInDays`, or never when null
+export const createListShare = async (
+  householdId: string,
+  listId: string | null,
+  expiresInDays: number | null
+): Promise<ShoppingListShare> => {
+  const { data: user } = await supabase.auth.getUser();
+
+  if (!user?.user) {
+    logger.error('No authenticated user');
+    throw new Error('User must be authenticated to share a list');
+  }
+
+  const { data, error } = await supabase
+    .from('shopping_list_shares')
+    .insert([{
+      household_id: householdId,
+      list_id: listId,
+      created_by: user.user.id,
+      expires_at: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS).toISOString() : null
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error creating shared list link:', error);
+    throw error;
+  }
+
+  return fromRow(data);
+};
+
+export const revokeListShare = async (shareId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('shopping_list_shares')
+    .delete()
+    .eq('id', shareId);
+
+  if (error) {
+    logger.error('Error revoking shared list link:', error);
+    throw error;
+  }
+};
+
+// Build the link to send to whoever is doing the shopping
+export const getListShareLink = (token: string): string => {
+  return `${window.location.origin}/shared/${token}`;
+};
+
+// The shared-list edge function answers 404 with a message for links that no longer work
+const readError = async (response: Response, fallback: string): Promise<Error> => {
+  const body = await response.json().catch(() => null);
+  logger.error(`Shared list request failed with status: ${response.status}`, body);
+  return new Error(body?.error || fallback);
+};
+
+// Read a shared list by its token; works without signing in
+export const fetchSharedList = async (token: string): Promise<SharedShoppingList> => {
+  const response = await fetch(`${supabase.supabaseUrl}/functions/v1/shared-list?token=${encodeURIComponent(token)}`, {
+    headers: {
+      'Authorization': `Bearer ${supabase.supabaseKey}`
+    }
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to load the shared list');
+  }
+
+  const data = await response.json();
+  return {
+    name: data.name,
+    items: data.items || [],
+    expiresAt: data.expiresAt || null
+  };
+};
+
+export const setSharedItemCompleted = async (
+  token: string,
+  itemId: string,
+  completed: boolean
+): Promise<SharedShoppingItem> => {
+  const response = await fetch(`${supabase.supabaseUrl}/functions/v1/shared-list`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${supabase.supabaseKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ token, itemId, completed })
+  });
+
+  if (!response.ok) {
+    throw await readError(response, 'Failed to update the item');
+  }
+
+  const data = await response.json();
+  return data.item;
+};
@@ -0,0 +1,67 @@
+import { supabase } from './client';
+import { PlannedMeal } from '../../types';
+import { logger } from "@/lib/logger";
+
+// Transform from DB format to app format
+const fromRow = (row: any): PlannedMeal => ({
+  id: row.id,
+  date: row.date,
+  title: row.title,
+  mealIdeaId: row.meal_idea_id || null,
+  reservations: Array.isArray(row.reservations) ? row.reservations : [],
+  household_id: row.household_id
+});
+
+export const fetchPlannedMeals = async (householdId: string): Promise<PlannedMeal[]> => {
+  const { data, error } = await supabase
+    .from('planned_meals')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('date', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('Error fetching planned meals:', error);
+    throw error;
+  }
+
+  return data.map(fromRow);
+};
+
+// Plans the meal, or moves and updates it when it's already planned
+export const savePlannedMeal = async (householdId: string, meal: PlannedMeal): Promise<PlannedMeal> => {
+  const { data: user } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('planned_meals')
+    .upsert({
+      id: meal.id,
+      household_id: householdId,
+      user_id: user?.user?.id,
+      date: meal.date,
+      title: meal.title,
+      meal_idea_id: meal.mealIdeaId,
+      reservations: meal.reservations
+    }, { onConflict: 'id' })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error saving planned meal:', error);
+    throw error;
+  }
+
+  return fromRow(data);
+};
+
+export const deletePlannedMeal = async (mealId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('planned_meals')
+    .delete()
+    .eq('id', mealId);
+
+  if (error) {
+    logger.error('Error deleting planned meal:', error);
+    throw error;
+  }
+};
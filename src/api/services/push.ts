@@ -0,0 +1,136 @@
+import { supabase } from './client';
+import { logger } from "@/lib/logger";
+
+// The version query makes the browser install the new worker after each deploy
+const SERVICE_WORKER_URL = `/sw.js?v=${__APP_VERSION__}`;
+
+// Web Push needs a service worker, the Push API and a VAPID key to subscribe with
+export const isPushSupported = (): boolean => {
+  return 'serviceWorker' in navigator
+    && 'PushManager' in window
+    && 'Notification' in window
+    && !!import.meta.env.VITE_VAPID_PUBLIC_KEY;
+};
+
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!('serviceWorker' in navigator)) {
+    return null;
+  }
+
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (error) {
+    logger.error('Error registering service worker:', error);
+    return null;
+  }
+};
+
+// VAPID keys are distributed as URL-safe base64, PushManager wants raw bytes
+const urlBase64ToUint8Array = (base64String: string): Uint8Array => {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+const getPushSubscription = async (createIfMissing: boolean): Promise<PushSubscription | null> => {
+  const registration = createIfMissing
+    ? await registerServiceWorker()
+    : await navigator.serviceWorker.getRegistration();
+  if (!registration) {
+    return null;
+  }
+
+  const existing = await registration.pushManager.getSubscription();
+  if (existing || !createIfMissing) {
+    return existing;
+  }
+
+  // A freshly registered worker has to activate before it can subscribe
+  await navigator.serviceWorker.ready;
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(import.meta.env.VITE_VAPID_PUBLIC_KEY)
+  });
+};
+
+const savePushSubscription = async (subscription: PushSubscription): Promise<void> => {
+  const { keys } = subscription.toJSON();
+  if (!keys?.p256dh || !keys?.auth) {
+    throw new Error('Push subscription is missing encryption keys');
+  }
+
+  const { error } = await supabase.rpc('save_push_subscription', {
+    sub_endpoint: subscription.endpoint,
+    sub_p256dh: keys.p256dh,
+    sub_auth: keys.auth,
+    sub_user_agent: navigator.userAgent
+  });
+
+  if (error) {
+    logger.error('Error saving push subscription:', error);
+    throw error;
+  }
+};
+
+// Ask for permission and store this browser's subscription for the signed-in user.
+// Must be called from a user gesture; returns false if the user declined.
+export const enablePushNotifications = async (): Promise<boolean> => {
+  if (!isPushSupported()) {
+    return false;
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    logger.debug('Notification permission not granted:', permission);
+    return false;
+  }
+
+  const subscription = await getPushSubscription(true);
+  if (!subscription) {
+    return false;
+  }
+
+  await savePushSubscription(subscription);
+  return true;
+};
+
+// Re-save the subscription without prompting, e.g. after signing in on a browser
+// that already granted permission
+export const refreshPushSubscription = async (): Promise<void> => {
+  if (!isPushSupported() || Notification.permission !== 'granted') {
+    return;
+  }
+
+  try {
+    const subscription = await getPushSubscription(true);
+    if (subscription) {
+      await savePushSubscription(subscription);
+    }
+  } catch (error) {
+    logger.error('Error refreshing push subscription:', error);
+  }
+};
+
+// Stop pushes to this browser; other devices keep their subscriptions
+export const disablePushNotifications = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator)) {
+    return;
+  }
+
+  const subscription = await getPushSubscription(false);
+  if (!subscription) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('endpoint', subscription.endpoint);
+
+  if (error) {
+    logger.error('Error deleting push subscription:', error);
+  }
+
+  await subscription.unsubscribe();
+};
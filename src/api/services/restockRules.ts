@@ -0,0 +1,68 @@
+import { supabase } from './client';
+import { RestockRule } from '../../types';
+import { logger } from "@/lib/logger";
+
+// Transform from DB format to app format
+const fromRow = (row: any): RestockRule => ({
+  id: row.id,
+  name: row.name,
+  below: row.below,
+  quantity: row.quantity ?? null,
+  category: row.category || 'Other',
+  household_id: row.household_id
+});
+
+export const fetchRestockRules = async (householdId: string): Promise<RestockRule[]> => {
+  const { data, error } = await supabase
+    .from('restock_rules')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    logger.error('Error fetching restock rules:', error);
+    throw error;
+  }
+
+  return data.map(fromRow);
+};
+
+// A household has one rule per name, so saving a name again replaces its rule
+export const saveRestockRule = async (
+  householdId: string,
+  rule: Omit<RestockRule, 'id'>
+): Promise<RestockRule> => {
+  const { data: user } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('restock_rules')
+    .upsert({
+      household_id: householdId,
+      user_id: user?.user?.id,
+      name: rule.name,
+      below: rule.below,
+      quantity: rule.quantity,
+      category: rule.category
+    }, { onConflict: 'household_id,name' })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error saving restock rule:', error);
+    throw error;
+  }
+
+  return fromRow(data);
+};
+
+export const deleteRestockRule = async (ruleId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('restock_rules')
+    .delete()
+    .eq('id', ruleId);
+
+  if (error) {
+    logger.error('Error deleting restock rule:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,61 @@
+import { supabase } from './client';
+import { ShoppingList } from '../../types';
+import { logger } from "@/lib/logger";
+
+// Transform from DB format to app format
+const fromRow = (row: any): ShoppingList => ({
+  id: row.id,
+  name: row.name,
+  household_id: row.household_id
+});
+
+export const fetchShoppingLists = async (householdId: string): Promise<ShoppingList[]> => {
+  const { data, error } = await supabase
+    .from('shopping_lists')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('Error fetching shopping lists:', error);
+    throw error;
+  }
+
+  return data.map(fromRow);
+};
+
+// Creates the list, or renames it when it already exists
+export const saveShoppingList = async (householdId: string, list: ShoppingList): Promise<ShoppingList> => {
+  const { data: user } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('shopping_lists')
+    .upsert({
+      id: list.id,
+      household_id: householdId,
+      user_id: user?.user?.id,
+      name: list.name
+    }, { onConflict: 'id' })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error saving shopping list:', error);
+    throw error;
+  }
+
+  return fromRow(data);
+};
+
+// The list's items are deleted with it
+export const deleteShoppingList = async (listId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('shopping_lists')
+    .delete()
+    .eq('id', listId);
+
+  if (error) {
+    logger.error('Error deleting shopping list:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,64 @@
+import { supabase } from './client';
+import { StoreLayout } from '../../types';
+import { logger } from "@/lib/logger";
+
+// Transform from DB format to app format
+const fromRow = (row: any): StoreLayout => ({
+  id: row.id,
+  name: row.name,
+  categoryOrder: row.category_order || [],
+  household_id: row.household_id
+});
+
+export const fetchStoreLayouts = async (householdId: string): Promise<StoreLayout[]> => {
+  const { data, error } = await supabase
+    .from('store_layouts')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    logger.error('Error fetching store layouts:', error);
+    throw error;
+  }
+
+  return data.map(fromRow);
+};
+
+// A household has one layout per store name, so saving a name again replaces its aisle order
+export const saveStoreLayout = async (
+  householdId: string,
+  layout: Omit<StoreLayout, 'id'>
+): Promise<StoreLayout> => {
+  const { data: user } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('store_layouts')
+    .upsert({
+      household_id: householdId,
+      user_id: user?.user?.id,
+      name: layout.name,
+      category_order: layout.categoryOrder
+    }, { onConflict: 'household_id,name' })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error saving store layout:', error);
+    throw error;
+  }
+
+  return fromRow(data);
+};
+
+export const deleteStoreLayout = async (layoutId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('store_layouts')
+    .delete()
+    .eq('id', layoutId);
+
+  if (error) {
+    logger.error('Error deleting store layout:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,59 @@
+import { supabase } from './client';
+import { PlannedMeal, ThawReminder } from '../../types';
+import { logger } from "@/lib/logger";
+
+/**
+ * Replace a planned meal's thaw reminders. Ones that have already been pushed are
+ * kept and not scheduled again; send-expiry-notifications sends the rest on the day
+ */
+export const scheduleThawReminders = async (
+  householdId: string,
+  meal: PlannedMeal,
+  reminders: ThawReminder[]
+): Promise<void> => {
+  const { data: sent, error: sentError } = await supabase
+    .from('thaw_reminders')
+    .select('freezer_item_id')
+    .eq('planned_meal_id', meal.id)
+    .not('sent_at', 'is', null);
+
+  if (sentError) {
+    logger.error('Error fetching sent thaw reminders:', sentError);
+    throw sentError;
+  }
+
+  const { error: deleteError } = await supabase
+    .from('thaw_reminders')
+    .delete()
+    .eq('planned_meal_id', meal.id)
+    .is('sent_at', null);
+
+  if (deleteError) {
+    logger.error('Error clearing thaw reminders:', deleteError);
+    throw deleteError;
+  }
+
+  const sentItemIds = new Set((sent || []).map(row => row.freezer_item_id));
+  const rows = reminders
+    .filter(reminder => !sentItemIds.has(reminder.freezerItemId))
+    .map(reminder => ({
+      household_id: householdId,
+      planned_meal_id: meal.id,
+      freezer_item_id: reminder.freezerItemId,
+      item_name: reminder.itemName,
+      meal_title: meal.title,
+      meal_date: meal.date,
+      remind_on: reminder.remindOn
+    }));
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('thaw_reminders')
+    .insert(rows);
+
+  if (error) {
+    logger.error('Error scheduling thaw reminders:', error);
+    throw error;
+  }
+};
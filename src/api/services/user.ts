@@ -43,6 +43,8 @@ export const fetchUserSettings = async (): Promise<UserSettings | null> => {
       theme: data.theme as 'light' | 'dark' | 'system',
       notifications: data.notifications,
       notificationTiming: data.notification_timing || 3,
+      emailDigest: data.email_digest ?? false,
+      emailDigestFrequency: data.email_digest_frequency || 'weekly',
       dietary: {
         vegetarian: data.dietary?.vegetarian || false,
         vegan: data.dietary?.vegan || false,
@@ -88,6 +90,8 @@ export const saveUserSettings = async (settings: UserSettings): Promise<void> =>
       theme: settings.theme,
       notifications: settings.notifications,
       notification_timing: settings.notificationTiming,
+      email_digest: settings.emailDigest,
+      email_digest_frequency: settings.emailDigestFrequency,
       dietary: settings.dietary,
       updated_at: new Date().toISOString()
     };
@@ -3,10 +3,18 @@
 
 export { supabase, initSupabase } from './services/client';
 export { setupAuthListener, handleAuthRedirect, signInWithGoogle, signInWithEmail, signUp, signOut, getCurrentUser } from './services/auth';
-export { migrateLocalDataToSupabase } from './services/migration';
 
-export { fetchFreezerItems, addFreezerItem, updateFreezerItem, deleteFreezerItem, subscribeToFreezerItems } from './services/freezer';
-export { fetchShoppingItems, addShoppingItem, updateShoppingItem, deleteShoppingItem, subscribeToShoppingItems } from './services/shopping';
+export { subscribeToShoppingItems } from './services/shopping';
+export { fetchShoppingLists, saveShoppingList, deleteShoppingList } from './services/shoppingLists';
+export { fetchListShares, createListShare, revokeListShare, getListShareLink, fetchSharedList, setSharedItemCompleted } from './services/listShares';
+export { fetchPlannedMeals, savePlannedMeal, deletePlannedMeal } from './services/mealPlan';
+export { scheduleThawReminders } from './services/thawReminders';
 export { fetchMealIdeas, generateMealIdeas, updateMealIdea, addMealIdea, deleteMealIdea } from './services/mealIdeas';
 export { fetchUserSettings, saveUserSettings } from './services/user';
-export { extractBarcodeFromImage, searchOpenFoodFacts, recognizeImageContent, scanBarcode, parseItemTextWithAI } from './services/images';
\ No newline at end of file
+export { extractBarcodeFromImage, searchOpenFoodFacts, recognizeImageContent, detectImageItems, scanBarcode, parseItemTextWithAI, transcribeAudio, scanReceipt } from './services/images';
+export { fetchBarcodeMappings, saveBarcodeMapping, deleteBarcodeMapping } from './services/barcodeMappings';
+export { fetchRestockRules, saveRestockRule, deleteRestockRule } from './services/restockRules';
+export { fetchStoreLayouts, saveStoreLayout, deleteStoreLayout } from './services/storeLayouts';
+export { ensurePersonalHousehold, fetchHouseholds, createHousehold, renameHousehold, fetchHouseholdMembers, updateHouseholdMemberRole, removeHouseholdMember, fetchHouseholdInvitations, inviteToHousehold, revokeHouseholdInvitation, acceptHouseholdInvitation, getInvitationLink } from './services/households';
+
+export { isPushSupported, registerServiceWorker, enablePushNotifications, refreshPushSubscription, disablePushNotifications } from './services/push';
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { GripVertical, ChevronUp, ChevronDown } from 'lucide-react';
+import { moveCategory } from '../utils/aisleUtils';
+
+interface AisleOrderEditorProps {
+  storeName: string;
+  order: string[];
+  onChange: (order: string[]) => void;
+  onDeleteStore?: () => void;
+}
+
+// Drag sections into the order the store's aisles are walked; the arrows do the same from the keyboard
+const AisleOrderEditor: React.FC<AisleOrderEditorProps> = ({
+  storeName,
+  order,
+  onChange,
+  onDeleteStore
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null) {
+      onChange(moveCategory(order, dragIndex, index));
+    }
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  const arrowClassName = 'text-slate-400 dark:text-slate-500 hover:text-blue-500 dark:hover:text-blue-400 disabled:opacity-30 disabled:hover:text-slate-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded p-1';
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-100 dark:border-slate-700 p-4 mb-4">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-medium text-slate-800 dark:text-slate-100">Aisle order at {storeName}</h3>
+        {onDeleteStore && (
+          <button
+            onClick={onDeleteStore}
+            className="text-sm text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300"
+          >
+            Delete store
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-slate-500 dark:text-slate-300 mb-3">
+        Drag the sections into the order you walk past them.
+      </p>
+      <ol className="space-y-1" aria-label={`Aisle order at ${storeName}`}>
+        {order.map((category, index) => (
+          <li
+            key={category}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setOverIndex(index);
+            }}
+            onDragLeave={() => setOverIndex(current => (current === index ? null : current))}
+            onDrop={(e) => handleDrop(e, index)}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setOverIndex(null);
+            }}
+            className={`flex items-center gap-2 px-2 py-1.5 rounded-md border cursor-move ${
+              overIndex === index && dragIndex !== index
+                ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/30'
+                : 'border-slate-200 dark:border-slate-700'
+            } ${dragIndex === index ? 'opacity-50' : ''}`}
+          >
+            <GripVertical size={16} className="text-slate-400 dark:text-slate-500 flex-shrink-0" aria-hidden="true" />
+            <span className="text-xs text-slate-500 dark:text-slate-400 w-5">{index + 1}</span>
+            <span className="flex-1 text-sm text-slate-700 dark:text-slate-200">{category}</span>
+            <button
+              type="button"
+              onClick={() => onChange(moveCategory(order, index, index - 1))}
+              disabled={index === 0}
+              className={arrowClassName}
+              aria-label={`Move ${category} earlier`}
+            >
+              <ChevronUp size={16} aria-hidden="true" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(moveCategory(order, index, index + 1))}
+              disabled={index === order.length - 1}
+              className={arrowClassName}
+              aria-label={`Move ${category} later`}
+            >
+              <ChevronDown size={16} aria-hidden="true" />
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default AisleOrderEditor;
@@ -0,0 +1,273 @@
+import React, { useRef, useState } from 'react';
+import { Upload, FileJson, FileSpreadsheet, Loader, AlertTriangle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useStorage } from '../store/StorageContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { useHousehold } from '../contexts/HouseholdContext';
+import {
+  BackupCollection,
+  ImportPlan,
+  collectionLabels,
+  createBackup,
+  backupToJson,
+  collectionToCsv,
+  parseBackupFile,
+  planImport
+} from '../utils/backupUtils';
+import { logger } from "@/lib/logger";
+
+const collections: BackupCollection[] = ['freezerItems', 'shoppingItems', 'mealIdeas'];
+
+const MAX_ISSUES_SHOWN = 5;
+
+const downloadFile = (fileName: string, contents: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const BackupSettings: React.FC = () => {
+  const storage = useStorage();
+  const { settings, updateSettings } = useSettings();
+  const { canEdit } = useHousehold();
+  // Guests always edit their own local data; viewers can't add to a shared household
+  const canImport = !storage.isAuthenticated || canEdit;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [includeSettings, setIncludeSettings] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const existingData = () => ({
+    freezerItems: storage.freezerItems.items,
+    shoppingItems: storage.shoppingItems.items,
+    mealIdeas: storage.mealIdeas.items,
+    shoppingLists: storage.shoppingLists.lists
+  });
+
+  const dateStamp = new Date().toISOString().slice(0, 10);
+
+  const handleExportJson = () => {
+    const backup = createBackup(existingData(), settings);
+    downloadFile(`frostie-backup-${dateStamp}.json`, backupToJson(backup), 'application/json');
+  };
+
+  const handleExportCsv = () => {
+    const data = existingData();
+    collections.forEach(collection => {
+      const fileSuffix = collection.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+      downloadFile(`frostie-${fileSuffix}-${dateStamp}.csv`, collectionToCsv(collection, data[collection]), 'text/csv');
+    });
+  };
+
+  const resetImport = () => {
+    setPlan(null);
+    setFileName('');
+    setIncludeDuplicates(false);
+    setIncludeSettings(false);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const raw = parseBackupFile(file.name, await file.text());
+      const nextPlan = planImport(raw, existingData(), settings);
+      setPlan(nextPlan);
+      setFileName(file.name);
+      setIncludeSettings(nextPlan.settings !== null);
+    } catch (err) {
+      logger.error('Error reading import file:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not read the file');
+      resetImport();
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+
+    setIsImporting(true);
+    let imported = 0;
+    let failed = 0;
+
+    // Go through the storage context so imports land in whichever backend is active
+    const importAll = async <T,>(items: T[], addItem: (item: T) => Promise<T>) => {
+      for (const item of items) {
+        try {
+          await addItem(item);
+          imported++;
+        } catch (err) {
+          logger.error('Error importing record:', err);
+          failed++;
+        }
+      }
+    };
+
+    const pick = <T,>(collectionPlan: { items: T[]; duplicates: T[] }) =>
+      includeDuplicates ? [...collectionPlan.items, ...collectionPlan.duplicates] : collectionPlan.items;
+
+    try {
+      await importAll(pick(plan.freezerItems), storage.freezerItems.addItem);
+      await importAll(pick(plan.shoppingItems), storage.shoppingItems.addItem);
+      await importAll(pick(plan.mealIdeas), storage.mealIdeas.addItem);
+
+      if (includeSettings && plan.settings) {
+        updateSettings(plan.settings);
+      }
+
+      if (failed > 0) {
+        toast.error(`Imported ${imported} records, ${failed} failed`);
+      } else {
+        toast.success(`Imported ${imported} record${imported === 1 ? '' : 's'}`);
+      }
+      resetImport();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const newCount = plan ? collections.reduce((sum, c) => sum + plan[c].items.length, 0) : 0;
+  const duplicateCount = plan ? collections.reduce((sum, c) => sum + plan[c].duplicates.length, 0) : 0;
+  const importCount = newCount + (includeDuplicates ? duplicateCount : 0);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Export</h4>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleExportJson}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors"
+          >
+            <FileJson size={18} aria-hidden="true" />
+            <span>JSON backup</span>
+          </button>
+          <button
+            onClick={handleExportCsv}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-md transition-colors"
+          >
+            <FileSpreadsheet size={18} aria-hidden="true" />
+            <span>CSV files</span>
+          </button>
+        </div>
+        <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+          The JSON backup includes everything, including your settings. CSV downloads one spreadsheet each for freezer items, shopping items and meal ideas.
+        </p>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Import</h4>
+        {!canImport && (
+          <p className="mb-2 text-sm text-slate-500 dark:text-slate-400">
+            Viewers can't import into this household.
+          </p>
+        )}
+        <label className={`inline-flex items-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 rounded-md transition-colors ${
+          canImport ? 'hover:bg-slate-50 dark:hover:bg-slate-700 cursor-pointer' : 'opacity-50 cursor-not-allowed'
+        }`}>
+          <Upload size={18} aria-hidden="true" />
+          <span>Choose a JSON or CSV file</span>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            onChange={handleFileSelected}
+            disabled={!canImport}
+            className="sr-only"
+          />
+        </label>
+
+        {plan && (
+          <div className="mt-4 p-4 bg-slate-50 dark:bg-slate-700/50 rounded-lg text-sm text-slate-700 dark:text-slate-300">
+            <p className="font-medium mb-2">{fileName}</p>
+            <ul className="space-y-1 mb-3">
+              {collections
+                .filter(collection => plan[collection].items.length + plan[collection].duplicates.length > 0)
+                .map(collection => (
+                  <li key={collection}>
+                    {collectionLabels[collection]}: {plan[collection].items.length} new
+                    {plan[collection].duplicates.length > 0 && `, ${plan[collection].duplicates.length} already in Frostie`}
+                  </li>
+                ))}
+            </ul>
+
+            {plan.issues.length > 0 && (
+              <div className="mb-3 text-orange-600 dark:text-orange-400">
+                <p className="flex items-center gap-1 font-medium">
+                  <AlertTriangle size={16} aria-hidden="true" />
+                  {plan.issues.length} row{plan.issues.length === 1 ? '' : 's'} will be skipped
+                </p>
+                <ul className="list-disc pl-5 mt-1">
+                  {plan.issues.slice(0, MAX_ISSUES_SHOWN).map((issue, index) => (
+                    <li key={index}>
+                      {issue.collection === 'settings' ? 'Settings' : collectionLabels[issue.collection]}, row {issue.row}: {issue.message}
+                    </li>
+                  ))}
+                  {plan.issues.length > MAX_ISSUES_SHOWN && (
+                    <li>and {plan.issues.length - MAX_ISSUES_SHOWN} more</li>
+                  )}
+                </ul>
+              </div>
+            )}
+
+            {duplicateCount > 0 && (
+              <label className="flex items-center space-x-3 mb-2">
+                <input
+                  type="checkbox"
+                  checked={includeDuplicates}
+                  onChange={() => setIncludeDuplicates(!includeDuplicates)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-slate-300 dark:border-slate-600 rounded"
+                />
+                <span>Import duplicates anyway</span>
+              </label>
+            )}
+
+            {plan.settings && (
+              <label className="flex items-center space-x-3 mb-2">
+                <input
+                  type="checkbox"
+                  checked={includeSettings}
+                  onChange={() => setIncludeSettings(!includeSettings)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-slate-300 dark:border-slate-600 rounded"
+                />
+                <span>Replace my settings with the ones in this backup</span>
+              </label>
+            )}
+
+            <div className="flex gap-2 mt-4">
+              <button
+                onClick={handleImport}
+                disabled={isImporting || (importCount === 0 && !(includeSettings && plan.settings))}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isImporting ? <Loader size={18} className="animate-spin" aria-hidden="true" /> : <Upload size={18} aria-hidden="true" />}
+                <span>Import {importCount} record{importCount === 1 ? '' : 's'}</span>
+              </button>
+              <button
+                onClick={resetImport}
+                disabled={isImporting}
+                className="px-4 py-2 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupSettings;
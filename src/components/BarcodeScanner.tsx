@@ -1,16 +1,29 @@
 import React, { useState, useEffect, useRef, useReducer, useCallback } from 'react';
-import { X, CameraOff, AlertCircle, Loader, Camera, CheckCircle, Square } from 'lucide-react';
+import { X, CameraOff, AlertCircle, Loader, Camera, CheckCircle, Square, PencilLine, ListPlus, ListChecks } from 'lucide-react';
 import { Html5Qrcode, Html5QrcodeSupportedFormats, Html5QrcodeScannerState } from 'html5-qrcode';
-import { searchOpenFoodFacts, extractBarcodeFromImage } from '../api/supabase';
+import { useNavigate } from 'react-router-dom';
+import { scanBarcode, extractBarcodeFromImage } from '../api/supabase';
 import { validateBarcode, getBarcodeFormat, calculateBarcodeConfidence, attemptBarcodeRepair, areSimilarBarcodes } from '../utils/barcodeUtils';
+import { parseItemLabel } from '../utils/labelUtils';
 import useFocusTrap from '../hooks/useFocusTrap';
+import BatchScanReview from './BatchScanReview';
+import { BarcodeMapping, ScannedItem } from '../types';
 import { logger } from "@/lib/logger";
 
 interface BarcodeScannerProps {
   onClose: () => void;
-  onBarcodeDetected: (barcode: string, productName: string | null) => void;
+  // productName is null when the user chooses to name an unknown product themselves
+  onBarcodeDetected: (barcode: string, productName: string | null, mapping?: BarcodeMapping) => void;
+  // The household's saved mapping for a barcode, checked before the product lookup
+  findMapping?: (barcode: string) => BarcodeMapping | null;
+  // Enables batch mode, which collects scans and hands them over in one go
+  onBatchConfirm?: (items: ScannedItem[]) => Promise<void> | void;
 }
 
+// The camera keeps reading a barcode while it's in frame; a read of the same code within
+// this window is the same package, after it another one of the same product
+const REPEAT_READ_MS = 2500;
+
 // State and actions for reducer
 interface ScannerState {
   scanActive: boolean;
@@ -126,7 +139,7 @@ function scannerReducer(state: ScannerState, action: ScannerAction): ScannerStat
   }
 }
 
-const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onClose, onBarcodeDetected }) => {
+const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onClose, onBarcodeDetected, findMapping, onBatchConfirm }) => {
   // Use reducer for state management
   const [state, dispatch] = useReducer(scannerReducer, {
     scanActive: false,
@@ -146,6 +159,25 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onClose, onBarcodeDetec
   });
   
   const [scanSucceeded, setScanSucceeded] = useState(false);
+  // Last barcode no provider knew, so the user can name it instead of rescanning
+  const [unknownBarcode, setUnknownBarcode] = useState<string | null>(null);
+  const navigate = useNavigate();
+  
+  // Batch mode state; the refs are read from the camera callback, which outlives renders
+  const [isBatchMode, setIsBatchMode] = useState(false);
+  const [batchItems, setBatchItems] = useState<ScannedItem[]>([]);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [isSavingBatch, setIsSavingBatch] = useState(false);
+  const [lastBatchMessage, setLastBatchMessage] = useState<string | null>(null);
+  const batchModeRef = useRef(false);
+  const reviewingRef = useRef(false);
+  const lastReadRef = useRef<{ barcode: string; at: number } | null>(null);
+  const batchItemsRef = useRef<ScannedItem[]>([]);
+  
+  const updateBatchItems = useCallback((update: (items: ScannedItem[]) => ScannedItem[]) => {
+    batchItemsRef.current = update(batchItemsRef.current);
+    setBatchItems(batchItemsRef.current);
+  }, []);
   
   const scannerRef = useRef<HTMLDivElement>(null);
   const processingRef = useRef(false); // Track if we're already processing
@@ -350,7 +382,9 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onClose, onBarcodeDetec
           Html5QrcodeSupportedFormats.UPC_E,
           Html5QrcodeSupportedFormats.CODE_128,
           Html5QrcodeSupportedFormats.CODE_39,
-          Html5QrcodeSupportedFormats.CODE_93
+          Html5QrcodeSupportedFormats.CODE_93,
+          // Frostie's own printed labels
+          Html5QrcodeSupportedFormats.QR_CODE
         ],
         rememberLastUsedCamera: true,
         aspectRatio: isMobileDevice ? 1.333 : undefined
@@ -415,24 +449,93 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onClose, onBarcodeDetec
     }
   }, [checkCameraPermissions, isMobile, stopScanner, state.cameraReady, scanSucceeded]);
 
+  // Let the camera pick up the next barcode
+  const releaseScanner = useCallback(() => {
+    dispatch({ type: 'RESET_SCANNER' });
+    processingRef.current = false;
+  }, []);
+
+  // Add a scan to the batch list, bumping the quantity for a product already in it
+  const addToBatch = useCallback(async (barcode: string) => {
+    const now = Date.now();
+    const lastRead = lastReadRef.current;
+    if (reviewingRef.current || (lastRead && lastRead.barcode === barcode && now - lastRead.at < REPEAT_READ_MS)) {
+      releaseScanner();
+      return;
+    }
+    lastReadRef.current = { barcode, at: now };
+
+    // Another package of a product already in the list
+    const existing = batchItemsRef.current.find(item => item.barcode === barcode);
+    if (existing) {
+      updateBatchItems(items => items.map(item => item.barcode === barcode ? { ...item, quantity: item.quantity + 1 } : item));
+      setLastBatchMessage(`${existing.name || barcode} × ${existing.quantity + 1}`);
+    } else {
+      let scanned: ScannedItem;
+      const mapping = findMapping?.(barcode);
+      if (mapping) {
+        scanned = { barcode, name: mapping.name, size: mapping.size, category: mapping.category, quantity: 1, shelfLifeDays: mapping.shelfLifeDays, found: true };
+      } else {
+        dispatch({ type: 'PRODUCT_SEARCH_START' });
+        const { product } = await scanBarcode(barcode);
+        scanned = product
+          ? { barcode, name: [product.brand, product.name].filter(Boolean).join(' '), size: product.size, category: product.category, quantity: 1, shelfLifeDays: null, found: true }
+          : { barcode, name: '', size: '', category: 'Other', quantity: 1, shelfLifeDays: null, found: false };
+      }
+
+      updateBatchItems(items => [...items, scanned]);
+      setLastBatchMessage(scanned.found ? `Added ${scanned.name}` : `Added unknown barcode ${barcode}`);
+    }
+    dispatch({ type: 'PRODUCT_SEARCH_SUCCESS' });
+
+    // Give the shopper a moment to move the package out of frame
+    setTimeout(releaseScanner, 800);
+  }, [findMapping, releaseScanner, updateBatchItems]);
+
   // Process the detected barcode
   const processBarcode = useCallback(async (barcode: string) => {
     try {
       logger.debug(`Processing detected barcode: ${barcode}`);
       
+      // A Frostie label opens the item instead of looking up a product
+      const labelItemId = parseItemLabel(barcode);
+      if (labelItemId) {
+        logger.debug(`Scanned label for item ${labelItemId}`);
+        setScanSucceeded(true);
+        onClose();
+        navigate(`/freezer?item=${encodeURIComponent(labelItemId)}`);
+        return;
+      }
+      
+      if (batchModeRef.current) {
+        await addToBatch(barcode);
+        return;
+      }
+      
+      // Products the household named before win over every lookup
+      const mapping = findMapping?.(barcode);
+      if (mapping) {
+        logger.debug(`Barcode ${barcode} matches saved mapping for ${mapping.barcode}`);
+        onBarcodeDetected(barcode, [mapping.name, mapping.size].filter(Boolean).join(' '), mapping);
+        setScanSucceeded(true);
+        return;
+      }
+      
       // Start product search
+      setUnknownBarcode(null);
       dispatch({ type: 'PRODUCT_SEARCH_START' });
       
-      // Look up the product name using the Open Food Facts API
-      const productName = await searchOpenFoodFacts(barcode);
+      // Look up the product through the local cache and Open Food Facts
+      const { productName, product } = await scanBarcode(barcode);
       
-      if (productName) {
+      if (product) {
         logger.debug(`Product found: ${productName}`);
         dispatch({ type: 'PRODUCT_SEARCH_SUCCESS' });
         onBarcodeDetected(barcode, productName);
         setScanSucceeded(true);
       } else {
         logger.debug(`Product with barcode ${barcode} not found`);
+        setUnknownBarcode(barcode);
         dispatch({ type: 'PRODUCT_SEARCH_FAILED' });
         
         // Wait a moment to show the failure message, then reset
@@ -451,7 +554,7 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onClose, onBarcodeDetec
         processingRef.current = false;
       }, 2000);
     }
-  }, [onBarcodeDetected]);
+  }, [onBarcodeDetected, onClose, navigate, findMapping, addToBatch]);
 
   // Process the captured frame for barcode detection
   const processFrame = useCallback(async () => {
@@ -516,9 +619,16 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onClose, onBarcodeDetec
     }
   }, [state.isProcessing, state.isSearching, scanSucceeded, captureFrame]);
 
+  // Hand an unknown barcode back so the user can name the product
+  const handleNameProduct = useCallback(() => {
+    if (!unknownBarcode) return;
+    onBarcodeDetected(unknownBarcode, null);
+  }, [unknownBarcode, onBarcodeDetected]);
+
   // Handle "Scan Next Item" button click
   const handleScanNextItem = useCallback(() => {
     setScanSucceeded(false);
+    setUnknownBarcode(null);
     processingRef.current = false;
     dispatch({ type: 'RESET_SCANNER' });
     
@@ -528,6 +638,43 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onClose, onBarcodeDetec
     }, 300);
   }, [initializeScanner]);
 
+  const handleToggleBatchMode = () => {
+    const next = !isBatchMode;
+    batchModeRef.current = next;
+    setIsBatchMode(next);
+    setLastBatchMessage(null);
+    if (scanSucceeded) {
+      handleScanNextItem();
+    }
+  };
+
+  const handleReviewBatch = (reviewing: boolean) => {
+    reviewingRef.current = reviewing;
+    setIsReviewing(reviewing);
+  };
+
+  const handleBatchItemChange = (index: number, changes: Partial<ScannedItem>) => {
+    updateBatchItems(items => items.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  const handleBatchItemRemove = (index: number) => {
+    updateBatchItems(items => items.filter((_, i) => i !== index));
+  };
+
+  const handleConfirmBatch = async () => {
+    if (!onBatchConfirm || batchItems.length === 0) return;
+    
+    setIsSavingBatch(true);
+    try {
+      await onBatchConfirm(batchItems);
+      onClose();
+    } catch (error) {
+      logger.error('Error adding batch:', error);
+    } finally {
+      setIsSavingBatch(false);
+    }
+  };
+
   // Debounced window resize handler
   const handleResize = useCallback(() => {
     // Cancel any pending resize
@@ -728,6 +875,53 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onClose, onBarcodeDetec
           </div>
         )}
 
+        {/* Last batch scan, so the shopper knows it counted */}
+        {isBatchMode && lastBatchMessage && (
+          <div className="absolute top-20 left-0 right-0 flex justify-center" aria-live="polite">
+            <div className="px-4 py-2 rounded-full text-sm font-medium text-white bg-green-600/80">
+              <CheckCircle size={16} className="inline-block mr-1" aria-hidden="true" />
+              <span>{lastBatchMessage}</span>
+            </div>
+          </div>
+        )}
+
+        {/* Batch list summary */}
+        {isBatchMode && batchItems.length > 0 && (
+          <div className="absolute bottom-4 left-0 right-0 flex justify-center">
+            <button
+              onClick={() => handleReviewBatch(true)}
+              className="bg-blue-600 text-white px-6 py-3 rounded-lg shadow-lg flex items-center justify-center focus-visible:ring-2 focus-visible:ring-blue-300 focus-visible:ring-offset-2 focus-visible:outline-none"
+            >
+              <ListChecks size={20} className="mr-2" aria-hidden="true" />
+              Review {batchItems.reduce((sum, item) => sum + item.quantity, 0)} scanned
+            </button>
+          </div>
+        )}
+
+        {isReviewing && (
+          <BatchScanReview
+            items={batchItems}
+            isSaving={isSavingBatch}
+            onChange={handleBatchItemChange}
+            onRemove={handleBatchItemRemove}
+            onContinue={() => handleReviewBatch(false)}
+            onConfirm={handleConfirmBatch}
+          />
+        )}
+
+        {/* Name an unknown product instead of scanning it again */}
+        {unknownBarcode && !state.isSearching && !scanSucceeded && (
+          <div className="absolute bottom-48 left-0 right-0 flex justify-center">
+            <button
+              onClick={handleNameProduct}
+              className="bg-white/90 dark:bg-slate-800/90 text-slate-800 dark:text-slate-100 px-4 py-2 rounded-lg shadow-lg flex items-center justify-center text-sm focus-visible:ring-2 focus-visible:ring-blue-300 focus-visible:ring-offset-2 focus-visible:outline-none"
+            >
+              <PencilLine size={16} className="mr-2" aria-hidden="true" />
+              Name product {unknownBarcode}
+            </button>
+          </div>
+        )}
+
         {/* Capture button - only show when not processing and scan hasn't succeeded */}
         {!state.isProcessing && !state.isSearching && !state.isCapturing && !scanSucceeded && (
           <div className="absolute bottom-24 left-0 right-0 flex justify-center">
@@ -768,7 +962,21 @@ const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onClose, onBarcodeDetec
       {/* Header with just the close button */}
       <div className="relative z-10 p-4 flex justify-between items-center">
         <h2 id="barcode-scanner-title" className="text-white text-lg font-medium sr-only">Barcode Scanner</h2>
-        <div></div> {/* Empty div for flex spacing */}
+        {onBatchConfirm ? (
+          <button
+            onClick={handleToggleBatchMode}
+            disabled={isReviewing}
+            className={`px-3 py-2 rounded-full text-sm flex items-center gap-1 text-white focus-visible:ring-2 focus-visible:ring-white focus-visible:ring-opacity-50 ${
+              isBatchMode ? 'bg-blue-600 hover:bg-blue-700' : 'bg-black/50 hover:bg-black/70'
+            }`}
+            aria-pressed={isBatchMode}
+          >
+            <ListPlus size={18} aria-hidden="true" />
+            <span>Batch</span>
+          </button>
+        ) : (
+          <div></div> /* Empty div for flex spacing */
+        )}
         <button
           onClick={onClose}
           className="p-2 rounded-full bg-black/50 text-white hover:bg-black/70 focus-visible:ring-2 focus-visible:ring-white focus-visible:ring-opacity-50"
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Trash2, Camera, Check, Loader, AlertCircle } from 'lucide-react';
+import { ScannedItem } from '../types';
+import { getCategories } from '../data/categories';
+
+interface BatchScanReviewProps {
+  items: ScannedItem[];
+  isSaving: boolean;
+  onChange: (index: number, changes: Partial<ScannedItem>) => void;
+  onRemove: (index: number) => void;
+  onContinue: () => void;
+  onConfirm: () => void;
+}
+
+const inputClassName = "px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-md dark:bg-slate-700 dark:text-slate-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500";
+
+// The list of everything scanned in batch mode, with per-row edits before adding
+const BatchScanReview: React.FC<BatchScanReviewProps> = ({
+  items,
+  isSaving,
+  onChange,
+  onRemove,
+  onContinue,
+  onConfirm
+}) => {
+  const total = items.reduce((sum, item) => sum + item.quantity, 0);
+  const hasUnnamed = items.some(item => !item.name.trim());
+
+  return (
+    <div className="absolute inset-0 bg-white dark:bg-slate-800 flex flex-col">
+      <div className="p-4 border-b border-slate-200 dark:border-slate-700">
+        <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100">Review scanned items</h3>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          {items.length} product{items.length === 1 ? '' : 's'}, {total} item{total === 1 ? '' : 's'} in total
+        </p>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700">
+        {items.map((item, index) => (
+          <li key={item.barcode} className="p-4 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={item.name}
+                onChange={e => onChange(index, { name: e.target.value })}
+                placeholder="What is this?"
+                className={`${inputClassName} flex-1 min-w-0`}
+                aria-label={`Name for barcode ${item.barcode}`}
+              />
+              <button
+                onClick={() => onRemove(index)}
+                className="text-slate-400 dark:text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors focus-visible:ring-2 focus-visible:ring-red-500 rounded-full p-1"
+                aria-label={`Remove ${item.name || item.barcode}`}
+              >
+                <Trash2 size={18} aria-hidden="true" />
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="flex items-center gap-1 text-sm text-slate-600 dark:text-slate-300">
+                Qty
+                <input
+                  type="number"
+                  min={1}
+                  value={item.quantity}
+                  onChange={e => onChange(index, { quantity: Math.max(1, Number(e.target.value) || 1) })}
+                  className={`${inputClassName} w-16`}
+                />
+              </label>
+              <input
+                type="text"
+                value={item.size}
+                onChange={e => onChange(index, { size: e.target.value })}
+                placeholder="Size"
+                className={`${inputClassName} w-24`}
+                aria-label="Size"
+              />
+              <select
+                value={item.category}
+                onChange={e => onChange(index, { category: e.target.value })}
+                className={`${inputClassName} flex-1 min-w-[8rem]`}
+                aria-label="Category"
+              >
+                {getCategories().map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+            </div>
+            {!item.found && (
+              <p className="flex items-center gap-1 text-xs text-orange-600 dark:text-orange-400">
+                <AlertCircle size={12} aria-hidden="true" />
+                Barcode {item.barcode} wasn't recognised
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex gap-2">
+        <button
+          onClick={onContinue}
+          disabled={isSaving}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-md transition-colors"
+        >
+          <Camera size={18} aria-hidden="true" />
+          <span>Keep scanning</span>
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={isSaving || items.length === 0 || hasUnnamed}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? <Loader size={18} className="animate-spin" aria-hidden="true" /> : <Check size={18} aria-hidden="true" />}
+          <span>Add {total} to freezer</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchScanReview;
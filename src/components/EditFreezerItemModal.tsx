@@ -3,7 +3,10 @@ import { X, Calendar, Tag, Plus, XCircle, Image } from 'lucide-react';
 import { FreezerItem } from '../types';
 import AccessibleDatepicker from './AccessibleDatepicker';
 import { getCategories } from '../data/categories';
+import { getLocations, DEFAULT_LOCATION } from '../data/locations';
 import useFocusTrap from '../hooks/useFocusTrap';
+import { useStorage } from '../store/StorageContext';
+import { findRestockRule } from '../utils/restockUtils';
 import { logger } from "@/lib/logger";
 
 interface EditFreezerItemModalProps {
@@ -12,7 +15,8 @@ interface EditFreezerItemModalProps {
   onClose: () => void;
   onSave: (updatedItem: FreezerItem) => void;
   categories: string[];
-  source?: 'text' | 'voice' | 'image' | 'barcode' | 'manual'; // Added source prop
+  locations?: string[];
+  source?: 'text' | 'voice' | 'image' | 'barcode' | 'receipt' | 'shopping' | 'manual'; // Added source prop
 }
 
 const EditFreezerItemModal: React.FC<EditFreezerItemModalProps> = ({
@@ -21,6 +25,7 @@ const EditFreezerItemModal: React.FC<EditFreezerItemModalProps> = ({
   onClose,
   onSave,
   categories: propCategories,
+  locations: propLocations = [],
   source = 'manual' // Default to 'manual' if not specified
 }) => {
   const [name, setName] = useState(item.name);
@@ -33,6 +38,14 @@ const EditFreezerItemModal: React.FC<EditFreezerItemModalProps> = ({
   const [tagInput, setTagInput] = useState('');
   const [imageUrl, setImageUrl] = useState(item.imageUrl || '');
   const [imageError, setImageError] = useState(false);
+  const [location, setLocation] = useState(item.location || DEFAULT_LOCATION);
+  const [zone, setZone] = useState(item.zone || '');
+  const [restockBelow, setRestockBelow] = useState('');
+  const [restockScope, setRestockScope] = useState<'item' | 'name'>('item');
+  const [restockName, setRestockName] = useState('');
+
+  const { restockRules } = useStorage();
+  const existingRule = findRestockRule(item.name, restockRules.rules);
 
   // Use the focus trap hook for keyboard navigation
   const focusTrapRef = useFocusTrap(isOpen);
@@ -42,6 +55,9 @@ const EditFreezerItemModal: React.FC<EditFreezerItemModalProps> = ({
     ? propCategories 
     : getCategories();
 
+  // Suggest predefined locations plus any the household already uses
+  const allLocations = [...new Set([...getLocations(), ...propLocations])];
+
   // Check if the image field should be shown
   const showImageField = source === 'image' || source === 'barcode' || source === 'manual' || !!item.imageUrl;
 
@@ -56,11 +72,42 @@ const EditFreezerItemModal: React.FC<EditFreezerItemModalProps> = ({
       setNotes(item.notes);
       setTags(item.tags || []);
       setImageUrl(item.imageUrl || '');
+      setLocation(item.location || DEFAULT_LOCATION);
+      setZone(item.zone || '');
       setTagInput('');
       setImageError(false);
+
+      // A threshold on the item itself wins over a rule for its name
+      if (item.restockBelow || !existingRule) {
+        setRestockScope('item');
+        setRestockBelow(item.restockBelow ? String(item.restockBelow) : '');
+        setRestockName(item.name.trim().toLowerCase());
+      } else {
+        setRestockScope('name');
+        setRestockBelow(String(existingRule.below));
+        setRestockName(existingRule.name);
+      }
     }
+    // Only reset when the modal opens, not when rules load in the background
   }, [isOpen, item]);
 
+  const saveRestockRule = async (below: number | null) => {
+    try {
+      if (below && restockName.trim()) {
+        await restockRules.saveRule({
+          name: restockName.trim().toLowerCase(),
+          below,
+          quantity: existingRule?.quantity ?? null,
+          category
+        });
+      } else if (existingRule) {
+        await restockRules.deleteRule(existingRule.id);
+      }
+    } catch (error) {
+      logger.error('Error saving restock rule:', error);
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -73,9 +120,16 @@ const EditFreezerItemModal: React.FC<EditFreezerItemModalProps> = ({
       expirationDate,
       tags,
       notes,
-      imageUrl
+      imageUrl,
+      location: location.trim() || DEFAULT_LOCATION,
+      zone: zone.trim(),
+      restockBelow: restockScope === 'item' ? Number(restockBelow) || null : null
     };
 
+    if (restockScope === 'name') {
+      saveRestockRule(Number(restockBelow) || null);
+    }
+
     onSave(updatedItem);
     onClose();
   };
@@ -222,6 +276,41 @@ const EditFreezerItemModal: React.FC<EditFreezerItemModalProps> = ({
                 </div>
               </div>
               
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor={`location-${item.id}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    Location
+                  </label>
+                  <input
+                    type="text"
+                    id={`location-${item.id}`}
+                    value={location}
+                    list={`location-options-${item.id}`}
+                    onChange={(e) => setLocation(e.target.value)}
+                    className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:border-blue-500 dark:bg-slate-700 dark:text-slate-100"
+                  />
+                  <datalist id={`location-options-${item.id}`}>
+                    {allLocations.map((loc) => (
+                      <option key={loc} value={loc} />
+                    ))}
+                  </datalist>
+                </div>
+                
+                <div>
+                  <label htmlFor={`zone-${item.id}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    Shelf / Drawer
+                  </label>
+                  <input
+                    type="text"
+                    id={`zone-${item.id}`}
+                    value={zone}
+                    placeholder="e.g., Top shelf"
+                    onChange={(e) => setZone(e.target.value)}
+                    className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:border-blue-500 dark:bg-slate-700 dark:text-slate-100"
+                  />
+                </div>
+              </div>
+              
               <div>
                 <AccessibleDatepicker
                   id={`expirationDate-${item.id}`}
@@ -232,6 +321,51 @@ const EditFreezerItemModal: React.FC<EditFreezerItemModalProps> = ({
                 />
               </div>
               
+              <div>
+                <label htmlFor={`restockBelow-${item.id}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  Add to shopping list when fewer than
+                </label>
+                <div className="grid grid-cols-2 gap-4">
+                  <input
+                    type="number"
+                    id={`restockBelow-${item.id}`}
+                    value={restockBelow}
+                    min="1"
+                    placeholder="Never"
+                    disabled={restockScope === 'name' && !restockRules.canEdit}
+                    onChange={(e) => setRestockBelow(e.target.value)}
+                    className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:border-blue-500 dark:bg-slate-700 dark:text-slate-100 disabled:opacity-50"
+                  />
+                  <select
+                    id={`restockScope-${item.id}`}
+                    value={restockScope}
+                    onChange={(e) => setRestockScope(e.target.value as 'item' | 'name')}
+                    aria-label="What to count"
+                    className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:border-blue-500 dark:bg-slate-700 dark:text-slate-100"
+                  >
+                    <option value="item">of this item left</option>
+                    <option value="name">of anything named…</option>
+                  </select>
+                </div>
+                {restockScope === 'name' && (
+                  <input
+                    type="text"
+                    id={`restockName-${item.id}`}
+                    value={restockName}
+                    aria-label="Name to count in the freezer"
+                    placeholder="e.g., peas"
+                    disabled={!restockRules.canEdit}
+                    onChange={(e) => setRestockName(e.target.value)}
+                    className="mt-2 w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:border-blue-500 dark:bg-slate-700 dark:text-slate-100 disabled:opacity-50"
+                  />
+                )}
+                <p className="mt-1 text-xs text-slate-500 dark:text-slate-300">
+                  {restockScope === 'item'
+                    ? 'Counts only this item.'
+                    : 'Counts every freezer item whose name contains this, and applies to all of them.'}
+                </p>
+              </div>
+              
               {showImageField && (
                 <div>
                   <label htmlFor={`imageUrl-${item.id}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
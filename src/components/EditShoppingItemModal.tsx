@@ -1,8 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { X } from 'lucide-react';
-import { ShoppingItem } from '../types';
+import { X, TrendingDown } from 'lucide-react';
+import { ShoppingItem, ShoppingList, ShoppingRecurrence } from '../types';
 import { getCategories } from '../data/categories';
 import useFocusTrap from '../hooks/useFocusTrap';
+import { describeOrigin } from '../utils/restockUtils';
+import { formatDate } from '../utils/freezerUtils';
+import { MAIN_LIST_NAME } from '../utils/shoppingUtils';
+import RecurrenceEditor from './RecurrenceEditor';
 
 interface EditShoppingItemModalProps {
   item: ShoppingItem;
@@ -10,6 +14,8 @@ interface EditShoppingItemModalProps {
   onClose: () => void;
   onSave: (updatedItem: ShoppingItem) => void;
   categories: string[];
+  stores?: string[];
+  lists?: ShoppingList[];
 }
 
 const EditShoppingItemModal: React.FC<EditShoppingItemModalProps> = ({
@@ -17,11 +23,16 @@ const EditShoppingItemModal: React.FC<EditShoppingItemModalProps> = ({
   isOpen,
   onClose,
   onSave,
-  categories: propCategories
+  categories: propCategories,
+  stores = [],
+  lists = []
 }) => {
   const [name, setName] = useState(item.name);
   const [category, setCategory] = useState(item.category);
   const [completed, setCompleted] = useState(item.completed);
+  const [recurrence, setRecurrence] = useState<ShoppingRecurrence | null>(item.recurrence || null);
+  const [store, setStore] = useState(item.store || '');
+  const [listId, setListId] = useState(item.listId || '');
   
   // Use focus trap for keyboard navigation
   const focusTrapRef = useFocusTrap(isOpen);
@@ -36,6 +47,9 @@ const EditShoppingItemModal: React.FC<EditShoppingItemModalProps> = ({
       setName(item.name);
       setCategory(item.category);
       setCompleted(item.completed);
+      setRecurrence(item.recurrence || null);
+      setStore(item.store || '');
+      setListId(item.listId || '');
     }
   }, [isOpen, item]);
 
@@ -46,7 +60,10 @@ const EditShoppingItemModal: React.FC<EditShoppingItemModalProps> = ({
       ...item,
       name,
       category,
-      completed
+      completed,
+      recurrence,
+      store: store || null,
+      listId: listId || null
     };
 
     onSave(updatedItem);
@@ -108,6 +125,15 @@ const EditShoppingItemModal: React.FC<EditShoppingItemModalProps> = ({
         <div className="p-6">
           <h2 id={modalTitleId} className="text-xl font-semibold mb-4 text-slate-800 dark:text-slate-100">Edit Shopping Item</h2>
           
+          {item.origin && (
+            <p className="flex items-start gap-2 mb-4 p-3 rounded-md bg-blue-50 dark:bg-blue-900/30 text-sm text-blue-800 dark:text-blue-200">
+              <TrendingDown size={16} className="mt-0.5 flex-shrink-0" aria-hidden="true" />
+              <span>
+                Added automatically on {formatDate(new Date(item.origin.createdAt))}: {describeOrigin(item.origin)}
+              </span>
+            </p>
+          )}
+          
           <form onSubmit={handleSubmit}>
             <div className="space-y-4">
               <div>
@@ -141,6 +167,51 @@ const EditShoppingItemModal: React.FC<EditShoppingItemModalProps> = ({
                 </select>
               </div>
               
+              {lists.length > 0 && (
+                <div>
+                  <label htmlFor={`list-${item.id}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    List
+                  </label>
+                  <select
+                    id={`list-${item.id}`}
+                    value={listId}
+                    onChange={(e) => setListId(e.target.value)}
+                    className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:border-blue-500 dark:bg-slate-700 dark:text-slate-100"
+                  >
+                    <option value="">{MAIN_LIST_NAME}</option>
+                    {lists.map((list) => (
+                      <option key={list.id} value={list.id}>{list.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              
+              {(stores.length > 0 || item.store) && (
+                <div>
+                  <label htmlFor={`store-${item.id}`} className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    Store
+                  </label>
+                  <select
+                    id={`store-${item.id}`}
+                    value={store}
+                    onChange={(e) => setStore(e.target.value)}
+                    className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:border-blue-500 dark:bg-slate-700 dark:text-slate-100"
+                  >
+                    <option value="">Any store</option>
+                    {[...new Set([...stores, ...(item.store ? [item.store] : [])])].map((name) => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              
+              <RecurrenceEditor
+                id={`recurrence-${item.id}`}
+                value={recurrence}
+                onChange={setRecurrence}
+                itemName={name}
+              />
+              
               <div className="flex items-center">
                 <input
                   type="checkbox"
@@ -1,14 +1,25 @@
-import React, { memo } from 'react';
-import { Calendar, Trash2, Edit2, Tag, Image } from 'lucide-react';
+import React, { memo, useEffect, useRef } from 'react';
+import { Calendar, CalendarDays, Trash2, Edit2, Tag, Image, MapPin, Utensils, QrCode, Droplets } from 'lucide-react';
 import { FreezerItem } from '../types';
+import { formatLocation } from '../data/locations';
 
 interface FreezerItemCardProps {
   item: FreezerItem;
-  onRemove: (id: string) => void;
-  onEdit: (item: FreezerItem) => void;
+  // Left out for viewers of a household, who can't change the inventory
+  onRemove?: (id: string) => void;
+  onEdit?: (item: FreezerItem) => void;
+  onConsume?: (item: FreezerItem, amount: number, meal?: string) => void;
+  // Throwing the item away, as opposed to removing a mistake, is recorded as waste
+  onDiscard?: (item: FreezerItem) => void;
+  onPrintLabel?: (item: FreezerItem) => void;
+  onThaw?: (item: FreezerItem) => void;
+  // How many are set aside for planned meals
+  reserved?: number;
+  // Set when the item was opened from a scanned label
+  isHighlighted?: boolean;
 }
 
-const FreezerItemCard: React.FC<FreezerItemCardProps> = ({ item, onRemove, onEdit }) => {
+const FreezerItemCard: React.FC<FreezerItemCardProps> = ({ item, onRemove, onEdit, onConsume, onDiscard, onPrintLabel, onThaw, reserved = 0, isHighlighted = false }) => {
   // Calculate days until expiration
   const getDaysUntilExpiration = (): number => {
     const today = new Date();
@@ -33,106 +44,257 @@ const FreezerItemCard: React.FC<FreezerItemCardProps> = ({ item, onRemove, onEdi
   
   // State to handle image loading errors
   const [imageError, setImageError] = React.useState(false);
+  
+  // State for the "use some" panel
+  const [isUsing, setIsUsing] = React.useState(false);
+  const [useAmount, setUseAmount] = React.useState(1);
+  const [meal, setMeal] = React.useState('');
+  
+  const cardRef = useRef<HTMLDivElement>(null);
+  
+  // Bring a scanned item into view with the use panel ready
+  useEffect(() => {
+    if (!isHighlighted) return;
+    cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    if (onConsume) {
+      setIsUsing(true);
+    }
+  }, [isHighlighted, onConsume]);
+  
+  const handleConsume = (amount: number) => {
+    if (!onConsume || amount <= 0) return;
+    onConsume(item, Math.min(amount, item.quantity), meal.trim() || undefined);
+    setIsUsing(false);
+    setUseAmount(1);
+    setMeal('');
+  };
 
   return (
     <div 
-      className="bg-white dark:bg-slate-800 p-4 rounded-lg shadow-sm border-l-4 border-blue-500 flex justify-between items-start hover:shadow-md transition-shadow duration-200"
+      ref={cardRef}
+      className={`bg-white dark:bg-slate-800 p-4 rounded-lg shadow-sm border-l-4 border-blue-500 hover:shadow-md transition-shadow duration-200 ${
+        isHighlighted ? 'ring-2 ring-blue-500 ring-offset-2 dark:ring-offset-slate-900' : ''
+      }`}
       aria-labelledby={`${cardId}-name`}
       role="article"
       aria-describedby={`${cardId}-expiration`}
     >
-      <div className="flex-1">
-        <div className="flex items-center gap-2">
-          <h3 id={`${cardId}-name`} className="font-medium text-slate-800 dark:text-slate-100">{item.name}</h3>
-          {item.size && (
-            <span className="text-xs text-slate-500 dark:text-slate-400">
-              {item.size}
+      <div className="flex justify-between items-start">
+        <div className="flex-1">
+          <div className="flex items-center gap-2">
+            <h3 id={`${cardId}-name`} className="font-medium text-slate-800 dark:text-slate-100">{item.name}</h3>
+            {item.size && (
+              <span className="text-xs text-slate-500 dark:text-slate-400">
+                {item.size}
+              </span>
+            )}
+          </div>
+          
+          <div className="flex items-center mt-1 text-sm">
+            <span className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-0.5 rounded-full text-xs">
+              {item.category}
+            </span>
+            {item.quantity > 1 && (
+              <>
+                <span className="mx-2 text-slate-400 dark:text-slate-500" aria-hidden="true">•</span>
+                <span className="text-slate-600 dark:text-slate-300 text-xs">
+                  Qty: {item.quantity}
+                </span>
+              </>
+            )}
+            {reserved > 0 && (
+              <>
+                <span className="mx-2 text-slate-400 dark:text-slate-500" aria-hidden="true">•</span>
+                <span className="flex items-center gap-1 text-violet-600 dark:text-violet-300 text-xs">
+                  <CalendarDays size={12} aria-hidden="true" />
+                  {reserved >= item.quantity ? 'All planned' : `${reserved} planned`}
+                </span>
+              </>
+            )}
+            {item.thawedAt && (
+              <>
+                <span className="mx-2 text-slate-400 dark:text-slate-500" aria-hidden="true">•</span>
+                <span className="flex items-center gap-1 text-emerald-600 dark:text-emerald-300 text-xs">
+                  <Droplets size={12} aria-hidden="true" />
+                  Thawing since {new Date(item.thawedAt).toLocaleDateString()}
+                </span>
+              </>
+            )}
+            <span className="mx-2 text-slate-400 dark:text-slate-500" aria-hidden="true">•</span>
+            <span className="flex items-center gap-1 text-slate-500 dark:text-slate-300">
+              <Calendar size={14} aria-hidden="true" />
+              <span>Added {new Date(item.addedDate).toLocaleDateString()}</span>
             </span>
+          </div>
+          
+          <div className="flex items-center gap-1 mt-1 text-xs text-slate-500 dark:text-slate-400">
+            <MapPin size={12} aria-hidden="true" />
+            <span>
+              <span className="sr-only">Location: </span>
+              {formatLocation(item.location, item.zone)}
+            </span>
+          </div>
+          
+          {item.tags && item.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1.5">
+              <span className="sr-only">Tags:</span>
+              {item.tags.map((tag, index) => (
+                <span 
+                  key={index} 
+                  className="inline-flex items-center gap-1 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 px-2 py-0.5 rounded-full text-xs"
+                >
+                  <Tag size={10} aria-hidden="true" />
+                  {tag}
+                </span>
+              ))}
+            </div>
           )}
-        </div>
-        
-        <div className="flex items-center mt-1 text-sm">
-          <span className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-0.5 rounded-full text-xs">
-            {item.category}
-          </span>
-          {item.quantity > 1 && (
-            <>
-              <span className="mx-2 text-slate-400 dark:text-slate-500" aria-hidden="true">•</span>
-              <span className="text-slate-600 dark:text-slate-300 text-xs">
-                Qty: {item.quantity}
+          
+          {/* Display image thumbnail if available and hasn't errored */}
+          {item.imageUrl && !imageError && (
+            <div className="mt-2 flex items-center gap-2">
+              <div className="w-10 h-10 rounded overflow-hidden bg-slate-100 dark:bg-slate-700 flex-shrink-0">
+                <img 
+                  src={item.imageUrl} 
+                  alt="" 
+                  className="w-full h-full object-cover"
+                  onError={() => setImageError(true)}
+                />
+              </div>
+              <span className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
+                <Image size={12} aria-hidden="true" />
+                Image attached
               </span>
-            </>
+            </div>
           )}
-          <span className="mx-2 text-slate-400 dark:text-slate-500" aria-hidden="true">•</span>
-          <span className="flex items-center gap-1 text-slate-500 dark:text-slate-300">
-            <Calendar size={14} aria-hidden="true" />
-            <span>Added {new Date(item.addedDate).toLocaleDateString()}</span>
-          </span>
         </div>
         
-        {item.tags && item.tags.length > 0 && (
-          <div className="flex flex-wrap gap-1 mt-1.5">
-            <span className="sr-only">Tags:</span>
-            {item.tags.map((tag, index) => (
-              <span 
-                key={index} 
-                className="inline-flex items-center gap-1 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 px-2 py-0.5 rounded-full text-xs"
-              >
-                <Tag size={10} aria-hidden="true" />
-                {tag}
-              </span>
-            ))}
-          </div>
-        )}
-        
-        {/* Display image thumbnail if available and hasn't errored */}
-        {item.imageUrl && !imageError && (
-          <div className="mt-2 flex items-center gap-2">
-            <div className="w-10 h-10 rounded overflow-hidden bg-slate-100 dark:bg-slate-700 flex-shrink-0">
-              <img 
-                src={item.imageUrl} 
-                alt="" 
-                className="w-full h-full object-cover"
-                onError={() => setImageError(true)}
-              />
-            </div>
-            <span className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
-              <Image size={12} aria-hidden="true" />
-              Image attached
+        <div className="flex items-center gap-3">
+          <div 
+            id={`${cardId}-expiration`} 
+            className={`flex items-center gap-1 ${getExpirationStatus()}`} 
+            aria-live="polite"
+          >
+            <span className="text-sm font-medium">
+              {daysLeft <= 0 
+                ? 'Expired' 
+                : `${daysLeft} day${daysLeft === 1 ? '' : 's'}`}
             </span>
           </div>
-        )}
+          
+          {onConsume && (
+            <button 
+              onClick={() => setIsUsing(!isUsing)}
+              className="text-slate-400 dark:text-slate-500 hover:text-green-600 dark:hover:text-green-400 transition-colors focus-visible:ring-2 focus-visible:ring-green-500 focus-visible:ring-offset-2 dark:focus-visible:ring-offset-slate-800 rounded-full p-1"
+              aria-label={`Use ${item.name}`}
+              aria-expanded={isUsing}
+              aria-controls={`${cardId}-use`}
+            >
+              <Utensils size={18} aria-hidden="true" />
+            </button>
+          )}
+          
+          {onThaw && !item.thawedAt && (
+            <button 
+              onClick={() => onThaw(item)}
+              className="text-slate-400 dark:text-slate-500 hover:text-emerald-600 dark:hover:text-emerald-400 transition-colors focus-visible:ring-2 focus-visible:ring-emerald-500 focus-visible:ring-offset-2 dark:focus-visible:ring-offset-slate-800 rounded-full p-1"
+              aria-label={`Mark ${item.name} as thawing`}
+              title="Mark as thawing"
+            >
+              <Droplets size={18} aria-hidden="true" />
+            </button>
+          )}
+          
+          {onPrintLabel && (
+            <button 
+              onClick={() => onPrintLabel(item)}
+              className="text-slate-400 dark:text-slate-500 hover:text-blue-500 dark:hover:text-blue-400 transition-colors focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 dark:focus-visible:ring-offset-slate-800 rounded-full p-1"
+              aria-label={`Print label for ${item.name}`}
+            >
+              <QrCode size={18} aria-hidden="true" />
+            </button>
+          )}
+          
+          {onEdit && (
+            <button 
+              onClick={() => onEdit(item)}
+              className="text-slate-400 dark:text-slate-500 hover:text-blue-500 dark:hover:text-blue-400 transition-colors focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 dark:focus-visible:ring-offset-slate-800 rounded-full p-1"
+              aria-label={`Edit ${item.name}`}
+            >
+              <Edit2 size={18} aria-hidden="true" />
+            </button>
+          )}
+          
+          {onRemove && (
+            <button 
+              onClick={() => onRemove(item.id)}
+              className="text-slate-400 dark:text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2 dark:focus-visible:ring-offset-slate-800 rounded-full p-1"
+              aria-label={`Remove ${item.name}`}
+            >
+              <Trash2 size={18} aria-hidden="true" />
+            </button>
+          )}
+        </div>
       </div>
       
-      <div className="flex items-center gap-3">
+      {isUsing && onConsume && (
         <div 
-          id={`${cardId}-expiration`} 
-          className={`flex items-center gap-1 ${getExpirationStatus()}`} 
-          aria-live="polite"
+          id={`${cardId}-use`}
+          className="mt-3 pt-3 border-t border-slate-100 dark:border-slate-700 flex flex-wrap items-center gap-2"
         >
-          <span className="text-sm font-medium">
-            {daysLeft <= 0 
-              ? 'Expired' 
-              : `${daysLeft} day${daysLeft === 1 ? '' : 's'}`}
-          </span>
+          {item.quantity > 1 && (
+            <>
+              <label htmlFor={`${cardId}-use-amount`} className="text-sm text-slate-600 dark:text-slate-300">
+                Use
+              </label>
+              <input
+                id={`${cardId}-use-amount`}
+                type="number"
+                min={1}
+                max={item.quantity}
+                value={useAmount}
+                onChange={e => setUseAmount(Number(e.target.value))}
+                className="w-16 px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-md dark:bg-slate-700 dark:text-slate-100"
+              />
+              <span className="text-sm text-slate-500 dark:text-slate-400">of {item.quantity}</span>
+            </>
+          )}
+          <input
+            type="text"
+            value={meal}
+            onChange={e => setMeal(e.target.value)}
+            placeholder="For which meal? (optional)"
+            className="flex-1 min-w-[10rem] px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-md dark:bg-slate-700 dark:text-slate-100"
+            aria-label="Meal"
+          />
+          {item.quantity > 1 && (
+            <button
+              onClick={() => handleConsume(useAmount)}
+              disabled={useAmount <= 0 || useAmount >= item.quantity}
+              className="px-3 py-1 text-sm rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors disabled:opacity-50"
+            >
+              Use some
+            </button>
+          )}
+          <button
+            onClick={() => handleConsume(item.quantity)}
+            className="px-3 py-1 text-sm rounded-md bg-green-600 text-white hover:bg-green-700 transition-colors"
+          >
+            Use all
+          </button>
+          {onDiscard && (
+            <button
+              onClick={() => {
+                onDiscard(item);
+                setIsUsing(false);
+              }}
+              className="px-3 py-1 text-sm rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"
+            >
+              Threw it away
+            </button>
+          )}
         </div>
-        
-        <button 
-          onClick={() => onEdit(item)}
-          className="text-slate-400 dark:text-slate-500 hover:text-blue-500 dark:hover:text-blue-400 transition-colors focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 dark:focus-visible:ring-offset-slate-800 rounded-full p-1"
-          aria-label={`Edit ${item.name}`}
-        >
-          <Edit2 size={18} aria-hidden="true" />
-        </button>
-        
-        <button 
-          onClick={() => onRemove(item.id)}
-          className="text-slate-400 dark:text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2 dark:focus-visible:ring-offset-slate-800 rounded-full p-1"
-          aria-label={`Remove ${item.name}`}
-        >
-          <Trash2 size={18} aria-hidden="true" />
-        </button>
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Users, UserPlus, Link as LinkIcon, Trash2, Loader, LogOut, Check } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { getInvitationLink } from '../api/supabase';
+import { HouseholdRole } from '../types';
+import { logger } from "@/lib/logger";
+
+interface HouseholdSettingsProps {
+  currentUserId: string;
+}
+
+const roleLabels: Record<HouseholdRole, string> = {
+  owner: 'Owner',
+  member: 'Member',
+  viewer: 'Viewer'
+};
+
+const HouseholdSettings: React.FC<HouseholdSettingsProps> = ({ currentUserId }) => {
+  const {
+    household,
+    households,
+    members,
+    invitations,
+    isLoading,
+    error,
+    isOwner,
+    switchHousehold,
+    renameHousehold,
+    inviteMember,
+    revokeInvitation,
+    acceptInvitation,
+    updateMemberRole,
+    removeMember
+  } = useHousehold();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const pendingInviteToken = searchParams.get('invite');
+
+  const [householdName, setHouseholdName] = useState(household?.name || '');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<Exclude<HouseholdRole, 'owner'>>('member');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setHouseholdName(household?.name || '');
+  }, [household?.name]);
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!householdName.trim() || householdName === household?.name) return;
+
+    try {
+      await renameHousehold(householdName.trim());
+      toast.success('Household renamed');
+    } catch (err) {
+      logger.error('Error renaming household:', err);
+      toast.error('Failed to rename household');
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+
+    try {
+      setIsSubmitting(true);
+      const invitation = await inviteMember(inviteEmail, inviteRole);
+      await copyInvitationLink(invitation.token);
+      setInviteEmail('');
+    } catch (err) {
+      logger.error('Error inviting household member:', err);
+      toast.error('Failed to create invitation');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const copyInvitationLink = async (token: string) => {
+    const link = getInvitationLink(token);
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('Invitation link copied to clipboard');
+    } catch {
+      // Clipboard access can be denied; show the link instead
+      toast(link, { duration: 10000 });
+    }
+  };
+
+  const handleAcceptInvitation = async () => {
+    if (!pendingInviteToken) return;
+
+    try {
+      setIsSubmitting(true);
+      await acceptInvitation(pendingInviteToken);
+      toast.success('You joined the household');
+    } catch (err) {
+      logger.error('Error accepting invitation:', err);
+      toast.error((err as Error).message || 'Failed to accept invitation');
+    } finally {
+      setIsSubmitting(false);
+      searchParams.delete('invite');
+      setSearchParams(searchParams, { replace: true });
+    }
+  };
+
+  const handleRoleChange = async (memberId: string, role: HouseholdRole) => {
+    try {
+      await updateMemberRole(memberId, role);
+      toast.success('Role updated');
+    } catch (err) {
+      logger.error('Error updating member role:', err);
+      toast.error('Failed to update role');
+    }
+  };
+
+  const handleRemoveMember = async (memberId: string, isSelf: boolean) => {
+    try {
+      await removeMember(memberId);
+      toast.success(isSelf ? 'You left the household' : 'Member removed');
+    } catch (err) {
+      logger.error('Error removing member:', err);
+      toast.error(isSelf ? 'Failed to leave household' : 'Failed to remove member');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-slate-500 dark:text-slate-400">
+        <Loader size={18} className="animate-spin mr-2" />
+        Loading household...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {pendingInviteToken && (
+        <div className="p-3 bg-blue-50 dark:bg-blue-900/20 border-l-4 border-blue-500 text-blue-700 dark:text-blue-300 flex items-center justify-between gap-3">
+          <p className="text-sm">You've been invited to join a household.</p>
+          <button
+            onClick={handleAcceptInvitation}
+            disabled={isSubmitting}
+            className="bg-blue-600 text-white px-3 py-1.5 rounded-lg hover:bg-blue-700 transition-colors flex items-center text-sm disabled:opacity-50"
+          >
+            <Check size={16} className="mr-1" />
+            Accept
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {households.length > 1 && (
+        <div>
+          <label htmlFor="active-household" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+            Active household
+          </label>
+          <select
+            id="active-household"
+            value={household?.id || ''}
+            onChange={(e) => switchHousehold(e.target.value)}
+            className="w-full px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100"
+          >
+            {households.map(h => (
+              <option key={h.id} value={h.id}>{h.name} ({roleLabels[h.role]})</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {household && (
+        <form onSubmit={handleRename}>
+          <label htmlFor="household-name" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+            Household name
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="household-name"
+              type="text"
+              value={householdName}
+              onChange={(e) => setHouseholdName(e.target.value)}
+              disabled={!isOwner}
+              className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 disabled:opacity-60"
+            />
+            {isOwner && (
+              <button
+                type="submit"
+                className="bg-slate-200 dark:bg-slate-700 text-slate-800 dark:text-slate-200 px-4 py-2 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors"
+              >
+                Save
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+
+      <div>
+        <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 flex items-center">
+          <Users size={16} className="mr-2" aria-hidden="true" />
+          Members
+        </h4>
+        <ul className="divide-y divide-slate-100 dark:divide-slate-700" role="list">
+          {members.map(member => {
+            const isSelf = member.userId === currentUserId;
+            return (
+              <li key={member.id} className="flex items-center justify-between py-2 gap-2">
+                <span className="text-slate-800 dark:text-slate-100 truncate">
+                  {member.email || 'Unknown member'}
+                  {isSelf && <span className="text-slate-500 dark:text-slate-400 text-sm"> (you)</span>}
+                </span>
+                <div className="flex items-center gap-2">
+                  {isOwner && !isSelf ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleRoleChange(member.id, e.target.value as HouseholdRole)}
+                      className="px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-md dark:bg-slate-700 dark:text-slate-100"
+                      aria-label={`Role for ${member.email}`}
+                    >
+                      <option value="owner">Owner</option>
+                      <option value="member">Member</option>
+                      <option value="viewer">Viewer</option>
+                    </select>
+                  ) : (
+                    <span className="text-sm text-slate-500 dark:text-slate-400">{roleLabels[member.role]}</span>
+                  )}
+                  {(isOwner && !isSelf) && (
+                    <button
+                      onClick={() => handleRemoveMember(member.id, false)}
+                      className="text-slate-400 dark:text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors rounded-full p-1"
+                      aria-label={`Remove ${member.email}`}
+                    >
+                      <Trash2 size={16} aria-hidden="true" />
+                    </button>
+                  )}
+                  {(isSelf && !isOwner) && (
+                    <button
+                      onClick={() => handleRemoveMember(member.id, true)}
+                      className="text-slate-400 dark:text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors rounded-full p-1"
+                      aria-label="Leave household"
+                    >
+                      <LogOut size={16} aria-hidden="true" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      {isOwner && (
+        <div>
+          <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 flex items-center">
+            <UserPlus size={16} className="mr-2" aria-hidden="true" />
+            Invite someone
+          </h4>
+          <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="partner@example.com"
+              className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100"
+              aria-label="Email address to invite"
+              required
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as Exclude<HouseholdRole, 'owner'>)}
+              className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md dark:bg-slate-700 dark:text-slate-100"
+              aria-label="Role for the invited person"
+            >
+              <option value="member">Member (can edit)</option>
+              <option value="viewer">Viewer (read only)</option>
+            </select>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Invite
+            </button>
+          </form>
+
+          {invitations.length > 0 && (
+            <ul className="mt-3 space-y-2" role="list" aria-label="Pending invitations">
+              {invitations.map(invitation => (
+                <li key={invitation.id} className="flex items-center justify-between text-sm gap-2">
+                  <span className="text-slate-600 dark:text-slate-300 truncate">
+                    {invitation.email} · {roleLabels[invitation.role]}
+                    <span className="text-slate-400 dark:text-slate-500"> · expires {invitation.expiresAt.toLocaleDateString()}</span>
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => copyInvitationLink(invitation.token)}
+                      className="text-slate-400 dark:text-slate-500 hover:text-blue-500 dark:hover:text-blue-400 transition-colors rounded-full p-1"
+                      aria-label={`Copy invitation link for ${invitation.email}`}
+                    >
+                      <LinkIcon size={16} aria-hidden="true" />
+                    </button>
+                    <button
+                      onClick={() => revokeInvitation(invitation.id)}
+                      className="text-slate-400 dark:text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors rounded-full p-1"
+                      aria-label={`Revoke invitation for ${invitation.email}`}
+                    >
+                      <Trash2 size={16} aria-hidden="true" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HouseholdSettings;
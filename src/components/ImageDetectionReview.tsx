@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Check, Ban } from 'lucide-react';
+import { ImageDetection } from '../types';
+import useFocusTrap from '../hooks/useFocusTrap';
+
+interface ImageDetectionReviewProps {
+  imageUrl: string;
+  detections: ImageDetection[];
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (detections: ImageDetection[]) => Promise<void> | void;
+}
+
+// Detections the model is less sure of start out rejected
+const MIN_ACCEPTED_CONFIDENCE = 0.5;
+
+interface ReviewedDetection extends ImageDetection {
+  accepted: boolean;
+}
+
+const ImageDetectionReview: React.FC<ImageDetectionReviewProps> = ({
+  imageUrl,
+  detections,
+  isOpen,
+  onClose,
+  onConfirm
+}) => {
+  const [reviewed, setReviewed] = useState<ReviewedDetection[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const nameInputRefs = useRef<Record<string, HTMLInputElement | null>>({});
+
+  // Use the focus trap hook for keyboard navigation
+  const focusTrapRef = useFocusTrap(isOpen);
+
+  useEffect(() => {
+    if (isOpen) {
+      setReviewed(detections.map(detection => ({
+        ...detection,
+        accepted: detection.confidence >= MIN_ACCEPTED_CONFIDENCE
+      })));
+      setActiveId(null);
+    }
+  }, [isOpen, detections]);
+
+  // Handle escape key press to close the modal
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  // Listen for the custom event from the focus trap hook
+  useEffect(() => {
+    const handleCloseFocusTrap = () => {
+      if (isOpen) onClose();
+    };
+
+    document.addEventListener('closeFocusTrap', handleCloseFocusTrap);
+    return () => {
+      document.removeEventListener('closeFocusTrap', handleCloseFocusTrap);
+    };
+  }, [isOpen, onClose]);
+
+  const updateDetection = (id: string, changes: Partial<ReviewedDetection>) => {
+    setReviewed(current => current.map(detection => detection.id === id ? { ...detection, ...changes } : detection));
+  };
+
+  // Tapping a box jumps to its row so it can be renamed, accepted or rejected
+  const selectDetection = (id: string) => {
+    setActiveId(id);
+    const input = nameInputRefs.current[id];
+    input?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    input?.focus();
+  };
+
+  const accepted = reviewed.filter(detection => detection.accepted);
+  const hasUnnamed = accepted.some(detection => !detection.text.trim());
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm(accepted.map(({ id, text, confidence, box }) => ({
+        id,
+        text: text.trim(),
+        confidence,
+        box
+      })));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="image-detection-title"
+    >
+      <div
+        ref={focusTrapRef}
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-lg w-full max-w-lg max-h-[90vh] flex flex-col relative"
+        tabIndex={-1}
+      >
+        <button
+          onClick={onClose}
+          className="absolute right-4 top-4 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+          aria-label="Close dialog"
+        >
+          <X size={20} aria-hidden="true" />
+        </button>
+
+        <div className="p-6 pb-4">
+          <h2 id="image-detection-title" className="text-xl font-semibold mb-1 text-slate-800 dark:text-slate-100">
+            Found {reviewed.length} item{reviewed.length === 1 ? '' : 's'}
+          </h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Tap a box to check it. Rename anything we got wrong and reject what shouldn't be added.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6">
+          <div className="relative rounded-md overflow-hidden bg-slate-100 dark:bg-slate-900">
+            <img src={imageUrl} alt="Uploaded photo" className="w-full h-auto block" />
+            {reviewed.map(detection => detection.box && (
+              <button
+                key={detection.id}
+                type="button"
+                onClick={() => selectDetection(detection.id)}
+                className={`absolute rounded border-2 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${
+                  detection.accepted
+                    ? 'border-green-400 bg-green-400/10'
+                    : 'border-dashed border-slate-300 bg-slate-900/30'
+                } ${activeId === detection.id ? 'ring-2 ring-blue-500' : ''}`}
+                style={{
+                  left: `${detection.box.x * 100}%`,
+                  top: `${detection.box.y * 100}%`,
+                  width: `${detection.box.width * 100}%`,
+                  height: `${detection.box.height * 100}%`
+                }}
+                aria-label={`${detection.text}, ${detection.accepted ? 'accepted' : 'rejected'}`}
+              />
+            ))}
+          </div>
+
+          <ul className="divide-y divide-slate-100 dark:divide-slate-700 mt-2">
+            {reviewed.map(detection => (
+              <li
+                key={detection.id}
+                className={`py-3 flex items-center gap-2 ${activeId === detection.id ? 'bg-blue-50 dark:bg-blue-900/30 -mx-2 px-2 rounded-md' : ''}`}
+              >
+                <input
+                  type="text"
+                  ref={element => { nameInputRefs.current[detection.id] = element; }}
+                  value={detection.text}
+                  onChange={e => updateDetection(detection.id, { text: e.target.value })}
+                  onFocus={() => setActiveId(detection.id)}
+                  className={`flex-1 min-w-0 px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-md dark:bg-slate-700 dark:text-slate-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${detection.accepted ? '' : 'line-through opacity-60'}`}
+                  aria-label="Detected item"
+                />
+                <span className="text-xs text-slate-500 dark:text-slate-400 w-10 text-right" title="Confidence">
+                  {Math.round(detection.confidence * 100)}%
+                </span>
+                <button
+                  type="button"
+                  onClick={() => updateDetection(detection.id, { accepted: !detection.accepted })}
+                  className={`p-1 rounded-full focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${
+                    detection.accepted
+                      ? 'text-green-600 dark:text-green-400 hover:text-red-500 dark:hover:text-red-400'
+                      : 'text-slate-400 dark:text-slate-500 hover:text-green-600 dark:hover:text-green-400'
+                  }`}
+                  aria-pressed={detection.accepted}
+                  aria-label={detection.accepted ? `Reject ${detection.text}` : `Accept ${detection.text}`}
+                >
+                  {detection.accepted ? <Check size={18} aria-hidden="true" /> : <Ban size={18} aria-hidden="true" />}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="p-6 pt-4 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm text-sm font-medium text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={isSaving || accepted.length === 0 || hasUnnamed}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 disabled:opacity-50"
+          >
+            Add {accepted.length} item{accepted.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageDetectionReview;
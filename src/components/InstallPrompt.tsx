@@ -0,0 +1,48 @@
+import React from 'react';
+import { Download, Share, X } from 'lucide-react';
+import { useInstallPrompt } from '../hooks/useInstallPrompt';
+
+const InstallPrompt: React.FC = () => {
+  const { canInstall, showIosInstructions, install, dismiss } = useInstallPrompt();
+
+  if (!canInstall && !showIosInstructions) {
+    return null;
+  }
+
+  return (
+    <section
+      className="mb-6 flex items-start gap-3 bg-blue-50 dark:bg-blue-900/30 p-4 rounded-lg text-sm text-blue-700 dark:text-blue-300"
+      aria-label="Install Frostie"
+    >
+      <Download size={20} className="flex-shrink-0 mt-0.5" aria-hidden="true" />
+      <div className="flex-1">
+        <p className="font-medium">Install Frostie</p>
+        {canInstall ? (
+          <p>Add Frostie to your home screen to open it like an app, even when you're offline.</p>
+        ) : (
+          <p>
+            Tap <Share size={14} className="inline -mt-0.5" aria-label="Share" /> and then
+            "Add to Home Screen" to open Frostie like an app, even when you're offline.
+          </p>
+        )}
+        {canInstall && (
+          <button
+            onClick={() => install()}
+            className="mt-3 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors"
+          >
+            Install
+          </button>
+        )}
+      </div>
+      <button
+        onClick={dismiss}
+        className="p-1 text-blue-500 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-200"
+        aria-label="Dismiss install prompt"
+      >
+        <X size={18} />
+      </button>
+    </section>
+  );
+};
+
+export default InstallPrompt;
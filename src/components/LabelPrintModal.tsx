@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { X, Printer, Loader } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { FreezerItem } from '../types';
+import useFocusTrap from '../hooks/useFocusTrap';
+import { formatDate } from '../utils/freezerUtils';
+import {
+  LABEL_LAYOUTS,
+  DEFAULT_LABEL_LAYOUT,
+  LabelLayoutId,
+  getLabelLayout,
+  getLabelsPerPage,
+  renderLabelSheets,
+  printLabelSheets
+} from '../utils/labelUtils';
+import { logger } from "@/lib/logger";
+
+interface LabelPrintModalProps {
+  items: FreezerItem[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const LABEL_LAYOUT_KEY = 'labelLayout';
+
+const LabelPrintModal: React.FC<LabelPrintModalProps> = ({ items, isOpen, onClose }) => {
+  const [layoutId, setLayoutId] = useState<LabelLayoutId>(
+    () => (localStorage.getItem(LABEL_LAYOUT_KEY) as LabelLayoutId) || DEFAULT_LABEL_LAYOUT
+  );
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [skip, setSkip] = useState(0);
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  const focusTrapRef = useFocusTrap(isOpen);
+  const layout = getLabelLayout(layoutId);
+  const perPage = getLabelsPerPage(layout);
+  const selectedItems = items.filter(item => selectedIds.has(item.id));
+  const sheetCount = Math.ceil((selectedItems.length + skip) / perPage);
+
+  // Start with every item selected each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedIds(new Set(items.map(item => item.id)));
+      setSkip(0);
+    }
+  }, [isOpen, items]);
+
+  // Handle escape key press to close the modal
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  const handleLayoutChange = (id: LabelLayoutId) => {
+    setLayoutId(id);
+    setSkip(0);
+    localStorage.setItem(LABEL_LAYOUT_KEY, id);
+  };
+
+  const toggleItem = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const handlePrint = async () => {
+    if (selectedItems.length === 0) return;
+
+    setIsPrinting(true);
+    try {
+      const html = await renderLabelSheets(selectedItems, layout, skip);
+      await printLabelSheets(html);
+    } catch (error) {
+      logger.error('Error printing labels:', error);
+      toast.error('Failed to print labels');
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const allSelected = selectedIds.size === items.length;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="label-print-title"
+    >
+      <div
+        ref={focusTrapRef}
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-lg w-full max-w-md relative max-h-[90vh] flex flex-col"
+        tabIndex={-1}
+      >
+        <button
+          onClick={onClose}
+          className="absolute right-4 top-4 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+          aria-label="Close dialog"
+        >
+          <X size={20} aria-hidden="true" />
+        </button>
+
+        <div className="p-6 overflow-y-auto">
+          <h2 id="label-print-title" className="text-xl font-semibold mb-4 text-slate-800 dark:text-slate-100">Print Labels</h2>
+
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="label-layout" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Label sheet
+              </label>
+              <select
+                id="label-layout"
+                value={layoutId}
+                onChange={e => handleLayoutChange(e.target.value as LabelLayoutId)}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100"
+              >
+                {LABEL_LAYOUTS.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">{layout.description}</p>
+            </div>
+
+            {perPage > 1 && (
+              <div>
+                <label htmlFor="label-skip" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  Labels already used on the first sheet
+                </label>
+                <input
+                  id="label-skip"
+                  type="number"
+                  min={0}
+                  max={perPage - 1}
+                  value={skip}
+                  onChange={e => setSkip(Math.max(0, Math.min(perPage - 1, Number(e.target.value) || 0)))}
+                  className="w-24 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100"
+                />
+              </div>
+            )}
+
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Items</span>
+                <button
+                  onClick={() => setSelectedIds(allSelected ? new Set() : new Set(items.map(item => item.id)))}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  {allSelected ? 'Select none' : 'Select all'}
+                </button>
+              </div>
+              <ul className="max-h-60 overflow-y-auto border border-slate-200 dark:border-slate-700 rounded-md divide-y divide-slate-100 dark:divide-slate-700">
+                {items.map(item => (
+                  <li key={item.id}>
+                    <label className="flex items-center gap-3 px-3 py-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(item.id)}
+                        onChange={() => toggleItem(item.id)}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-slate-300 dark:border-slate-600 rounded"
+                      />
+                      <span className="flex-1 text-sm text-slate-800 dark:text-slate-100 truncate">{item.name}</span>
+                      <span className="text-xs text-slate-500 dark:text-slate-400">{formatDate(item.expirationDate)}</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between mt-6">
+            <span className="text-sm text-slate-500 dark:text-slate-400">
+              {selectedItems.length} label{selectedItems.length === 1 ? '' : 's'}
+              {selectedItems.length > 0 && `, ${sheetCount} ${perPage === 1 ? 'page' : 'sheet'}${sheetCount === 1 ? '' : 's'}`}
+            </span>
+            <button
+              onClick={handlePrint}
+              disabled={isPrinting || selectedItems.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isPrinting ? <Loader size={18} className="animate-spin" aria-hidden="true" /> : <Printer size={18} aria-hidden="true" />}
+              <span>Print</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LabelPrintModal;
@@ -1,14 +1,15 @@
 import React, { memo } from 'react';
 import { MealIdea } from '../types';
-import { Leaf, Wheat, Milk, Heart, Clock, Trash2 } from 'lucide-react';
+import { Leaf, Wheat, Milk, Heart, Clock, Trash2, CalendarPlus } from 'lucide-react';
 
 interface MealIdeaCardProps {
   idea: MealIdea;
   onToggleFavorite?: (id: string) => void;
   onRemove?: (id: string) => void; // New prop for delete functionality
+  onPlan?: (idea: MealIdea) => void; // Put the idea on a day in the meal plan
 }
 
-const MealIdeaCard: React.FC<MealIdeaCardProps> = ({ idea, onToggleFavorite, onRemove }) => {
+const MealIdeaCard: React.FC<MealIdeaCardProps> = ({ idea, onToggleFavorite, onRemove, onPlan }) => {
   // Generate dietary tags based on meal properties
   const dietaryTags = [];
   
@@ -116,6 +117,15 @@ const MealIdeaCard: React.FC<MealIdeaCardProps> = ({ idea, onToggleFavorite, onR
         <div className="flex items-center mt-2 text-sm text-slate-500 dark:text-slate-400">
           <Clock size={14} className="mr-1" aria-hidden="true" />
           <span>{idea.cookingTime || 'N/A'}</span>
+          {onPlan && (
+            <button
+              onClick={() => onPlan(idea)}
+              className="ml-auto flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+            >
+              <CalendarPlus size={14} aria-hidden="true" />
+              Plan
+            </button>
+          )}
         </div>
         
         {/* Dietary tags */}
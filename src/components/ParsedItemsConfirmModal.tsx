@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import { X, Trash2 } from 'lucide-react';
+import { ParsedItemDetails } from '../utils/textParser';
+import { getCategories } from '../data/categories';
+import { formatDate } from '../utils/freezerUtils';
+import useFocusTrap from '../hooks/useFocusTrap';
+
+interface ParsedItemsConfirmModalProps {
+  items: ParsedItemDetails[];
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (items: ParsedItemDetails[]) => Promise<void> | void;
+}
+
+const ParsedItemsConfirmModal: React.FC<ParsedItemsConfirmModalProps> = ({
+  items,
+  isOpen,
+  onClose,
+  onConfirm
+}) => {
+  const [editedItems, setEditedItems] = useState<ParsedItemDetails[]>(items);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Use the focus trap hook for keyboard navigation
+  const focusTrapRef = useFocusTrap(isOpen);
+
+  useEffect(() => {
+    if (isOpen) {
+      setEditedItems(items);
+    }
+  }, [isOpen, items]);
+
+  // Handle escape key press to close the modal
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  // Listen for the custom event from the focus trap hook
+  useEffect(() => {
+    const handleCloseFocusTrap = () => {
+      if (isOpen) onClose();
+    };
+
+    document.addEventListener('closeFocusTrap', handleCloseFocusTrap);
+    return () => {
+      document.removeEventListener('closeFocusTrap', handleCloseFocusTrap);
+    };
+  }, [isOpen, onClose]);
+
+  const updateItem = (index: number, changes: Partial<ParsedItemDetails>) => {
+    setEditedItems(current => current.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  const removeItem = (index: number) => {
+    setEditedItems(current => current.filter((_, i) => i !== index));
+  };
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm(editedItems.map(item => ({ ...item, name: item.name.trim() })));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const hasUnnamed = editedItems.some(item => !item.name.trim());
+  const inputClassName = "px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-md dark:bg-slate-700 dark:text-slate-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="parsed-items-title"
+    >
+      <div
+        ref={focusTrapRef}
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-lg w-full max-w-lg max-h-[90vh] flex flex-col relative"
+        tabIndex={-1}
+      >
+        <button
+          onClick={onClose}
+          className="absolute right-4 top-4 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+          aria-label="Close dialog"
+        >
+          <X size={20} aria-hidden="true" />
+        </button>
+
+        <div className="p-6 pb-4">
+          <h2 id="parsed-items-title" className="text-xl font-semibold mb-1 text-slate-800 dark:text-slate-100">
+            Add {editedItems.length} item{editedItems.length === 1 ? '' : 's'}?
+          </h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Check what we understood before adding it to your freezer.
+          </p>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto px-6 divide-y divide-slate-100 dark:divide-slate-700">
+          {editedItems.map((item, index) => (
+            <li key={index} className="py-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={item.name}
+                  onChange={e => updateItem(index, { name: e.target.value })}
+                  className={`${inputClassName} flex-1 min-w-0`}
+                  aria-label={`Name of item ${index + 1}`}
+                />
+                <button
+                  onClick={() => removeItem(index)}
+                  className="text-slate-400 dark:text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors focus-visible:ring-2 focus-visible:ring-red-500 rounded-full p-1"
+                  aria-label={`Remove ${item.name || `item ${index + 1}`}`}
+                >
+                  <Trash2 size={18} aria-hidden="true" />
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <label className="flex items-center gap-1 text-sm text-slate-600 dark:text-slate-300">
+                  Qty
+                  <input
+                    type="number"
+                    min={1}
+                    value={item.quantity}
+                    onChange={e => updateItem(index, { quantity: Math.max(1, Number(e.target.value) || 1) })}
+                    className={`${inputClassName} w-16`}
+                  />
+                </label>
+                <input
+                  type="text"
+                  value={item.size}
+                  onChange={e => updateItem(index, { size: e.target.value })}
+                  placeholder="Size"
+                  className={`${inputClassName} w-24`}
+                  aria-label={`Size of item ${index + 1}`}
+                />
+                <select
+                  value={item.category}
+                  onChange={e => updateItem(index, { category: e.target.value })}
+                  className={`${inputClassName} flex-1 min-w-[8rem]`}
+                  aria-label={`Category of item ${index + 1}`}
+                >
+                  {getCategories().map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Use by {formatDate(item.expirationDate)}
+                {item.tags.length > 0 && <span> · {item.tags.map(tag => `#${tag}`).join(' ')}</span>}
+              </p>
+            </li>
+          ))}
+        </ul>
+
+        <div className="p-6 pt-4 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm text-sm font-medium text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={isSaving || editedItems.length === 0 || hasUnnamed}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 disabled:opacity-50"
+          >
+            Add {editedItems.length === 1 ? 'item' : `all ${editedItems.length}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ParsedItemsConfirmModal;
@@ -0,0 +1,348 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, AlertTriangle } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { FreezerItem, MealIdea, MealReservation, PlannedMeal } from '../types';
+import {
+  toDateKey,
+  matchFreezerItems,
+  getTitleIngredients,
+  getAvailableQuantity,
+  suggestReservations
+} from '../utils/mealPlanUtils';
+import { formatDate } from '../utils/freezerUtils';
+import useFocusTrap from '../hooks/useFocusTrap';
+
+interface PlanMealModalProps {
+  // The meal being edited, or null to plan a new one
+  meal: PlannedMeal | null;
+  defaultDate: string;
+  // Set when planning straight from a meal idea
+  defaultIdea?: MealIdea | null;
+  ideas: MealIdea[];
+  freezerItems: FreezerItem[];
+  meals: PlannedMeal[];
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (meal: PlannedMeal) => Promise<void> | void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:border-blue-500 dark:bg-slate-700 dark:text-slate-100';
+
+const labelClassName = 'block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1';
+
+const PlanMealModal: React.FC<PlanMealModalProps> = ({
+  meal,
+  defaultDate,
+  defaultIdea,
+  ideas,
+  freezerItems,
+  meals,
+  isOpen,
+  onClose,
+  onSave
+}) => {
+  const [date, setDate] = useState(defaultDate);
+  const [ideaId, setIdeaId] = useState('');
+  const [title, setTitle] = useState('');
+  const [reservations, setReservations] = useState<MealReservation[]>([]);
+  const [showAllItems, setShowAllItems] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Use the focus trap hook for keyboard navigation
+  const focusTrapRef = useFocusTrap(isOpen);
+
+  const suggestFor = (ingredients: string[]) =>
+    suggestReservations(matchFreezerItems(ingredients, freezerItems), meals, meal?.id);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setShowAllItems(false);
+    if (meal) {
+      setDate(meal.date);
+      setIdeaId(meal.mealIdeaId || '');
+      setTitle(meal.title);
+      setReservations(meal.reservations);
+    } else {
+      setDate(defaultDate);
+      setIdeaId(defaultIdea?.id || '');
+      setTitle(defaultIdea?.title || '');
+      setReservations(defaultIdea ? suggestFor(defaultIdea.ingredients) : []);
+    }
+    // Only reset when the modal opens
+  }, [isOpen]);
+
+  // Handle escape key press to close the modal
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  // Listen for the custom event from the focus trap hook
+  useEffect(() => {
+    const handleCloseFocusTrap = () => {
+      if (isOpen) onClose();
+    };
+
+    document.addEventListener('closeFocusTrap', handleCloseFocusTrap);
+    return () => {
+      document.removeEventListener('closeFocusTrap', handleCloseFocusTrap);
+    };
+  }, [isOpen, onClose]);
+
+  const selectedIdea = ideas.find(idea => idea.id === ideaId);
+
+  // Matching items first, then whatever else has been ticked
+  const matchedIds = useMemo(() => {
+    const ingredients = selectedIdea ? selectedIdea.ingredients : getTitleIngredients(title);
+    return new Set(matchFreezerItems(ingredients, freezerItems).map(item => item.id));
+  }, [selectedIdea, title, freezerItems]);
+
+  const shownItems = useMemo(() => {
+    const reservedIds = new Set(reservations.map(reservation => reservation.freezerItemId));
+    return freezerItems
+      .filter(item => showAllItems || matchedIds.has(item.id) || reservedIds.has(item.id))
+      .sort((a, b) => Number(matchedIds.has(b.id)) - Number(matchedIds.has(a.id)) || a.name.localeCompare(b.name));
+  }, [freezerItems, matchedIds, reservations, showAllItems]);
+
+  const handleIdeaChange = (value: string) => {
+    setIdeaId(value);
+    const idea = ideas.find(candidate => candidate.id === value);
+    if (idea) {
+      setTitle(idea.title);
+      setReservations(suggestFor(idea.ingredients));
+    }
+  };
+
+  // A typed-in meal gets suggestions once, so they don't fight with hand-picked items
+  const handleTitleBlur = () => {
+    if (!selectedIdea && reservations.length === 0 && title.trim()) {
+      setReservations(suggestFor(getTitleIngredients(title)));
+    }
+  };
+
+  const reservationFor = (item: FreezerItem) =>
+    reservations.find(reservation => reservation.freezerItemId === item.id);
+
+  const toggleItem = (item: FreezerItem) => {
+    setReservations(current => reservationFor(item)
+      ? current.filter(reservation => reservation.freezerItemId !== item.id)
+      : [...current, { freezerItemId: item.id, itemName: item.name, quantity: 1 }]);
+  };
+
+  const setQuantity = (item: FreezerItem, quantity: number) => {
+    setReservations(current => current.map(reservation =>
+      reservation.freezerItemId === item.id ? { ...reservation, quantity } : reservation
+    ));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = title.trim();
+    if (!trimmed || !date) return;
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        id: meal?.id || uuidv4(),
+        date,
+        title: trimmed,
+        mealIdeaId: selectedIdea ? selectedIdea.id : null,
+        // Reservations for items that are gone are kept so the plan can say so
+        reservations: reservations.filter(reservation => reservation.quantity > 0)
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const missingReservations = reservations.filter(reservation =>
+    !freezerItems.some(item => item.id === reservation.freezerItemId)
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="plan-meal-title"
+    >
+      <div
+        ref={focusTrapRef}
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-lg w-full max-w-md max-h-[90vh] flex flex-col relative"
+        tabIndex={-1}
+      >
+        <button
+          onClick={onClose}
+          className="absolute right-4 top-4 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+          aria-label="Close dialog"
+        >
+          <X size={20} aria-hidden="true" />
+        </button>
+
+        <form onSubmit={handleSubmit} className="flex flex-col min-h-0">
+          <div className="p-6 pb-4 space-y-4">
+            <h2 id="plan-meal-title" className="text-xl font-semibold text-slate-800 dark:text-slate-100">
+              {meal ? 'Edit meal' : 'Plan a meal'}
+            </h2>
+
+            <div>
+              <label htmlFor="plan-meal-date" className={labelClassName}>Day</label>
+              <input
+                id="plan-meal-date"
+                type="date"
+                value={date}
+                min={meal ? undefined : toDateKey(new Date())}
+                onChange={e => setDate(e.target.value)}
+                required
+                className={inputClassName}
+              />
+            </div>
+
+            {ideas.length > 0 && (
+              <div>
+                <label htmlFor="plan-meal-idea" className={labelClassName}>Meal idea</label>
+                <select
+                  id="plan-meal-idea"
+                  value={ideaId}
+                  onChange={e => handleIdeaChange(e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Type your own</option>
+                  {ideas.map(idea => (
+                    <option key={idea.id} value={idea.id}>{idea.title}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="plan-meal-name" className={labelClassName}>Meal</label>
+              <input
+                id="plan-meal-name"
+                type="text"
+                value={title}
+                onChange={e => setTitle(e.target.value)}
+                onBlur={handleTitleBlur}
+                placeholder="e.g. Chicken curry"
+                required
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="px-6 flex justify-between items-baseline">
+            <h3 className="text-sm font-medium text-slate-700 dark:text-slate-300">Set aside from the freezer</h3>
+            <button
+              type="button"
+              onClick={() => setShowAllItems(!showAllItems)}
+              className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {showAllItems ? 'Show matches only' : 'Show everything'}
+            </button>
+          </div>
+
+          <ul className="flex-1 overflow-y-auto px-6 mt-2 divide-y divide-slate-100 dark:divide-slate-700">
+            {shownItems.length === 0 && (
+              <li className="py-2 text-sm text-slate-500 dark:text-slate-400">
+                Nothing in the freezer matches this meal.
+              </li>
+            )}
+            {shownItems.map(item => {
+              const reservation = reservationFor(item);
+              const available = getAvailableQuantity(item, meals, meal?.id);
+              const expiresFirst = toDateKey(new Date(item.expirationDate)) < date;
+
+              return (
+                <li key={item.id} className="py-2">
+                  <div className="flex items-center gap-3 text-sm text-slate-700 dark:text-slate-300">
+                    <input
+                      id={`plan-item-${item.id}`}
+                      type="checkbox"
+                      checked={!!reservation}
+                      onChange={() => toggleItem(item)}
+                      disabled={!reservation && available === 0}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-slate-300 dark:border-slate-600 rounded"
+                    />
+                    <label htmlFor={`plan-item-${item.id}`} className="flex-1">
+                      {item.name}
+                      <span className="block text-xs text-slate-500 dark:text-slate-400">
+                        {available === 0 && !reservation ? 'All set aside for other meals' : `${available} of ${item.quantity} free`}
+                      </span>
+                    </label>
+                    {reservation && (
+                      <input
+                        type="number"
+                        min={1}
+                        max={Math.max(available, reservation.quantity)}
+                        value={reservation.quantity}
+                        onChange={e => setQuantity(item, Math.max(0, Number(e.target.value) || 0))}
+                        aria-label={`How many ${item.name}`}
+                        className="w-16 px-2 py-1 border border-slate-300 dark:border-slate-600 rounded-md dark:bg-slate-700 dark:text-slate-100"
+                      />
+                    )}
+                  </div>
+                  {reservation && reservation.quantity > available && (
+                    <p className="flex items-center gap-1 mt-1 ml-7 text-xs text-orange-600 dark:text-orange-400">
+                      <AlertTriangle size={12} aria-hidden="true" />
+                      Only {available} left once other meals are counted
+                    </p>
+                  )}
+                  {expiresFirst && (
+                    <p className="flex items-center gap-1 mt-1 ml-7 text-xs text-red-600 dark:text-red-400">
+                      <AlertTriangle size={12} aria-hidden="true" />
+                      Expires {formatDate(item.expirationDate)}, before this meal
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+            {missingReservations.map(reservation => (
+              <li key={reservation.freezerItemId} className="py-2 flex items-center gap-3 text-sm text-slate-500 dark:text-slate-400">
+                <AlertTriangle size={16} className="text-orange-500" aria-hidden="true" />
+                <span className="flex-1">{reservation.itemName} is no longer in the freezer</span>
+                <button
+                  type="button"
+                  onClick={() => setReservations(current => current.filter(other => other !== reservation))}
+                  className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="p-6 pt-4 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm text-sm font-medium text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || !title.trim() || !date}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 disabled:opacity-50"
+            >
+              {meal ? 'Save' : 'Plan meal'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PlanMealModal;
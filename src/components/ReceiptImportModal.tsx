@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import { X, ShoppingCart } from 'lucide-react';
+import { ReceiptItem, ShoppingItem } from '../types';
+import { getCategories } from '../data/categories';
+import { formatDate } from '../utils/freezerUtils';
+import useFocusTrap from '../hooks/useFocusTrap';
+
+interface ReceiptImportModalProps {
+  items: ReceiptItem[];
+  skipped: string[];
+  shoppingItems: ShoppingItem[];
+  isOpen: boolean;
+  onClose: () => void;
+  // Add the ticked items, and tick their shopping list matches off when asked to
+  onConfirm: (items: ReceiptItem[], tickShoppingList: boolean) => Promise<void> | void;
+}
+
+const ReceiptImportModal: React.FC<ReceiptImportModalProps> = ({
+  items,
+  skipped,
+  shoppingItems,
+  isOpen,
+  onClose,
+  onConfirm
+}) => {
+  const [editedItems, setEditedItems] = useState<ReceiptItem[]>(items);
+  const [tickShoppingList, setTickShoppingList] = useState(true);
+  const [showSkipped, setShowSkipped] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Use the focus trap hook for keyboard navigation
+  const focusTrapRef = useFocusTrap(isOpen);
+
+  useEffect(() => {
+    if (isOpen) {
+      setEditedItems(items);
+      setTickShoppingList(true);
+      setShowSkipped(false);
+    }
+  }, [isOpen, items]);
+
+  // Handle escape key press to close the modal
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  // Listen for the custom event from the focus trap hook
+  useEffect(() => {
+    const handleCloseFocusTrap = () => {
+      if (isOpen) onClose();
+    };
+
+    document.addEventListener('closeFocusTrap', handleCloseFocusTrap);
+    return () => {
+      document.removeEventListener('closeFocusTrap', handleCloseFocusTrap);
+    };
+  }, [isOpen, onClose]);
+
+  const updateItem = (id: string, changes: Partial<ReceiptItem>) => {
+    setEditedItems(current => current.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const selectedItems = editedItems.filter(item => item.selected);
+  const matchedCount = selectedItems.filter(item => item.shoppingItemId).length;
+  const hasUnnamed = selectedItems.some(item => !item.name.trim());
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm(
+        selectedItems.map(item => ({ ...item, name: item.name.trim() })),
+        tickShoppingList && matchedCount > 0
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClassName = "px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-md dark:bg-slate-700 dark:text-slate-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="receipt-import-title"
+    >
+      <div
+        ref={focusTrapRef}
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-lg w-full max-w-lg max-h-[90vh] flex flex-col relative"
+        tabIndex={-1}
+      >
+        <button
+          onClick={onClose}
+          className="absolute right-4 top-4 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+          aria-label="Close dialog"
+        >
+          <X size={20} aria-hidden="true" />
+        </button>
+
+        <div className="p-6 pb-4">
+          <h2 id="receipt-import-title" className="text-xl font-semibold mb-1 text-slate-800 dark:text-slate-100">
+            Freezer items on your receipt
+          </h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Untick anything that isn't going in the freezer.
+          </p>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto px-6 divide-y divide-slate-100 dark:divide-slate-700">
+          {editedItems.map(item => {
+            const shoppingMatch = item.shoppingItemId
+              ? shoppingItems.find(shoppingItem => shoppingItem.id === item.shoppingItemId)
+              : undefined;
+
+            return (
+              <li key={item.id} className={`py-3 flex gap-3 ${item.selected ? '' : 'opacity-60'}`}>
+                <input
+                  type="checkbox"
+                  checked={item.selected}
+                  onChange={() => updateItem(item.id, { selected: !item.selected })}
+                  className="mt-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-slate-300 dark:border-slate-600 rounded"
+                  aria-label={`Add ${item.name || item.text}`}
+                />
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={item.name}
+                      onChange={e => updateItem(item.id, { name: e.target.value })}
+                      className={`${inputClassName} flex-1 min-w-0`}
+                      aria-label={`Name for receipt line ${item.text}`}
+                    />
+                    <input
+                      type="number"
+                      min={1}
+                      value={item.quantity}
+                      onChange={e => updateItem(item.id, { quantity: Math.max(1, Number(e.target.value) || 1) })}
+                      className={`${inputClassName} w-16`}
+                      aria-label={`Quantity of ${item.name}`}
+                    />
+                  </div>
+                  <select
+                    value={item.category}
+                    onChange={e => updateItem(item.id, { category: e.target.value })}
+                    className={`${inputClassName} w-full`}
+                    aria-label={`Category of ${item.name}`}
+                  >
+                    {getCategories().map(category => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    <span className="font-mono">{item.text}</span> · keeps until {formatDate(item.expirationDate)}
+                  </p>
+                  {shoppingMatch && (
+                    <p className="flex items-center gap-1 text-xs text-green-600 dark:text-green-400">
+                      <ShoppingCart size={12} aria-hidden="true" />
+                      On your shopping list as "{shoppingMatch.name}"
+                    </p>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {skipped.length > 0 && (
+          <div className="px-6 pt-3 text-xs text-slate-500 dark:text-slate-400">
+            <button
+              type="button"
+              onClick={() => setShowSkipped(!showSkipped)}
+              className="underline hover:text-slate-700 dark:hover:text-slate-300"
+              aria-expanded={showSkipped}
+            >
+              {skipped.length} other line{skipped.length === 1 ? '' : 's'} skipped
+            </button>
+            {showSkipped && (
+              <ul className="mt-1 font-mono space-y-0.5">
+                {skipped.map((line, index) => <li key={index}>{line}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="p-6 pt-4 space-y-4">
+          {matchedCount > 0 && (
+            <label className="flex items-center space-x-3 text-sm text-slate-700 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={tickShoppingList}
+                onChange={() => setTickShoppingList(!tickShoppingList)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-slate-300 dark:border-slate-600 rounded"
+              />
+              <span>Tick {matchedCount} item{matchedCount === 1 ? '' : 's'} off the shopping list</span>
+            </label>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm text-sm font-medium text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={isSaving || selectedItems.length === 0 || hasUnnamed}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 disabled:opacity-50"
+            >
+              Add {selectedItems.length} to freezer
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptImportModal;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { ShoppingRecurrence } from '../types';
+import { WEEKDAYS } from '../utils/recurrenceUtils';
+
+interface RecurrenceEditorProps {
+  id: string;
+  value: ShoppingRecurrence | null;
+  onChange: (recurrence: ShoppingRecurrence | null) => void;
+  itemName: string; // Default freezer item to count for low-stock staples
+}
+
+type RecurrenceType = ShoppingRecurrence['type'] | 'none';
+
+const inputClassName = "px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:border-blue-500 dark:bg-slate-700 dark:text-slate-100";
+
+// Pick how a staple comes back onto the shopping list
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ id, value, onChange, itemName }) => {
+  const handleTypeChange = (type: RecurrenceType) => {
+    switch (type) {
+      case 'weekly':
+        onChange({ type: 'weekly', weekday: new Date().getDay() });
+        break;
+      case 'interval':
+        onChange({ type: 'interval', days: 14 });
+        break;
+      case 'lowStock':
+        onChange({ type: 'lowStock', freezerItem: itemName.trim().toLowerCase(), below: 1 });
+        break;
+      default:
+        onChange(null);
+    }
+  };
+
+  const readCount = (text: string) => Math.max(1, Math.floor(Number(text)) || 1);
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor={`${id}-type`} className="block text-sm font-medium text-slate-700 dark:text-slate-300">
+        Repeat
+      </label>
+      <select
+        id={`${id}-type`}
+        value={value ? value.type : 'none'}
+        onChange={e => handleTypeChange(e.target.value as RecurrenceType)}
+        className={`${inputClassName} w-full`}
+      >
+        <option value="none">Don't repeat</option>
+        <option value="weekly">Every week</option>
+        <option value="interval">Every few days</option>
+        <option value="lowStock">When the freezer runs low</option>
+      </select>
+
+      {value?.type === 'weekly' && (
+        <select
+          value={value.weekday}
+          onChange={e => onChange({ type: 'weekly', weekday: Number(e.target.value) })}
+          className={`${inputClassName} w-full`}
+          aria-label="Day of the week"
+        >
+          {WEEKDAYS.map((weekday, index) => (
+            <option key={weekday} value={index}>On {weekday}</option>
+          ))}
+        </select>
+      )}
+
+      {value?.type === 'interval' && (
+        <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+          Every
+          <input
+            type="number"
+            min={1}
+            value={value.days}
+            onChange={e => onChange({ type: 'interval', days: readCount(e.target.value) })}
+            className={`${inputClassName} w-20`}
+          />
+          days after buying it
+        </label>
+      )}
+
+      {value?.type === 'lowStock' && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+          <span>When fewer than</span>
+          <input
+            type="number"
+            min={1}
+            value={value.below}
+            onChange={e => onChange({ ...value, below: readCount(e.target.value) })}
+            className={`${inputClassName} w-20`}
+            aria-label="Minimum freezer count"
+          />
+          <input
+            type="text"
+            value={value.freezerItem}
+            onChange={e => onChange({ ...value, freezerItem: e.target.value })}
+            placeholder="freezer item"
+            className={`${inputClassName} flex-1 min-w-[8rem]`}
+            aria-label="Freezer item to count"
+            required
+          />
+          <span>are in the freezer</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
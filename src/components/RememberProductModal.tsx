@@ -0,0 +1,245 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { BarcodeMapping } from '../types';
+import { getCategories, guessCategory } from '../data/categories';
+import useFocusTrap from '../hooks/useFocusTrap';
+
+interface RememberProductModalProps {
+  barcode: string;
+  isOpen: boolean;
+  canRemember: boolean;
+  onClose: () => void;
+  // Add the item, saving the mapping first when `remember` is set
+  onSave: (mapping: Omit<BarcodeMapping, 'id'>, remember: boolean) => Promise<void> | void;
+  // Add the item under the lookup's placeholder name instead
+  onSkip?: () => void;
+}
+
+const RememberProductModal: React.FC<RememberProductModalProps> = ({
+  barcode,
+  isOpen,
+  canRemember,
+  onClose,
+  onSave,
+  onSkip
+}) => {
+  const [name, setName] = useState('');
+  const [size, setSize] = useState('');
+  const [category, setCategory] = useState('Other');
+  const [categoryTouched, setCategoryTouched] = useState(false);
+  const [shelfLifeDays, setShelfLifeDays] = useState('');
+  const [remember, setRemember] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Use the focus trap hook for keyboard navigation
+  const focusTrapRef = useFocusTrap(isOpen);
+
+  useEffect(() => {
+    // Start with an empty form for every new barcode
+    if (isOpen) {
+      setName('');
+      setSize('');
+      setCategory('Other');
+      setCategoryTouched(false);
+      setShelfLifeDays('');
+      setRemember(canRemember);
+    }
+  }, [isOpen, barcode, canRemember]);
+
+  // Handle escape key press to close the modal
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  // Listen for the custom event from the focus trap hook
+  useEffect(() => {
+    const handleCloseFocusTrap = () => {
+      if (isOpen) onClose();
+    };
+
+    document.addEventListener('closeFocusTrap', handleCloseFocusTrap);
+    return () => {
+      document.removeEventListener('closeFocusTrap', handleCloseFocusTrap);
+    };
+  }, [isOpen, onClose]);
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    // Suggest a category until the user picks one
+    if (!categoryTouched) {
+      setCategory(guessCategory(value));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    const days = parseInt(shelfLifeDays, 10);
+    setIsSaving(true);
+    try {
+      await onSave({
+        barcode,
+        name: name.trim(),
+        size: size.trim(),
+        category,
+        shelfLifeDays: days > 0 ? days : null
+      }, remember && canRemember);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const modalTitleId = `remember-product-${barcode}-title`;
+  const inputClassName = "w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:border-blue-500 dark:bg-slate-700 dark:text-slate-100";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby={modalTitleId}
+    >
+      <div
+        ref={focusTrapRef}
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-lg w-full max-w-md relative"
+        tabIndex={-1}
+      >
+        <button
+          onClick={onClose}
+          className="absolute right-4 top-4 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+          aria-label="Close dialog"
+        >
+          <X size={20} aria-hidden="true" />
+        </button>
+
+        <div className="p-6">
+          <h2 id={modalTitleId} className="text-xl font-semibold mb-1 text-slate-800 dark:text-slate-100">Unknown Product</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            We couldn't find barcode {barcode}. What is it?
+          </p>
+
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="remember-product-name" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  Item Name
+                </label>
+                <input
+                  type="text"
+                  id="remember-product-name"
+                  value={name}
+                  onChange={(e) => handleNameChange(e.target.value)}
+                  className={inputClassName}
+                  required
+                  autoFocus
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="remember-product-size" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    Size
+                  </label>
+                  <input
+                    type="text"
+                    id="remember-product-size"
+                    value={size}
+                    placeholder="e.g., 500g, 1lb"
+                    onChange={(e) => setSize(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="remember-product-shelf-life" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    Keeps for (days)
+                  </label>
+                  <input
+                    type="number"
+                    id="remember-product-shelf-life"
+                    value={shelfLifeDays}
+                    min="1"
+                    placeholder="Auto"
+                    onChange={(e) => setShelfLifeDays(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="remember-product-category" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  Category
+                </label>
+                <select
+                  id="remember-product-category"
+                  value={category}
+                  onChange={(e) => {
+                    setCategory(e.target.value);
+                    setCategoryTouched(true);
+                  }}
+                  className={inputClassName}
+                >
+                  {getCategories().map((cat) => (
+                    <option key={cat} value={cat}>{cat}</option>
+                  ))}
+                </select>
+              </div>
+
+              <label className="flex items-center space-x-3 text-sm text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={remember && canRemember}
+                  onChange={() => setRemember(!remember)}
+                  disabled={!canRemember}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-slate-300 dark:border-slate-600 rounded"
+                />
+                <span>
+                  Remember this product for next time
+                  {!canRemember && <span className="block text-xs text-slate-500 dark:text-slate-400">Viewers can't save products for the household</span>}
+                </span>
+              </label>
+            </div>
+
+            <div className="mt-6 flex justify-end gap-3">
+              {onSkip && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    onSkip();
+                    onClose();
+                  }}
+                  className="px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm text-sm font-medium text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+                >
+                  Skip
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={isSaving || !name.trim()}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 disabled:opacity-50"
+              >
+                Add Item
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RememberProductModal;
@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Share2, Copy, Link2Off } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { ShoppingListShare } from '../types';
+import { fetchListShares, createListShare, revokeListShare, getListShareLink } from '../api/supabase';
+import { formatDate } from '../utils/freezerUtils';
+import useFocusTrap from '../hooks/useFocusTrap';
+import { logger } from "@/lib/logger";
+
+interface ShareListModalProps {
+  householdId: string;
+  listId: string | null;
+  listName: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '', label: 'Until I turn it off' },
+  { value: '1', label: 'For 1 day' },
+  { value: '7', label: 'For a week' },
+  { value: '30', label: 'For 30 days' }
+];
+
+const ShareListModal: React.FC<ShareListModalProps> = ({
+  householdId,
+  listId,
+  listName,
+  isOpen,
+  onClose
+}) => {
+  const [shares, setShares] = useState<ShoppingListShare[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [expiresIn, setExpiresIn] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Use the focus trap hook for keyboard navigation
+  const focusTrapRef = useFocusTrap(isOpen);
+
+  const loadShares = useCallback(async () => {
+    setLoading(true);
+    try {
+      setShares(await fetchListShares(householdId, listId));
+    } catch (error) {
+      logger.error('Error loading shared links:', error);
+      toast.error('Failed to load shared links');
+    } finally {
+      setLoading(false);
+    }
+  }, [householdId, listId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setExpiresIn('');
+      loadShares();
+    }
+  }, [isOpen, loadShares]);
+
+  // Handle escape key press to close the modal
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  // Listen for the custom event from the focus trap hook
+  useEffect(() => {
+    const handleCloseFocusTrap = () => {
+      if (isOpen) onClose();
+    };
+
+    document.addEventListener('closeFocusTrap', handleCloseFocusTrap);
+    return () => {
+      document.removeEventListener('closeFocusTrap', handleCloseFocusTrap);
+    };
+  }, [isOpen, onClose]);
+
+  const copyLink = async (token: string) => {
+    const link = getListShareLink(token);
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('List link copied to clipboard');
+    } catch {
+      // Clipboard access can be denied; show the link instead
+      toast(link, { duration: 10000 });
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const share = await createListShare(householdId, listId, expiresIn ? Number(expiresIn) : null);
+      setShares(current => [share, ...current]);
+      await copyLink(share.token);
+    } catch (error) {
+      logger.error('Error creating shared link:', error);
+      toast.error('Failed to create link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (share: ShoppingListShare) => {
+    try {
+      await revokeListShare(share.id);
+      setShares(current => current.filter(other => other.id !== share.id));
+      toast.success('Link turned off');
+    } catch (error) {
+      logger.error('Error revoking shared link:', error);
+      toast.error('Failed to turn off link');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="share-list-title"
+    >
+      <div
+        ref={focusTrapRef}
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-lg w-full max-w-md max-h-[90vh] overflow-y-auto p-6 relative"
+        tabIndex={-1}
+      >
+        <button
+          onClick={onClose}
+          className="absolute right-4 top-4 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+          aria-label="Close dialog"
+        >
+          <X size={20} aria-hidden="true" />
+        </button>
+
+        <h2 id="share-list-title" className="text-xl font-semibold mb-2 text-slate-800 dark:text-slate-100">
+          Share {listName}
+        </h2>
+        <p className="text-sm text-slate-600 dark:text-slate-300 mb-4">
+          Anyone with the link can see what's still to buy and tick things off, without signing in.
+          They can't see anything else in your household.
+        </p>
+
+        <div className="flex gap-2 mb-6">
+          <select
+            value={expiresIn}
+            onChange={e => setExpiresIn(e.target.value)}
+            aria-label="Link works"
+            className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:border-blue-500 dark:bg-slate-700 dark:text-slate-100"
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="flex items-center gap-2 px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 disabled:opacity-50"
+          >
+            <Share2 size={16} aria-hidden="true" />
+            Create link
+          </button>
+        </div>
+
+        <h3 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Active links</h3>
+        {loading ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">Loading…</p>
+        ) : shares.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">This list isn't shared.</p>
+        ) : (
+          <ul className="space-y-3">
+            {shares.map(share => (
+              <li key={share.id} className="border border-slate-200 dark:border-slate-700 rounded-md p-3">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    readOnly
+                    value={getListShareLink(share.token)}
+                    onFocus={e => e.target.select()}
+                    aria-label="Shared list link"
+                    className="flex-1 min-w-0 px-2 py-1 text-sm border border-slate-200 dark:border-slate-600 rounded bg-slate-50 dark:bg-slate-700 text-slate-700 dark:text-slate-200"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => copyLink(share.token)}
+                    className="text-slate-400 dark:text-slate-500 hover:text-blue-500 dark:hover:text-blue-400 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded p-1"
+                    aria-label="Copy link"
+                  >
+                    <Copy size={16} aria-hidden="true" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(share)}
+                    className="text-slate-400 dark:text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-red-500 rounded p-1"
+                    aria-label="Turn off link"
+                  >
+                    <Link2Off size={16} aria-hidden="true" />
+                  </button>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                  {share.expiresAt ? `Works until ${formatDate(share.expiresAt)}` : 'Works until you turn it off'}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShareListModal;
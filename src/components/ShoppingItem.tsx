@@ -1,19 +1,25 @@
 import React, { memo } from 'react';
-import { Trash2, Edit2 } from 'lucide-react';
+import { Trash2, Edit2, Repeat, Snowflake } from 'lucide-react';
 import { ShoppingItem as ShoppingItemType } from '../types';
+import { describeRecurrence } from '../utils/recurrenceUtils';
 
 interface ShoppingItemProps {
   item: ShoppingItemType;
-  onToggle: (id: string) => void;
-  onRemove: (id: string) => void;
-  onEdit: (item: ShoppingItemType) => void;
+  // Left out for viewers of a household, who can't change the list
+  onToggle?: (id: string) => void;
+  onRemove?: (id: string) => void;
+  onEdit?: (item: ShoppingItemType) => void;
+  onMoveToFreezer?: (item: ShoppingItemType) => void;
+  moving?: boolean;
 }
 
 const ShoppingItem: React.FC<ShoppingItemProps> = ({ 
   item, 
   onToggle, 
   onRemove,
-  onEdit
+  onEdit,
+  onMoveToFreezer,
+  moving = false
 }) => {
   const itemId = `shopping-item-${item.id}`;
   
@@ -28,7 +34,8 @@ const ShoppingItem: React.FC<ShoppingItemProps> = ({
         type="checkbox"
         id={`${itemId}-checkbox`}
         checked={item.completed}
-        onChange={() => onToggle(item.id)}
+        onChange={() => onToggle?.(item.id)}
+        disabled={!onToggle}
         className="h-5 w-5 rounded border-slate-300 dark:border-slate-600 text-blue-600 focus-visible:ring-blue-500 dark:bg-slate-700"
         aria-labelledby={`${itemId}-label`}
       />
@@ -41,25 +48,48 @@ const ShoppingItem: React.FC<ShoppingItemProps> = ({
           {item.name}
         </p>
         {item.category && (
-          <span className="text-xs text-slate-500 dark:text-slate-300" id={`${itemId}-category`}>{item.category}</span>
+          <span className="text-xs text-slate-500 dark:text-slate-300" id={`${itemId}-category`}>
+            {item.category}{item.store && ` · ${item.store}`}
+          </span>
+        )}
+        {item.recurrence && (
+          <span className="ml-2 inline-flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400">
+            <Repeat size={12} aria-hidden="true" />
+            {describeRecurrence(item.recurrence)}
+          </span>
         )}
       </div>
       
       <div className="flex items-center gap-2">
-        <button
-          onClick={() => onEdit(item)}
-          className="text-slate-400 dark:text-slate-500 hover:text-blue-500 dark:hover:text-blue-400 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 dark:focus-visible:ring-offset-slate-800 rounded-full p-1"
-          aria-label={`Edit ${item.name}`}
-        >
-          <Edit2 size={18} aria-hidden="true" />
-        </button>
-        <button
-          onClick={() => onRemove(item.id)}
-          className="text-slate-400 dark:text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2 dark:focus-visible:ring-offset-slate-800 rounded-full p-1"
-          aria-label={`Remove ${item.name}`}
-        >
-          <Trash2 size={18} aria-hidden="true" />
-        </button>
+        {onMoveToFreezer && (
+          <button
+            onClick={() => onMoveToFreezer(item)}
+            disabled={moving}
+            className="text-slate-400 dark:text-slate-500 hover:text-blue-500 dark:hover:text-blue-400 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 dark:focus-visible:ring-offset-slate-800 rounded-full p-1 disabled:opacity-50"
+            aria-label={`Bought ${item.name}, add to freezer`}
+            title="Bought - add to freezer"
+          >
+            <Snowflake size={18} aria-hidden="true" />
+          </button>
+        )}
+        {onEdit && (
+          <button
+            onClick={() => onEdit(item)}
+            className="text-slate-400 dark:text-slate-500 hover:text-blue-500 dark:hover:text-blue-400 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 dark:focus-visible:ring-offset-slate-800 rounded-full p-1"
+            aria-label={`Edit ${item.name}`}
+          >
+            <Edit2 size={18} aria-hidden="true" />
+          </button>
+        )}
+        {onRemove && (
+          <button
+            onClick={() => onRemove(item.id)}
+            className="text-slate-400 dark:text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2 dark:focus-visible:ring-offset-slate-800 rounded-full p-1"
+            aria-label={`Remove ${item.name}`}
+          >
+            <Trash2 size={18} aria-hidden="true" />
+          </button>
+        )}
       </div>
     </div>
   );
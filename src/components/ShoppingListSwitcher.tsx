@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { ClipboardList, Pencil, Trash2, ArrowRightLeft, Share2 } from 'lucide-react';
+import { ShoppingList } from '../types';
+import { MAIN_LIST_NAME } from '../utils/shoppingUtils';
+
+interface ShoppingListSwitcherProps {
+  lists: ShoppingList[];
+  activeListId: string | null;
+  itemCount: number;
+  canEdit: boolean;
+  onSelect: (listId: string | null) => void;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (listId: string, name: string) => Promise<void>;
+  onDelete: (listId: string) => Promise<void>;
+  onTransfer: () => void;
+  // Only offered when the list lives in a household, since the link is served from there
+  onShare?: () => void;
+}
+
+type Mode = 'idle' | 'new' | 'rename' | 'delete';
+
+const iconButtonClassName = 'text-slate-400 dark:text-slate-500 hover:text-blue-500 dark:hover:text-blue-400 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded-full p-1';
+
+const inputClassName = 'flex-1 px-3 py-1.5 text-sm border border-slate-200 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const ShoppingListSwitcher: React.FC<ShoppingListSwitcherProps> = ({
+  lists,
+  activeListId,
+  itemCount,
+  canEdit,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onTransfer,
+  onShare
+}) => {
+  const [mode, setMode] = useState<Mode>('idle');
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const activeList = lists.find(list => list.id === activeListId);
+
+  const reset = () => {
+    setMode('idle');
+    setName('');
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      reset();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    if (mode === 'rename' && activeList) {
+      run(() => onRename(activeList.id, trimmed));
+    } else {
+      run(() => onCreate(trimmed));
+    }
+  };
+
+  const handleSelect = (value: string) => {
+    if (value === '__new') {
+      setMode('new');
+      return;
+    }
+    onSelect(value || null);
+  };
+
+  if (mode === 'new' || mode === 'rename') {
+    return (
+      <form onSubmit={handleSubmit} className="flex items-center gap-2 mb-3">
+        <ClipboardList size={18} className="text-slate-500 dark:text-slate-400" aria-hidden="true" />
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder={mode === 'new' ? 'e.g. Costco run' : activeList?.name}
+          aria-label={mode === 'new' ? 'New list name' : 'List name'}
+          autoFocus
+          className={inputClassName}
+        />
+        <button
+          type="submit"
+          disabled={!name.trim() || busy}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {mode === 'new' ? 'Create' : 'Rename'}
+        </button>
+        <button
+          type="button"
+          onClick={reset}
+          className="px-3 py-1.5 text-sm text-slate-600 dark:text-slate-300 hover:text-slate-800 dark:hover:text-slate-100"
+        >
+          Cancel
+        </button>
+      </form>
+    );
+  }
+
+  if (mode === 'delete' && activeList) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 mb-3 p-3 rounded-lg bg-red-50 dark:bg-red-900/30 text-sm text-red-800 dark:text-red-200" role="alert">
+        <span className="flex-1">
+          Delete "{activeList.name}"{itemCount > 0 && ` and its ${itemCount} item${itemCount === 1 ? '' : 's'}`}?
+        </span>
+        <button
+          onClick={() => run(() => onDelete(activeList.id))}
+          disabled={busy}
+          className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+        >
+          Delete
+        </button>
+        <button
+          onClick={reset}
+          className="px-3 py-1.5 text-slate-600 dark:text-slate-300 hover:text-slate-800 dark:hover:text-slate-100"
+        >
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 mb-3">
+      <ClipboardList size={18} className="text-slate-500 dark:text-slate-400" aria-hidden="true" />
+      <select
+        value={activeList ? activeList.id : ''}
+        onChange={e => handleSelect(e.target.value)}
+        aria-label="Shopping list"
+        className="px-3 py-1.5 text-sm border border-slate-200 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">{MAIN_LIST_NAME}</option>
+        {lists.map(list => (
+          <option key={list.id} value={list.id}>{list.name}</option>
+        ))}
+        {canEdit && <option value="__new">New list…</option>}
+      </select>
+      {activeList && canEdit && (
+        <>
+          <button
+            onClick={() => {
+              setName(activeList.name);
+              setMode('rename');
+            }}
+            className={iconButtonClassName}
+            aria-label={`Rename ${activeList.name}`}
+          >
+            <Pencil size={16} aria-hidden="true" />
+          </button>
+          <button
+            onClick={() => setMode('delete')}
+            className="text-slate-400 dark:text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-red-500 rounded-full p-1"
+            aria-label={`Delete ${activeList.name}`}
+          >
+            <Trash2 size={16} aria-hidden="true" />
+          </button>
+        </>
+      )}
+      <div className="ml-auto flex items-center gap-3">
+        {canEdit && lists.length > 0 && itemCount > 0 && (
+          <button
+            onClick={onTransfer}
+            className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+          >
+            <ArrowRightLeft size={16} aria-hidden="true" />
+            Move or copy
+          </button>
+        )}
+        {onShare && (
+          <button
+            onClick={onShare}
+            className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+          >
+            <Share2 size={16} aria-hidden="true" />
+            Share list
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShoppingListSwitcher;
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Repeat, Edit2, X, PlusCircle } from 'lucide-react';
+import { FreezerItem, ShoppingItem, ShoppingRecurrence } from '../types';
+import { describeRecurrence, getNextDueDate, countInFreezer } from '../utils/recurrenceUtils';
+import { formatDate } from '../utils/freezerUtils';
+import RecurrenceEditor from './RecurrenceEditor';
+import EmptyState from './EmptyState';
+
+interface StaplesListProps {
+  staples: ShoppingItem[];
+  freezerItems: FreezerItem[];
+  onAdd: (name: string, recurrence: ShoppingRecurrence) => Promise<void> | void;
+  onEdit: (item: ShoppingItem) => void;
+  onStopRepeating: (item: ShoppingItem) => void;
+  // Viewers of a household see its staples but can't change them
+  canEdit?: boolean;
+}
+
+// When a staple is next on the list
+const getStapleStatus = (item: ShoppingItem, freezerItems: FreezerItem[]): string => {
+  if (!item.recurrence) return '';
+  if (!item.completed) return 'On the list now';
+
+  if (item.recurrence.type === 'lowStock') {
+    return `${countInFreezer(item.recurrence.freezerItem, freezerItems)} in the freezer now`;
+  }
+
+  const due = item.completedAt ? getNextDueDate(item.recurrence, new Date(item.completedAt)) : null;
+  return due ? `Back on ${formatDate(due)}` : 'Back on the list soon';
+};
+
+const StaplesList: React.FC<StaplesListProps> = ({
+  staples,
+  freezerItems,
+  onAdd,
+  onEdit,
+  onStopRepeating,
+  canEdit = true
+}) => {
+  const [name, setName] = useState('');
+  const [recurrence, setRecurrence] = useState<ShoppingRecurrence | null>({ type: 'weekly', weekday: new Date().getDay() });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !recurrence) return;
+
+    await onAdd(name.trim(), recurrence);
+    setName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      {canEdit && (
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white dark:bg-slate-800 rounded-lg border border-slate-100 dark:border-slate-700 p-4 space-y-3"
+        >
+          <div>
+            <label htmlFor="new-staple-name" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+              New staple
+            </label>
+            <input
+              type="text"
+              id="new-staple-name"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="e.g. Frozen peas"
+              className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:border-blue-500 dark:bg-slate-700 dark:text-slate-100"
+            />
+          </div>
+          <RecurrenceEditor
+            id="new-staple-recurrence"
+            value={recurrence}
+            onChange={setRecurrence}
+            itemName={name}
+          />
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={!name.trim() || !recurrence}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <PlusCircle size={18} aria-hidden="true" />
+              Add staple
+            </button>
+          </div>
+        </form>
+      )}
+
+      {staples.length > 0 ? (
+        <ul className="bg-white dark:bg-slate-800 rounded-lg overflow-hidden border border-slate-100 dark:border-slate-700">
+          {staples.map(item => item.recurrence && (
+            <li key={item.id} className="flex items-center p-3 border-b border-slate-100 dark:border-slate-700">
+              <Repeat size={18} className="text-blue-500 dark:text-blue-400 flex-shrink-0" aria-hidden="true" />
+              <div className="ml-3 flex-1 min-w-0">
+                <p className="text-slate-800 dark:text-slate-200">{item.name}</p>
+                <p className="text-xs text-slate-500 dark:text-slate-300">
+                  {describeRecurrence(item.recurrence)} · {getStapleStatus(item, freezerItems)}
+                </p>
+              </div>
+              {canEdit && (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onEdit(item)}
+                    className="text-slate-400 dark:text-slate-500 hover:text-blue-500 dark:hover:text-blue-400 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded-full p-1"
+                    aria-label={`Edit ${item.name}`}
+                  >
+                    <Edit2 size={18} aria-hidden="true" />
+                  </button>
+                  <button
+                    onClick={() => onStopRepeating(item)}
+                    className="text-slate-400 dark:text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-red-500 rounded-full p-1"
+                    aria-label={`Stop repeating ${item.name}`}
+                    title="Stop repeating"
+                  >
+                    <X size={18} aria-hidden="true" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <EmptyState
+          title="No staples yet"
+          description="Staples come back onto your shopping list every week, every few days, or when the freezer runs low"
+          icon={<Repeat size={32} />}
+        />
+      )}
+    </div>
+  );
+};
+
+export default StaplesList;
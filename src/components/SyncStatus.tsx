@@ -0,0 +1,50 @@
+import React from 'react';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { useStorage } from '../store/StorageContext';
+
+const SyncStatus: React.FC = () => {
+  const { sync, isAuthenticated } = useStorage();
+  const { isOnline, isSyncing, pendingChanges, syncNow } = sync;
+
+  if (isOnline && pendingChanges === 0 && !isSyncing) {
+    return null;
+  }
+
+  const pendingLabel = `${pendingChanges} change${pendingChanges === 1 ? '' : 's'}`;
+  let label: string;
+
+  if (!isOnline) {
+    label = pendingChanges > 0 ? `Offline · ${pendingLabel} waiting to sync` : 'Offline';
+  } else if (isSyncing) {
+    label = 'Syncing...';
+  } else if (!isAuthenticated) {
+    label = `${pendingLabel} will sync when you sign in`;
+  } else {
+    label = `${pendingLabel} waiting to sync`;
+  }
+
+  return (
+    <div
+      className="ml-auto flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400"
+      role="status"
+      aria-live="polite"
+    >
+      {isOnline ? (
+        <RefreshCw size={16} className={isSyncing ? 'animate-spin' : ''} aria-hidden="true" />
+      ) : (
+        <CloudOff size={16} aria-hidden="true" />
+      )}
+      <span>{label}</span>
+      {isOnline && isAuthenticated && !isSyncing && pendingChanges > 0 && (
+        <button
+          onClick={() => syncNow()}
+          className="text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatus;
@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { ShoppingItem, ShoppingList } from '../types';
+import { MAIN_LIST_NAME } from '../utils/shoppingUtils';
+import useFocusTrap from '../hooks/useFocusTrap';
+
+interface TransferItemsModalProps {
+  items: ShoppingItem[];
+  lists: ShoppingList[];
+  fromListId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+  // Move takes the items off this list, copy leaves them on it
+  onConfirm: (items: ShoppingItem[], toListId: string | null, mode: 'move' | 'copy') => Promise<void> | void;
+}
+
+const TransferItemsModal: React.FC<TransferItemsModalProps> = ({
+  items,
+  lists,
+  fromListId,
+  isOpen,
+  onClose,
+  onConfirm
+}) => {
+  const targets = [
+    { id: '', name: MAIN_LIST_NAME },
+    ...lists.map(list => ({ id: list.id, name: list.name }))
+  ].filter(target => (target.id || null) !== fromListId);
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [toListId, setToListId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Use the focus trap hook for keyboard navigation
+  const focusTrapRef = useFocusTrap(isOpen);
+
+  useEffect(() => {
+    if (isOpen) {
+      // Start with what's still to buy
+      setSelectedIds(items.filter(item => !item.completed).map(item => item.id));
+      setToListId(targets[0]?.id ?? '');
+    }
+    // Only reset when the modal opens
+  }, [isOpen]);
+
+  // Handle escape key press to close the modal
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  // Listen for the custom event from the focus trap hook
+  useEffect(() => {
+    const handleCloseFocusTrap = () => {
+      if (isOpen) onClose();
+    };
+
+    document.addEventListener('closeFocusTrap', handleCloseFocusTrap);
+    return () => {
+      document.removeEventListener('closeFocusTrap', handleCloseFocusTrap);
+    };
+  }, [isOpen, onClose]);
+
+  const toggleItem = (id: string) => {
+    setSelectedIds(current => current.includes(id) ? current.filter(other => other !== id) : [...current, id]);
+  };
+
+  const selectedItems = items.filter(item => selectedIds.includes(item.id));
+  const allSelected = items.length > 0 && selectedItems.length === items.length;
+
+  const handleConfirm = async (mode: 'move' | 'copy') => {
+    setIsSaving(true);
+    try {
+      await onConfirm(selectedItems, toListId || null, mode);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="transfer-items-title"
+    >
+      <div
+        ref={focusTrapRef}
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-lg w-full max-w-md max-h-[90vh] flex flex-col relative"
+        tabIndex={-1}
+      >
+        <button
+          onClick={onClose}
+          className="absolute right-4 top-4 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+          aria-label="Close dialog"
+        >
+          <X size={20} aria-hidden="true" />
+        </button>
+
+        <div className="p-6 pb-4">
+          <h2 id="transfer-items-title" className="text-xl font-semibold mb-4 text-slate-800 dark:text-slate-100">
+            Move or copy items
+          </h2>
+          <label htmlFor="transfer-to-list" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+            To list
+          </label>
+          <select
+            id="transfer-to-list"
+            value={toListId}
+            onChange={e => setToListId(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:border-blue-500 dark:bg-slate-700 dark:text-slate-100"
+          >
+            {targets.map(target => (
+              <option key={target.id} value={target.id}>{target.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="px-6 pb-2">
+          <label className="flex items-center space-x-3 text-sm text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelectedIds(allSelected ? [] : items.map(item => item.id))}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-slate-300 dark:border-slate-600 rounded"
+            />
+            <span>All items</span>
+          </label>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto px-6 divide-y divide-slate-100 dark:divide-slate-700">
+          {items.map(item => (
+            <li key={item.id} className="py-2">
+              <label className="flex items-center space-x-3 text-sm text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(item.id)}
+                  onChange={() => toggleItem(item.id)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-slate-300 dark:border-slate-600 rounded"
+                />
+                <span className={item.completed ? 'line-through text-slate-500 dark:text-slate-400' : ''}>{item.name}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        <div className="p-6 pt-4 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={() => handleConfirm('copy')}
+            disabled={isSaving || selectedItems.length === 0 || targets.length === 0}
+            className="px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm text-sm font-medium text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 disabled:opacity-50"
+          >
+            Copy {selectedItems.length}
+          </button>
+          <button
+            type="button"
+            onClick={() => handleConfirm('move')}
+            disabled={isSaving || selectedItems.length === 0 || targets.length === 0}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 disabled:opacity-50"
+          >
+            Move {selectedItems.length}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransferItemsModal;
@@ -1,18 +1,39 @@
 import React from 'react';
 import { useState, useRef, useEffect } from "react";
-import { Mic, Send, ScanBarcode, ImagePlus, Loader, Square } from "lucide-react";
+import { Mic, Send, ScanBarcode, ImagePlus, Receipt, Loader, Square, MapPin } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
 import BarcodeScanner from "./BarcodeScanner";
+import RememberProductModal from "./RememberProductModal";
+import ParsedItemsConfirmModal from "./ParsedItemsConfirmModal";
+import ReceiptImportModal from "./ReceiptImportModal";
 import { logger } from "@/lib/logger";
+import { toast } from "react-hot-toast";
+import { getLastUsedLocation, setLastUsedLocation } from "../utils/storage";
+import { getSpeechProvider, SpeechSession } from "../lib/speech";
+import { parseItemText, ParsedItemDetails } from "../utils/textParser";
+import { toReceiptItems } from "../utils/receiptUtils";
+import { scanReceipt } from "../api/services/images";
+import { useBarcodeMappings } from "../hooks/useBarcodeMappings";
+import { useStorage } from "../store/StorageContext";
+import { BarcodeMapping, ScannedItem, ReceiptItem } from "../types";
 
 interface UniversalInputBarProps {
   onSubmit: (value: string) => Promise<void> | void;
+  // When set, typed and spoken text is parsed here and several items are confirmed before adding
+  onSubmitItems?: (items: ParsedItemDetails[]) => Promise<void> | void;
   onImageUpload?: (file: File) => Promise<void> | void;
   onBarcodeScanned?: (barcode: string) => void;
-  onVoiceInput?: (transcript: string) => void;
+  // Adds an item from a product the household named; without it the name goes to onSubmit
+  onMappedProduct?: (mapping: BarcodeMapping) => Promise<void> | void;
+  // Enables batch mode in the scanner, adding everything reviewed in one go
+  onBatchScanned?: (items: ScannedItem[]) => Promise<void> | void;
+  // Enables receipt import, adding the products ticked on the checklist
+  onReceiptItems?: (items: ReceiptItem[]) => Promise<void> | void;
+  onVoiceInput?: (transcript: string) => Promise<void> | void;
   placeholder?: string;
+  locations?: string[]; // When provided, shows a picker for where new items are stored
 }
 
 // Voice recording states
@@ -20,10 +41,15 @@ type VoiceState = 'inactive' | 'recording' | 'processing';
 
 const UniversalInputBar: React.FC<UniversalInputBarProps> = ({
   onSubmit,
+  onSubmitItems,
   onImageUpload,
   onBarcodeScanned,
+  onMappedProduct,
+  onBatchScanned,
+  onReceiptItems,
   onVoiceInput,
-  placeholder = "Add item to freezer..."
+  placeholder = "Add item to freezer...",
+  locations
 }) => {
   const [inputValue, setInputValue] = useState('');
   const [isTyping, setIsTyping] = useState(false);
@@ -33,20 +59,25 @@ const UniversalInputBar: React.FC<UniversalInputBarProps> = ({
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isParsing, setIsParsing] = useState(false);
   const [showBarcodeScanner, setShowBarcodeScanner] = useState(false);
+  const [unknownBarcode, setUnknownBarcode] = useState<string | null>(null);
+  const [pendingItems, setPendingItems] = useState<ParsedItemDetails[] | null>(null);
+  const [receiptItems, setReceiptItems] = useState<ReceiptItem[] | null>(null);
+  const [receiptSkipped, setReceiptSkipped] = useState<string[]>([]);
   const [voiceState, setVoiceState] = useState<VoiceState>('inactive');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedLocation, setSelectedLocation] = useState<string>(getLastUsedLocation);
+  
+  const { findMapping, rememberProduct, canRemember } = useBarcodeMappings();
+  const { shoppingItems } = useStorage();
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const receiptInputRef = useRef<HTMLInputElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const formRef = useRef<HTMLFormElement>(null);
   
   // Speech recognition setup
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
-  const transcriptRef = useRef<string>('');
-  
-  // Browser compatibility check for SpeechRecognition
-  const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-  const hasSpeechRecognition = !!SpeechRecognition;
+  const [speechProvider] = useState(getSpeechProvider);
+  const speechSessionRef = useRef<SpeechSession | null>(null);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
@@ -54,13 +85,34 @@ const UniversalInputBar: React.FC<UniversalInputBarProps> = ({
     setIsTyping(value.length > 0);
   };
 
+  // Parse the text into items, asking for confirmation when it describes more than one
+  const submitText = async (text: string) => {
+    if (!onSubmitItems) {
+      await onSubmit(text);
+      return;
+    }
+    
+    const items = await parseItemText(text, null);
+    if (items.length > 1) {
+      setPendingItems(items);
+    } else {
+      await onSubmitItems(items);
+    }
+  };
+
+  const handleConfirmItems = async (items: ParsedItemDetails[]) => {
+    if (!onSubmitItems) return;
+    await onSubmitItems(items);
+    setPendingItems(null);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (inputValue.trim() && !isLoading && !isUploading && !isParsing) {
       try {
         setIsLoading(true);
         setIsParsing(true);
-        await onSubmit(inputValue.trim());
+        await submitText(inputValue.trim());
         setInputValue('');
         setIsTyping(false);
       } catch (error) {
@@ -72,6 +124,12 @@ const UniversalInputBar: React.FC<UniversalInputBarProps> = ({
     }
   };
 
+  // Remember the chosen location so new items default to it
+  const handleLocationChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setSelectedLocation(e.target.value);
+    setLastUsedLocation(e.target.value);
+  };
+
   const handleImageUpload = () => {
     fileInputRef.current?.click();
   };
@@ -112,126 +170,180 @@ const UniversalInputBar: React.FC<UniversalInputBarProps> = ({
     }
   };
 
+  const handleReceiptUpload = () => {
+    receiptInputRef.current?.click();
+  };
+
+  // Read the receipt and show its freezer products as a checklist
+  const handleReceiptChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsParsing(true);
+    setIsTyping(true);
+    try {
+      const scan = await scanReceipt(file);
+      const items = toReceiptItems(scan, shoppingItems.items);
+      if (items.length === 0) {
+        toast.error('No freezer items found on that receipt');
+        return;
+      }
+
+      setReceiptSkipped(scan.skipped);
+      setReceiptItems(items);
+    } catch (error) {
+      logger.error('Error scanning receipt:', error);
+      toast.error("Couldn't read that receipt. Try a clearer photo.");
+    } finally {
+      setIsParsing(false);
+      setIsTyping(false);
+    }
+  };
+
+  const handleConfirmReceipt = async (items: ReceiptItem[], tickShoppingList: boolean) => {
+    if (!onReceiptItems) return;
+    await onReceiptItems(items);
+    setReceiptItems(null);
+
+    if (tickShoppingList) {
+      const matchedIds = new Set(items.map(item => item.shoppingItemId).filter(Boolean));
+      try {
+        for (const item of shoppingItems.items) {
+          if (matchedIds.has(item.id) && !item.completed) {
+            await shoppingItems.updateItem({ ...item, completed: true });
+          }
+        }
+      } catch (error) {
+        logger.error('Error ticking off shopping items:', error);
+        toast.error('Failed to update the shopping list');
+      }
+    }
+  };
+
   const handleBarcodeScanning = () => {
     if (onBarcodeScanned) {
       setShowBarcodeScanner(true);
     }
   };
 
+  // Run an add with the parsing animation showing
+  const withParsing = async (add: () => Promise<void> | void) => {
+    setIsParsing(true);
+    setIsTyping(true);
+    
+    try {
+      await add();
+    } catch (error) {
+      logger.error('Error adding product from barcode:', error);
+    } finally {
+      setIsParsing(false);
+      setIsTyping(false);
+    }
+  };
+
+  // Add a product the household has named, with its category and shelf life when possible
+  const addMappedProduct = (mapping: Omit<BarcodeMapping, 'id'>) => withParsing(() =>
+    onMappedProduct
+      ? onMappedProduct({ id: '', ...mapping })
+      : onSubmit([mapping.name, mapping.size].filter(Boolean).join(' '))
+  );
+
   // Handle barcode detection from the scanner
-  const handleBarcodeDetected = async (barcode: string, productName: string | null) => {
+  const handleBarcodeDetected = async (barcode: string, productName: string | null, mapping?: BarcodeMapping) => {
     setShowBarcodeScanner(false);
     
+    if (mapping) {
+      logger.debug(`Using saved product for ${barcode}: ${mapping.name}`);
+      await addMappedProduct(mapping);
+    }
     // If product name was already found, use it
-    if (productName) {
+    else if (productName) {
       logger.debug(`Product found: ${productName}`);
-      setIsParsing(true);
-      setIsTyping(true);
-      
-      try {
-        await onSubmit(productName);
-      } catch (error) {
-        logger.error('Error submitting product from barcode:', error);
-      } finally {
-        setIsParsing(false);
-        setIsTyping(false);
-      }
+      await withParsing(() => onSubmit(productName));
     } 
-    // Otherwise process the barcode directly
-    else if (onBarcodeScanned) {
-      logger.debug(`Processing barcode: ${barcode}`);
-      setIsParsing(true);
-      setIsTyping(true);
-      
+    // Otherwise ask what it is, offering to remember it
+    else {
+      logger.debug(`Naming unknown barcode: ${barcode}`);
+      setUnknownBarcode(barcode);
+    }
+  };
+
+  const handleRememberProduct = async (mapping: Omit<BarcodeMapping, 'id'>, remember: boolean) => {
+    if (remember) {
       try {
-        onBarcodeScanned(barcode);
-      } finally {
-        setTimeout(() => {
-          setIsParsing(false);
-          setIsTyping(false);
-        }, 1000);
+        await rememberProduct(mapping);
+        toast.success(`We'll remember ${mapping.name} next time`);
+      } catch (error) {
+        logger.error('Error remembering product:', error);
+        toast.error("Couldn't save the product, adding it this time only");
       }
     }
+    await addMappedProduct(mapping);
   };
 
-  // Initialize and start speech recognition
-  const startVoiceRecognition = () => {
-    if (!hasSpeechRecognition) {
-      alert('Speech recognition is not supported in your browser. Please try using Chrome or Edge.');
+  // Fall back to the lookup's placeholder name, as before products could be named
+  const handleSkipUnknownBarcode = () => {
+    if (unknownBarcode && onBarcodeScanned) {
+      onBarcodeScanned(unknownBarcode);
+    }
+  };
+
+  // Start listening with whichever speech provider this browser supports
+  const startVoiceRecognition = async () => {
+    if (!speechProvider) {
+      alert('Voice input is not supported in your browser. Please try using Chrome or Edge.');
       return;
     }
     
     try {
-      const recognition = new SpeechRecognition();
-      recognitionRef.current = recognition;
-      
-      // Configure recognition
-      recognition.continuous = true; // Keep listening until explicitly stopped
-      recognition.interimResults = true;
-      recognition.lang = 'en-US';
-      
-      // Set up event handlers
-      recognition.onstart = () => {
-        logger.debug('Voice recognition started');
-        setVoiceState('recording');
-        transcriptRef.current = ''; // Reset transcript ref
-      };
-      
-      recognition.onresult = (event) => {
-        const currentTranscript = Array.from(event.results)
-          .map(result => result[0].transcript)
-          .join(' ');
-        
-        logger.debug('Transcript updated:', currentTranscript);
-        transcriptRef.current = currentTranscript; // Store in ref for access when stopping
-      };
-      
-      recognition.onerror = (event) => {
-        logger.error('Speech recognition error:', event.error);
-        // No alert for no-speech error, just reset UI
-        setVoiceState('inactive');
-      };
-      
-      recognition.onend = () => {
-        logger.debug('Voice recognition ended');
-        
-        // We don't process here - processing happens in stopVoiceRecognition
-        // When user clicks the stop button
-        
-        // If recognition ended without user stopping (e.g., timeout or error)
-        // and we're still in recording state, reset the UI
-        if (voiceState === 'recording') {
+      setVoiceState('recording');
+      speechSessionRef.current = await speechProvider.start({
+        onTranscript: (transcript) => {
+          logger.debug('Transcript updated:', transcript);
+        },
+        onError: (error) => {
+          logger.error('Speech recognition error:', error);
+          speechSessionRef.current = null;
+          setVoiceState('inactive');
+        },
+        // Listening stopped by itself (e.g. a long silence) before the user pressed stop
+        onEnd: () => {
+          speechSessionRef.current = null;
           setVoiceState('inactive');
         }
-      };
-      
-      // Start recognition
-      recognition.start();
-      
+      });
+      logger.debug(`Voice recognition started with ${speechProvider.name}`);
     } catch (error) {
       logger.error('Error starting speech recognition:', error);
-      alert('Failed to start speech recognition. Please try again.');
+      toast.error("Couldn't start voice input. Check microphone access and try again.");
       setVoiceState('inactive');
     }
   };
 
-  // Stop speech recognition and process the transcript
-  const stopVoiceRecognition = () => {
-    if (recognitionRef.current) {
-      // Get the current transcript before stopping
-      const currentTranscript = transcriptRef.current;
-      logger.debug('Stopping voice recognition with transcript:', currentTranscript);
-      
-      // Stop the recognition
-      recognitionRef.current.stop();
+  // Stop listening and process the transcript
+  const stopVoiceRecognition = async () => {
+    const session = speechSessionRef.current;
+    // Still waiting for the microphone
+    if (!session) return;
+    
+    speechSessionRef.current = null;
+    setVoiceState('processing');
+    
+    try {
+      const transcript = (await session.stop()).trim();
+      logger.debug('Stopped voice recognition with transcript:', transcript);
       
-      // Process the transcript if it exists
-      if (currentTranscript) {
-        processVoiceInput(currentTranscript);
+      if (transcript) {
+        await processVoiceInput(transcript);
       } else {
-        // No transcript detected, just reset UI
+        // Nothing was heard, just reset UI
         setVoiceState('inactive');
       }
+    } catch (error) {
+      logger.error('Error transcribing voice input:', error);
+      toast.error("Couldn't understand that. Please try again.");
+      setVoiceState('inactive');
     }
   };
 
@@ -255,7 +367,7 @@ const UniversalInputBar: React.FC<UniversalInputBarProps> = ({
       if (onVoiceInput) {
         await onVoiceInput(text);
       } else {
-        await onSubmit(text);
+        await submitText(text);
       }
       
       // Reset input after successful processing
@@ -288,9 +400,7 @@ const UniversalInputBar: React.FC<UniversalInputBarProps> = ({
   // Clean up on unmount
   useEffect(() => {
     return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.abort();
-      }
+      speechSessionRef.current?.abort();
       
       // Clean up any object URLs created for file previews
       if (selectedFile) {
@@ -391,6 +501,29 @@ const UniversalInputBar: React.FC<UniversalInputBarProps> = ({
                   aria-hidden="true" 
                 />
               </Button>
+              {onReceiptItems && (
+                <>
+                  <input
+                    type="file"
+                    ref={receiptInputRef}
+                    onChange={handleReceiptChange}
+                    accept="image/*"
+                    className="hidden-file-input"
+                    aria-hidden="true"
+                    id={`${inputBarId}-receipt-input`}
+                  />
+                  <Button 
+                    variant="icon"
+                    onClick={handleReceiptUpload}
+                    type="button"
+                    className="icon-button secondary"
+                    aria-label="Import items from a receipt"
+                    disabled={isLoading || isUploading || isParsing || voiceState !== 'inactive'}
+                  >
+                    <Receipt size={20} className="text-gray-500 dark:text-gray-400" aria-hidden="true" />
+                  </Button>
+                </>
+              )}
               <Button 
                 variant="icon"
                 onClick={handleBarcodeScanning}
@@ -401,6 +534,22 @@ const UniversalInputBar: React.FC<UniversalInputBarProps> = ({
               >
                 <ScanBarcode size={20} className="text-gray-500 dark:text-gray-400" aria-hidden="true" />
               </Button>
+              {locations && locations.length > 0 && (
+                <div className="location-picker">
+                  <MapPin size={16} className="text-gray-500 dark:text-gray-400" aria-hidden="true" />
+                  <select
+                    value={selectedLocation}
+                    onChange={handleLocationChange}
+                    className="location-select"
+                    aria-label="Location for new items"
+                    disabled={isLoading || isUploading || isParsing || voiceState !== 'inactive'}
+                  >
+                    {[...new Set([selectedLocation, ...locations])].map(location => (
+                      <option key={location} value={location}>{location}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
             
             <div className="right-actions">
@@ -449,7 +598,7 @@ const UniversalInputBar: React.FC<UniversalInputBarProps> = ({
                     type="button"
                     className="icon-button secondary"
                     aria-label="Voice input"
-                    disabled={isLoading || isUploading || isParsing || !hasSpeechRecognition}
+                    disabled={isLoading || isUploading || isParsing || !speechProvider}
                     aria-pressed="false"
                   >
                     <Mic size={20} className="text-gray-500 dark:text-gray-400" aria-hidden="true" />
@@ -467,6 +616,39 @@ const UniversalInputBar: React.FC<UniversalInputBarProps> = ({
         <BarcodeScanner 
           onClose={() => setShowBarcodeScanner(false)} 
           onBarcodeDetected={handleBarcodeDetected}
+          findMapping={findMapping}
+          onBatchConfirm={onBatchScanned}
+        />
+      )}
+
+      {pendingItems && (
+        <ParsedItemsConfirmModal
+          items={pendingItems}
+          isOpen={!!pendingItems}
+          onClose={() => setPendingItems(null)}
+          onConfirm={handleConfirmItems}
+        />
+      )}
+
+      {receiptItems && (
+        <ReceiptImportModal
+          items={receiptItems}
+          skipped={receiptSkipped}
+          shoppingItems={shoppingItems.items}
+          isOpen={!!receiptItems}
+          onClose={() => setReceiptItems(null)}
+          onConfirm={handleConfirmReceipt}
+        />
+      )}
+
+      {unknownBarcode && (
+        <RememberProductModal
+          barcode={unknownBarcode}
+          isOpen={!!unknownBarcode}
+          canRemember={canRemember}
+          onClose={() => setUnknownBarcode(null)}
+          onSave={handleRememberProduct}
+          onSkip={onBarcodeScanned ? handleSkipUnknownBarcode : undefined}
         />
       )}
 
@@ -567,6 +749,30 @@ const UniversalInputBar: React.FC<UniversalInputBarProps> = ({
           display: none;
         }
 
+        .location-picker {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          padding-left: 4px;
+        }
+
+        .location-select {
+          background: transparent;
+          border: none;
+          font-size: 14px;
+          color: #6b7280;
+          cursor: pointer;
+          max-width: 160px;
+        }
+
+        .dark .location-select {
+          color: #9ca3af;
+        }
+
+        .dark .location-select option {
+          background: #1e293b;
+        }
+
         /* Icon button styles */
         .icon-button {
           display: flex !important;
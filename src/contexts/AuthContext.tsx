@@ -1,5 +1,5 @@
 import React, { createContext, useEffect, useState } from 'react';
-import { supabase, setupAuthListener, migrateLocalDataToSupabase } from '../api/supabase';
+import { supabase, setupAuthListener } from '../api/supabase';
 import { logger } from "@/lib/logger";
 
 interface AuthContextType {
@@ -43,12 +43,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         if (data?.session) {
           logger.debug('Active session found:', data.session.user.id);
           setUser(data.session.user);
-          
-          // Migrate local data if this is the first sign-in
-          if (!localStorage.getItem('dataAlreadyMigrated')) {
-            await migrateLocalDataToSupabase();
-            localStorage.setItem('dataAlreadyMigrated', 'true');
-          }
         } else {
           logger.debug('No active session found');
         }
@@ -63,15 +57,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     // Set up auth state listener
     const subscription = setupAuthListener((session) => {
       logger.debug('Auth state change detected:', session?.user?.id);
+      // Local changes made while signed out are queued and synced by the StorageProvider
       setUser(session?.user || null);
-      
-      // If user just signed in, migrate local data
-      if (session?.user && !localStorage.getItem('dataAlreadyMigrated')) {
-        migrateLocalDataToSupabase()
-          .then(() => {
-            localStorage.setItem('dataAlreadyMigrated', 'true');
-          });
-      }
     });
 
     checkSession();
@@ -179,7 +166,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
       
       setUser(null);
-      localStorage.removeItem('dataAlreadyMigrated');
       
       // Force reload the page to reset all app state
       window.location.href = '/';
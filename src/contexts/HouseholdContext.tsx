@@ -0,0 +1,212 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { AuthContext } from './AuthContext';
+import {
+  ensurePersonalHousehold,
+  fetchHouseholds,
+  createHousehold,
+  renameHousehold,
+  fetchHouseholdMembers,
+  updateHouseholdMemberRole,
+  removeHouseholdMember,
+  fetchHouseholdInvitations,
+  inviteToHousehold,
+  revokeHouseholdInvitation,
+  acceptHouseholdInvitation
+} from '../api/supabase';
+import { Household, HouseholdMember, HouseholdInvitation, HouseholdRole } from '../types';
+import { logger } from "@/lib/logger";
+
+const ACTIVE_HOUSEHOLD_KEY = 'activeHouseholdId';
+const HOUSEHOLDS_CACHE_KEY = 'households';
+
+interface HouseholdContextType {
+  household: Household | null;
+  households: Household[];
+  members: HouseholdMember[];
+  invitations: HouseholdInvitation[];
+  isLoading: boolean;
+  error: string | null;
+  canEdit: boolean; // Owners and members can change the inventory, viewers cannot
+  isOwner: boolean;
+  switchHousehold: (householdId: string) => void;
+  createHousehold: (name: string) => Promise<void>;
+  renameHousehold: (name: string) => Promise<void>;
+  inviteMember: (email: string, role: Exclude<HouseholdRole, 'owner'>) => Promise<HouseholdInvitation>;
+  revokeInvitation: (invitationId: string) => Promise<void>;
+  acceptInvitation: (token: string) => Promise<void>;
+  updateMemberRole: (memberId: string, role: HouseholdRole) => Promise<void>;
+  removeMember: (memberId: string) => Promise<void>;
+}
+
+const HouseholdContext = createContext<HouseholdContextType | undefined>(undefined);
+
+export const HouseholdProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, isLoading: authLoading } = useContext(AuthContext);
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [activeHouseholdId, setActiveHouseholdId] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_HOUSEHOLD_KEY)
+  );
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [invitations, setInvitations] = useState<HouseholdInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const household = households.find(h => h.id === activeHouseholdId) || households[0] || null;
+  const isOwner = household?.role === 'owner';
+  const canEdit = household?.role === 'owner' || household?.role === 'member';
+
+  // Load the households the user belongs to, creating a personal one on first sign-in
+  const loadHouseholds = useCallback(async () => {
+    if (!user) {
+      setHouseholds([]);
+      localStorage.removeItem(HOUSEHOLDS_CACHE_KEY);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const personalHouseholdId = await ensurePersonalHousehold();
+      const userHouseholds = await fetchHouseholds();
+      setHouseholds(userHouseholds);
+      localStorage.setItem(HOUSEHOLDS_CACHE_KEY, JSON.stringify(userHouseholds));
+
+      setActiveHouseholdId(current =>
+        current && userHouseholds.some(h => h.id === current) ? current : personalHouseholdId
+      );
+    } catch (err) {
+      logger.error('Error loading households:', err);
+      setError((err as Error).message);
+
+      // Offline: keep working against the locally cached household data
+      const cached = localStorage.getItem(HOUSEHOLDS_CACHE_KEY);
+      if (cached) {
+        setHouseholds(JSON.parse(cached));
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (authLoading) return;
+    loadHouseholds();
+  }, [authLoading, loadHouseholds]);
+
+  // Persist the active household so it survives reloads
+  useEffect(() => {
+    if (household) {
+      localStorage.setItem(ACTIVE_HOUSEHOLD_KEY, household.id);
+    }
+  }, [household]);
+
+  // Load members and pending invitations for the active household
+  const loadHouseholdDetails = useCallback(async () => {
+    if (!household) {
+      setMembers([]);
+      setInvitations([]);
+      return;
+    }
+
+    try {
+      setMembers(await fetchHouseholdMembers(household.id));
+      setInvitations(household.role === 'owner' ? await fetchHouseholdInvitations(household.id) : []);
+    } catch (err) {
+      logger.error('Error loading household details:', err);
+      setError((err as Error).message);
+    }
+  }, [household]);
+
+  useEffect(() => {
+    loadHouseholdDetails();
+  }, [loadHouseholdDetails]);
+
+  const switchHousehold = (householdId: string) => {
+    setActiveHouseholdId(householdId);
+  };
+
+  const handleCreateHousehold = async (name: string) => {
+    const householdId = await createHousehold(name);
+    await loadHouseholds();
+    setActiveHouseholdId(householdId);
+  };
+
+  const handleRenameHousehold = async (name: string) => {
+    if (!household) return;
+    await renameHousehold(household.id, name);
+    await loadHouseholds();
+  };
+
+  const inviteMember = async (email: string, role: Exclude<HouseholdRole, 'owner'>) => {
+    if (!household) {
+      throw new Error('No active household');
+    }
+    const invitation = await inviteToHousehold(household.id, email, role);
+    setInvitations(current => [invitation, ...current]);
+    return invitation;
+  };
+
+  const revokeInvitation = async (invitationId: string) => {
+    await revokeHouseholdInvitation(invitationId);
+    setInvitations(current => current.filter(i => i.id !== invitationId));
+  };
+
+  const acceptInvitation = async (token: string) => {
+    const householdId = await acceptHouseholdInvitation(token);
+    await loadHouseholds();
+    setActiveHouseholdId(householdId);
+  };
+
+  const updateMemberRole = async (memberId: string, role: HouseholdRole) => {
+    await updateHouseholdMemberRole(memberId, role);
+    setMembers(current => current.map(m => m.id === memberId ? { ...m, role } : m));
+  };
+
+  const removeMember = async (memberId: string) => {
+    const member = members.find(m => m.id === memberId);
+    await removeHouseholdMember(memberId);
+
+    // Leaving a household means switching back to another one
+    if (member && member.userId === user?.id) {
+      setActiveHouseholdId(null);
+      await loadHouseholds();
+    } else {
+      setMembers(current => current.filter(m => m.id !== memberId));
+    }
+  };
+
+  return (
+    <HouseholdContext.Provider
+      value={{
+        household,
+        households,
+        members,
+        invitations,
+        isLoading: isLoading || authLoading,
+        error,
+        canEdit,
+        isOwner,
+        switchHousehold,
+        createHousehold: handleCreateHousehold,
+        renameHousehold: handleRenameHousehold,
+        inviteMember,
+        revokeInvitation,
+        acceptInvitation,
+        updateMemberRole,
+        removeMember
+      }}
+    >
+      {children}
+    </HouseholdContext.Provider>
+  );
+};
+
+// Hook to use household context
+export const useHousehold = () => {
+  const context = useContext(HouseholdContext);
+  if (context === undefined) {
+    throw new Error('useHousehold must be used within a HouseholdProvider');
+  }
+  return context;
+};
@@ -1,7 +1,8 @@
 import React, { createContext, useContext, useEffect, useReducer } from 'react';
 import { useTheme } from './ThemeContext';
 import { useStorage } from '../store/StorageContext';
-import { UserSettings } from '../api/supabase';
+import { UserSettings, refreshPushSubscription } from '../api/supabase';
+import { EmailDigestFrequency } from '../types';
 import { logger } from "@/lib/logger";
 
 // Define the type for the settings state
@@ -17,6 +18,8 @@ type SettingsAction =
   | { type: 'SET_THEME'; payload: 'light' | 'dark' | 'system' }
   | { type: 'SET_NOTIFICATIONS'; payload: boolean }
   | { type: 'SET_NOTIFICATION_TIMING'; payload: number }
+  | { type: 'SET_EMAIL_DIGEST'; payload: boolean }
+  | { type: 'SET_EMAIL_DIGEST_FREQUENCY'; payload: EmailDigestFrequency }
   | { type: 'LOADING' }
   | { type: 'ERROR'; payload: string }
   | { type: 'SAVE_SUCCESS' };
@@ -30,6 +33,8 @@ interface SettingsContextType {
   setTheme: (theme: 'light' | 'dark' | 'system') => void;
   setNotifications: (enabled: boolean) => void;
   setNotificationTiming: (timing: number) => void;
+  setEmailDigest: (enabled: boolean) => void;
+  setEmailDigestFrequency: (frequency: EmailDigestFrequency) => void;
   setDietary: (key: string, value: boolean) => void;
 }
 
@@ -38,6 +43,8 @@ const defaultSettings: UserSettings = {
   theme: 'system',
   notifications: true,
   notificationTiming: 3, // Default to 3 days before
+  emailDigest: false,
+  emailDigestFrequency: 'weekly',
   dietary: {
     vegetarian: false,
     vegan: false,
@@ -82,6 +89,22 @@ function settingsReducer(state: SettingsState, action: SettingsAction): Settings
           notificationTiming: action.payload
         }
       };
+    case 'SET_EMAIL_DIGEST':
+      return {
+        ...state,
+        settings: {
+          ...state.settings,
+          emailDigest: action.payload
+        }
+      };
+    case 'SET_EMAIL_DIGEST_FREQUENCY':
+      return {
+        ...state,
+        settings: {
+          ...state.settings,
+          emailDigestFrequency: action.payload
+        }
+      };
     case 'LOADING':
       return {
         ...state,
@@ -108,7 +131,7 @@ function settingsReducer(state: SettingsState, action: SettingsAction): Settings
 // Create provider component
 export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { setTheme: setAppTheme } = useTheme();
-  const { settings: storageSettings } = useStorage();
+  const { settings: storageSettings, isAuthenticated } = useStorage();
   
   // Initialize state with default settings
   const [state, dispatch] = useReducer(settingsReducer, {
@@ -175,6 +198,13 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     setAppTheme(state.settings.theme);
   }, [state.settings.theme, setAppTheme]);
   
+  // Keep this browser's push subscription attached to whoever is signed in
+  useEffect(() => {
+    if (!state.isLoading && isAuthenticated && state.settings.notifications) {
+      refreshPushSubscription();
+    }
+  }, [state.isLoading, isAuthenticated, state.settings.notifications]);
+  
   // Functions to update settings
   const updateSettings = (settings: Partial<UserSettings>) => {
     dispatch({
@@ -195,6 +225,14 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     dispatch({ type: 'SET_NOTIFICATION_TIMING', payload: timing });
   };
   
+  const setEmailDigest = (enabled: boolean) => {
+    dispatch({ type: 'SET_EMAIL_DIGEST', payload: enabled });
+  };
+  
+  const setEmailDigestFrequency = (frequency: EmailDigestFrequency) => {
+    dispatch({ type: 'SET_EMAIL_DIGEST_FREQUENCY', payload: frequency });
+  };
+  
   const setDietary = (key: string, value: boolean) => {
     dispatch({
       type: 'SET_SETTINGS',
@@ -219,6 +257,8 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         setTheme,
         setNotifications,
         setNotificationTiming,
+        setEmailDigest,
+        setEmailDigestFrequency,
         setDietary
       }}
     >
@@ -0,0 +1,38 @@
+// Centralized list of storage locations for freezer items
+// Households can add their own locations; these are the suggested defaults
+
+/**
+ * Predefined storage locations
+ */
+export const LOCATIONS = [
+  'Kitchen Freezer',
+  'Garage Freezer',
+  'Chest Freezer',
+  'Fridge'
+] as const;
+
+/**
+ * Location used for items that were added before locations existed
+ */
+export const DEFAULT_LOCATION = 'Kitchen Freezer';
+
+/**
+ * Get all predefined locations with an optional "All Locations" option at the beginning
+ * @param includeAllOption Whether to include an "All Locations" option
+ */
+export const getLocations = (includeAllOption: boolean = false): string[] => {
+  if (includeAllOption) {
+    return ['All Locations', ...LOCATIONS];
+  }
+  return [...LOCATIONS];
+};
+
+/**
+ * Format a location and optional shelf/drawer/zone for display
+ * @param location The storage location
+ * @param zone Optional shelf, drawer or zone within the location
+ */
+export const formatLocation = (location?: string, zone?: string): string => {
+  const base = location || DEFAULT_LOCATION;
+  return zone ? `${base} · ${zone}` : base;
+};
@@ -0,0 +1,82 @@
+// How long food needs in the fridge to thaw, and how long it keeps once thawed
+// Based on USDA guidance for thawing in the refrigerator
+
+import { FreezerItem } from '../types';
+
+/**
+ * Hours ahead of cooking to move an item from the freezer to the fridge, by
+ * category. Zero means it's cooked from frozen or thaws on the counter
+ */
+export const THAW_LEAD_HOURS: Record<string, number> = {
+  'Meat & Poultry': 24,
+  'Seafood': 24,
+  'Fruits & Vegetables': 0,
+  'Prepared Meals': 24,
+  'Ready-to-Eat': 0,
+  'Bakery & Bread': 0,
+  'Dairy & Alternatives': 24,
+  'Soups & Broths': 24,
+  'Herbs & Seasonings': 0,
+  'Other': 0
+};
+
+/**
+ * Large cuts and whole birds take about a day per 2kg, so they go in the fridge earlier
+ */
+export const SLOW_THAW_HOURS = 48;
+
+const SLOW_THAW_PATTERN = /\b(roast|joint|whole|brisket|shoulder|leg of|crown)\b/i;
+
+/**
+ * Days a thawed item keeps in the fridge, by category
+ */
+export const THAWED_USE_WITHIN_DAYS: Record<string, number> = {
+  'Meat & Poultry': 2,
+  'Seafood': 2,
+  'Fruits & Vegetables': 3,
+  'Prepared Meals': 3,
+  'Ready-to-Eat': 3,
+  'Bakery & Bread': 3,
+  'Dairy & Alternatives': 5,
+  'Soups & Broths': 3,
+  'Herbs & Seasonings': 5,
+  'Other': 3
+};
+
+// Red meat roasts, steaks and chops keep longer than poultry and mince
+const LONG_KEEPING_MEAT_PATTERN = /\b(roast|joint|steak|chop|beef|pork|lamb)s?\b/i;
+const SHORT_KEEPING_MEAT_PATTERN = /\b(ground|mince|minced|chicken|turkey|duck|sausage)s?\b/i;
+const LONG_KEEPING_MEAT_DAYS = 4;
+
+/**
+ * Get the thaw lead time for an item
+ * @param item The item being thawed
+ * @returns Hours it should spend in the fridge before cooking
+ */
+export const getThawLeadHours = (item: Pick<FreezerItem, 'name' | 'category'>): number => {
+  const hours = THAW_LEAD_HOURS[item.category] ?? 0;
+  if (hours > 0 && SLOW_THAW_PATTERN.test(item.name)) {
+    return Math.max(hours, SLOW_THAW_HOURS);
+  }
+  return hours;
+};
+
+/**
+ * Get the date a thawed item should be used by
+ * @param item The item being thawed
+ * @param thawedAt When it went into the fridge
+ */
+export const getThawedUseBy = (item: Pick<FreezerItem, 'name' | 'category'>, thawedAt: Date): Date => {
+  let days = THAWED_USE_WITHIN_DAYS[item.category] ?? THAWED_USE_WITHIN_DAYS['Other'];
+  if (
+    item.category === 'Meat & Poultry' &&
+    LONG_KEEPING_MEAT_PATTERN.test(item.name) &&
+    !SHORT_KEEPING_MEAT_PATTERN.test(item.name)
+  ) {
+    days = LONG_KEEPING_MEAT_DAYS;
+  }
+
+  const useBy = new Date(thawedAt);
+  useBy.setDate(useBy.getDate() + days);
+  return useBy;
+};
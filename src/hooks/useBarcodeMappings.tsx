@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback, useContext } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { AuthContext } from '../contexts/AuthContext';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { fetchBarcodeMappings, saveBarcodeMapping } from '../api/supabase';
+import { getStoredItems, storeItems } from '../utils/storage';
+import { findBarcodeMapping } from '../utils/barcodeUtils';
+import { BarcodeMapping } from '../types';
+import { logger } from "@/lib/logger";
+
+// Guests keep their mappings on the device
+const LOCAL_MAPPINGS_KEY = 'barcodeMappings';
+
+export const useBarcodeMappings = () => {
+  const { user } = useContext(AuthContext);
+  const { household, canEdit } = useHousehold();
+  const householdId = user && household ? household.id : null;
+  const [mappings, setMappings] = useState<BarcodeMapping[]>([]);
+
+  useEffect(() => {
+    if (!householdId) {
+      setMappings(getStoredItems(LOCAL_MAPPINGS_KEY));
+      return;
+    }
+
+    let cancelled = false;
+    fetchBarcodeMappings(householdId)
+      .then(data => {
+        if (!cancelled) setMappings(data);
+      })
+      .catch(error => {
+        logger.error('Error loading barcode mappings:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [householdId]);
+
+  const findMapping = useCallback(
+    (barcode: string) => findBarcodeMapping(barcode, mappings),
+    [mappings]
+  );
+
+  const rememberProduct = useCallback(async (mapping: Omit<BarcodeMapping, 'id'>): Promise<BarcodeMapping> => {
+    const saved = householdId
+      ? await saveBarcodeMapping(householdId, mapping)
+      : { ...mapping, id: uuidv4() };
+
+    const next = [saved, ...mappings.filter(existing => existing.barcode !== saved.barcode)];
+    setMappings(next);
+    if (!householdId) {
+      storeItems(LOCAL_MAPPINGS_KEY, next);
+    }
+    return saved;
+  }, [householdId, mappings]);
+
+  return {
+    mappings,
+    findMapping,
+    rememberProduct,
+    // Viewers can scan but not teach the household new products
+    canRemember: !householdId || canEdit
+  };
+};
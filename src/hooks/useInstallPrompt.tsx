@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  canPromptInstall,
+  subscribeToInstallPrompt,
+  promptInstall,
+  isRunningStandalone,
+  isIosSafari,
+  isInstallPromptDismissed,
+  dismissInstallPrompt
+} from '../lib/pwa';
+
+export const useInstallPrompt = () => {
+  const [canInstall, setCanInstall] = useState(canPromptInstall);
+  const [isDismissed, setIsDismissed] = useState(isInstallPromptDismissed);
+
+  useEffect(() => {
+    return subscribeToInstallPrompt(() => setCanInstall(canPromptInstall()));
+  }, []);
+
+  const install = useCallback(async () => {
+    const accepted = await promptInstall();
+    if (!accepted) {
+      dismissInstallPrompt();
+      setIsDismissed(true);
+    }
+    return accepted;
+  }, []);
+
+  const dismiss = useCallback(() => {
+    dismissInstallPrompt();
+    setIsDismissed(true);
+  }, []);
+
+  const isStandalone = isRunningStandalone();
+
+  return {
+    canInstall: canInstall && !isDismissed,
+    // iOS can only install from Safari's share sheet, so it gets instructions instead
+    showIosInstructions: !canInstall && !isDismissed && !isStandalone && isIosSafari(),
+    install,
+    dismiss
+  };
+};
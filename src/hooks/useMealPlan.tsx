@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback, useContext } from 'react';
+import { AuthContext } from '../contexts/AuthContext';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { fetchPlannedMeals, savePlannedMeal, deletePlannedMeal, scheduleThawReminders } from '../api/supabase';
+import { getStoredItems, storeItems } from '../utils/storage';
+import { FreezerItem, PlannedMeal } from '../types';
+import { getThawReminders } from '../utils/mealPlanUtils';
+import { logger } from "@/lib/logger";
+
+// Guests keep their plan on the device
+const LOCAL_PLAN_KEY = 'plannedMeals';
+
+const byDate = (a: PlannedMeal, b: PlannedMeal) => a.date.localeCompare(b.date);
+
+// Freezer items are needed to work out when reserved ones should come out to thaw
+export const useMealPlan = (freezerItems: FreezerItem[]) => {
+  const { user } = useContext(AuthContext);
+  const { household, canEdit } = useHousehold();
+  const householdId = user && household ? household.id : null;
+  const [meals, setMeals] = useState<PlannedMeal[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!householdId) {
+      setMeals(getStoredItems(LOCAL_PLAN_KEY));
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    fetchPlannedMeals(householdId)
+      .then(data => {
+        if (!cancelled) setMeals(data);
+      })
+      .catch(error => {
+        logger.error('Error loading meal plan:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [householdId]);
+
+  const saveMeal = useCallback(async (meal: PlannedMeal): Promise<PlannedMeal> => {
+    const saved = householdId ? await savePlannedMeal(householdId, meal) : meal;
+    if (householdId) {
+      try {
+        await scheduleThawReminders(householdId, saved, getThawReminders(saved, freezerItems));
+      } catch (error) {
+        // The meal is planned either way; the plan page still shows what to take out
+        logger.error('Error scheduling thaw reminders:', error);
+      }
+    }
+
+    const next = [...meals.filter(existing => existing.id !== saved.id), saved].sort(byDate);
+    setMeals(next);
+    if (!householdId) {
+      storeItems(LOCAL_PLAN_KEY, next);
+    }
+    return saved;
+  }, [householdId, meals, freezerItems]);
+
+  const deleteMeal = useCallback(async (mealId: string): Promise<void> => {
+    if (householdId) {
+      await deletePlannedMeal(mealId);
+    }
+
+    const next = meals.filter(meal => meal.id !== mealId);
+    setMeals(next);
+    if (!householdId) {
+      storeItems(LOCAL_PLAN_KEY, next);
+    }
+  }, [householdId, meals]);
+
+  return {
+    meals,
+    loading,
+    saveMeal,
+    deleteMeal,
+    // Viewers can see the plan but not change it
+    canEdit: !householdId || canEdit
+  };
+};
@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback, useContext } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { AuthContext } from '../contexts/AuthContext';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { fetchRestockRules, saveRestockRule, deleteRestockRule } from '../api/supabase';
+import { getStoredItems, storeItems } from '../utils/storage';
+import { RestockRule } from '../types';
+import { logger } from "@/lib/logger";
+
+// Guests keep their rules on the device
+const LOCAL_RULES_KEY = 'restockRules';
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const useRestockRules = () => {
+  const { user } = useContext(AuthContext);
+  const { household, canEdit } = useHousehold();
+  const householdId = user && household ? household.id : null;
+  const [rules, setRules] = useState<RestockRule[]>([]);
+
+  useEffect(() => {
+    if (!householdId) {
+      setRules(getStoredItems(LOCAL_RULES_KEY));
+      return;
+    }
+
+    let cancelled = false;
+    fetchRestockRules(householdId)
+      .then(data => {
+        if (!cancelled) setRules(data);
+      })
+      .catch(error => {
+        logger.error('Error loading restock rules:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [householdId]);
+
+  const saveRule = useCallback(async (rule: Omit<RestockRule, 'id'>): Promise<RestockRule> => {
+    const saved = householdId
+      ? await saveRestockRule(householdId, rule)
+      : { ...rule, id: uuidv4() };
+
+    const next = [saved, ...rules.filter(existing => !sameName(existing.name, saved.name))];
+    setRules(next);
+    if (!householdId) {
+      storeItems(LOCAL_RULES_KEY, next);
+    }
+    return saved;
+  }, [householdId, rules]);
+
+  const deleteRule = useCallback(async (ruleId: string): Promise<void> => {
+    if (householdId) {
+      await deleteRestockRule(ruleId);
+    }
+
+    const next = rules.filter(rule => rule.id !== ruleId);
+    setRules(next);
+    if (!householdId) {
+      storeItems(LOCAL_RULES_KEY, next);
+    }
+  }, [householdId, rules]);
+
+  return {
+    rules,
+    saveRule,
+    deleteRule,
+    // Viewers can see thresholds but not change them
+    canEdit: !householdId || canEdit
+  };
+};
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback, useContext } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { AuthContext } from '../contexts/AuthContext';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { fetchShoppingLists, saveShoppingList, deleteShoppingList } from '../api/supabase';
+import { getStoredItems, storeItems } from '../utils/storage';
+import { ShoppingList } from '../types';
+import { logger } from "@/lib/logger";
+
+// Guests keep their lists on the device
+const LOCAL_LISTS_KEY = 'shoppingLists';
+
+export const useShoppingLists = () => {
+  const { user } = useContext(AuthContext);
+  const { household, canEdit } = useHousehold();
+  const householdId = user && household ? household.id : null;
+  const [lists, setLists] = useState<ShoppingList[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!householdId) {
+      setLists(getStoredItems(LOCAL_LISTS_KEY));
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    fetchShoppingLists(householdId)
+      .then(data => {
+        if (!cancelled) setLists(data);
+      })
+      .catch(error => {
+        logger.error('Error loading shopping lists:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [householdId]);
+
+  const saveList = useCallback(async (list: ShoppingList): Promise<ShoppingList> => {
+    const saved = householdId ? await saveShoppingList(householdId, list) : list;
+
+    const next = lists.some(existing => existing.id === saved.id)
+      ? lists.map(existing => existing.id === saved.id ? saved : existing)
+      : [...lists, saved];
+    setLists(next);
+    if (!householdId) {
+      storeItems(LOCAL_LISTS_KEY, next);
+    }
+    return saved;
+  }, [householdId, lists]);
+
+  const addList = useCallback((name: string) => saveList({ id: uuidv4(), name }), [saveList]);
+
+  const renameList = useCallback((listId: string, name: string) => saveList({ id: listId, name }), [saveList]);
+
+  const deleteList = useCallback(async (listId: string): Promise<void> => {
+    if (householdId) {
+      await deleteShoppingList(listId);
+    }
+
+    const next = lists.filter(list => list.id !== listId);
+    setLists(next);
+    if (!householdId) {
+      storeItems(LOCAL_LISTS_KEY, next);
+    }
+  }, [householdId, lists]);
+
+  return {
+    lists,
+    loading,
+    addList,
+    renameList,
+    deleteList,
+    // Viewers can read every list but not add or change them
+    canEdit: !householdId || canEdit
+  };
+};
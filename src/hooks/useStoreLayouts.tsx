@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback, useContext } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { AuthContext } from '../contexts/AuthContext';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { fetchStoreLayouts, saveStoreLayout, deleteStoreLayout } from '../api/supabase';
+import { getStoredItems, storeItems } from '../utils/storage';
+import { StoreLayout } from '../types';
+import { logger } from "@/lib/logger";
+
+// Guests keep their stores on the device
+const LOCAL_LAYOUTS_KEY = 'storeLayouts';
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const useStoreLayouts = () => {
+  const { user } = useContext(AuthContext);
+  const { household, canEdit } = useHousehold();
+  const householdId = user && household ? household.id : null;
+  const [layouts, setLayouts] = useState<StoreLayout[]>([]);
+
+  useEffect(() => {
+    if (!householdId) {
+      setLayouts(getStoredItems(LOCAL_LAYOUTS_KEY));
+      return;
+    }
+
+    let cancelled = false;
+    fetchStoreLayouts(householdId)
+      .then(data => {
+        if (!cancelled) setLayouts(data);
+      })
+      .catch(error => {
+        logger.error('Error loading store layouts:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [householdId]);
+
+  const saveLayout = useCallback(async (layout: Omit<StoreLayout, 'id'>): Promise<StoreLayout> => {
+    // Show the new order straight away, the save only confirms it
+    const existing = layouts.find(other => sameName(other.name, layout.name));
+    const optimistic = { ...layout, id: existing?.id || uuidv4() };
+    const others = layouts.filter(other => !sameName(other.name, layout.name));
+    setLayouts([...others, optimistic].sort((a, b) => a.name.localeCompare(b.name)));
+
+    const saved = householdId ? await saveStoreLayout(householdId, layout) : optimistic;
+
+    const next = [...others, saved].sort((a, b) => a.name.localeCompare(b.name));
+    setLayouts(next);
+    if (!householdId) {
+      storeItems(LOCAL_LAYOUTS_KEY, next);
+    }
+    return saved;
+  }, [householdId, layouts]);
+
+  const deleteLayout = useCallback(async (layoutId: string): Promise<void> => {
+    if (householdId) {
+      await deleteStoreLayout(layoutId);
+    }
+
+    const next = layouts.filter(layout => layout.id !== layoutId);
+    setLayouts(next);
+    if (!householdId) {
+      storeItems(LOCAL_LAYOUTS_KEY, next);
+    }
+  }, [householdId, layouts]);
+
+  return {
+    layouts,
+    saveLayout,
+    deleteLayout,
+    // Viewers can shop by a store's layout but not change it
+    canEdit: !householdId || canEdit
+  };
+};
@@ -0,0 +1,117 @@
+import { logger } from "./logger";
+
+const SYNC_TAG = 'frostie-sync';
+const INSTALL_DISMISSED_KEY = 'installPromptDismissedAt';
+const INSTALL_DISMISS_DAYS = 30;
+
+// Not in the DOM typings yet (Chromium only)
+interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+interface SyncManager {
+  register(tag: string): Promise<void>;
+}
+
+let deferredInstallPrompt: BeforeInstallPromptEvent | null = null;
+const installListeners = new Set<() => void>();
+
+const notifyInstallListeners = () => {
+  installListeners.forEach(listener => listener());
+};
+
+// Must run before React renders: the browser may fire beforeinstallprompt right
+// after load, long before HomePage mounts
+export const captureInstallPrompt = (): void => {
+  window.addEventListener('beforeinstallprompt', (event) => {
+    event.preventDefault();
+    deferredInstallPrompt = event as BeforeInstallPromptEvent;
+    notifyInstallListeners();
+  });
+
+  window.addEventListener('appinstalled', () => {
+    deferredInstallPrompt = null;
+    notifyInstallListeners();
+  });
+};
+
+export const canPromptInstall = (): boolean => deferredInstallPrompt !== null;
+
+export const subscribeToInstallPrompt = (listener: () => void): (() => void) => {
+  installListeners.add(listener);
+  return () => {
+    installListeners.delete(listener);
+  };
+};
+
+// Show the browser's install dialog; the saved event can only be used once
+export const promptInstall = async (): Promise<boolean> => {
+  if (!deferredInstallPrompt) {
+    return false;
+  }
+
+  const promptEvent = deferredInstallPrompt;
+  deferredInstallPrompt = null;
+  notifyInstallListeners();
+
+  await promptEvent.prompt();
+  const { outcome } = await promptEvent.userChoice;
+  return outcome === 'accepted';
+};
+
+export const isRunningStandalone = (): boolean =>
+  window.matchMedia('(display-mode: standalone)').matches
+  || (navigator as Navigator & { standalone?: boolean }).standalone === true;
+
+// iOS Safari never fires beforeinstallprompt, so it gets "Add to Home Screen" instructions
+export const isIosSafari = (): boolean =>
+  /iphone|ipad|ipod/i.test(navigator.userAgent) && !/crios|fxios|edgios/i.test(navigator.userAgent);
+
+export const isInstallPromptDismissed = (): boolean => {
+  const dismissedAt = Number(localStorage.getItem(INSTALL_DISMISSED_KEY));
+  return !!dismissedAt && Date.now() - dismissedAt < INSTALL_DISMISS_DAYS * 24 * 60 * 60 * 1000;
+};
+
+export const dismissInstallPrompt = (): void => {
+  localStorage.setItem(INSTALL_DISMISSED_KEY, String(Date.now()));
+};
+
+// Ask the service worker to wake an open window once the connection is back,
+// even when the tab is in the background and misses the online event.
+// Background Sync is Chromium only; elsewhere the online and visibility handlers cover it.
+export const requestBackgroundSync = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator)) {
+    return;
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    const sync = (registration as (ServiceWorkerRegistration & { sync?: SyncManager }) | undefined)?.sync;
+    if (sync) {
+      await sync.register(SYNC_TAG);
+    }
+  } catch (error) {
+    logger.debug('Background sync unavailable:', error);
+  }
+};
+
+// Run `runSync` when the service worker asks for it and report whether the queue
+// was flushed, so the browser retries the background sync if it wasn't
+export const listenForBackgroundSync = (runSync: () => Promise<boolean>): (() => void) => {
+  if (!('serviceWorker' in navigator)) {
+    return () => {};
+  }
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type !== 'sync-now') return;
+
+    const port = event.ports[0];
+    runSync()
+      .then(ok => port?.postMessage({ ok }))
+      .catch(() => port?.postMessage({ ok: false }));
+  };
+
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+};
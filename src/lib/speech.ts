@@ -0,0 +1,202 @@
+import { transcribeAudio } from "../api/services/images";
+import { logger } from "./logger";
+
+// Not in the DOM typings yet (Chromium and Safari only, behind a webkit prefix)
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: { results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const getRecognitionConstructor = (): SpeechRecognitionConstructor | undefined =>
+  (window.SpeechRecognition || window.webkitSpeechRecognition) as SpeechRecognitionConstructor | undefined;
+
+export interface SpeechHandlers {
+  // Called with everything heard so far, when the provider can tell
+  onTranscript?: (transcript: string) => void;
+  // Called when recording ends without stop(), e.g. after a long silence
+  onEnd?: () => void;
+  onError?: (error: Error) => void;
+}
+
+export interface SpeechSession {
+  // Stop listening and resolve with the full transcript
+  stop(): Promise<string>;
+  // Stop listening and throw the transcript away
+  abort(): void;
+}
+
+export interface SpeechProvider {
+  name: string;
+  isSupported(): boolean;
+  start(handlers?: SpeechHandlers): Promise<SpeechSession>;
+}
+
+// Recognition in the browser itself (Chrome, Edge, Safari); nothing leaves the device
+// except what the browser's own service needs
+export const webSpeechProvider: SpeechProvider = {
+  name: 'webspeech',
+  isSupported: () => !!getRecognitionConstructor(),
+  start(handlers = {}) {
+    const Recognition = getRecognitionConstructor();
+    if (!Recognition) {
+      return Promise.reject(new Error('Speech recognition is not supported'));
+    }
+    const recognition = new Recognition();
+    recognition.continuous = true; // Keep listening until explicitly stopped
+    recognition.interimResults = true;
+    recognition.lang = 'en-US';
+
+    let transcript = '';
+    let ended = false;
+    let finish: ((text: string) => void) | null = null;
+
+    recognition.onresult = (event) => {
+      transcript = Array.from(event.results)
+        .map(result => result[0].transcript)
+        .join(' ');
+      handlers.onTranscript?.(transcript);
+    };
+
+    recognition.onerror = (event) => {
+      // "no-speech" and "aborted" aren't worth reporting
+      if (event.error !== 'no-speech' && event.error !== 'aborted') {
+        handlers.onError?.(new Error(event.error));
+      }
+    };
+
+    recognition.onend = () => {
+      ended = true;
+      if (finish) {
+        finish(transcript);
+      } else {
+        handlers.onEnd?.();
+      }
+    };
+
+    recognition.start();
+
+    return Promise.resolve({
+      // Final results arrive just before "end", so wait for it
+      stop: () => new Promise<string>(resolve => {
+        if (ended) {
+          resolve(transcript);
+          return;
+        }
+        finish = resolve;
+        recognition.stop();
+      }),
+      abort: () => recognition.abort()
+    });
+  }
+};
+
+// Records audio and sends it to the transcribe-audio edge function, for browsers
+// without speech recognition (Firefox)
+export const serverSpeechProvider: SpeechProvider = {
+  name: 'server',
+  isSupported: () => typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia,
+  async start(handlers = {}) {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+
+    const stopped = new Promise<Blob>(resolve => {
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        resolve(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+      };
+    });
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+
+    recorder.onerror = () => {
+      handlers.onError?.(new Error('Recording failed'));
+    };
+
+    recorder.start();
+
+    return {
+      stop: async () => {
+        if (recorder.state !== 'inactive') {
+          recorder.stop();
+        }
+        const audio = await stopped;
+        if (audio.size === 0) {
+          return '';
+        }
+
+        const { transcription, source } = await transcribeAudio(audio);
+        logger.debug(`Transcribed dictation with ${source}:`, transcription);
+        return transcription;
+      },
+      abort: () => {
+        chunks.length = 0;
+        if (recorder.state !== 'inactive') {
+          recorder.stop();
+        }
+      }
+    };
+  }
+};
+
+// Plays back scripted transcripts in order, for tests and for working on voice input
+// without a microphone
+export const createFakeSpeechProvider = (transcripts: string[]): SpeechProvider => {
+  let next = 0;
+
+  return {
+    name: 'fake',
+    isSupported: () => true,
+    start(handlers = {}) {
+      const transcript = transcripts.length > 0 ? transcripts[next++ % transcripts.length] : '';
+      const timer = setTimeout(() => handlers.onTranscript?.(transcript), 500);
+
+      return Promise.resolve({
+        stop: () => {
+          clearTimeout(timer);
+          return Promise.resolve(transcript);
+        },
+        abort: () => clearTimeout(timer)
+      });
+    }
+  };
+};
+
+const fakeTranscripts = [
+  'Two bags of frozen peas and a pound of ground beef',
+  'Chicken breast expires in two weeks, a tub of vanilla ice cream',
+  'Leftover lasagna then three bread rolls'
+];
+
+// VITE_SPEECH_PROVIDER forces "webspeech", "server" or "fake"; otherwise the browser's own
+// recognition is preferred, then the server. Null when the browser can do neither
+export const getSpeechProvider = (): SpeechProvider | null => {
+  const providers = [webSpeechProvider, serverSpeechProvider];
+  const forced = import.meta.env.VITE_SPEECH_PROVIDER;
+
+  if (forced === 'fake') {
+    return createFakeSpeechProvider(fakeTranscripts);
+  }
+  if (forced) {
+    const provider = providers.find(candidate => candidate.name === forced);
+    if (provider?.isSupported()) {
+      return provider;
+    }
+    logger.warn(`Speech provider "${forced}" isn't available, picking one automatically`);
+  }
+
+  return providers.find(provider => provider.isSupported()) || null;
+};
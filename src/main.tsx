@@ -3,6 +3,10 @@ import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { registerServiceWorker } from './api/services/push';
+import { captureInstallPrompt } from './lib/pwa';
+
+captureInstallPrompt();
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -10,4 +14,8 @@ createRoot(document.getElementById('root')!).render(
       <App />
     </ThemeProvider>
   </StrictMode>
-);
\ No newline at end of file
+);
+
+window.addEventListener('load', () => {
+  registerServiceWorker();
+});
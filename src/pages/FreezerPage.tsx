@@ -1,26 +1,61 @@
-import React, { useState, useMemo, useCallback } from 'react';
-import { Filter, Search, RefrigeratorIcon } from 'lucide-react';
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Filter, Search, RefrigeratorIcon, Printer } from 'lucide-react';
 import UniversalInputBar from '../components/UniversalInputBar';
 import FreezerItemCard from '../components/FreezerItemCard';
 import EmptyState from '../components/EmptyState';
 import EditFreezerItemModal from '../components/EditFreezerItemModal';
+import LabelPrintModal from '../components/LabelPrintModal';
+import ImageDetectionReview from '../components/ImageDetectionReview';
 import LoadingTransition from '../components/LoadingTransition';
-import { FreezerItem } from '../types';
+import { FreezerItem, BarcodeMapping, ScannedItem, ReceiptItem, ImageDetection } from '../types';
 import { getCategories } from '../data/categories';
+import { getLocations, DEFAULT_LOCATION } from '../data/locations';
+import { getLastUsedLocation } from '../utils/storage';
 import { useStorage } from '../store/StorageContext';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { getReservedQuantity } from '../utils/mealPlanUtils';
+import { formatDate } from '../utils/freezerUtils';
 import { v4 as uuidv4 } from 'uuid';
-import { parseItemText } from '../utils/textParser';
-import { recognizeImageContent, scanBarcode } from '../api/services/images';
+import { parseItemText, ParsedItemDetails } from '../utils/textParser';
+import { detectImageItems, scanBarcode } from '../api/services/images';
 import { toast } from 'react-hot-toast';
 import { logger } from "@/lib/logger";
 
 const FreezerPage: React.FC = () => {
-  const { freezerItems } = useStorage();
+  const { freezerItems, mealPlan } = useStorage();
+  const { household, canEdit: isEditor } = useHousehold();
+  // Viewers of a household can browse the freezer but not change it
+  const canEdit = !household || isEditor;
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<'name' | 'expiration' | 'category'>('expiration');
   const [filterCategory, setFilterCategory] = useState<string | null>(null);
+  const [filterLocation, setFilterLocation] = useState<string | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [currentEditItem, setCurrentEditItem] = useState<FreezerItem | null>(null);
+  const [labelItems, setLabelItems] = useState<FreezerItem[]>([]);
+  const [isLabelModalOpen, setIsLabelModalOpen] = useState(false);
+  const [highlightedItemId, setHighlightedItemId] = useState<string | null>(null);
+  const [imageReview, setImageReview] = useState<{ imageUrl: string; detections: ImageDetection[] } | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const labelItemId = searchParams.get('item');
+
+  // Open the item from a scanned label (?item=<id>) once the inventory has loaded
+  useEffect(() => {
+    if (!labelItemId || freezerItems.loading) return;
+
+    const item = freezerItems.items.find(i => i.id === labelItemId);
+    if (item) {
+      // Clear filters so the item is guaranteed to be in the list
+      setSearchTerm('');
+      setFilterCategory(null);
+      setFilterLocation(null);
+      setHighlightedItemId(item.id);
+    } else {
+      toast.error('That item is no longer in your freezer');
+    }
+    setSearchParams({}, { replace: true });
+  }, [labelItemId, freezerItems.loading, freezerItems.items, setSearchParams]);
 
   // Get all predefined categories
   const predefinedCategories = getCategories();
@@ -37,6 +72,12 @@ const FreezerPage: React.FC = () => {
     [predefinedCategories, usedCategories]
   );
 
+  // Combine predefined locations with those already in use - memoize result
+  const locations = useMemo(() => 
+    [...new Set([...getLocations(), ...freezerItems.items.map(item => item.location || DEFAULT_LOCATION)])], 
+    [freezerItems.items]
+  );
+
   // Handle edit item - wrapped in useCallback
   const handleEditItem = useCallback((item: FreezerItem) => {
     setCurrentEditItem(item);
@@ -61,7 +102,7 @@ const FreezerPage: React.FC = () => {
   const handleAddFreezerItem = useCallback(async (itemName: string) => {
     try {
       // Parse the text to extract item details
-      const parsedDetails = await parseItemText(itemName, null);
+      const [parsedDetails] = await parseItemText(itemName, null, { splitItems: false });
       
       // Create a new item with the parsed details
       const newItem: FreezerItem = {
@@ -74,7 +115,8 @@ const FreezerPage: React.FC = () => {
         size: parsedDetails.size || '',              // Ensure size has a fallback
         tags: parsedDetails.tags || [],              // Ensure tags has a fallback
         notes: '',
-        source: 'text'
+        source: 'text',
+        location: getLastUsedLocation()
       };
       
       // Check if freezerItems.addItem is defined before calling it
@@ -91,63 +133,99 @@ const FreezerPage: React.FC = () => {
     }
   }, [freezerItems]);
 
+  // Open the label modal for one item or the current list - wrapped in useCallback
+  const handlePrintLabels = useCallback((items: FreezerItem[]) => {
+    setLabelItems(items);
+    setIsLabelModalOpen(true);
+  }, []);
+
+  const handlePrintItemLabel = useCallback((item: FreezerItem) => {
+    handlePrintLabels([item]);
+  }, [handlePrintLabels]);
+
   // Process an uploaded image - wrapped in useCallback
   const handleImageUpload = useCallback(async (file: File) => {
     try {
-      // Use the API to recognize the image content
-      const recognizedText = await recognizeImageContent(file);
-      
-      // Create a temporary URL for the uploaded image
-      const imageUrl = URL.createObjectURL(file);
-      
-      // Parse the recognized text and create a new item
-      const parsedDetails = await parseItemText(recognizedText, null);
-      const newItem: FreezerItem = {
-        id: uuidv4(),
-        name: parsedDetails.name,
-        addedDate: new Date(),
-        expirationDate: parsedDetails.expirationDate,
-        category: parsedDetails.category || 'Other',
-        quantity: parsedDetails.quantity || 1,
-        size: parsedDetails.size || '',
-        tags: parsedDetails.tags || [],
-        notes: '',
-        imageUrl: imageUrl,
-        source: 'image'
-      };
-      
-      if (freezerItems && typeof freezerItems.addItem === 'function') {
-        await freezerItems.addItem(newItem);
-        toast.success(`Added ${newItem.name} from image`);
-      } else {
-        logger.error('Error: freezerItems.addItem is not a function');
-        toast.error('Failed to add item from image');
+      // Find every item in the photo, then let the user review them before adding
+      const detections = await detectImageItems(file);
+      if (detections.length === 0) {
+        toast.error("Couldn't find any food in that photo");
+        return;
       }
+
+      setImageReview({ imageUrl: URL.createObjectURL(file), detections });
     } catch (error) {
       logger.error('Error processing image:', error);
       toast.error('Failed to process image');
     }
-  }, [freezerItems]);
+  }, []);
+
+  const handleCloseImageReview = useCallback(() => {
+    setImageReview(current => {
+      if (current) URL.revokeObjectURL(current.imageUrl);
+      return null;
+    });
+  }, []);
+
+  // Add the detections the user accepted, each with the uploaded photo - wrapped in useCallback
+  const handleConfirmDetections = useCallback(async (detections: ImageDetection[]) => {
+    if (!imageReview) return;
+
+    try {
+      const location = getLastUsedLocation();
+      const names: string[] = [];
+      for (const detection of detections) {
+        const [parsedDetails] = await parseItemText(detection.text, null, { splitItems: false });
+        names.push(parsedDetails.name);
+        await freezerItems.addItem({
+          id: uuidv4(),
+          name: parsedDetails.name,
+          addedDate: new Date(),
+          expirationDate: parsedDetails.expirationDate,
+          category: parsedDetails.category || 'Other',
+          quantity: parsedDetails.quantity || 1,
+          size: parsedDetails.size || '',
+          tags: parsedDetails.tags || [],
+          notes: '',
+          imageUrl: imageReview.imageUrl,
+          source: 'image',
+          location
+        });
+      }
+
+      // The added items keep using the photo, so it isn't revoked here
+      setImageReview(null);
+      toast.success(names.length === 1
+        ? `Added ${names[0]} from image`
+        : `Added ${names.length} items from image`);
+    } catch (error) {
+      logger.error('Error adding detected items:', error);
+      toast.error('Failed to add some items from the image');
+    }
+  }, [freezerItems, imageReview]);
 
   // Process a scanned barcode - wrapped in useCallback
   const handleBarcodeScanned = useCallback(async (barcode: string) => {
     try {
       // Process the barcode
-      const productName = await scanBarcode(barcode);
+      const { productName, product } = await scanBarcode(barcode);
       
-      // Parse the product name and create a new item
-      const parsedDetails = await parseItemText(productName, null);
+      // Parse the product name and create a new item, preferring what the lookup knows
+      const [parsedDetails] = await parseItemText(productName, null, { splitItems: false });
+      const productCategory = product && product.category !== 'Other' ? product.category : null;
       const newItem: FreezerItem = {
         id: uuidv4(),
         name: parsedDetails.name,
         addedDate: new Date(),
         expirationDate: parsedDetails.expirationDate,
-        category: parsedDetails.category || 'Other',
+        category: productCategory || parsedDetails.category || 'Other',
         quantity: parsedDetails.quantity || 1,
         size: parsedDetails.size || '',
         tags: parsedDetails.tags || [],
         notes: '',
-        source: 'barcode'
+        imageUrl: product?.imageUrl || undefined,
+        source: 'barcode',
+        location: getLastUsedLocation()
       };
       
       if (freezerItems && typeof freezerItems.addItem === 'function') {
@@ -163,11 +241,130 @@ const FreezerPage: React.FC = () => {
     }
   }, [freezerItems]);
 
-  // Handle voice input - wrapped in useCallback
-  const handleVoiceInput = useCallback(async (transcript: string) => {
-    toast.success('Processing voice input...');
-    await handleAddFreezerItem(transcript);
-  }, [handleAddFreezerItem]);
+  // Add a product the household named for its barcode - wrapped in useCallback
+  const handleMappedProduct = useCallback(async (mapping: BarcodeMapping) => {
+    try {
+      // Parse the name for tags, and for FoodKeeper's shelf life if the mapping has none
+      const [parsedDetails] = await parseItemText(mapping.name, null, { splitItems: false });
+      const expirationDate = new Date();
+      if (mapping.shelfLifeDays) {
+        expirationDate.setDate(expirationDate.getDate() + mapping.shelfLifeDays);
+      }
+      
+      const newItem: FreezerItem = {
+        id: uuidv4(),
+        name: mapping.name,
+        addedDate: new Date(),
+        expirationDate: mapping.shelfLifeDays ? expirationDate : parsedDetails.expirationDate,
+        category: mapping.category || parsedDetails.category || 'Other',
+        quantity: 1,
+        size: mapping.size,
+        tags: parsedDetails.tags || [],
+        notes: '',
+        source: 'barcode',
+        location: getLastUsedLocation()
+      };
+      
+      await freezerItems.addItem(newItem);
+      toast.success(`Added ${newItem.name} from barcode`);
+    } catch (error) {
+      logger.error('Error adding mapped product:', error);
+      toast.error('Failed to add item from barcode');
+    }
+  }, [freezerItems]);
+
+  // Add everything reviewed in a batch scan - wrapped in useCallback
+  const handleBatchScanned = useCallback(async (items: ScannedItem[]) => {
+    try {
+      const location = getLastUsedLocation();
+      for (const item of items) {
+        const [parsedDetails] = await parseItemText(item.name, null, { splitItems: false });
+        const expirationDate = new Date();
+        if (item.shelfLifeDays) {
+          expirationDate.setDate(expirationDate.getDate() + item.shelfLifeDays);
+        }
+
+        await freezerItems.addItem({
+          id: uuidv4(),
+          name: item.name.trim(),
+          addedDate: new Date(),
+          expirationDate: item.shelfLifeDays ? expirationDate : parsedDetails.expirationDate,
+          category: item.category !== 'Other' ? item.category : parsedDetails.category || 'Other',
+          quantity: item.quantity,
+          size: item.size,
+          tags: parsedDetails.tags || [],
+          notes: '',
+          source: 'barcode',
+          location
+        });
+      }
+
+      const total = items.reduce((sum, item) => sum + item.quantity, 0);
+      toast.success(`Added ${total} item${total === 1 ? '' : 's'} from batch scan`);
+    } catch (error) {
+      logger.error('Error adding batch scan:', error);
+      toast.error('Failed to add some scanned items');
+      throw error;
+    }
+  }, [freezerItems]);
+
+  // Add the items parsed from one input, after the user confirmed them - wrapped in useCallback
+  const handleAddParsedItems = useCallback(async (items: ParsedItemDetails[]) => {
+    try {
+      const location = getLastUsedLocation();
+      for (const parsedDetails of items) {
+        await freezerItems.addItem({
+          id: uuidv4(),
+          name: parsedDetails.name,
+          addedDate: new Date(),
+          expirationDate: parsedDetails.expirationDate,
+          category: parsedDetails.category || 'Other',
+          quantity: parsedDetails.quantity || 1,
+          size: parsedDetails.size || '',
+          tags: parsedDetails.tags || [],
+          notes: '',
+          source: 'text',
+          location
+        });
+      }
+      
+      toast.success(items.length === 1
+        ? `Added ${items[0].name} to your freezer`
+        : `Added ${items.length} items to your freezer`);
+    } catch (error) {
+      logger.error('Error adding parsed items:', error);
+      toast.error('Failed to add some items. Please try again.');
+    }
+  }, [freezerItems]);
+
+  // Add the products ticked on an imported receipt - wrapped in useCallback
+  const handleReceiptItems = useCallback(async (items: ReceiptItem[]) => {
+    try {
+      const location = getLastUsedLocation();
+      for (const item of items) {
+        await freezerItems.addItem({
+          id: uuidv4(),
+          name: item.name,
+          addedDate: new Date(),
+          expirationDate: item.expirationDate,
+          category: item.category,
+          quantity: item.quantity,
+          size: '',
+          tags: [],
+          notes: '',
+          source: 'receipt',
+          location
+        });
+      }
+
+      const total = items.reduce((sum, item) => sum + item.quantity, 0);
+      toast.success(`Added ${total} item${total === 1 ? '' : 's'} from your receipt`);
+    } catch (error) {
+      logger.error('Error adding receipt items:', error);
+      toast.error('Failed to add some receipt items');
+      throw error;
+    }
+  }, [freezerItems]);
 
   // Remove a freezer item - wrapped in useCallback
   const handleRemoveFreezerItem = useCallback(async (id: string) => {
@@ -175,26 +372,56 @@ const FreezerPage: React.FC = () => {
     if (!itemToDelete) return;
     
     try {
-      if (freezerItems && typeof freezerItems.deleteItem === 'function') {
-        await freezerItems.deleteItem(id);
-        toast.success(`Removed ${itemToDelete.name}`);
-      } else {
-        logger.error('Error: freezerItems.deleteItem is not a function');
-        toast.error('Failed to remove item');
-      }
+      // A plain removal, e.g. of a mistake, leaves no trace in the stats
+      await freezerItems.deleteItem(id);
+      toast.success(`Removed ${itemToDelete.name}`);
     } catch (error) {
       logger.error('Error removing item:', error);
       toast.error('Failed to remove item');
     }
   }, [freezerItems]);
 
+  // Throw an item away, which counts as waste in the stats
+  const handleDiscardItem = useCallback(async (item: FreezerItem) => {
+    try {
+      const event = await freezerItems.discardItem(item);
+      toast.success(event.outcome === 'expired' ? `Threw away expired ${item.name}` : `Threw away ${item.name}`);
+    } catch (error) {
+      logger.error('Error discarding item:', error);
+      toast.error('Failed to update item');
+    }
+  }, [freezerItems]);
+
+  // Use some or all of a freezer item - wrapped in useCallback
+  const handleConsumeItem = useCallback(async (item: FreezerItem, amount: number, meal?: string) => {
+    try {
+      await freezerItems.consumeItem(item, amount, meal);
+      toast.success(amount >= item.quantity ? `Used up ${item.name}` : `Used ${amount} of ${item.name}`);
+    } catch (error) {
+      logger.error('Error using item:', error);
+      toast.error('Failed to update item');
+    }
+  }, [freezerItems]);
+
+  // Move the whole item to the fridge; it keeps its id so meals that planned it still do
+  const handleThawItem = useCallback(async (item: FreezerItem) => {
+    try {
+      const thawing = await freezerItems.thawItem(item, item.quantity);
+      toast.success(`${item.name} is thawing; use it by ${formatDate(new Date(thawing.expirationDate))}`);
+    } catch (error) {
+      logger.error('Error marking item as thawing:', error);
+      toast.error('Failed to update item');
+    }
+  }, [freezerItems]);
+
   // Filter and sort items - memoize to prevent recalculation on every render
   const filteredItems = useMemo(() => {
     return freezerItems.items
       .filter(item => {
         const matchesSearch = item.name.toLowerCase().includes(searchTerm.toLowerCase());
         const matchesCategory = filterCategory ? item.category === filterCategory : true;
-        return matchesSearch && matchesCategory;
+        const matchesLocation = filterLocation ? (item.location || DEFAULT_LOCATION) === filterLocation : true;
+        return matchesSearch && matchesCategory && matchesLocation;
       })
       .sort((a, b) => {
         if (sortBy === 'name') {
@@ -206,21 +433,31 @@ const FreezerPage: React.FC = () => {
         }
         return 0;
       });
-  }, [freezerItems.items, searchTerm, filterCategory, sortBy]);
+  }, [freezerItems.items, searchTerm, filterCategory, filterLocation, sortBy]);
 
   return (
     <div className="pb-16 md:pb-4"> {/* Padding to accommodate mobile nav */}
       <section className="mb-6">
         <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-100 mb-3">Freezer Inventory</h2>
-        <div className="mb-6">
-          <UniversalInputBar
-            onSubmit={handleAddFreezerItem}
-            onImageUpload={handleImageUpload}
-            onBarcodeScanned={handleBarcodeScanned}
-            onVoiceInput={handleVoiceInput}
-            placeholder="Add item to freezer..."
-          />
-        </div>
+        {canEdit ? (
+          <div className="mb-6">
+            <UniversalInputBar
+              onSubmit={handleAddFreezerItem}
+              onSubmitItems={handleAddParsedItems}
+              onImageUpload={handleImageUpload}
+              onBarcodeScanned={handleBarcodeScanned}
+              onMappedProduct={handleMappedProduct}
+              onBatchScanned={handleBatchScanned}
+              onReceiptItems={handleReceiptItems}
+              placeholder="Add item to freezer..."
+              locations={locations}
+            />
+          </div>
+        ) : (
+          <p className="mb-6 text-sm text-slate-500 dark:text-slate-400">
+            You can view this household's freezer. Ask its owner to make you a member to add or change items.
+          </p>
+        )}
       </section>
 
       <section className="mb-6">
@@ -261,6 +498,27 @@ const FreezerPage: React.FC = () => {
                 <option key={category} value={category}>{category}</option>
               ))}
             </select>
+
+            <select
+              value={filterLocation || ''}
+              onChange={e => setFilterLocation(e.target.value || null)}
+              className="px-4 pr-8 py-2 border border-slate-200 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none"
+              aria-label="Filter by location"
+            >
+              <option value="">All Locations</option>
+              {locations.map(location => (
+                <option key={location} value={location}>{location}</option>
+              ))}
+            </select>
+
+            <button
+              onClick={() => handlePrintLabels(filteredItems)}
+              disabled={filteredItems.length === 0}
+              className="flex items-center justify-center gap-2 px-4 py-2 border border-slate-200 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Printer size={18} aria-hidden="true" />
+              <span>Print labels</span>
+            </button>
           </div>
         </div>
 
@@ -271,16 +529,22 @@ const FreezerPage: React.FC = () => {
                 <FreezerItemCard
                   key={item.id}
                   item={item}
-                  onRemove={handleRemoveFreezerItem}
-                  onEdit={handleEditItem}
+                  onRemove={canEdit ? handleRemoveFreezerItem : undefined}
+                  onEdit={canEdit ? handleEditItem : undefined}
+                  onConsume={canEdit ? handleConsumeItem : undefined}
+                  onDiscard={canEdit ? handleDiscardItem : undefined}
+                  onPrintLabel={handlePrintItemLabel}
+                  onThaw={canEdit ? handleThawItem : undefined}
+                  reserved={getReservedQuantity(item.id, mealPlan.meals)}
+                  isHighlighted={item.id === highlightedItemId}
                 />
               ))}
             </div>
           ) : (
             <div className="px-0">
               <EmptyState
-                title={searchTerm || filterCategory ? "No matching items" : "Your freezer is empty"}
-                description={searchTerm || filterCategory 
+                title={searchTerm || filterCategory || filterLocation ? "No matching items" : "Your freezer is empty"}
+                description={searchTerm || filterCategory || filterLocation 
                   ? "Try changing your search or filters" 
                   : "Add items using the input bar above"}
                 icon={<RefrigeratorIcon size={32} />}
@@ -297,9 +561,26 @@ const FreezerPage: React.FC = () => {
           onClose={() => setIsEditModalOpen(false)}
           onSave={handleSaveEditedItem}
           categories={categories}
+          locations={locations}
           source={currentEditItem.source}
         />
       )}
+
+      <LabelPrintModal
+        items={labelItems}
+        isOpen={isLabelModalOpen}
+        onClose={() => setIsLabelModalOpen(false)}
+      />
+
+      {imageReview && (
+        <ImageDetectionReview
+          imageUrl={imageReview.imageUrl}
+          detections={imageReview.detections}
+          isOpen={!!imageReview}
+          onClose={handleCloseImageReview}
+          onConfirm={handleConfirmDetections}
+        />
+      )}
     </div>
   );
 };
@@ -7,11 +7,16 @@ import MealIdeaCard from '../components/MealIdeaCard';
 import EmptyState from '../components/EmptyState';
 import ShoppingItemComponent from '../components/ShoppingItem';
 import FreezerTip from '../components/FreezerTip';
+import InstallPrompt from '../components/InstallPrompt';
 import LoadingTransition from '../components/LoadingTransition';
 import SummaryCard from '../components/SummaryCard';
 import { useStorage } from '../store/StorageContext';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { FreezerItem, BarcodeMapping, ScannedItem, ReceiptItem } from '../types';
 import { v4 as uuidv4 } from 'uuid';
-import { parseItemText } from '../utils/textParser';
+import { parseItemText, ParsedItemDetails } from '../utils/textParser';
+import { getLastUsedLocation } from '../utils/storage';
+import { getLocations, DEFAULT_LOCATION } from '../data/locations';
 import { recognizeImageContent, scanBarcode } from '../api/services/images';
 import { toast } from 'react-hot-toast';
 import { logger } from "@/lib/logger";
@@ -23,6 +28,9 @@ const HomePage: React.FC = () => {
     mealIdeas,
     isInitializing
   } = useStorage();
+  const { household, canEdit: isEditor } = useHousehold();
+  // Viewers of a household can't add to its freezer
+  const canEdit = !household || isEditor;
   
   const [isGenerating, setIsGenerating] = useState(false);
   
@@ -38,6 +46,12 @@ const HomePage: React.FC = () => {
     [freezerItems.items]
   );
   
+  // Combine predefined locations with those already in use - memoize result
+  const locations = useMemo(() => 
+    [...new Set([...getLocations(), ...freezerItems.items.map(item => item.location || DEFAULT_LOCATION)])],
+    [freezerItems.items]
+  );
+  
   // Get incomplete shopping items - memoize to prevent recalculation
   const incompleteShoppingItems = useMemo(() => 
     shoppingItems.items.filter(item => !item.completed).slice(0, 3),
@@ -125,7 +139,7 @@ const HomePage: React.FC = () => {
   const handleAddFreezerItem = useCallback(async (itemName: string) => {
     try {
       // Use the parser to create a new freezer item
-      const parsedDetails = await parseItemText(itemName, null);
+      const [parsedDetails] = await parseItemText(itemName, null, { splitItems: false });
       const newItem = {
         id: uuidv4(),
         name: parsedDetails.name,
@@ -136,7 +150,8 @@ const HomePage: React.FC = () => {
         size: parsedDetails.size || '',
         tags: parsedDetails.tags || [],
         notes: '',
-        source: 'text'
+        source: 'text',
+        location: getLastUsedLocation()
       };
       
       if (freezerItems && typeof freezerItems.addItem === 'function') {
@@ -162,7 +177,7 @@ const HomePage: React.FC = () => {
       const imageUrl = URL.createObjectURL(file);
       
       // Parse the recognized text and create a new item
-      const parsedDetails = await parseItemText(recognizedText, null);
+      const [parsedDetails] = await parseItemText(recognizedText, null, { splitItems: false });
       const newItem = {
         id: uuidv4(),
         name: parsedDetails.name,
@@ -174,7 +189,8 @@ const HomePage: React.FC = () => {
         tags: parsedDetails.tags || [],
         notes: '',
         imageUrl: imageUrl,
-        source: 'image'
+        source: 'image',
+        location: getLastUsedLocation()
       };
       
       if (freezerItems && typeof freezerItems.addItem === 'function') {
@@ -194,21 +210,24 @@ const HomePage: React.FC = () => {
   const handleBarcodeScanned = useCallback(async (barcode: string) => {
     try {
       // Process the barcode
-      const productName = await scanBarcode(barcode);
+      const { productName, product } = await scanBarcode(barcode);
       
-      // Parse the product name and create a new item
-      const parsedDetails = await parseItemText(productName, null);
+      // Parse the product name and create a new item, preferring what the lookup knows
+      const [parsedDetails] = await parseItemText(productName, null, { splitItems: false });
+      const productCategory = product && product.category !== 'Other' ? product.category : null;
       const newItem = {
         id: uuidv4(),
         name: parsedDetails.name,
         addedDate: new Date(),
         expirationDate: parsedDetails.expirationDate,
-        category: parsedDetails.category || 'Other',
+        category: productCategory || parsedDetails.category || 'Other',
         quantity: parsedDetails.quantity || 1,
         size: parsedDetails.size || '',
         tags: parsedDetails.tags || [],
         notes: '',
-        source: 'barcode'
+        imageUrl: product?.imageUrl || undefined,
+        source: 'barcode',
+        location: getLastUsedLocation()
       };
       
       if (freezerItems && typeof freezerItems.addItem === 'function') {
@@ -224,39 +243,166 @@ const HomePage: React.FC = () => {
     }
   }, [freezerItems]);
   
-  // Handle voice input - wrapped in useCallback
-  const handleVoiceInput = useCallback(async (transcript: string) => {
-    toast.success('Processing voice input...');
-    await handleAddFreezerItem(transcript);
-  }, [handleAddFreezerItem]);
+  // Add a product the household named for its barcode - wrapped in useCallback
+  const handleMappedProduct = useCallback(async (mapping: BarcodeMapping) => {
+    try {
+      // Parse the name for tags, and for FoodKeeper's shelf life if the mapping has none
+      const [parsedDetails] = await parseItemText(mapping.name, null, { splitItems: false });
+      const expirationDate = new Date();
+      if (mapping.shelfLifeDays) {
+        expirationDate.setDate(expirationDate.getDate() + mapping.shelfLifeDays);
+      }
+      
+      const newItem: FreezerItem = {
+        id: uuidv4(),
+        name: mapping.name,
+        addedDate: new Date(),
+        expirationDate: mapping.shelfLifeDays ? expirationDate : parsedDetails.expirationDate,
+        category: mapping.category || parsedDetails.category || 'Other',
+        quantity: 1,
+        size: mapping.size,
+        tags: parsedDetails.tags || [],
+        notes: '',
+        source: 'barcode',
+        location: getLastUsedLocation()
+      };
+      
+      await freezerItems.addItem(newItem);
+      toast.success(`Added ${newItem.name} from barcode`);
+    } catch (error) {
+      logger.error('Error adding mapped product:', error);
+      toast.error('Failed to add item from barcode');
+    }
+  }, [freezerItems]);
+  
+  // Add everything reviewed in a batch scan - wrapped in useCallback
+  const handleBatchScanned = useCallback(async (items: ScannedItem[]) => {
+    try {
+      const location = getLastUsedLocation();
+      for (const item of items) {
+        const [parsedDetails] = await parseItemText(item.name, null, { splitItems: false });
+        const expirationDate = new Date();
+        if (item.shelfLifeDays) {
+          expirationDate.setDate(expirationDate.getDate() + item.shelfLifeDays);
+        }
+
+        await freezerItems.addItem({
+          id: uuidv4(),
+          name: item.name.trim(),
+          addedDate: new Date(),
+          expirationDate: item.shelfLifeDays ? expirationDate : parsedDetails.expirationDate,
+          category: item.category !== 'Other' ? item.category : parsedDetails.category || 'Other',
+          quantity: item.quantity,
+          size: item.size,
+          tags: parsedDetails.tags || [],
+          notes: '',
+          source: 'barcode',
+          location
+        });
+      }
+
+      const total = items.reduce((sum, item) => sum + item.quantity, 0);
+      toast.success(`Added ${total} item${total === 1 ? '' : 's'} from batch scan`);
+    } catch (error) {
+      logger.error('Error adding batch scan:', error);
+      toast.error('Failed to add some scanned items');
+      throw error;
+    }
+  }, [freezerItems]);
+
+  // Add the items parsed from one input, after the user confirmed them - wrapped in useCallback
+  const handleAddParsedItems = useCallback(async (items: ParsedItemDetails[]) => {
+    try {
+      const location = getLastUsedLocation();
+      for (const parsedDetails of items) {
+        await freezerItems.addItem({
+          id: uuidv4(),
+          name: parsedDetails.name,
+          addedDate: new Date(),
+          expirationDate: parsedDetails.expirationDate,
+          category: parsedDetails.category || 'Other',
+          quantity: parsedDetails.quantity || 1,
+          size: parsedDetails.size || '',
+          tags: parsedDetails.tags || [],
+          notes: '',
+          source: 'text',
+          location
+        });
+      }
+      
+      toast.success(items.length === 1
+        ? `Added ${items[0].name} to your freezer`
+        : `Added ${items.length} items to your freezer`);
+    } catch (error) {
+      logger.error('Error adding parsed items:', error);
+      toast.error('Failed to add some items. Please try again.');
+    }
+  }, [freezerItems]);
+
+  // Add the products ticked on an imported receipt - wrapped in useCallback
+  const handleReceiptItems = useCallback(async (items: ReceiptItem[]) => {
+    try {
+      const location = getLastUsedLocation();
+      for (const item of items) {
+        await freezerItems.addItem({
+          id: uuidv4(),
+          name: item.name,
+          addedDate: new Date(),
+          expirationDate: item.expirationDate,
+          category: item.category,
+          quantity: item.quantity,
+          size: '',
+          tags: [],
+          notes: '',
+          source: 'receipt',
+          location
+        });
+      }
+
+      const total = items.reduce((sum, item) => sum + item.quantity, 0);
+      toast.success(`Added ${total} item${total === 1 ? '' : 's'} from your receipt`);
+    } catch (error) {
+      logger.error('Error adding receipt items:', error);
+      toast.error('Failed to add some receipt items');
+      throw error;
+    }
+  }, [freezerItems]);
   
   // Check if any data is currently loading
   const isLoading = freezerItems.loading || shoppingItems.loading || mealIdeas.loading || isInitializing;
 
   return (
     <div className="pb-16 md:pb-4">
+      <InstallPrompt />
+      
       <LoadingTransition loading={isLoading}>
-        <section className="mb-6">
-          <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-100 mb-3">Add to Freezer</h2>
-          <UniversalInputBar
-            onSubmit={handleAddFreezerItem}
-            onImageUpload={handleImageUpload}
-            onBarcodeScanned={handleBarcodeScanned}
-            onVoiceInput={handleVoiceInput}
-            placeholder="Add item to freezer..."
-          />
+        {canEdit && (
+          <section className="mb-6">
+            <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-100 mb-3">Add to Freezer</h2>
+            <UniversalInputBar
+              onSubmit={handleAddFreezerItem}
+              onSubmitItems={handleAddParsedItems}
+              onImageUpload={handleImageUpload}
+              onBarcodeScanned={handleBarcodeScanned}
+              onMappedProduct={handleMappedProduct}
+              onBatchScanned={handleBatchScanned}
+              onReceiptItems={handleReceiptItems}
+              placeholder="Add item to freezer..."
+              locations={locations}
+            />
           
-          <div className="bg-blue-50 dark:bg-blue-900/30 p-3 rounded-lg mt-2 text-sm text-blue-700 dark:text-blue-300">
-            <p>
-              <span className="font-medium">Pro tips:</span> 
-            </p>
-            <ul className="list-disc pl-5 mt-1 space-y-1">
-              <li>Add expiration dates: "Chicken expires: 10/15/2025" or "Beef good for 2 weeks"</li>
-              <li>Specify quantity and size: "2 8oz salmon fillets"</li>
-              <li>Add tags with #: "Homemade tomato sauce #italian #dinner"</li>
-            </ul>
-          </div>
-        </section>
+            <div className="bg-blue-50 dark:bg-blue-900/30 p-3 rounded-lg mt-2 text-sm text-blue-700 dark:text-blue-300">
+              <p>
+                <span className="font-medium">Pro tips:</span> 
+              </p>
+              <ul className="list-disc pl-5 mt-1 space-y-1">
+                <li>Add expiration dates: "Chicken expires: 10/15/2025" or "Beef good for 2 weeks"</li>
+                <li>Specify quantity and size: "2 8oz salmon fillets"</li>
+                <li>Add tags with #: "Homemade tomato sauce #italian #dinner"</li>
+              </ul>
+            </div>
+          </section>
+        )}
         
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
           <Link to="/freezer" className="block transition-transform hover:scale-[1.02]">
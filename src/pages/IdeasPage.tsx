@@ -3,16 +3,18 @@ import { ChefHat, Sparkle, Filter, Loader, Heart, Trash2 } from 'lucide-react';
 import MealIdeaCard from '../components/MealIdeaCard';
 import EmptyState from '../components/EmptyState';
 import LoadingTransition from '../components/LoadingTransition';
-import { MealIdea } from '../types';
+import PlanMealModal from '../components/PlanMealModal';
+import { MealIdea, PlannedMeal } from '../types';
 import { useStorage } from '../store/StorageContext';
 import { generateMealIdeas } from '../api/services/mealIdeas';
 import { AuthContext } from '../contexts/AuthContext';
 import { useSettings } from '../contexts/SettingsContext'; // Import useSettings
+import { matchFreezerItems, toDateKey } from '../utils/mealPlanUtils';
 import { toast } from 'react-hot-toast';
 import { logger } from "@/lib/logger";
 
 const IdeasPage: React.FC = () => {
-  const { mealIdeas, freezerItems } = useStorage();
+  const { mealIdeas, freezerItems, mealPlan } = useStorage();
   const { user } = useContext(AuthContext);
   const { settings } = useSettings(); // Get settings to access dietary preferences
   
@@ -22,6 +24,7 @@ const IdeasPage: React.FC = () => {
   const [dairyFree, setDairyFree] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [planningIdea, setPlanningIdea] = useState<MealIdea | null>(null);
   
   // State for favorite ideas and displayed ideas
   const [favoriteIdeas, setFavoriteIdeas] = useState<MealIdea[]>([]);
@@ -32,14 +35,7 @@ const IdeasPage: React.FC = () => {
     logger.debug('Processing meal ideas to add matched items');
     return ideas.map(idea => {
       // For each idea, check which freezer items match the ingredients
-      const matchedItems = freezerItems.items.filter(item => {
-        // Check if any ingredient contains this freezer item name (case insensitive)
-        const itemName = item.name.toLowerCase();
-        return idea.ingredients.some(ingredient => 
-          ingredient.toLowerCase().includes(itemName) || 
-          itemName.includes(ingredient.toLowerCase())
-        );
-      }).map(item => item.name);
+      const matchedItems = matchFreezerItems(idea.ingredients, freezerItems.items).map(item => item.name);
       
       logger.debug(`Idea "${idea.title}" matched with: ${matchedItems.join(', ') || 'none'}`);
       
@@ -155,6 +151,18 @@ const IdeasPage: React.FC = () => {
     }
   }, [displayedIdeas, favoriteIdeas, mealIdeas]);
 
+  // Put an idea on the plan, setting aside what it needs from the freezer
+  const handlePlanIdea = useCallback(async (meal: PlannedMeal) => {
+    try {
+      await mealPlan.saveMeal(meal);
+      setPlanningIdea(null);
+      toast.success(`Planned ${meal.title}`);
+    } catch (error) {
+      logger.error('Error planning meal idea:', error);
+      toast.error('Failed to plan meal');
+    }
+  }, [mealPlan]);
+
   // Generate meal ideas - wrapped in useCallback
   const handleGenerateIdeas = useCallback(async () => {
     if (isGenerating || freezerItems.items.length === 0) return;
@@ -377,6 +385,7 @@ const IdeasPage: React.FC = () => {
                     idea={idea} 
                     onToggleFavorite={toggleFavorite}
                     onRemove={handleRemoveIdea}
+                    onPlan={mealPlan.canEdit ? setPlanningIdea : undefined}
                   />
                 ))}
               </div>
@@ -390,6 +399,18 @@ const IdeasPage: React.FC = () => {
           )}
         </section>
       </LoadingTransition>
+      
+      <PlanMealModal
+        meal={null}
+        defaultDate={toDateKey(new Date())}
+        defaultIdea={planningIdea}
+        ideas={mealIdeas.items}
+        freezerItems={freezerItems.items}
+        meals={mealPlan.meals}
+        isOpen={!!planningIdea}
+        onClose={() => setPlanningIdea(null)}
+        onSave={handlePlanIdea}
+      />
     </div>
   );
 };
@@ -0,0 +1,337 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import { CalendarDays, ChevronLeft, ChevronRight, Plus, Edit2, Trash2, CookingPot, AlertTriangle, Snowflake, Droplets } from 'lucide-react';
+import PlanMealModal from '../components/PlanMealModal';
+import LoadingTransition from '../components/LoadingTransition';
+import { PlannedMeal } from '../types';
+import { useStorage } from '../store/StorageContext';
+import {
+  toDateKey,
+  addDays,
+  startOfWeek,
+  getWeekDays,
+  checkReservations,
+  getThawSuggestions,
+  ReservationCheck,
+  ThawSuggestion
+} from '../utils/mealPlanUtils';
+import { formatDate } from '../utils/freezerUtils';
+import { toast } from 'react-hot-toast';
+import { logger } from "@/lib/logger";
+
+const dayFormat: Intl.DateTimeFormatOptions = { weekday: 'short', day: 'numeric', month: 'short' };
+
+const problemText = (check: ReservationCheck): string | null => {
+  switch (check.problem) {
+    case 'missing':
+      return `${check.reservation.itemName} is no longer in the freezer`;
+    case 'short':
+      return `Not enough ${check.reservation.itemName} left for every meal it's planned for`;
+    case 'expired':
+      return `${check.reservation.itemName} will have expired by then`;
+    default:
+      return null;
+  }
+};
+
+const PlanPage: React.FC = () => {
+  const { mealPlan, mealIdeas, freezerItems } = useStorage();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingMeal, setEditingMeal] = useState<PlannedMeal | null>(null);
+  const [newMealDate, setNewMealDate] = useState(() => toDateKey(new Date()));
+  const [cookingId, setCookingId] = useState<string | null>(null);
+  const [thawingKey, setThawingKey] = useState<string | null>(null);
+
+  const today = toDateKey(new Date());
+  const days = useMemo(() => getWeekDays(weekStart), [weekStart]);
+
+  const mealsByDay = useMemo(() => {
+    const byDay = new Map<string, PlannedMeal[]>();
+    for (const meal of mealPlan.meals) {
+      byDay.set(meal.date, [...(byDay.get(meal.date) || []), meal]);
+    }
+    return byDay;
+  }, [mealPlan.meals]);
+
+  const thawByDay = useMemo(() => {
+    const byDay = new Map<string, ThawSuggestion[]>();
+    for (const suggestion of getThawSuggestions(mealPlan.meals, freezerItems.items)) {
+      byDay.set(suggestion.date, [...(byDay.get(suggestion.date) || []), suggestion]);
+    }
+    return byDay;
+  }, [mealPlan.meals, freezerItems.items]);
+
+  const openNewMeal = (date: string) => {
+    setEditingMeal(null);
+    setNewMealDate(date < today ? today : date);
+    setIsModalOpen(true);
+  };
+
+  const openEditMeal = (meal: PlannedMeal) => {
+    setEditingMeal(meal);
+    setIsModalOpen(true);
+  };
+
+  const handleSaveMeal = useCallback(async (meal: PlannedMeal) => {
+    try {
+      await mealPlan.saveMeal(meal);
+      setIsModalOpen(false);
+      toast.success(editingMeal ? `Updated ${meal.title}` : `Planned ${meal.title}`);
+    } catch (error) {
+      logger.error('Error saving planned meal:', error);
+      toast.error('Failed to save meal');
+    }
+  }, [mealPlan, editingMeal]);
+
+  const handleRemoveMeal = useCallback(async (meal: PlannedMeal) => {
+    try {
+      await mealPlan.deleteMeal(meal.id);
+      toast.success(`Removed ${meal.title} from the plan`);
+    } catch (error) {
+      logger.error('Error removing planned meal:', error);
+      toast.error('Failed to remove meal');
+    }
+  }, [mealPlan]);
+
+  // Cooking a meal uses up what it set aside and takes it off the plan
+  const handleCooked = useCallback(async (meal: PlannedMeal) => {
+    setCookingId(meal.id);
+    try {
+      for (const check of checkReservations(meal, freezerItems.items, mealPlan.meals)) {
+        if (!check.item) continue;
+        await freezerItems.consumeItem(check.item, Math.min(check.reservation.quantity, check.item.quantity), meal.title);
+      }
+      await mealPlan.deleteMeal(meal.id);
+      toast.success(`Enjoy your ${meal.title}!`);
+    } catch (error) {
+      logger.error('Error marking meal as cooked:', error);
+      toast.error('Failed to update the freezer');
+    } finally {
+      setCookingId(null);
+    }
+  }, [freezerItems, mealPlan]);
+
+  // Take the meal's share out to thaw, and point the meal at the thawing part if the rest stays frozen
+  const handleThaw = useCallback(async (suggestion: ThawSuggestion) => {
+    const { item, meal, quantity } = suggestion;
+    setThawingKey(`${meal.id}-${item.id}`);
+    try {
+      const thawing = await freezerItems.thawItem(item, quantity);
+      if (thawing.id !== item.id) {
+        await mealPlan.saveMeal({
+          ...meal,
+          reservations: meal.reservations.map(reservation =>
+            reservation.freezerItemId === item.id ? { ...reservation, freezerItemId: thawing.id } : reservation
+          )
+        });
+      }
+      toast.success(`${item.name} is thawing; use it by ${formatDate(new Date(thawing.expirationDate))}`);
+    } catch (error) {
+      logger.error('Error marking item as thawing:', error);
+      toast.error('Failed to mark as thawing');
+    } finally {
+      setThawingKey(null);
+    }
+  }, [freezerItems, mealPlan]);
+
+  const weekLabel = `${days[0].toLocaleDateString(undefined, { day: 'numeric', month: 'short' })} – ${days[6].toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}`;
+
+  return (
+    <div className="pb-16 md:pb-4"> {/* Padding to accommodate mobile nav */}
+      <LoadingTransition loading={mealPlan.loading || freezerItems.loading}>
+        <section className="mb-6">
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-4 gap-3">
+            <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-100">Meal Plan</h2>
+
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setWeekStart(addDays(weekStart, -7))}
+                className="p-2 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+                aria-label="Previous week"
+              >
+                <ChevronLeft size={18} aria-hidden="true" />
+              </button>
+              <span className="min-w-[8rem] text-center text-sm font-medium text-slate-700 dark:text-slate-300" aria-live="polite">
+                {weekLabel}
+              </span>
+              <button
+                onClick={() => setWeekStart(addDays(weekStart, 7))}
+                className="p-2 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+                aria-label="Next week"
+              >
+                <ChevronRight size={18} aria-hidden="true" />
+              </button>
+              {toDateKey(weekStart) !== toDateKey(startOfWeek(new Date())) && (
+                <button
+                  onClick={() => setWeekStart(startOfWeek(new Date()))}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  This week
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-7 gap-3">
+            {days.map(day => {
+              const key = toDateKey(day);
+              const dayMeals = mealsByDay.get(key) || [];
+              const thawing = thawByDay.get(key) || [];
+              const isPast = key < today;
+
+              return (
+                <section
+                  key={key}
+                  aria-label={day.toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long' })}
+                  className={`bg-white dark:bg-slate-800 rounded-lg border p-3 flex flex-col ${
+                    key === today ? 'border-blue-400 dark:border-blue-500' : 'border-slate-100 dark:border-slate-700'
+                  } ${isPast ? 'opacity-60' : ''}`}
+                >
+                  <div className="flex justify-between items-center mb-2">
+                    <h3 className="text-sm font-medium text-slate-800 dark:text-slate-100">
+                      {day.toLocaleDateString(undefined, dayFormat)}
+                    </h3>
+                    {key === today && (
+                      <span className="text-xs text-blue-600 dark:text-blue-400">Today</span>
+                    )}
+                  </div>
+
+                  {thawing.length > 0 && (
+                    <ul className="mb-2 space-y-1" aria-label="To thaw">
+                      {thawing.map(suggestion => {
+                        const key = `${suggestion.meal.id}-${suggestion.item.id}`;
+                        const amount = suggestion.quantity > 1 ? `${suggestion.quantity} × ` : '';
+
+                        return suggestion.thawing ? (
+                          <li
+                            key={key}
+                            className="flex items-start gap-1 text-xs text-emerald-700 dark:text-emerald-300 bg-emerald-50 dark:bg-emerald-900/30 rounded px-2 py-1"
+                          >
+                            <Droplets size={12} className="mt-0.5 flex-shrink-0" aria-hidden="true" />
+                            <span>{amount}{suggestion.item.name} is thawing for {suggestion.meal.title}</span>
+                          </li>
+                        ) : (
+                          <li
+                            key={key}
+                            className="text-xs text-sky-700 dark:text-sky-300 bg-sky-50 dark:bg-sky-900/30 rounded px-2 py-1"
+                          >
+                            <span className="flex items-start gap-1">
+                              <Snowflake size={12} className="mt-0.5 flex-shrink-0" aria-hidden="true" />
+                              <span>Take out {amount}{suggestion.item.name} for {suggestion.meal.title}</span>
+                            </span>
+                            {mealPlan.canEdit && (
+                              <button
+                                onClick={() => handleThaw(suggestion)}
+                                disabled={thawingKey === key}
+                                className="mt-1 ml-4 text-sky-800 dark:text-sky-200 underline hover:no-underline disabled:opacity-50"
+                              >
+                                Mark as thawing
+                              </button>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+
+                  <ul className="space-y-2 flex-1">
+                    {dayMeals.map(meal => {
+                      const checks = checkReservations(meal, freezerItems.items, mealPlan.meals);
+                      const problems = isPast ? [] : checks.map(problemText).filter((text): text is string => !!text);
+
+                      return (
+                        <li key={meal.id} className="rounded-md border border-slate-200 dark:border-slate-700 p-2">
+                          <p className="text-sm font-medium text-slate-800 dark:text-slate-100">{meal.title}</p>
+                          {meal.reservations.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              <span className="sr-only">Set aside:</span>
+                              {checks.map(check => (
+                                <span
+                                  key={check.reservation.freezerItemId}
+                                  className={`px-2 py-0.5 rounded-full text-xs ${
+                                    check.problem && !isPast
+                                      ? 'bg-orange-50 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300'
+                                      : 'bg-blue-50 dark:bg-blue-900/40 text-blue-700 dark:text-blue-200'
+                                  }`}
+                                >
+                                  {check.reservation.quantity > 1 ? `${check.reservation.quantity} × ` : ''}{check.reservation.itemName}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                          {problems.map(text => (
+                            <p key={text} className="flex items-start gap-1 mt-1 text-xs text-red-600 dark:text-red-400">
+                              <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" aria-hidden="true" />
+                              {text}
+                            </p>
+                          ))}
+                          {mealPlan.canEdit && (
+                            <div className="flex justify-end gap-1 mt-2">
+                              <button
+                                onClick={() => handleCooked(meal)}
+                                disabled={cookingId === meal.id}
+                                className="text-slate-400 dark:text-slate-500 hover:text-green-600 dark:hover:text-green-400 transition-colors focus-visible:ring-2 focus-visible:ring-green-500 rounded-full p-1 disabled:opacity-50"
+                                aria-label={`Cooked ${meal.title}`}
+                                title="Cooked: use up what it set aside"
+                              >
+                                <CookingPot size={16} aria-hidden="true" />
+                              </button>
+                              <button
+                                onClick={() => openEditMeal(meal)}
+                                className="text-slate-400 dark:text-slate-500 hover:text-blue-500 dark:hover:text-blue-400 transition-colors focus-visible:ring-2 focus-visible:ring-blue-500 rounded-full p-1"
+                                aria-label={`Edit ${meal.title}`}
+                              >
+                                <Edit2 size={16} aria-hidden="true" />
+                              </button>
+                              <button
+                                onClick={() => handleRemoveMeal(meal)}
+                                className="text-slate-400 dark:text-slate-500 hover:text-red-500 dark:hover:text-red-400 transition-colors focus-visible:ring-2 focus-visible:ring-red-500 rounded-full p-1"
+                                aria-label={`Remove ${meal.title}`}
+                              >
+                                <Trash2 size={16} aria-hidden="true" />
+                              </button>
+                            </div>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+
+                  {mealPlan.canEdit && !isPast && (
+                    <button
+                      onClick={() => openNewMeal(key)}
+                      className="mt-2 flex items-center justify-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 rounded-md border border-dashed border-slate-300 dark:border-slate-600 py-1.5"
+                    >
+                      <Plus size={14} aria-hidden="true" />
+                      Add meal
+                    </button>
+                  )}
+                </section>
+              );
+            })}
+          </div>
+
+          {mealPlan.meals.length === 0 && (
+            <p className="flex items-center gap-2 mt-4 text-sm text-slate-500 dark:text-slate-400">
+              <CalendarDays size={16} aria-hidden="true" />
+              Plan meals from here or from a meal idea; what they need from the freezer is set aside for them.
+            </p>
+          )}
+        </section>
+      </LoadingTransition>
+
+      <PlanMealModal
+        meal={editingMeal}
+        defaultDate={newMealDate}
+        ideas={mealIdeas.items}
+        freezerItems={freezerItems.items}
+        meals={mealPlan.meals}
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        onSave={handleSaveMeal}
+      />
+    </div>
+  );
+};
+
+export default PlanPage;
@@ -2,9 +2,14 @@ import React, { useState } from 'react';
 import { Moon, Sun, Laptop, LogIn, LogOut, User, Loader, Mail, Info } from 'lucide-react';
 import { AuthContext } from '../contexts/AuthContext';
 import { useSettings } from '../contexts/SettingsContext';
+import HouseholdSettings from '../components/HouseholdSettings';
+import BackupSettings from '../components/BackupSettings';
+import { toast } from 'react-hot-toast';
+import { EmailDigestFrequency } from '../types';
+import { isPushSupported, enablePushNotifications, disablePushNotifications } from '../api/supabase';
 
 const SettingsPage: React.FC = () => {
-  const { settings, isLoading: settingsLoading, setTheme, setNotifications, setNotificationTiming, setDietary } = useSettings();
+  const { settings, isLoading: settingsLoading, setTheme, setNotifications, setNotificationTiming, setEmailDigest, setEmailDigestFrequency, setDietary } = useSettings();
   const { user, signIn, signUp, signInWithGoogle, signOut, isLoading: authLoading, error: authContextError } = React.useContext(AuthContext);
   
   // Form states
@@ -23,7 +28,26 @@ const SettingsPage: React.FC = () => {
     setDietary(preference, !settings.dietary[preference]);
   };
   
-  const handleNotificationsChange = (enabled: boolean) => {
+  const handleNotificationsChange = async (enabled: boolean) => {
+    // Push subscriptions are stored per account, so guests only get the setting
+    if (user && isPushSupported()) {
+      try {
+        if (enabled) {
+          const granted = await enablePushNotifications();
+          if (!granted) {
+            toast.error('Allow notifications in your browser to get expiration alerts');
+            return;
+          }
+        } else {
+          await disablePushNotifications();
+        }
+      } catch (error) {
+        console.error('Error updating push notifications:', error);
+        toast.error('Failed to update notifications');
+        return;
+      }
+    }
+    
     setNotifications(enabled);
   };
   
@@ -31,6 +55,10 @@ const SettingsPage: React.FC = () => {
     setNotificationTiming(timing);
   };
   
+  const handleEmailDigestFrequencyChange = (frequency: EmailDigestFrequency) => {
+    setEmailDigestFrequency(frequency);
+  };
+  
   const handleAuthSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setAuthError(null);
@@ -271,6 +299,16 @@ const SettingsPage: React.FC = () => {
           )}
         </section>
         
+        {user && (
+          <section className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-sm">
+            <h3 className="text-lg font-medium text-slate-800 dark:text-slate-100 mb-1">Household</h3>
+            <p className="text-slate-600 dark:text-slate-300 mb-4 text-sm">
+              Everyone in your household shares the same freezer and shopping list.
+            </p>
+            <HouseholdSettings currentUserId={user.id} />
+          </section>
+        )}
+        
         <section className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-sm">
           <h3 className="text-lg font-medium text-slate-800 dark:text-slate-100 mb-4">Appearance</h3>
           <div className="inline-flex bg-slate-100 dark:bg-slate-700 p-1 rounded-lg">
@@ -350,9 +388,53 @@ const SettingsPage: React.FC = () => {
               <option value={30}>30 days before</option>
             </select>
             <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
-              {settings.notifications 
-                ? "You'll be notified when items are about to expire." 
-                : "Enable notifications to get alerts about expiring items."}
+              {!settings.notifications
+                ? "Enable notifications to get alerts about expiring items."
+                : !user
+                  ? "Sign in to get expiration alerts on this device."
+                  : isPushSupported()
+                    ? "You'll be notified when items are about to expire, and when to take planned meals out to thaw."
+                    : "This browser doesn't support push notifications."}
+            </p>
+          </div>
+          
+          <div className="flex items-center justify-between mt-6 mb-4">
+            <span className="text-slate-700 dark:text-slate-300">Email Digest</span>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.emailDigest}
+                onChange={() => setEmailDigest(!settings.emailDigest)}
+                className="sr-only peer"
+                aria-label="Enable email digest of expiring items"
+              />
+              <div className="w-11 h-6 bg-slate-200 dark:bg-slate-700 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+            </label>
+          </div>
+          
+          <div className="mt-2">
+            <label htmlFor="email-digest-frequency" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+              Digest Frequency
+            </label>
+            <select
+              id="email-digest-frequency"
+              value={settings.emailDigestFrequency}
+              onChange={(e) => handleEmailDigestFrequencyChange(e.target.value as EmailDigestFrequency)}
+              className={`w-full px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-slate-700 dark:text-slate-100 ${
+                !settings.emailDigest ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+              disabled={!settings.emailDigest}
+              aria-label="Select how often to receive the email digest"
+            >
+              <option value="daily">Daily</option>
+              <option value="weekly">Weekly</option>
+            </select>
+            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+              {!settings.emailDigest
+                ? "Get a summary of expiring and expired items by email."
+                : user
+                  ? `We'll email ${user.email} a ${settings.emailDigestFrequency} summary of expiring and expired items.`
+                  : "Sign in to receive the email digest."}
             </p>
           </div>
         </section>
@@ -405,6 +487,14 @@ const SettingsPage: React.FC = () => {
             </label>
           </div>
         </section>
+        
+        <section className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-sm">
+          <h3 className="text-lg font-medium text-slate-800 dark:text-slate-100 mb-1">Backup &amp; Restore</h3>
+          <p className="text-slate-600 dark:text-slate-300 mb-4 text-sm">
+            Download a copy of your data or bring it in from another device or account.
+          </p>
+          <BackupSettings />
+        </section>
       </div>
     </div>
   );
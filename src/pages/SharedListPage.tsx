@@ -0,0 +1,145 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams } from 'react-router-dom';
+import { Snowflake, ShoppingCart, Link2Off } from 'lucide-react';
+import { SharedShoppingItem, SharedShoppingList } from '../types';
+import { fetchSharedList, setSharedItemCompleted } from '../api/supabase';
+import { getAisleOrder, groupByAisle } from '../utils/aisleUtils';
+import { formatDate } from '../utils/freezerUtils';
+import { logger } from "@/lib/logger";
+
+/**
+ * The list behind a shared link. It's opened by people without an account, so it
+ * sits outside the app's providers and only talks to the shared-list edge function
+ */
+const SharedListPage: React.FC = () => {
+  const { token = '' } = useParams();
+  const [list, setList] = useState<SharedShoppingList | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updateError, setUpdateError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchSharedList(token)
+      .then(data => {
+        if (!cancelled) setList(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the shared list');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const setItem = (itemId: string, completed: boolean) => {
+    setList(current => current && {
+      ...current,
+      items: current.items.map(item => item.id === itemId ? { ...item, completed } : item)
+    });
+  };
+
+  // Tick straight away and put it back if the server says no
+  const handleToggle = async (item: SharedShoppingItem) => {
+    const completed = !item.completed;
+    setItem(item.id, completed);
+    setUpdateError(null);
+
+    try {
+      await setSharedItemCompleted(token, item.id, completed);
+    } catch (err) {
+      logger.error('Error updating shared list item:', err);
+      setItem(item.id, item.completed);
+      setUpdateError(err instanceof Error ? err.message : 'Failed to update the item');
+    }
+  };
+
+  const groups = useMemo(() => {
+    if (!list) return [];
+    const categories = [...new Set(list.items.map(item => item.category))];
+    return groupByAisle(list.items, getAisleOrder(undefined, categories));
+  }, [list]);
+
+  const remaining = list ? list.items.filter(item => !item.completed).length : 0;
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900">
+      <main id="main-content" className="max-w-xl mx-auto p-4 md:p-6">
+        <header role="banner" className="flex items-center gap-2 mb-6">
+          <Snowflake className="text-blue-500" size={28} aria-hidden="true" />
+          <h1 className="text-2xl font-bold text-slate-800 dark:text-white">Frostie</h1>
+        </header>
+
+        {loading ? (
+          <p className="text-slate-500 dark:text-slate-400">Loading list…</p>
+        ) : error || !list ? (
+          <div className="text-center py-12" role="alert">
+            <Link2Off size={40} className="mx-auto mb-3 text-slate-400 dark:text-slate-500" aria-hidden="true" />
+            <p className="text-slate-700 dark:text-slate-200">{error || 'This link has expired or been turned off'}</p>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Ask whoever sent it for a new one.</p>
+          </div>
+        ) : (
+          <section>
+            <div className="flex justify-between items-baseline mb-1">
+              <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-100">{list.name}</h2>
+              <span className="text-sm text-slate-500 dark:text-slate-400">{remaining} to get</span>
+            </div>
+            {list.expiresAt && (
+              <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+                This link works until {formatDate(new Date(list.expiresAt))}
+              </p>
+            )}
+
+            {updateError && (
+              <p className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/30 text-sm text-red-800 dark:text-red-200" role="alert">
+                {updateError}
+              </p>
+            )}
+
+            {list.items.length === 0 ? (
+              <div className="text-center py-12 text-slate-500 dark:text-slate-400">
+                <ShoppingCart size={40} className="mx-auto mb-3" aria-hidden="true" />
+                <p>Nothing left to buy.</p>
+              </div>
+            ) : (
+              <div className="space-y-4 mt-4">
+                {groups.map(group => (
+                  <section key={group.category} aria-label={group.category}>
+                    <h3 className="text-sm font-medium text-slate-500 dark:text-slate-400 mb-1">{group.category}</h3>
+                    <ul className="bg-white dark:bg-slate-800 rounded-lg border border-slate-100 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-700">
+                      {group.items.map(item => (
+                        <li key={item.id}>
+                          <label className="flex items-center gap-3 px-4 py-3 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={item.completed}
+                              onChange={() => handleToggle(item)}
+                              className="h-5 w-5 text-blue-600 focus:ring-blue-500 border-slate-300 dark:border-slate-600 rounded"
+                            />
+                            <span className={`flex-1 ${item.completed ? 'line-through text-slate-400 dark:text-slate-500' : 'text-slate-800 dark:text-slate-100'}`}>
+                              {item.name}
+                            </span>
+                            {item.quantity && item.quantity !== '1' && (
+                              <span className="text-sm text-slate-500 dark:text-slate-400">{item.quantity}</span>
+                            )}
+                          </label>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedListPage;
@@ -1,21 +1,48 @@
-import React, { useState, useMemo, useCallback } from 'react';
-import { ShoppingCart, PlusCircle } from 'lucide-react';
+import React, { useState, useMemo, useCallback, useContext } from 'react';
+import { ShoppingCart, PlusCircle, ListChecks, Repeat, Snowflake, Store, ArrowUpDown } from 'lucide-react';
 import ShoppingItemComponent from '../components/ShoppingItem';
 import EmptyState from '../components/EmptyState';
 import EditShoppingItemModal from '../components/EditShoppingItemModal';
 import LoadingTransition from '../components/LoadingTransition';
-import { ShoppingItem } from '../types';
+import StaplesList from '../components/StaplesList';
+import AisleOrderEditor from '../components/AisleOrderEditor';
+import ShoppingListSwitcher from '../components/ShoppingListSwitcher';
+import TransferItemsModal from '../components/TransferItemsModal';
+import ShareListModal from '../components/ShareListModal';
+import { ShoppingItem, ShoppingRecurrence } from '../types';
 import { getCategories } from '../data/categories';
 import { useStorage } from '../store/StorageContext';
+import { useStoreLayouts } from '../hooks/useStoreLayouts';
+import { AuthContext } from '../contexts/AuthContext';
+import { useHousehold } from '../contexts/HouseholdContext';
+import { toBoughtFreezerItem, copyToList, MAIN_LIST_NAME } from '../utils/shoppingUtils';
+import { findStoreLayout, getAisleOrder, groupByAisle, isForStore } from '../utils/aisleUtils';
+import { getLastUsedStore, setLastUsedStore, getLastUsedList, setLastUsedList } from '../utils/storage';
 import { v4 as uuidv4 } from 'uuid';
 import { toast } from 'react-hot-toast';
 
 const ShoppingPage: React.FC = () => {
-  const { shoppingItems } = useStorage();
+  const { shoppingItems, shoppingLists, freezerItems } = useStorage();
+  const [view, setView] = useState<'list' | 'staples'>('list');
   const [newItem, setNewItem] = useState('');
   const [showCompleted, setShowCompleted] = useState(true);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [currentEditItem, setCurrentEditItem] = useState<ShoppingItem | null>(null);
+  const [movingIds, setMovingIds] = useState<string[]>([]);
+  const [store, setStore] = useState(getLastUsedStore);
+  const [isAddingStore, setIsAddingStore] = useState(false);
+  const [newStore, setNewStore] = useState('');
+  const [isArranging, setIsArranging] = useState(false);
+  const [listId, setListId] = useState(getLastUsedList);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const storeLayouts = useStoreLayouts();
+  const { user } = useContext(AuthContext);
+  const { household, canEdit } = useHousehold();
+  // Shared links read the household's list on the server, so guests can't make them
+  const shareHouseholdId = user && household && canEdit ? household.id : null;
+  // Viewers of a household can read the list but not change it
+  const canEditItems = !household || canEdit;
   
   // Get predefined categories
   const predefinedCategories = getCategories();
@@ -32,6 +59,19 @@ const ShoppingPage: React.FC = () => {
     [predefinedCategories, usedCategories]
   );
   
+  // The open list; one that was deleted elsewhere falls back to the main list
+  const currentList = listId ? shoppingLists.lists.find(list => list.id === listId) : undefined;
+  const activeListId = currentList ? currentList.id : null;
+  
+  // The store being shopped at; '' shows everything in the default aisle order
+  const currentLayout = store ? findStoreLayout(storeLayouts.layouts, store) : undefined;
+  const activeStore = currentLayout ? currentLayout.name : '';
+  
+  const aisleOrder = useMemo(() => 
+    getAisleOrder(currentLayout, categories),
+    [currentLayout, categories]
+  );
+  
   // Handle form submission - wrapped in useCallback
   const handleSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
@@ -42,17 +82,18 @@ const ShoppingPage: React.FC = () => {
           name: newItem.trim(),
           completed: false,
           category: guessCategory(newItem.trim()),
+          listId: activeListId
         };
         
         await shoppingItems.addItem(item);
-        toast.success(`Added ${newItem} to shopping list`);
+        toast.success(`Added ${newItem} to ${currentList ? currentList.name : 'shopping list'}`);
         setNewItem('');
       } catch (error) {
         console.error('Error adding shopping item:', error);
         toast.error('Failed to add item to shopping list');
       }
     }
-  }, [newItem, shoppingItems]);
+  }, [newItem, shoppingItems, activeListId, currentList]);
   
   // Handle toggle item complete/incomplete - wrapped in useCallback
   const handleToggleItem = useCallback(async (id: string) => {
@@ -60,13 +101,18 @@ const ShoppingPage: React.FC = () => {
     if (!item) return;
     
     try {
-      const updatedItem = { ...item, completed: !item.completed };
+      // Ticking an item off while shopping at a store remembers the store for next time
+      const updatedItem = {
+        ...item,
+        completed: !item.completed,
+        store: !item.completed && activeStore ? activeStore : item.store
+      };
       await shoppingItems.updateItem(updatedItem);
     } catch (error) {
       console.error('Error toggling shopping item:', error);
       toast.error('Failed to update item');
     }
-  }, [shoppingItems]);
+  }, [shoppingItems, activeStore]);
   
   // Handle edit item - wrapped in useCallback
   const handleEditItem = useCallback((item: ShoppingItem) => {
@@ -102,6 +148,185 @@ const ShoppingPage: React.FC = () => {
     }
   }, [shoppingItems]);
   
+  // Add a staple, on the list straight away - wrapped in useCallback
+  const handleAddStaple = useCallback(async (name: string, recurrence: ShoppingRecurrence) => {
+    try {
+      await shoppingItems.addItem({
+        id: uuidv4(),
+        name,
+        completed: false,
+        category: guessCategory(name),
+        recurrence,
+        listId: activeListId
+      });
+      toast.success(`Added ${name} to your staples`);
+    } catch (error) {
+      console.error('Error adding staple:', error);
+      toast.error('Failed to add staple');
+    }
+  }, [shoppingItems, activeListId]);
+  
+  // Turn a staple back into a one-off item - wrapped in useCallback
+  const handleStopRepeating = useCallback(async (item: ShoppingItem) => {
+    try {
+      await shoppingItems.updateItem({ ...item, recurrence: null });
+      toast.success(`${item.name} won't come back on its own`);
+    } catch (error) {
+      console.error('Error updating staple:', error);
+      toast.error('Failed to update staple');
+    }
+  }, [shoppingItems]);
+  
+  // Open another list - wrapped in useCallback
+  const handleSelectList = useCallback((id: string | null) => {
+    setListId(id);
+    setLastUsedList(id);
+  }, []);
+  
+  // Create a list and open it - wrapped in useCallback
+  const handleCreateList = useCallback(async (name: string) => {
+    try {
+      const list = await shoppingLists.addList(name);
+      handleSelectList(list.id);
+      toast.success(`Created ${list.name}`);
+    } catch (error) {
+      console.error('Error creating shopping list:', error);
+      toast.error('Failed to create list');
+    }
+  }, [shoppingLists, handleSelectList]);
+  
+  // Rename a list - wrapped in useCallback
+  const handleRenameList = useCallback(async (id: string, name: string) => {
+    try {
+      await shoppingLists.renameList(id, name);
+      toast.success(`Renamed list to ${name}`);
+    } catch (error) {
+      console.error('Error renaming shopping list:', error);
+      toast.error('Failed to rename list');
+    }
+  }, [shoppingLists]);
+  
+  // Delete a list with everything on it and go back to the main list - wrapped in useCallback
+  const handleDeleteList = useCallback(async (id: string) => {
+    const list = shoppingLists.lists.find(other => other.id === id);
+    try {
+      await shoppingLists.deleteList(id);
+      handleSelectList(null);
+      toast.success(`Deleted ${list ? list.name : 'list'}`);
+    } catch (error) {
+      console.error('Error deleting shopping list:', error);
+      toast.error('Failed to delete list');
+    }
+  }, [shoppingLists, handleSelectList]);
+  
+  // Move items to another list, or copy them there - wrapped in useCallback
+  const handleTransferItems = useCallback(async (items: ShoppingItem[], toListId: string | null, mode: 'move' | 'copy') => {
+    const target = toListId ? shoppingLists.lists.find(list => list.id === toListId)?.name : MAIN_LIST_NAME;
+    try {
+      for (const item of items) {
+        if (mode === 'move') {
+          await shoppingItems.updateItem({ ...item, listId: toListId });
+        } else {
+          await shoppingItems.addItem(copyToList(item, toListId));
+        }
+      }
+      toast.success(`${mode === 'move' ? 'Moved' : 'Copied'} ${items.length} item${items.length === 1 ? '' : 's'} to ${target}`);
+      setIsTransferOpen(false);
+    } catch (error) {
+      console.error('Error transferring shopping items:', error);
+      toast.error(`Failed to ${mode} items`);
+    }
+  }, [shoppingItems, shoppingLists.lists]);
+  
+  // Switch the list to another store - wrapped in useCallback
+  const handleSelectStore = useCallback((value: string) => {
+    if (value === '__add') {
+      setIsAddingStore(true);
+      return;
+    }
+    setStore(value);
+    setLastUsedStore(value);
+    setIsArranging(false);
+  }, []);
+  
+  // Add a store, starting from the default aisle order - wrapped in useCallback
+  const handleAddStore = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newStore.trim();
+    if (!name) return;
+    
+    try {
+      const layout = await storeLayouts.saveLayout({ name, categoryOrder: getAisleOrder(undefined, categories) });
+      handleSelectStore(layout.name);
+      setIsAddingStore(false);
+      setNewStore('');
+      toast.success(`Added ${layout.name}`);
+    } catch (error) {
+      console.error('Error adding store:', error);
+      toast.error('Failed to add store');
+    }
+  }, [newStore, storeLayouts, categories, handleSelectStore]);
+  
+  // Save a new aisle order for the current store - wrapped in useCallback
+  const handleChangeAisleOrder = useCallback(async (categoryOrder: string[]) => {
+    if (!currentLayout) return;
+    
+    try {
+      await storeLayouts.saveLayout({ name: currentLayout.name, categoryOrder });
+    } catch (error) {
+      console.error('Error saving aisle order:', error);
+      toast.error('Failed to save aisle order');
+    }
+  }, [currentLayout, storeLayouts]);
+  
+  // Delete the current store; its items stay on the list for any store - wrapped in useCallback
+  const handleDeleteStore = useCallback(async () => {
+    if (!currentLayout) return;
+    
+    try {
+      await storeLayouts.deleteLayout(currentLayout.id);
+      handleSelectStore('');
+      toast.success(`Deleted ${currentLayout.name}`);
+    } catch (error) {
+      console.error('Error deleting store:', error);
+      toast.error('Failed to delete store');
+    }
+  }, [currentLayout, storeLayouts, handleSelectStore]);
+  
+  // Put bought items in the freezer and take them off the list - wrapped in useCallback.
+  // Staples stay on the list, ticked, until they're due again
+  const handleMoveToFreezer = useCallback(async (items: ShoppingItem[]) => {
+    setMovingIds(ids => [...ids, ...items.map(item => item.id)]);
+    let moved = 0;
+
+    for (const item of items) {
+      try {
+        const freezerItem = await toBoughtFreezerItem(item);
+        await freezerItems.addItem(freezerItem);
+        if (item.recurrence) {
+          if (!item.completed) await shoppingItems.updateItem({ ...item, completed: true });
+        } else {
+          await shoppingItems.deleteItem(item.id);
+        }
+        moved++;
+      } catch (error) {
+        console.error('Error moving shopping item to freezer:', error);
+      }
+    }
+
+    setMovingIds(ids => ids.filter(id => !items.some(item => item.id === id)));
+    if (moved > 0) {
+      toast.success(items.length === 1
+        ? `Added ${items[0].name} to your freezer`
+        : `Added ${moved} item${moved === 1 ? '' : 's'} to your freezer`);
+    }
+    if (moved < items.length) {
+      toast.error(`Failed to add ${items.length - moved} item${items.length - moved === 1 ? '' : 's'} to the freezer`);
+    }
+  }, [freezerItems, shoppingItems]);
+  
+  const handleMoveItemToFreezer = useCallback((item: ShoppingItem) => handleMoveToFreezer([item]), [handleMoveToFreezer]);
+  
   // Guess category based on item name - wrapped in useCallback
   const guessCategory = useCallback((itemName: string): string => {
     const lowerCaseName = itemName.toLowerCase();
@@ -136,92 +361,270 @@ const ShoppingPage: React.FC = () => {
     return 'Other';
   }, []);
   
+  // Items on the open list - memoize to prevent recalculation
+  const listItems = useMemo(() => 
+    shoppingItems.items.filter(item => (item.listId || null) === activeListId),
+    [shoppingItems.items, activeListId]
+  );
+  
+  // Items to get at the current store - memoize to prevent recalculation
+  const storeItems = useMemo(() => 
+    listItems.filter(item => isForStore(item, activeStore)),
+    [listItems, activeStore]
+  );
+  
   // Filter items based on the completed status filter - memoize to prevent recalculation
   const filteredItems = useMemo(() => 
     showCompleted 
-      ? shoppingItems.items 
-      : shoppingItems.items.filter(item => !item.completed),
-    [shoppingItems.items, showCompleted]
+      ? storeItems 
+      : storeItems.filter(item => !item.completed),
+    [storeItems, showCompleted]
+  );
+  
+  // Group by store section in aisle order - memoize to prevent recalculation
+  const aisleGroups = useMemo(() => 
+    groupByAisle(filteredItems, aisleOrder),
+    [filteredItems, aisleOrder]
   );
   
   // Calculate counts - memoize to prevent recalculation
   const incompleteCount = useMemo(() => 
-    shoppingItems.items.filter(item => !item.completed).length,
-    [shoppingItems.items]
+    storeItems.filter(item => !item.completed).length,
+    [storeItems]
   );
   
   const completedCount = useMemo(() => 
-    shoppingItems.items.filter(item => item.completed).length,
-    [shoppingItems.items]
+    storeItems.filter(item => item.completed).length,
+    [storeItems]
   );
+  
+  // Ticked staples are left out, as they stay ticked after moving and would be added twice
+  const boughtItems = useMemo(() => 
+    storeItems.filter(item => item.completed && !item.recurrence),
+    [storeItems]
+  );
+  
+  const staples = useMemo(() => 
+    listItems
+      .filter(item => item.recurrence)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [listItems]
+  );
+  
+  const viewButtonClassName = (active: boolean) => `flex items-center gap-2 px-3 py-1.5 text-sm rounded-md transition-colors ${
+    active
+      ? 'bg-white dark:bg-slate-600 text-blue-600 dark:text-blue-400 shadow-sm'
+      : 'text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600/80'
+  }`;
 
   return (
     <div className="pb-16 md:pb-4"> {/* Padding to accommodate mobile nav */}
       <section className="mb-6">
-        <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-100 mb-3">Shopping List</h2>
+        <div className="flex justify-between items-center mb-3">
+          <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-100">{currentList ? currentList.name : MAIN_LIST_NAME}</h2>
+          <div className="inline-flex bg-slate-100 dark:bg-slate-700 p-1 rounded-lg">
+            <button
+              onClick={() => setView('list')}
+              className={viewButtonClassName(view === 'list')}
+              aria-pressed={view === 'list'}
+            >
+              <ListChecks size={16} aria-hidden="true" />
+              <span>List</span>
+            </button>
+            <button
+              onClick={() => setView('staples')}
+              className={viewButtonClassName(view === 'staples')}
+              aria-pressed={view === 'staples'}
+            >
+              <Repeat size={16} aria-hidden="true" />
+              <span>Staples</span>
+            </button>
+          </div>
+        </div>
+        
+        <ShoppingListSwitcher
+          lists={shoppingLists.lists}
+          activeListId={activeListId}
+          itemCount={listItems.length}
+          canEdit={shoppingLists.canEdit}
+          onSelect={handleSelectList}
+          onCreate={handleCreateList}
+          onRename={handleRenameList}
+          onDelete={handleDeleteList}
+          onTransfer={() => setIsTransferOpen(true)}
+          onShare={shareHouseholdId ? () => setIsShareOpen(true) : undefined}
+        />
         
-        <form onSubmit={handleSubmit} className="flex gap-2 mb-4">
-          <input
-            type="text"
-            value={newItem}
-            onChange={e => setNewItem(e.target.value)}
-            placeholder="Add item to shopping list..."
-            className="flex-1 px-4 py-2 border border-slate-200 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-          />
-          <button
-            type="submit"
-            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            <PlusCircle size={20} />
-          </button>
-        </form>
+        {view === 'staples' ? (
+          <LoadingTransition loading={shoppingItems.loading}>
+            <StaplesList
+              staples={staples}
+              freezerItems={freezerItems.items}
+              onAdd={handleAddStaple}
+              onEdit={handleEditItem}
+              onStopRepeating={handleStopRepeating}
+              canEdit={canEditItems}
+            />
+          </LoadingTransition>
+        ) : canEditItems && (
+          <form onSubmit={handleSubmit} className="flex gap-2 mb-4">
+            <input
+              type="text"
+              value={newItem}
+              onChange={e => setNewItem(e.target.value)}
+              placeholder="Add item to shopping list..."
+              className="flex-1 px-4 py-2 border border-slate-200 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <PlusCircle size={20} />
+            </button>
+          </form>
+        )}
       </section>
 
-      <section>
-        <div className="flex justify-between items-center mb-4">
-          <div className="text-sm dark:text-slate-300">
-            <span className="font-medium">{incompleteCount}</span> items remaining
-            {completedCount > 0 && (
-              <span className="ml-2 text-slate-500 dark:text-slate-400">({completedCount} completed)</span>
+      {view === 'list' && (
+        <section>
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <Store size={18} className="text-slate-500 dark:text-slate-400" aria-hidden="true" />
+            {isAddingStore ? (
+              <form onSubmit={handleAddStore} className="flex flex-1 gap-2">
+                <input
+                  type="text"
+                  value={newStore}
+                  onChange={e => setNewStore(e.target.value)}
+                  placeholder="Store name"
+                  aria-label="Store name"
+                  autoFocus
+                  className="flex-1 px-3 py-1.5 text-sm border border-slate-200 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  type="submit"
+                  disabled={!newStore.trim()}
+                  className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  Add
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsAddingStore(false);
+                    setNewStore('');
+                  }}
+                  className="px-3 py-1.5 text-sm text-slate-600 dark:text-slate-300 hover:text-slate-800 dark:hover:text-slate-100"
+                >
+                  Cancel
+                </button>
+              </form>
+            ) : (
+              <>
+                <select
+                  value={activeStore}
+                  onChange={e => handleSelectStore(e.target.value)}
+                  aria-label="Shopping at"
+                  className="px-3 py-1.5 text-sm border border-slate-200 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Any store</option>
+                  {storeLayouts.layouts.map(layout => (
+                    <option key={layout.id} value={layout.name}>{layout.name}</option>
+                  ))}
+                  {storeLayouts.canEdit && <option value="__add">Add a store…</option>}
+                </select>
+                {currentLayout && storeLayouts.canEdit && (
+                  <button
+                    onClick={() => setIsArranging(!isArranging)}
+                    className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+                    aria-expanded={isArranging}
+                  >
+                    <ArrowUpDown size={16} aria-hidden="true" />
+                    {isArranging ? 'Done arranging' : 'Arrange aisles'}
+                  </button>
+                )}
+              </>
             )}
           </div>
           
-          <label className="flex items-center text-sm cursor-pointer text-slate-700 dark:text-slate-300">
-            <input
-              type="checkbox"
-              checked={showCompleted}
-              onChange={() => setShowCompleted(!showCompleted)}
-              className="h-4 w-4 rounded border-slate-300 dark:border-slate-600 text-blue-600 focus:ring-blue-500 mr-2 dark:bg-slate-700"
+          {isArranging && currentLayout && (
+            <AisleOrderEditor
+              storeName={currentLayout.name}
+              order={aisleOrder}
+              onChange={handleChangeAisleOrder}
+              onDeleteStore={handleDeleteStore}
             />
-            Show completed
-          </label>
-        </div>
-        
-        <LoadingTransition loading={shoppingItems.loading}>
-          {filteredItems.length > 0 ? (
-            <div className="bg-white dark:bg-slate-800 rounded-lg overflow-hidden border border-slate-100 dark:border-slate-700">
-              {filteredItems.map(item => (
-                <ShoppingItemComponent
-                  key={item.id}
-                  item={item}
-                  onToggle={handleToggleItem}
-                  onRemove={handleRemoveItem}
-                  onEdit={handleEditItem}
+          )}
+          
+          <div className="flex justify-between items-center mb-4">
+            <div className="text-sm dark:text-slate-300">
+              <span className="font-medium">{incompleteCount}</span> items remaining
+              {completedCount > 0 && (
+                <span className="ml-2 text-slate-500 dark:text-slate-400">({completedCount} completed)</span>
+              )}
+            </div>
+          
+            <div className="flex items-center gap-4">
+              {canEditItems && boughtItems.length > 0 && (
+                <button
+                  onClick={() => handleMoveToFreezer(boughtItems)}
+                  disabled={movingIds.length > 0}
+                  className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 disabled:opacity-50"
+                >
+                  <Snowflake size={16} aria-hidden="true" />
+                  Add {boughtItems.length} bought to freezer
+                </button>
+              )}
+              <label className="flex items-center text-sm cursor-pointer text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={showCompleted}
+                  onChange={() => setShowCompleted(!showCompleted)}
+                  className="h-4 w-4 rounded border-slate-300 dark:border-slate-600 text-blue-600 focus:ring-blue-500 mr-2 dark:bg-slate-700"
                 />
-              ))}
+                Show completed
+              </label>
             </div>
-          ) : (
-            <EmptyState
-              title="Your shopping list is empty"
-              description={showCompleted
-                ? "Add items using the input above"
-                : "You have no incomplete items, toggle 'Show completed' to see completed items"
-              }
-              icon={<ShoppingCart size={32} />}
-            />
-          )}
-        </LoadingTransition>
-      </section>
+          </div>
+        
+          <LoadingTransition loading={shoppingItems.loading}>
+            {filteredItems.length > 0 ? (
+              <div className="space-y-4">
+                {aisleGroups.map(group => (
+                  <div key={group.category}>
+                    <h3 className="text-sm font-medium text-slate-500 dark:text-slate-400 mb-1">{group.category}</h3>
+                    <div
+                      className="bg-white dark:bg-slate-800 rounded-lg overflow-hidden border border-slate-100 dark:border-slate-700"
+                      role="list"
+                      aria-label={group.category}
+                    >
+                      {group.items.map(item => (
+                        <ShoppingItemComponent
+                          key={item.id}
+                          item={item}
+                          onToggle={canEditItems ? handleToggleItem : undefined}
+                          onRemove={canEditItems ? handleRemoveItem : undefined}
+                          onEdit={canEditItems ? handleEditItem : undefined}
+                          onMoveToFreezer={canEditItems ? handleMoveItemToFreezer : undefined}
+                          moving={movingIds.includes(item.id)}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <EmptyState
+                title="Your shopping list is empty"
+                description={showCompleted
+                  ? "Add items using the input above"
+                  : "You have no incomplete items, toggle 'Show completed' to see completed items"
+                }
+                icon={<ShoppingCart size={32} />}
+              />
+            )}
+          </LoadingTransition>
+        </section>
+      )}
       
       {currentEditItem && (
         <EditShoppingItemModal 
@@ -230,6 +633,27 @@ const ShoppingPage: React.FC = () => {
           onClose={() => setIsEditModalOpen(false)}
           onSave={handleSaveEditedItem}
           categories={categories}
+          stores={storeLayouts.layouts.map(layout => layout.name)}
+          lists={shoppingLists.lists}
+        />
+      )}
+      
+      <TransferItemsModal
+        items={listItems}
+        lists={shoppingLists.lists}
+        fromListId={activeListId}
+        isOpen={isTransferOpen}
+        onClose={() => setIsTransferOpen(false)}
+        onConfirm={handleTransferItems}
+      />
+      
+      {shareHouseholdId && (
+        <ShareListModal
+          householdId={shareHouseholdId}
+          listId={activeListId}
+          listName={currentList ? currentList.name : MAIN_LIST_NAME}
+          isOpen={isShareOpen}
+          onClose={() => setIsShareOpen(false)}
         />
       )}
     </div>
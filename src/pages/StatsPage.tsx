@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart3, Utensils, Trash2, Percent, Clock } from 'lucide-react';
+import SummaryCard from '../components/SummaryCard';
+import EmptyState from '../components/EmptyState';
+import LoadingTransition from '../components/LoadingTransition';
+import { ItemOutcome } from '../types';
+import { useStorage } from '../store/StorageContext';
+import {
+  OutcomeTotals,
+  getEventsInLastMonths,
+  getOutcomeTotals,
+  getOutcomeTotal,
+  getMonthlyOutcomes,
+  getCategoryOutcomes,
+  getAverageDaysInFreezer,
+  getWastePercentage
+} from '../utils/statsUtils';
+
+const outcomeStyles: Record<ItemOutcome, { label: string; className: string }> = {
+  consumed: { label: 'Consumed', className: 'bg-green-500 dark:bg-green-400' },
+  discarded: { label: 'Discarded', className: 'bg-orange-400 dark:bg-orange-400' },
+  expired: { label: 'Expired', className: 'bg-red-500 dark:bg-red-400' }
+};
+
+const outcomes: ItemOutcome[] = ['consumed', 'discarded', 'expired'];
+
+interface OutcomeBarProps {
+  label: string;
+  totals: OutcomeTotals;
+  max: number;
+}
+
+// Horizontal stacked bar scaled against the largest row in the chart
+const OutcomeBar: React.FC<OutcomeBarProps> = ({ label, totals, max }) => {
+  const total = getOutcomeTotal(totals);
+  const description = outcomes.map(o => `${totals[o]} ${outcomeStyles[o].label.toLowerCase()}`).join(', ');
+
+  return (
+    <li className="flex items-center gap-3">
+      <span className="w-28 sm:w-40 flex-shrink-0 text-sm text-slate-600 dark:text-slate-300 truncate">{label}</span>
+      <div
+        className="flex-1 h-4 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden flex"
+        role="img"
+        aria-label={`${label}: ${description}`}
+      >
+        {max > 0 && outcomes.map(outcome => totals[outcome] > 0 && (
+          <div
+            key={outcome}
+            className={outcomeStyles[outcome].className}
+            style={{ width: `${(totals[outcome] / max) * 100}%` }}
+          />
+        ))}
+      </div>
+      <span className="w-10 text-right text-sm text-slate-500 dark:text-slate-400">{total}</span>
+    </li>
+  );
+};
+
+const StatsPage: React.FC = () => {
+  const { consumptionEvents } = useStorage();
+  const [months, setMonths] = useState(6);
+
+  const periodEvents = useMemo(
+    () => getEventsInLastMonths(consumptionEvents.items, months),
+    [consumptionEvents.items, months]
+  );
+
+  const totals = useMemo(() => getOutcomeTotals(periodEvents), [periodEvents]);
+  const monthly = useMemo(() => getMonthlyOutcomes(periodEvents, months), [periodEvents, months]);
+  const byCategory = useMemo(
+    () => getCategoryOutcomes(periodEvents).filter(entry => getOutcomeTotal(entry) > 0),
+    [periodEvents]
+  );
+  const averageDays = useMemo(() => getAverageDaysInFreezer(periodEvents), [periodEvents]);
+
+  const monthlyMax = Math.max(0, ...monthly.map(getOutcomeTotal));
+  const categoryMax = Math.max(0, ...byCategory.map(getOutcomeTotal));
+
+  return (
+    <div className="pb-16 md:pb-4"> {/* Padding to accommodate mobile nav */}
+      <section className="mb-6 flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-100">Waste &amp; Usage</h2>
+        <select
+          value={months}
+          onChange={e => setMonths(Number(e.target.value))}
+          className="px-4 pr-8 py-2 border border-slate-200 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none"
+          aria-label="Time period"
+        >
+          <option value={3}>Last 3 months</option>
+          <option value={6}>Last 6 months</option>
+          <option value={12}>Last 12 months</option>
+        </select>
+      </section>
+
+      <LoadingTransition loading={consumptionEvents.loading}>
+        {periodEvents.length === 0 ? (
+          <EmptyState
+            title="No history yet"
+            description="Use or remove items in your freezer and your stats will show up here."
+            icon={<BarChart3 size={32} />}
+          />
+        ) : (
+          <>
+            <section className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+              <SummaryCard
+                title="Consumed"
+                value={totals.consumed}
+                description="Items used in meals"
+                icon={<Utensils size={20} />}
+                color="green"
+              />
+              <SummaryCard
+                title="Thrown away"
+                value={totals.discarded + totals.expired}
+                description={`${totals.expired} expired, ${totals.discarded} discarded`}
+                icon={<Trash2 size={20} />}
+                color="red"
+              />
+              <SummaryCard
+                title="Waste rate"
+                value={`${getWastePercentage(totals)}%`}
+                description="Share of items thrown away"
+                icon={<Percent size={20} />}
+                color="yellow"
+              />
+              <SummaryCard
+                title="Time in freezer"
+                value={averageDays === null ? '–' : `${averageDays} day${averageDays === 1 ? '' : 's'}`}
+                description="Average before use"
+                icon={<Clock size={20} />}
+              />
+            </section>
+
+            <div className="flex flex-wrap gap-4 mb-4 text-sm text-slate-600 dark:text-slate-300" aria-hidden="true">
+              {outcomes.map(outcome => (
+                <span key={outcome} className="flex items-center gap-2">
+                  <span className={`inline-block w-3 h-3 rounded-full ${outcomeStyles[outcome].className}`} />
+                  {outcomeStyles[outcome].label}
+                </span>
+              ))}
+            </div>
+
+            <section className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-sm mb-6">
+              <h3 className="text-lg font-medium text-slate-800 dark:text-slate-100 mb-4">By month</h3>
+              <ul className="space-y-3" role="list">
+                {monthly.map(entry => (
+                  <OutcomeBar key={entry.month} label={entry.label} totals={entry} max={monthlyMax} />
+                ))}
+              </ul>
+            </section>
+
+            <section className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-sm">
+              <h3 className="text-lg font-medium text-slate-800 dark:text-slate-100 mb-4">By category</h3>
+              <ul className="space-y-3" role="list">
+                {byCategory.map(entry => (
+                  <OutcomeBar key={entry.category} label={entry.category} totals={entry} max={categoryMax} />
+                ))}
+              </ul>
+            </section>
+          </>
+        )}
+      </LoadingTransition>
+    </div>
+  );
+};
+
+export default StatsPage;
@@ -1,24 +1,48 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode, useMemo, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, ReactNode, useMemo, useCallback, useRef } from 'react';
 import {
-  FreezerItemsStorage,
   FreezerItemsLocalStorage,
   FreezerItemsSupabase,
-  ShoppingItemsStorage,
+  ConsumptionEventsLocalStorage,
+  ConsumptionEventsSupabase,
   ShoppingItemsLocalStorage,
   ShoppingItemsSupabase,
-  MealIdeasStorage,
   MealIdeasLocalStorage,
   MealIdeasSupabase,
-  SettingsStorage,
   SettingsLocalStorage,
   SettingsSupabase
 } from './storage';
-import { FreezerItem, ShoppingItem, MealIdea, UserSettings } from '../types';
+import {
+  FreezerItemsSyncedStorage,
+  ConsumptionEventsSyncedStorage,
+  ShoppingItemsSyncedStorage,
+  MealIdeasSyncedStorage,
+  SettingsSyncedStorage
+} from './sync';
+import { countQueuedMutations, claimGuestMutations, SyncCollection } from './mutationQueue';
+import { FreezerItem, ConsumptionEvent, ItemOutcome, ShoppingItem, ShoppingList, MealIdea, UserSettings, RestockRule, PlannedMeal } from '../types';
 import { supabase } from '../api/services/client';
+import { subscribeToShoppingItems } from '../api/services/shopping';
+import { ensurePersonalHousehold } from '../api/services/households';
 import { AuthContext } from '../contexts/AuthContext';
+import { useHousehold } from '../contexts/HouseholdContext';
 import { debounce } from '../lib/utils';
+import { requestBackgroundSync, listenForBackgroundSync } from '../lib/pwa';
+import { v4 as uuidv4 } from 'uuid';
+import { isItemExpired, markAsThawing } from '../utils/freezerUtils';
+import { isStapleDue, withCompletedAt } from '../utils/recurrenceUtils';
+import { findRestockNeed, mergeRestockNeed } from '../utils/restockUtils';
+import { useRestockRules } from '../hooks/useRestockRules';
+import { useShoppingLists } from '../hooks/useShoppingLists';
+import { useMealPlan } from '../hooks/useMealPlan';
+import { toast } from 'react-hot-toast';
 import { logger } from "@/lib/logger";
 
+// Collections kept per user rather than per household
+const USER_COLLECTIONS: SyncCollection[] = ['mealIdeas', 'settings'];
+
+// How often to look for staples that are due again while the app stays open
+const STAPLE_CHECK_INTERVAL = 60 * 60 * 1000;
+
 // Define the Storage context type
 interface StorageContextType {
   freezerItems: {
@@ -30,6 +54,22 @@ interface StorageContextType {
     updateItem: (item: FreezerItem) => Promise<FreezerItem>;
     deleteItem: (id: string) => Promise<void>;
     getExpiringItems: (days: number) => Promise<FreezerItem[]>;
+    getItemsByLocation: (location: string) => Promise<FreezerItem[]>;
+    // Take some (or all) of an item out, recording a consumption event; the item is removed at zero
+    consumeItem: (item: FreezerItem, amount: number, meal?: string) => Promise<ConsumptionEvent>;
+    // Throw an item away, recording it as discarded (or expired if it is past its date)
+    discardItem: (item: FreezerItem) => Promise<ConsumptionEvent>;
+    // Take some (or all) of an item out to thaw; returns the thawing item
+    thawItem: (item: FreezerItem, amount: number) => Promise<FreezerItem>;
+  };
+  
+  consumptionEvents: {
+    items: ConsumptionEvent[];
+    loading: boolean;
+    error: Error | null;
+    getItems: () => Promise<ConsumptionEvent[]>;
+    getEventsForItem: (freezerItemId: string) => Promise<ConsumptionEvent[]>;
+    getEventsBetween: (start: Date, end: Date) => Promise<ConsumptionEvent[]>;
   };
   
   shoppingItems: {
@@ -42,6 +82,35 @@ interface StorageContextType {
     deleteItem: (id: string) => Promise<void>;
     getCompletedItems: () => Promise<ShoppingItem[]>;
     getIncompleteItems: () => Promise<ShoppingItem[]>;
+    getStaples: () => Promise<ShoppingItem[]>;
+    getItemsInList: (listId: string | null) => Promise<ShoppingItem[]>;
+  };
+  
+  // Named shopping lists; items without a list are on the main one
+  shoppingLists: {
+    lists: ShoppingList[];
+    loading: boolean;
+    addList: (name: string) => Promise<ShoppingList>;
+    renameList: (listId: string, name: string) => Promise<ShoppingList>;
+    deleteList: (listId: string) => Promise<void>;
+    canEdit: boolean;
+  };
+  
+  // Household "restock when below N" thresholds by name
+  restockRules: {
+    rules: RestockRule[];
+    saveRule: (rule: Omit<RestockRule, 'id'>) => Promise<RestockRule>;
+    deleteRule: (ruleId: string) => Promise<void>;
+    canEdit: boolean;
+  };
+  
+  // Meals placed on days in the planner, with the freezer items they set aside
+  mealPlan: {
+    meals: PlannedMeal[];
+    loading: boolean;
+    saveMeal: (meal: PlannedMeal) => Promise<PlannedMeal>;
+    deleteMeal: (mealId: string) => Promise<void>;
+    canEdit: boolean;
   };
   
   mealIdeas: {
@@ -63,6 +132,14 @@ interface StorageContextType {
     saveSettings: (settings: UserSettings) => Promise<void>;
   };
   
+  sync: {
+    isOnline: boolean;
+    isSyncing: boolean;
+    pendingChanges: number; // Local writes not yet replayed against the server
+    lastSyncedAt: Date | null;
+    syncNow: () => Promise<void>;
+  };
+  
   isAuthenticated: boolean;
   isInitializing: boolean;
 }
@@ -72,6 +149,8 @@ const defaultUserSettings: UserSettings = {
   theme: 'system',
   notifications: true,
   notificationTiming: 3,
+  emailDigest: false,
+  emailDigestFrequency: 'weekly',
   dietary: {
     vegetarian: false,
     vegan: false,
@@ -91,30 +170,48 @@ interface StorageProviderProps {
 // Create a provider component
 export const StorageProvider: React.FC<StorageProviderProps> = ({ children }) => {
   const { user, isLoading: authLoading } = useContext(AuthContext);
+  const { household, isLoading: householdLoading } = useHousehold();
   const [isInitializing, setIsInitializing] = useState(true);
   
-  // Storage providers
-  const [freezerStorage, setFreezerStorage] = useState<FreezerItemsStorage>(
-    new FreezerItemsLocalStorage()
+  // Storage providers write locally first and queue changes for the server
+  const requestSyncRef = useRef<() => void>(() => {});
+  const requestSync = () => requestSyncRef.current();
+  
+  const [freezerStorage, setFreezerStorage] = useState<FreezerItemsSyncedStorage>(
+    () => new FreezerItemsSyncedStorage(new FreezerItemsLocalStorage(), null, null, requestSync)
+  );
+  
+  const [consumptionStorage, setConsumptionStorage] = useState<ConsumptionEventsSyncedStorage>(
+    () => new ConsumptionEventsSyncedStorage(new ConsumptionEventsLocalStorage(), null, null, requestSync)
   );
   
-  const [shoppingStorage, setShoppingStorage] = useState<ShoppingItemsStorage>(
-    new ShoppingItemsLocalStorage()
+  const [shoppingStorage, setShoppingStorage] = useState<ShoppingItemsSyncedStorage>(
+    () => new ShoppingItemsSyncedStorage(new ShoppingItemsLocalStorage(), null, null, requestSync)
   );
   
-  const [mealStorage, setMealStorage] = useState<MealIdeasStorage>(
-    new MealIdeasLocalStorage()
+  const [mealStorage, setMealStorage] = useState<MealIdeasSyncedStorage>(
+    () => new MealIdeasSyncedStorage(new MealIdeasLocalStorage(), null, null, requestSync)
   );
   
-  const [settingsStorage, setSettingsStorage] = useState<SettingsStorage>(
-    new SettingsLocalStorage()
+  const [settingsStorage, setSettingsStorage] = useState<SettingsSyncedStorage>(
+    () => new SettingsSyncedStorage(new SettingsLocalStorage(), null, null, requestSync)
   );
   
+  // Sync states
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
+  
   // Data states
   const [freezerItems, setFreezerItems] = useState<FreezerItem[]>([]);
   const [freezerLoading, setFreezerLoading] = useState(true);
   const [freezerError, setFreezerError] = useState<Error | null>(null);
   
+  const [consumptionEvents, setConsumptionEvents] = useState<ConsumptionEvent[]>([]);
+  const [consumptionLoading, setConsumptionLoading] = useState(true);
+  const [consumptionError, setConsumptionError] = useState<Error | null>(null);
+  
   const [shoppingItems, setShoppingItems] = useState<ShoppingItem[]>([]);
   const [shoppingLoading, setShoppingLoading] = useState(true);
   const [shoppingError, setShoppingError] = useState<Error | null>(null);
@@ -123,34 +220,81 @@ export const StorageProvider: React.FC<StorageProviderProps> = ({ children }) =>
   const [mealLoading, setMealLoading] = useState(true);
   const [mealError, setMealError] = useState<Error | null>(null);
   
+  const restockRules = useRestockRules();
+  const shoppingLists = useShoppingLists();
+  const mealPlan = useMealPlan(freezerItems);
+  
   const [userSettings, setUserSettings] = useState<UserSettings | null>(null);
   const [settingsLoading, setSettingsLoading] = useState(true);
   const [settingsError, setSettingsError] = useState<Error | null>(null);
   
   // Setup storage providers based on authentication state
   useEffect(() => {
-    if (authLoading) return;
+    if (authLoading || householdLoading) return;
     
-    logger.debug('Setting up storage providers, user:', user?.id);
+    logger.debug('Setting up storage providers, user:', user?.id, 'household:', household?.id);
     
-    if (user) {
-      // User is authenticated, use Supabase providers
-      setFreezerStorage(new FreezerItemsSupabase(supabase, user.id));
-      setShoppingStorage(new ShoppingItemsSupabase(supabase, user.id));
-      setMealStorage(new MealIdeasSupabase(supabase, user.id)); // Pass user ID to MealIdeasSupabase
-      setSettingsStorage(new SettingsSupabase(supabase, user.id));
+    if (user && household) {
+      // User is authenticated: cache locally per household and sync with Supabase
+      // Freezer items, their usage history and shopping items are shared across the household
+      setFreezerStorage(new FreezerItemsSyncedStorage(
+        new FreezerItemsLocalStorage(`freezerItems:${household.id}`),
+        new FreezerItemsSupabase(supabase, user.id, household.id),
+        household.id,
+        requestSync
+      ));
+      setConsumptionStorage(new ConsumptionEventsSyncedStorage(
+        new ConsumptionEventsLocalStorage(`consumptionEvents:${household.id}`),
+        new ConsumptionEventsSupabase(supabase, user.id, household.id),
+        household.id,
+        requestSync
+      ));
+      setShoppingStorage(new ShoppingItemsSyncedStorage(
+        new ShoppingItemsLocalStorage(`shoppingItems:${household.id}`),
+        new ShoppingItemsSupabase(supabase, user.id, household.id),
+        household.id,
+        requestSync
+      ));
+      setMealStorage(new MealIdeasSyncedStorage(
+        new MealIdeasLocalStorage(`mealIdeas:${user.id}`),
+        new MealIdeasSupabase(supabase, user.id),
+        user.id,
+        requestSync
+      ));
+      setSettingsStorage(new SettingsSyncedStorage(
+        new SettingsLocalStorage(`userSettings:${user.id}`),
+        new SettingsSupabase(supabase, user.id),
+        user.id,
+        requestSync
+      ));
     } else {
-      // User is not authenticated, use LocalStorage providers
-      setFreezerStorage(new FreezerItemsLocalStorage());
-      setShoppingStorage(new ShoppingItemsLocalStorage());
-      setMealStorage(new MealIdeasLocalStorage());
-      setSettingsStorage(new SettingsLocalStorage());
+      // User is not authenticated (or their household failed to load), keep everything local.
+      // Writes are still queued and reach the user's own household once they sign in.
+      const localFreezer = new FreezerItemsSyncedStorage(new FreezerItemsLocalStorage(), null, null, requestSync);
+      const localConsumption = new ConsumptionEventsSyncedStorage(new ConsumptionEventsLocalStorage(), null, null, requestSync);
+      const localShopping = new ShoppingItemsSyncedStorage(new ShoppingItemsLocalStorage(), null, null, requestSync);
+      const localMeals = new MealIdeasSyncedStorage(new MealIdeasLocalStorage(), null, null, requestSync);
+      const localSettings = new SettingsSyncedStorage(new SettingsLocalStorage(), null, null, requestSync);
+      
+      Promise.all([
+        localFreezer.queueUnsyncedItems(),
+        localConsumption.queueUnsyncedItems(),
+        localShopping.queueUnsyncedItems(),
+        localMeals.queueUnsyncedItems(),
+        localSettings.queueUnsyncedItems()
+      ]).catch(err => logger.error('Error queueing local data for sync:', err));
+      
+      setFreezerStorage(localFreezer);
+      setConsumptionStorage(localConsumption);
+      setShoppingStorage(localShopping);
+      setMealStorage(localMeals);
+      setSettingsStorage(localSettings);
     }
     
     // Mark initialization as complete when providers are set
     setIsInitializing(false);
     
-  }, [user, authLoading]);
+  }, [user, authLoading, household?.id, householdLoading]);
   
   // Debounced refresh functions to avoid rapid re-renders
   const debouncedRefreshFreezerItems = useCallback(
@@ -210,6 +354,27 @@ export const StorageProvider: React.FC<StorageProviderProps> = ({ children }) =>
     }
   }, [freezerStorage, isInitializing]);
   
+  // Load consumption history whenever the storage provider changes
+  useEffect(() => {
+    const loadConsumptionEvents = async () => {
+      try {
+        setConsumptionLoading(true);
+        setConsumptionError(null);
+        const events = await consumptionStorage.getItems();
+        setConsumptionEvents(events);
+      } catch (err) {
+        logger.error('Error loading consumption events:', err);
+        setConsumptionError(err as Error);
+      } finally {
+        setConsumptionLoading(false);
+      }
+    };
+    
+    if (!isInitializing) {
+      loadConsumptionEvents();
+    }
+  }, [consumptionStorage, isInitializing]);
+  
   // Load shopping items whenever the storage provider changes
   useEffect(() => {
     const loadShoppingItems = async () => {
@@ -275,6 +440,133 @@ export const StorageProvider: React.FC<StorageProviderProps> = ({ children }) =>
     }
   }, [settingsStorage, isInitializing]);
   
+  // Replay queued writes and pull server changes for every collection
+  const syncInProgress = useRef(false);
+  const syncRequested = useRef(false);
+  
+  const syncAll = useCallback(async () => {
+    if (syncInProgress.current) {
+      // Run again once the current sync finishes so no write is missed
+      syncRequested.current = true;
+      return;
+    }
+    
+    if (!navigator.onLine || !freezerStorage.canSync) {
+      const pending = await countQueuedMutations();
+      setPendingChanges(pending);
+      if (pending > 0 && freezerStorage.canSync) {
+        requestBackgroundSync();
+      }
+      return;
+    }
+    
+    syncInProgress.current = true;
+    setIsSyncing(true);
+    
+    try {
+      await Promise.all([
+        freezerStorage.sync(),
+        consumptionStorage.sync(),
+        shoppingStorage.sync(),
+        mealStorage.sync(),
+        settingsStorage.sync()
+      ]);
+      
+      // Show the merged local copies
+      setFreezerItems(await freezerStorage.getItems());
+      setConsumptionEvents(await consumptionStorage.getItems());
+      setShoppingItems(await shoppingStorage.getItems());
+      setMealIdeas(await mealStorage.getItems());
+      setUserSettings((await settingsStorage.getSettings()) || defaultUserSettings);
+      setLastSyncedAt(new Date());
+    } catch (err) {
+      logger.error('Error syncing with server:', err);
+      requestBackgroundSync();
+    } finally {
+      syncInProgress.current = false;
+      setIsSyncing(false);
+      setPendingChanges(await countQueuedMutations());
+      
+      if (syncRequested.current) {
+        syncRequested.current = false;
+        syncAll();
+      }
+    }
+  }, [freezerStorage, consumptionStorage, shoppingStorage, mealStorage, settingsStorage]);
+  
+  // Batch bursts of local writes into one sync
+  const debouncedSyncAll = useMemo(() => debounce(syncAll, 1000), [syncAll]);
+  
+  useEffect(() => {
+    requestSyncRef.current = debouncedSyncAll;
+  }, [debouncedSyncAll]);
+  
+  // Sync whenever the providers change (sign in, household switch)
+  useEffect(() => {
+    if (!isInitializing) {
+      syncAll();
+    }
+  }, [syncAll, isInitializing]);
+  
+  // Sync when the connection comes back or the app returns to the foreground
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncAll();
+    };
+    const handleOffline = () => setIsOnline(false);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        syncAll();
+      }
+    };
+    
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [syncAll]);
+  
+  // Replay queued writes when the service worker's background sync fires
+  useEffect(() => {
+    return listenForBackgroundSync(async () => {
+      await syncAll();
+      return (await countQueuedMutations()) === 0;
+    });
+  }, [syncAll]);
+  
+  const userId = user?.id;
+  const householdId = household?.id;
+  
+  // Changes made while signed out go to the user's own household, never to a shared
+  // one that happens to be active
+  useEffect(() => {
+    if (!userId) return;
+    
+    ensurePersonalHousehold()
+      .then(personalHouseholdId =>
+        claimGuestMutations(collection => USER_COLLECTIONS.includes(collection) ? userId : personalHouseholdId)
+      )
+      .then(() => requestSync())
+      .catch(err => logger.error('Error claiming changes made while signed out:', err));
+  }, [userId]);
+  
+  // Pull the shopping list when someone else in the household changes it; the sync
+  // merges their change with any local edits still queued
+  useEffect(() => {
+    if (!userId || !householdId) return;
+    
+    const channel = subscribeToShoppingItems(householdId, requestSync, requestSync, requestSync);
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, householdId]);
+  
   // Define freezer item operations with optimistic updates
   const getFreezerItems = async (): Promise<FreezerItem[]> => {
     try {
@@ -321,6 +613,7 @@ export const StorageProvider: React.FC<StorageProviderProps> = ({ children }) =>
       
       // Perform actual operation
       const updatedItem = await freezerStorage.updateItem(item);
+      await restockIfLow(item, freezerItems, newItems);
       
       // Refresh list with debounce
       debouncedRefreshFreezerItems();
@@ -337,11 +630,15 @@ export const StorageProvider: React.FC<StorageProviderProps> = ({ children }) =>
   const deleteFreezerItem = async (id: string): Promise<void> => {
     try {
       // Optimistic update - remove from state immediately
+      const deletedItem = freezerItems.find(i => i.id === id);
       const newItems = freezerItems.filter(i => i.id !== id);
       setFreezerItems(newItems);
       
       // Perform actual operation
       await freezerStorage.deleteItem(id);
+      if (deletedItem) {
+        await restockIfLow(deletedItem, freezerItems, newItems);
+      }
       
       // Refresh list with debounce
       debouncedRefreshFreezerItems();
@@ -362,6 +659,140 @@ export const StorageProvider: React.FC<StorageProviderProps> = ({ children }) =>
     }
   };
   
+  const getFreezerItemsByLocation = async (location: string): Promise<FreezerItem[]> => {
+    try {
+      return await freezerStorage.getItemsByLocation(location);
+    } catch (err) {
+      logger.error('Error getting freezer items by location:', err);
+      throw err;
+    }
+  };
+  
+  // Put an item on the shopping list when a change takes its freezer stock below a threshold
+  const restockIfLow = async (item: FreezerItem, before: FreezerItem[], after: FreezerItem[]) => {
+    const need = findRestockNeed(item, before, after, restockRules.rules);
+    if (!need) return;
+    
+    try {
+      const { item: shoppingItem, isNew } = mergeRestockNeed(need, shoppingItems);
+      if (isNew) {
+        await addShoppingItem(shoppingItem);
+      } else {
+        await updateShoppingItem(shoppingItem);
+      }
+      toast.success(`Running low: added ${shoppingItem.name} to your shopping list`);
+    } catch (err) {
+      // The freezer change itself succeeded, so don't fail it over the shopping list
+      logger.error('Error adding restock item to shopping list:', err);
+    }
+  };
+  
+  // Record that an amount of an item left the freezer
+  const recordItemOutcome = async (
+    item: FreezerItem,
+    amount: number,
+    outcome: ItemOutcome,
+    meal?: string
+  ): Promise<ConsumptionEvent> => {
+    const event = await consumptionStorage.addItem({
+      id: uuidv4(),
+      freezerItemId: item.id,
+      itemName: item.name,
+      category: item.category,
+      itemAddedDate: new Date(item.addedDate),
+      amount,
+      outcome,
+      meal: meal || '',
+      consumedAt: new Date(),
+      user_id: user?.id
+    });
+    setConsumptionEvents(current => [event, ...current]);
+    return event;
+  };
+  
+  const consumeFreezerItem = async (item: FreezerItem, amount: number, meal?: string): Promise<ConsumptionEvent> => {
+    // Never record more than is left in the bag
+    const used = Math.min(amount, item.quantity);
+    const remaining = item.quantity - used;
+    
+    try {
+      const event = await recordItemOutcome(item, used, 'consumed', meal);
+      
+      if (remaining > 0) {
+        await updateFreezerItem({ ...item, quantity: remaining });
+      } else {
+        await deleteFreezerItem(item.id);
+      }
+      
+      return event;
+    } catch (err) {
+      logger.error('Error recording consumption:', err);
+      throw err;
+    }
+  };
+  
+  const discardFreezerItem = async (item: FreezerItem): Promise<ConsumptionEvent> => {
+    try {
+      const event = await recordItemOutcome(item, item.quantity, isItemExpired(item) ? 'expired' : 'discarded');
+      await deleteFreezerItem(item.id);
+      return event;
+    } catch (err) {
+      logger.error('Error discarding freezer item:', err);
+      throw err;
+    }
+  };
+  
+  const thawFreezerItem = async (item: FreezerItem, amount: number): Promise<FreezerItem> => {
+    const thawing = markAsThawing(item);
+    if (amount >= item.quantity) {
+      return updateFreezerItem(thawing);
+    }
+    
+    try {
+      // Part of a bag becomes its own item so the rest keeps its freezer date
+      await updateFreezerItem({ ...item, quantity: item.quantity - amount });
+      return await addFreezerItem({ ...thawing, id: uuidv4(), quantity: amount, restockBelow: null });
+    } catch (err) {
+      logger.error('Error thawing freezer item:', err);
+      throw err;
+    }
+  };
+  
+  // Define consumption history operations
+  const getConsumptionEvents = async (): Promise<ConsumptionEvent[]> => {
+    try {
+      setConsumptionLoading(true);
+      setConsumptionError(null);
+      const events = await consumptionStorage.getItems();
+      setConsumptionEvents(events);
+      return events;
+    } catch (err) {
+      logger.error('Error loading consumption events:', err);
+      setConsumptionError(err as Error);
+      throw err;
+    } finally {
+      setConsumptionLoading(false);
+    }
+  };
+  
+  const getConsumptionEventsForItem = async (freezerItemId: string): Promise<ConsumptionEvent[]> => {
+    try {
+      return await consumptionStorage.getEventsForItem(freezerItemId);
+    } catch (err) {
+      logger.error('Error getting consumption events for item:', err);
+      throw err;
+    }
+  };
+  
+  const getConsumptionEventsBetween = async (start: Date, end: Date): Promise<ConsumptionEvent[]> => {
+    try {
+      return await consumptionStorage.getEventsBetween(start, end);
+    } catch (err) {
+      logger.error('Error getting consumption events by date:', err);
+      throw err;
+    }
+  };
+  
   // Define shopping item operations with optimistic updates
   const getShoppingItems = async (): Promise<ShoppingItem[]> => {
     try {
@@ -379,7 +810,8 @@ export const StorageProvider: React.FC<StorageProviderProps> = ({ children }) =>
     }
   };
   
-  const addShoppingItem = async (item: ShoppingItem): Promise<ShoppingItem> => {
+  const addShoppingItem = async (newShoppingItem: ShoppingItem): Promise<ShoppingItem> => {
+    const item = withCompletedAt(newShoppingItem);
     try {
       // Optimistic update
       const newItems = [...shoppingItems, item];
@@ -400,7 +832,8 @@ export const StorageProvider: React.FC<StorageProviderProps> = ({ children }) =>
     }
   };
   
-  const updateShoppingItem = async (item: ShoppingItem): Promise<ShoppingItem> => {
+  const updateShoppingItem = async (changedItem: ShoppingItem): Promise<ShoppingItem> => {
+    const item = withCompletedAt(changedItem, shoppingItems.find(i => i.id === changedItem.id));
     try {
       // Optimistic update
       const newItems = shoppingItems.map(i => i.id === item.id ? item : i);
@@ -458,6 +891,60 @@ export const StorageProvider: React.FC<StorageProviderProps> = ({ children }) =>
     }
   };
   
+  const getShoppingStaples = async (): Promise<ShoppingItem[]> => {
+    try {
+      return await shoppingStorage.getStaples();
+    } catch (err) {
+      logger.error('Error getting staples:', err);
+      throw err;
+    }
+  };
+  
+  const getShoppingItemsInList = async (listId: string | null): Promise<ShoppingItem[]> => {
+    try {
+      return await shoppingStorage.getItemsInList(listId);
+    } catch (err) {
+      logger.error('Error getting shopping list items:', err);
+      throw err;
+    }
+  };
+  
+  // Delete a named list and everything on it. The server deletes the items along
+  // with the list; deleting them here as well clears them from this device
+  const deleteShoppingList = async (listId: string): Promise<void> => {
+    await shoppingLists.deleteList(listId);
+    
+    const listItems = shoppingItems.filter(item => item.listId === listId);
+    setShoppingItems(shoppingItems.filter(item => item.listId !== listId));
+    try {
+      for (const item of listItems) {
+        await shoppingStorage.deleteItem(item.id);
+      }
+    } catch (err) {
+      logger.error('Error deleting shopping list items:', err);
+    } finally {
+      debouncedRefreshShoppingItems();
+    }
+  };
+  
+  // Put ticked-off staples back on the list when they're due or freezer stock runs low
+  const [stapleCheckTime, setStapleCheckTime] = useState(() => Date.now());
+  
+  useEffect(() => {
+    const interval = setInterval(() => setStapleCheckTime(Date.now()), STAPLE_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+  
+  useEffect(() => {
+    if (isInitializing || shoppingLoading || freezerLoading) return;
+    
+    const dueStaples = shoppingItems.filter(item => isStapleDue(item, freezerItems, new Date(stapleCheckTime)));
+    dueStaples.forEach(item => {
+      updateShoppingItem({ ...item, completed: false })
+        .catch(err => logger.error('Error restoring staple:', err));
+    });
+  }, [shoppingItems, freezerItems, shoppingLoading, freezerLoading, isInitializing, stapleCheckTime]);
+  
   // Define meal idea operations with optimistic updates
   const getMealIdeas = async (): Promise<MealIdea[]> => {
     try {
@@ -601,7 +1088,20 @@ export const StorageProvider: React.FC<StorageProviderProps> = ({ children }) =>
       addItem: addFreezerItem,
       updateItem: updateFreezerItem,
       deleteItem: deleteFreezerItem,
-      getExpiringItems: getExpiringFreezerItems
+      getExpiringItems: getExpiringFreezerItems,
+      getItemsByLocation: getFreezerItemsByLocation,
+      consumeItem: consumeFreezerItem,
+      discardItem: discardFreezerItem,
+      thawItem: thawFreezerItem
+    },
+    
+    consumptionEvents: {
+      items: consumptionEvents,
+      loading: consumptionLoading,
+      error: consumptionError,
+      getItems: getConsumptionEvents,
+      getEventsForItem: getConsumptionEventsForItem,
+      getEventsBetween: getConsumptionEventsBetween
     },
     
     shoppingItems: {
@@ -613,9 +1113,24 @@ export const StorageProvider: React.FC<StorageProviderProps> = ({ children }) =>
       updateItem: updateShoppingItem,
       deleteItem: deleteShoppingItem,
       getCompletedItems: getCompletedShoppingItems,
-      getIncompleteItems: getIncompleteShoppingItems
+      getIncompleteItems: getIncompleteShoppingItems,
+      getStaples: getShoppingStaples,
+      getItemsInList: getShoppingItemsInList
+    },
+    
+    shoppingLists: {
+      lists: shoppingLists.lists,
+      loading: shoppingLists.loading,
+      addList: shoppingLists.addList,
+      renameList: shoppingLists.renameList,
+      deleteList: deleteShoppingList,
+      canEdit: shoppingLists.canEdit
     },
     
+    restockRules,
+    
+    mealPlan,
+    
     mealIdeas: {
       items: mealIdeas,
       loading: mealLoading,
@@ -635,14 +1150,27 @@ export const StorageProvider: React.FC<StorageProviderProps> = ({ children }) =>
       saveSettings: saveUserSettings
     },
     
+    sync: {
+      isOnline,
+      isSyncing,
+      pendingChanges,
+      lastSyncedAt,
+      syncNow: syncAll
+    },
+    
     isAuthenticated: !!user,
-    isInitializing: isInitializing || authLoading
+    isInitializing: isInitializing || authLoading || householdLoading
   }), [
     freezerItems, freezerLoading, freezerError,
+    consumptionEvents, consumptionLoading, consumptionError,
     shoppingItems, shoppingLoading, shoppingError,
+    shoppingLists.lists, shoppingLists.loading, shoppingLists.addList, shoppingLists.renameList, shoppingLists.deleteList, shoppingLists.canEdit,
+    restockRules.rules, restockRules.saveRule, restockRules.deleteRule, restockRules.canEdit,
+    mealPlan.meals, mealPlan.loading, mealPlan.saveMeal, mealPlan.deleteMeal, mealPlan.canEdit,
     mealIdeas, mealLoading, mealError,
     userSettings, settingsLoading, settingsError,
-    user, isInitializing, authLoading
+    isOnline, isSyncing, pendingChanges, lastSyncedAt, syncAll,
+    user, isInitializing, authLoading, householdLoading
   ]);
   
   return (
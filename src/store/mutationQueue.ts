@@ -0,0 +1,212 @@
+import { logger } from "@/lib/logger";
+
+const DB_NAME = 'frostie-sync';
+const DB_VERSION = 1;
+const STORE_NAME = 'mutations';
+
+export type SyncCollection = 'freezerItems' | 'consumptionEvents' | 'shoppingItems' | 'mealIdeas' | 'settings';
+export type MutationType = 'add' | 'update' | 'delete';
+
+// A local write waiting to be replayed against the server
+export interface Mutation {
+  id?: number; // Assigned by IndexedDB, preserves the order writes were made in
+  collection: SyncCollection;
+  type: MutationType;
+  itemId: string;
+  scope: string | null; // Household or user the write belongs to, null until someone signs in to claim it
+  payload?: any; // Full item (or settings) as it was after the write
+  revision: number; // Bumped whenever a later write is folded into this entry
+  createdAt: string;
+  attempts?: number; // Failed replays the server didn't definitely reject
+  retryAt?: string; // Not replayed again before this time
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('collection', 'collection', { unique: false });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+// Run a request inside a transaction and resolve with its result
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = createRequest(transaction.objectStore(STORE_NAME));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Get queued mutations for a collection, oldest first
+export const getQueuedMutations = async (collection: SyncCollection): Promise<Mutation[]> => {
+  try {
+    const mutations = await runRequest<Mutation[]>('readonly', store =>
+      store.index('collection').getAll(collection) as IDBRequest<Mutation[]>
+    );
+    return mutations.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+  } catch (error) {
+    logger.error('Error reading mutation queue:', error);
+    return [];
+  }
+};
+
+// Count every queued mutation across all collections
+export const countQueuedMutations = async (): Promise<number> => {
+  try {
+    return await runRequest<number>('readonly', store => store.count());
+  } catch (error) {
+    logger.error('Error counting mutation queue:', error);
+    return 0;
+  }
+};
+
+/**
+ * Remove a mutation once it has been replayed. If another write was folded into
+ * it in the meantime the entry is kept so the newer change is sent next time.
+ */
+export const removeMutation = async (mutation: Mutation): Promise<void> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get(mutation.id!);
+
+    request.onsuccess = () => {
+      const stored = request.result as Mutation | undefined;
+      if (stored && stored.revision === mutation.revision) {
+        store.delete(mutation.id!);
+      }
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Give writes made while signed out to the account that signs in next, so they
+ * are only ever replayed into the scope picked for them and not into whichever
+ * household happens to be active.
+ */
+export const claimGuestMutations = async (scopeFor: (collection: SyncCollection) => string): Promise<void> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const request = transaction.objectStore(STORE_NAME).openCursor();
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+
+      const mutation = cursor.value as Mutation;
+      if (mutation.scope === null) {
+        cursor.update({ ...mutation, scope: scopeFor(mutation.collection) });
+      }
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Keep a mutation whose replay failed for a reason that may go away (server
+ * error, expired session) and hold it back until retryAt, so a failing write
+ * isn't sent again on every sync. Skipped if a newer write was folded in.
+ */
+export const deferMutation = async (mutation: Mutation, retryAt: Date): Promise<void> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get(mutation.id!);
+
+    request.onsuccess = () => {
+      const stored = request.result as Mutation | undefined;
+      if (stored && stored.revision === mutation.revision) {
+        store.put({ ...stored, attempts: (stored.attempts ?? 0) + 1, retryAt: retryAt.toISOString() });
+      }
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Queue a mutation, folding it into any pending mutation for the same item
+ * so the queue never holds more than one entry per item:
+ * - add then update stays an add carrying the latest payload
+ * - update then update keeps the latest payload
+ * - add or update then delete becomes a delete, which is a no-op on the
+ *   server if the add never reached it
+ */
+export const enqueueMutation = async (mutation: Omit<Mutation, 'id' | 'revision' | 'createdAt'>): Promise<void> => {
+  const db = await openDatabase();
+
+  // Look up and write in one transaction so two quick writes to an item can't both
+  // miss the pending entry, or overwrite each other's fold
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.index('collection').getAll(mutation.collection);
+
+    request.onsuccess = () => {
+      const pending = (request.result as Mutation[])
+        .sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+        .find(m => m.itemId === mutation.itemId && m.scope === mutation.scope);
+
+      if (!pending) {
+        store.add({ ...mutation, revision: 0, createdAt: new Date().toISOString() });
+        return;
+      }
+
+      const type: MutationType =
+        pending.type === 'add' && mutation.type === 'update' ? 'add' : mutation.type;
+      store.put({ ...pending, type, payload: mutation.payload, revision: pending.revision + 1 });
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
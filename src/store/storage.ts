@@ -1,7 +1,8 @@
-import { FreezerItem, ShoppingItem, MealIdea } from '../types';
+import { FreezerItem, ShoppingItem, MealIdea, ConsumptionEvent } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import { SupabaseClient } from '@supabase/supabase-js';
 import { UserSettings } from '../types';
+import { DEFAULT_LOCATION } from '../data/locations';
 
 // Abstract Storage Interface for all types of data
 export interface StorageInterface<T> {
@@ -14,12 +15,21 @@ export interface StorageInterface<T> {
 // Freezer Item Storage Interface
 export interface FreezerItemsStorage extends StorageInterface<FreezerItem> {
   getExpiringItems(days: number): Promise<FreezerItem[]>;
+  getItemsByLocation(location: string): Promise<FreezerItem[]>;
+}
+
+// Consumption Event Storage Interface
+export interface ConsumptionEventsStorage extends StorageInterface<ConsumptionEvent> {
+  getEventsForItem(freezerItemId: string): Promise<ConsumptionEvent[]>;
+  getEventsBetween(start: Date, end: Date): Promise<ConsumptionEvent[]>;
 }
 
 // Shopping Item Storage Interface
 export interface ShoppingItemsStorage extends StorageInterface<ShoppingItem> {
   getCompletedItems(): Promise<ShoppingItem[]>;
   getIncompleteItems(): Promise<ShoppingItem[]>;
+  getStaples(): Promise<ShoppingItem[]>;
+  getItemsInList(listId: string | null): Promise<ShoppingItem[]>;
 }
 
 // Meal Idea Storage Interface
@@ -41,7 +51,8 @@ const parseDate = (dateStr: string | Date): Date => {
 
 // LocalStorage provider for FreezerItems
 export class FreezerItemsLocalStorage implements FreezerItemsStorage {
-  private readonly STORAGE_KEY = 'freezerItems';
+  // Signed-in data is cached under a separate key per household or user
+  constructor(private readonly STORAGE_KEY: string = 'freezerItems') {}
 
   async getItems(): Promise<FreezerItem[]> {
     const items = localStorage.getItem(this.STORAGE_KEY);
@@ -88,6 +99,16 @@ export class FreezerItemsLocalStorage implements FreezerItemsStorage {
     localStorage.setItem(this.STORAGE_KEY, JSON.stringify(filteredItems));
   }
 
+  // Overwrite the whole collection, used when merging data pulled from the server
+  async replaceItems(items: FreezerItem[]): Promise<void> {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(items));
+  }
+
+  async getItemsByLocation(location: string): Promise<FreezerItem[]> {
+    const items = await this.getItems();
+    return items.filter(item => (item.location || DEFAULT_LOCATION) === location);
+  }
+
   async getExpiringItems(days: number): Promise<FreezerItem[]> {
     const items = await this.getItems();
     const today = new Date();
@@ -101,9 +122,75 @@ export class FreezerItemsLocalStorage implements FreezerItemsStorage {
   }
 }
 
+// LocalStorage provider for ConsumptionEvents
+export class ConsumptionEventsLocalStorage implements ConsumptionEventsStorage {
+  constructor(private readonly STORAGE_KEY: string = 'consumptionEvents') {}
+
+  async getItems(): Promise<ConsumptionEvent[]> {
+    const events = localStorage.getItem(this.STORAGE_KEY);
+    if (!events) return [];
+    
+    const parsed: ConsumptionEvent[] = JSON.parse(events, (key, value) => {
+      // Convert date strings to Date objects
+      if (key === 'consumedAt' || key === 'itemAddedDate') {
+        return new Date(value);
+      }
+      return value;
+    });
+
+    // Events saved before outcomes were recorded were all eaten
+    return parsed.map(event => ({ ...event, outcome: event.outcome || 'consumed' }));
+  }
+
+  async addItem(event: ConsumptionEvent): Promise<ConsumptionEvent> {
+    const events = await this.getItems();
+    
+    // Ensure the event has an id
+    if (!event.id) {
+      event.id = uuidv4();
+    }
+    
+    events.push(event);
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(events));
+    return event;
+  }
+
+  async updateItem(event: ConsumptionEvent): Promise<ConsumptionEvent> {
+    const events = await this.getItems();
+    const index = events.findIndex(e => e.id === event.id);
+    
+    if (index === -1) {
+      throw new Error(`Consumption event with id ${event.id} not found`);
+    }
+    
+    events[index] = event;
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(events));
+    return event;
+  }
+
+  async deleteItem(id: string): Promise<void> {
+    const events = await this.getItems();
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(events.filter(e => e.id !== id)));
+  }
+
+  async replaceItems(events: ConsumptionEvent[]): Promise<void> {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(events));
+  }
+
+  async getEventsForItem(freezerItemId: string): Promise<ConsumptionEvent[]> {
+    const events = await this.getItems();
+    return events.filter(event => event.freezerItemId === freezerItemId);
+  }
+
+  async getEventsBetween(start: Date, end: Date): Promise<ConsumptionEvent[]> {
+    const events = await this.getItems();
+    return events.filter(event => event.consumedAt >= start && event.consumedAt <= end);
+  }
+}
+
 // LocalStorage provider for ShoppingItems
 export class ShoppingItemsLocalStorage implements ShoppingItemsStorage {
-  private readonly STORAGE_KEY = 'shoppingItems';
+  constructor(private readonly STORAGE_KEY: string = 'shoppingItems') {}
 
   async getItems(): Promise<ShoppingItem[]> {
     const items = localStorage.getItem(this.STORAGE_KEY);
@@ -142,6 +229,10 @@ export class ShoppingItemsLocalStorage implements ShoppingItemsStorage {
     localStorage.setItem(this.STORAGE_KEY, JSON.stringify(filteredItems));
   }
 
+  async replaceItems(items: ShoppingItem[]): Promise<void> {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(items));
+  }
+
   async getCompletedItems(): Promise<ShoppingItem[]> {
     const items = await this.getItems();
     return items.filter(item => item.completed);
@@ -151,11 +242,21 @@ export class ShoppingItemsLocalStorage implements ShoppingItemsStorage {
     const items = await this.getItems();
     return items.filter(item => !item.completed);
   }
+
+  async getStaples(): Promise<ShoppingItem[]> {
+    const items = await this.getItems();
+    return items.filter(item => !!item.recurrence);
+  }
+
+  async getItemsInList(listId: string | null): Promise<ShoppingItem[]> {
+    const items = await this.getItems();
+    return items.filter(item => (item.listId || null) === listId);
+  }
 }
 
 // LocalStorage provider for MealIdeas
 export class MealIdeasLocalStorage implements MealIdeasStorage {
-  private readonly STORAGE_KEY = 'mealIdeas';
+  constructor(private readonly STORAGE_KEY: string = 'mealIdeas') {}
 
   async getItems(): Promise<MealIdea[]> {
     const items = localStorage.getItem(this.STORAGE_KEY);
@@ -194,6 +295,10 @@ export class MealIdeasLocalStorage implements MealIdeasStorage {
     localStorage.setItem(this.STORAGE_KEY, JSON.stringify(filteredItems));
   }
 
+  async replaceItems(items: MealIdea[]): Promise<void> {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(items));
+  }
+
   async getFavorites(): Promise<MealIdea[]> {
     const items = await this.getItems();
     return items.filter(item => item.favorite);
@@ -202,11 +307,12 @@ export class MealIdeasLocalStorage implements MealIdeasStorage {
 
 // LocalStorage provider for Settings
 export class SettingsLocalStorage implements SettingsStorage {
-  private readonly STORAGE_KEY = 'userSettings';
+  constructor(private readonly STORAGE_KEY: string = 'userSettings') {}
 
   async getSettings(): Promise<UserSettings | null> {
     const settings = localStorage.getItem(this.STORAGE_KEY);
-    return settings ? JSON.parse(settings) : null;
+    // Settings saved before the email digest existed don't have its fields yet
+    return settings ? { emailDigest: false, emailDigestFrequency: 'weekly', ...JSON.parse(settings) } : null;
   }
 
   async saveSettings(settings: UserSettings): Promise<void> {
@@ -214,15 +320,15 @@ export class SettingsLocalStorage implements SettingsStorage {
   }
 }
 
-// Supabase provider for FreezerItems
+// Supabase provider for FreezerItems, shared by everyone in the household
 export class FreezerItemsSupabase implements FreezerItemsStorage {
-  constructor(private supabase: SupabaseClient, private userId: string) {}
+  constructor(private supabase: SupabaseClient, private userId: string, private householdId: string) {}
 
   async getItems(): Promise<FreezerItem[]> {
     const { data, error } = await this.supabase
       .from('freezer_items')
       .select('*')
-      .eq('user_id', this.userId)
+      .eq('household_id', this.householdId)
       .order('expiry_date', { ascending: true });
     
     if (error) {
@@ -240,7 +346,13 @@ export class FreezerItemsSupabase implements FreezerItemsStorage {
       size: item.size || '',
       tags: item.tags || [],
       notes: item.notes || '',
-      imageUrl: item.image_url || ''
+      imageUrl: item.image_url || '',
+      location: item.location || DEFAULT_LOCATION,
+      zone: item.zone || '',
+      restockBelow: item.restock_below ?? null,
+      thawedAt: item.thawed_at || null,
+      updatedAt: item.updated_at,
+      fieldUpdatedAt: item.field_updated_at || {}
     }));
   }
 
@@ -251,6 +363,7 @@ export class FreezerItemsSupabase implements FreezerItemsStorage {
         ? item.id 
         : uuidv4(),
       user_id: this.userId,
+      household_id: this.householdId,
       name: item.name,
       quantity: String(item.quantity),
       size: item.size,
@@ -260,6 +373,12 @@ export class FreezerItemsSupabase implements FreezerItemsStorage {
       notes: item.notes,
       tags: item.tags,
       image_url: item.imageUrl || '',
+      location: item.location || DEFAULT_LOCATION,
+      zone: item.zone || '',
+      restock_below: item.restockBelow || null,
+      thawed_at: item.thawedAt || null,
+      updated_at: item.updatedAt || new Date().toISOString(),
+      field_updated_at: item.fieldUpdatedAt || {},
       created_at: new Date().toISOString()
     };
     
@@ -288,7 +407,13 @@ export class FreezerItemsSupabase implements FreezerItemsStorage {
       size: data.size || '',
       tags: data.tags || [],
       notes: data.notes || '',
-      imageUrl: data.image_url || ''
+      imageUrl: data.image_url || '',
+      location: data.location || DEFAULT_LOCATION,
+      zone: data.zone || '',
+      restockBelow: data.restock_below ?? null,
+      thawedAt: data.thawed_at || null,
+      updatedAt: data.updated_at,
+      fieldUpdatedAt: data.field_updated_at || {}
     };
   }
 
@@ -302,14 +427,20 @@ export class FreezerItemsSupabase implements FreezerItemsStorage {
       expiry_date: item.expirationDate.toISOString(),
       notes: item.notes,
       tags: item.tags,
-      image_url: item.imageUrl || ''
+      image_url: item.imageUrl || '',
+      location: item.location || DEFAULT_LOCATION,
+      zone: item.zone || '',
+      restock_below: item.restockBelow || null,
+      thawed_at: item.thawedAt || null,
+      updated_at: item.updatedAt || new Date().toISOString(),
+      field_updated_at: item.fieldUpdatedAt || {}
     };
     
     const { data, error } = await this.supabase
       .from('freezer_items')
       .update(dbItem)
       .eq('id', item.id)
-      .eq('user_id', this.userId)
+      .eq('household_id', this.householdId)
       .select()
       .single();
     
@@ -329,7 +460,13 @@ export class FreezerItemsSupabase implements FreezerItemsStorage {
       size: data.size || '',
       tags: data.tags || [],
       notes: data.notes || '',
-      imageUrl: data.image_url || ''
+      imageUrl: data.image_url || '',
+      location: data.location || DEFAULT_LOCATION,
+      zone: data.zone || '',
+      restockBelow: data.restock_below ?? null,
+      thawedAt: data.thawed_at || null,
+      updatedAt: data.updated_at,
+      fieldUpdatedAt: data.field_updated_at || {}
     };
   }
 
@@ -338,7 +475,7 @@ export class FreezerItemsSupabase implements FreezerItemsStorage {
       .from('freezer_items')
       .delete()
       .eq('id', id)
-      .eq('user_id', this.userId);
+      .eq('household_id', this.householdId);
     
     if (error) {
       console.error('Error deleting freezer item:', error);
@@ -346,6 +483,39 @@ export class FreezerItemsSupabase implements FreezerItemsStorage {
     }
   }
 
+  async getItemsByLocation(location: string): Promise<FreezerItem[]> {
+    const { data, error } = await this.supabase
+      .from('freezer_items')
+      .select('*')
+      .eq('household_id', this.householdId)
+      .eq('location', location)
+      .order('expiry_date', { ascending: true });
+    
+    if (error) {
+      console.error('Error fetching freezer items by location:', error);
+      throw error;
+    }
+    
+    return data.map(item => ({
+      id: item.id,
+      name: item.name,
+      addedDate: parseDate(item.added_date),
+      expirationDate: parseDate(item.expiry_date),
+      category: item.category || 'Other',
+      quantity: item.quantity ? Number(item.quantity) : 1,
+      size: item.size || '',
+      tags: item.tags || [],
+      notes: item.notes || '',
+      imageUrl: item.image_url || '',
+      location: item.location || DEFAULT_LOCATION,
+      zone: item.zone || '',
+      restockBelow: item.restock_below ?? null,
+      thawedAt: item.thawed_at || null,
+      updatedAt: item.updated_at,
+      fieldUpdatedAt: item.field_updated_at || {}
+    }));
+  }
+
   async getExpiringItems(days: number): Promise<FreezerItem[]> {
     const now = new Date();
     const futureDate = new Date();
@@ -354,7 +524,7 @@ export class FreezerItemsSupabase implements FreezerItemsStorage {
     const { data, error } = await this.supabase
       .from('freezer_items')
       .select('*')
-      .eq('user_id', this.userId)
+      .eq('household_id', this.householdId)
       .gte('expiry_date', now.toISOString())
       .lte('expiry_date', futureDate.toISOString())
       .order('expiry_date', { ascending: true });
@@ -374,20 +544,186 @@ export class FreezerItemsSupabase implements FreezerItemsStorage {
       size: item.size || '',
       tags: item.tags || [],
       notes: item.notes || '',
-      imageUrl: item.image_url || ''
+      imageUrl: item.image_url || '',
+      location: item.location || DEFAULT_LOCATION,
+      zone: item.zone || '',
+      restockBelow: item.restock_below ?? null,
+      thawedAt: item.thawed_at || null,
+      updatedAt: item.updated_at,
+      fieldUpdatedAt: item.field_updated_at || {}
     }));
   }
 }
 
-// Supabase provider for ShoppingItems
+// Convert a consumption_events row to app format
+const toConsumptionEvent = (event: any): ConsumptionEvent => ({
+  id: event.id,
+  freezerItemId: event.freezer_item_id,
+  itemName: event.item_name,
+  category: event.category || 'Other',
+  itemAddedDate: parseDate(event.item_added_date || event.consumed_at),
+  amount: Number(event.amount),
+  outcome: event.outcome || 'consumed',
+  meal: event.meal || '',
+  consumedAt: parseDate(event.consumed_at),
+  user_id: event.user_id,
+  household_id: event.household_id,
+  updatedAt: event.updated_at,
+  fieldUpdatedAt: event.field_updated_at || {}
+});
+
+// Supabase provider for ConsumptionEvents, shared by everyone in the household
+export class ConsumptionEventsSupabase implements ConsumptionEventsStorage {
+  constructor(private supabase: SupabaseClient, private userId: string, private householdId: string) {}
+
+  async getItems(): Promise<ConsumptionEvent[]> {
+    const { data, error } = await this.supabase
+      .from('consumption_events')
+      .select('*')
+      .eq('household_id', this.householdId)
+      .order('consumed_at', { ascending: false });
+    
+    if (error) {
+      console.error('Error fetching consumption events:', error);
+      throw error;
+    }
+    
+    return data.map(toConsumptionEvent);
+  }
+
+  async addItem(event: ConsumptionEvent): Promise<ConsumptionEvent> {
+    // Convert from app format to DB format
+    const dbEvent = {
+      id: event.id && /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(event.id)
+        ? event.id
+        : uuidv4(),
+      user_id: this.userId,
+      household_id: this.householdId,
+      freezer_item_id: event.freezerItemId,
+      item_name: event.itemName,
+      category: event.category,
+      item_added_date: event.itemAddedDate.toISOString(),
+      amount: event.amount,
+      outcome: event.outcome,
+      meal: event.meal || '',
+      consumed_at: event.consumedAt.toISOString(),
+      updated_at: event.updatedAt || new Date().toISOString(),
+      field_updated_at: event.fieldUpdatedAt || {},
+      created_at: new Date().toISOString()
+    };
+    
+    const { data, error } = await this.supabase
+      .from('consumption_events')
+      .insert([dbEvent])
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error adding consumption event:', error);
+      throw error;
+    }
+    
+    return toConsumptionEvent(data);
+  }
+
+  async updateItem(event: ConsumptionEvent): Promise<ConsumptionEvent> {
+    const dbEvent = {
+      amount: event.amount,
+      outcome: event.outcome,
+      meal: event.meal || '',
+      consumed_at: event.consumedAt.toISOString(),
+      updated_at: event.updatedAt || new Date().toISOString(),
+      field_updated_at: event.fieldUpdatedAt || {}
+    };
+    
+    const { data, error } = await this.supabase
+      .from('consumption_events')
+      .update(dbEvent)
+      .eq('id', event.id)
+      .eq('household_id', this.householdId)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating consumption event:', error);
+      throw error;
+    }
+    
+    return toConsumptionEvent(data);
+  }
+
+  async deleteItem(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('consumption_events')
+      .delete()
+      .eq('id', id)
+      .eq('household_id', this.householdId);
+    
+    if (error) {
+      console.error('Error deleting consumption event:', error);
+      throw error;
+    }
+  }
+
+  async getEventsForItem(freezerItemId: string): Promise<ConsumptionEvent[]> {
+    const { data, error } = await this.supabase
+      .from('consumption_events')
+      .select('*')
+      .eq('household_id', this.householdId)
+      .eq('freezer_item_id', freezerItemId)
+      .order('consumed_at', { ascending: false });
+    
+    if (error) {
+      console.error('Error fetching consumption events for item:', error);
+      throw error;
+    }
+    
+    return data.map(toConsumptionEvent);
+  }
+
+  async getEventsBetween(start: Date, end: Date): Promise<ConsumptionEvent[]> {
+    const { data, error } = await this.supabase
+      .from('consumption_events')
+      .select('*')
+      .eq('household_id', this.householdId)
+      .gte('consumed_at', start.toISOString())
+      .lte('consumed_at', end.toISOString())
+      .order('consumed_at', { ascending: false });
+    
+    if (error) {
+      console.error('Error fetching consumption events by date:', error);
+      throw error;
+    }
+    
+    return data.map(toConsumptionEvent);
+  }
+}
+
+// Convert a shopping_items row to app format
+const toShoppingItem = (item: any): ShoppingItem => ({
+  id: item.id,
+  name: item.name,
+  completed: item.completed,
+  category: item.category || 'Other',
+  quantity: item.quantity,
+  recurrence: item.recurrence || null,
+  completedAt: item.completed_at || null,
+  origin: item.origin || null,
+  store: item.store || null,
+  listId: item.list_id || null,
+  updatedAt: item.updated_at,
+  fieldUpdatedAt: item.field_updated_at || {}
+});
+
+// Supabase provider for ShoppingItems, shared by everyone in the household
 export class ShoppingItemsSupabase implements ShoppingItemsStorage {
-  constructor(private supabase: SupabaseClient, private userId: string) {}
+  constructor(private supabase: SupabaseClient, private userId: string, private householdId: string) {}
 
   async getItems(): Promise<ShoppingItem[]> {
     const { data, error } = await this.supabase
       .from('shopping_items')
       .select('*')
-      .eq('user_id', this.userId)
+      .eq('household_id', this.householdId)
       .order('created_at', { ascending: false });
     
     if (error) {
@@ -395,13 +731,7 @@ export class ShoppingItemsSupabase implements ShoppingItemsStorage {
       throw error;
     }
     
-    return data.map(item => ({
-      id: item.id,
-      name: item.name,
-      completed: item.completed,
-      category: item.category || 'Other',
-      quantity: item.quantity
-    }));
+    return data.map(toShoppingItem);
   }
 
   async addItem(item: ShoppingItem): Promise<ShoppingItem> {
@@ -414,10 +744,18 @@ export class ShoppingItemsSupabase implements ShoppingItemsStorage {
     const dbItem = {
       id: itemId,
       user_id: this.userId,
+      household_id: this.householdId,
       name: item.name,
       quantity: item.quantity || '1',
       completed: item.completed || false,
-      category: item.category || 'Other'
+      category: item.category || 'Other',
+      recurrence: item.recurrence || null,
+      completed_at: item.completedAt || null,
+      origin: item.origin || null,
+      store: item.store || null,
+      list_id: item.listId || null,
+      updated_at: item.updatedAt || new Date().toISOString(),
+      field_updated_at: item.fieldUpdatedAt || {}
     };
     
     const { data, error } = await this.supabase
@@ -432,13 +770,7 @@ export class ShoppingItemsSupabase implements ShoppingItemsStorage {
     }
     
     // Return the item in app format
-    return {
-      id: data.id,
-      name: data.name,
-      completed: data.completed,
-      category: data.category || 'Other',
-      quantity: data.quantity
-    };
+    return toShoppingItem(data);
   }
 
   async updateItem(item: ShoppingItem): Promise<ShoppingItem> {
@@ -447,14 +779,21 @@ export class ShoppingItemsSupabase implements ShoppingItemsStorage {
       name: item.name,
       quantity: item.quantity || '1',
       completed: item.completed,
-      category: item.category || 'Other'
+      category: item.category || 'Other',
+      recurrence: item.recurrence || null,
+      completed_at: item.completedAt || null,
+      origin: item.origin || null,
+      store: item.store || null,
+      list_id: item.listId || null,
+      updated_at: item.updatedAt || new Date().toISOString(),
+      field_updated_at: item.fieldUpdatedAt || {}
     };
     
     const { data, error } = await this.supabase
       .from('shopping_items')
       .update(dbItem)
       .eq('id', item.id)
-      .eq('user_id', this.userId)
+      .eq('household_id', this.householdId)
       .select()
       .single();
     
@@ -464,13 +803,7 @@ export class ShoppingItemsSupabase implements ShoppingItemsStorage {
     }
     
     // Return the updated item in app format
-    return {
-      id: data.id,
-      name: data.name,
-      completed: data.completed,
-      category: data.category || 'Other',
-      quantity: data.quantity
-    };
+    return toShoppingItem(data);
   }
 
   async deleteItem(id: string): Promise<void> {
@@ -478,7 +811,7 @@ export class ShoppingItemsSupabase implements ShoppingItemsStorage {
       .from('shopping_items')
       .delete()
       .eq('id', id)
-      .eq('user_id', this.userId);
+      .eq('household_id', this.householdId);
     
     if (error) {
       console.error('Error deleting shopping item:', error);
@@ -490,7 +823,7 @@ export class ShoppingItemsSupabase implements ShoppingItemsStorage {
     const { data, error } = await this.supabase
       .from('shopping_items')
       .select('*')
-      .eq('user_id', this.userId)
+      .eq('household_id', this.householdId)
       .eq('completed', true)
       .order('created_at', { ascending: false });
     
@@ -499,20 +832,14 @@ export class ShoppingItemsSupabase implements ShoppingItemsStorage {
       throw error;
     }
     
-    return data.map(item => ({
-      id: item.id,
-      name: item.name,
-      completed: item.completed,
-      category: item.category || 'Other',
-      quantity: item.quantity
-    }));
+    return data.map(toShoppingItem);
   }
 
   async getIncompleteItems(): Promise<ShoppingItem[]> {
     const { data, error } = await this.supabase
       .from('shopping_items')
       .select('*')
-      .eq('user_id', this.userId)
+      .eq('household_id', this.householdId)
       .eq('completed', false)
       .order('created_at', { ascending: false });
     
@@ -521,13 +848,40 @@ export class ShoppingItemsSupabase implements ShoppingItemsStorage {
       throw error;
     }
     
-    return data.map(item => ({
-      id: item.id,
-      name: item.name,
-      completed: item.completed,
-      category: item.category || 'Other',
-      quantity: item.quantity
-    }));
+    return data.map(toShoppingItem);
+  }
+
+  async getStaples(): Promise<ShoppingItem[]> {
+    const { data, error } = await this.supabase
+      .from('shopping_items')
+      .select('*')
+      .eq('household_id', this.householdId)
+      .not('recurrence', 'is', null)
+      .order('name', { ascending: true });
+    
+    if (error) {
+      console.error('Error fetching staples:', error);
+      throw error;
+    }
+    
+    return data.map(toShoppingItem);
+  }
+
+  async getItemsInList(listId: string | null): Promise<ShoppingItem[]> {
+    const query = this.supabase
+      .from('shopping_items')
+      .select('*')
+      .eq('household_id', this.householdId);
+    
+    const { data, error } = await (listId ? query.eq('list_id', listId) : query.is('list_id', null))
+      .order('created_at', { ascending: false });
+    
+    if (error) {
+      console.error('Error fetching shopping list items:', error);
+      throw error;
+    }
+    
+    return data.map(toShoppingItem);
   }
 }
 
@@ -559,7 +913,9 @@ export class MealIdeasSupabase implements MealIdeasStorage {
       dairyFree: idea.dairy_free || false,
       favorite: idea.favorite || false,
       cookingTime: idea.cooking_time || '30 minutes',
-      user_id: idea.user_id
+      user_id: idea.user_id,
+      updatedAt: idea.updated_at,
+      fieldUpdatedAt: idea.field_updated_at || {}
     }));
   }
 
@@ -583,6 +939,8 @@ export class MealIdeasSupabase implements MealIdeasStorage {
       dairy_free: idea.dairyFree || false,
       favorite: idea.favorite || false,
       cooking_time: idea.cookingTime || '30 minutes',
+      updated_at: idea.updatedAt || new Date().toISOString(),
+      field_updated_at: idea.fieldUpdatedAt || {},
       created_at: new Date().toISOString()
     };
     
@@ -611,7 +969,9 @@ export class MealIdeasSupabase implements MealIdeasStorage {
       dairyFree: data.dairy_free || false,
       favorite: data.favorite || false,
       cookingTime: data.cooking_time || '30 minutes',
-      user_id: data.user_id
+      user_id: data.user_id,
+      updatedAt: data.updated_at,
+      fieldUpdatedAt: data.field_updated_at || {}
     };
   }
 
@@ -627,7 +987,9 @@ export class MealIdeasSupabase implements MealIdeasStorage {
       gluten_free: idea.glutenFree || false,
       dairy_free: idea.dairyFree || false,
       favorite: idea.favorite || false,
-      cooking_time: idea.cookingTime || '30 minutes'
+      cooking_time: idea.cookingTime || '30 minutes',
+      updated_at: idea.updatedAt || new Date().toISOString(),
+      field_updated_at: idea.fieldUpdatedAt || {}
     };
     
     const { data, error } = await this.supabase
@@ -658,7 +1020,9 @@ export class MealIdeasSupabase implements MealIdeasStorage {
       dairyFree: data.dairy_free || false,
       favorite: data.favorite || false,
       cookingTime: data.cooking_time || '30 minutes',
-      user_id: data.user_id
+      user_id: data.user_id,
+      updatedAt: data.updated_at,
+      fieldUpdatedAt: data.field_updated_at || {}
     };
   }
 
@@ -703,7 +1067,9 @@ export class MealIdeasSupabase implements MealIdeasStorage {
       dairyFree: idea.dairy_free || false,
       favorite: true,
       cookingTime: idea.cooking_time || '30 minutes',
-      user_id: idea.user_id
+      user_id: idea.user_id,
+      updatedAt: idea.updated_at,
+      fieldUpdatedAt: idea.field_updated_at || {}
     }));
   }
 }
@@ -735,12 +1101,15 @@ export class SettingsSupabase implements SettingsStorage {
       theme: data.theme as 'light' | 'dark' | 'system',
       notifications: data.notifications,
       notificationTiming: data.notification_timing || 3,
+      emailDigest: data.email_digest ?? false,
+      emailDigestFrequency: data.email_digest_frequency || 'weekly',
       dietary: data.dietary || {
         vegetarian: false,
         vegan: false,
         glutenFree: false,
         dairyFree: false
-      }
+      },
+      updatedAt: data.updated_at
     };
   }
 
@@ -764,8 +1133,10 @@ export class SettingsSupabase implements SettingsStorage {
       theme: settings.theme,
       notifications: settings.notifications,
       notification_timing: settings.notificationTiming,
+      email_digest: settings.emailDigest,
+      email_digest_frequency: settings.emailDigestFrequency,
       dietary: settings.dietary,
-      updated_at: new Date().toISOString()
+      updated_at: settings.updatedAt || new Date().toISOString()
     };
     
     if (existingSettings) {
@@ -0,0 +1,425 @@
+import { FreezerItem, ConsumptionEvent, ShoppingItem, MealIdea, UserSettings, SyncMetadata } from '../types';
+import {
+  StorageInterface,
+  FreezerItemsStorage,
+  FreezerItemsLocalStorage,
+  ConsumptionEventsStorage,
+  ConsumptionEventsLocalStorage,
+  ShoppingItemsStorage,
+  ShoppingItemsLocalStorage,
+  MealIdeasStorage,
+  MealIdeasLocalStorage,
+  SettingsStorage,
+  SettingsLocalStorage
+} from './storage';
+import { SyncCollection, enqueueMutation, getQueuedMutations, removeMutation, deferMutation, Mutation } from './mutationQueue';
+import { logger } from "@/lib/logger";
+
+type SyncableItem = { id: string } & SyncMetadata;
+
+// Local providers that can be overwritten wholesale after a pull
+interface LocalCollection<T> extends StorageInterface<T> {
+  replaceItems(items: T[]): Promise<void>;
+}
+
+// Set by the old one-time copy of local data, which this sync layer replaces
+const LEGACY_MIGRATION_FLAG = 'dataAlreadyMigrated';
+
+// Bookkeeping fields that are never compared or merged
+const META_FIELDS = new Set(['id', 'updatedAt', 'fieldUpdatedAt', 'user_id', 'household_id', 'matchedItems']);
+
+const isSameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const latest = (a?: string, b?: string): string | undefined => {
+  if (!a) return b;
+  if (!b) return a;
+  return new Date(a).getTime() >= new Date(b).getTime() ? a : b;
+};
+
+// Offline or the request never reached the server, so the mutation should be retried later
+const isNetworkError = (error: unknown): boolean =>
+  !navigator.onLine || /failed to fetch|network|load failed/i.test((error as Error)?.message || '');
+
+/**
+ * The server refused the change itself, so sending it again can't succeed:
+ * row level security (42501), constraint violations (23xxx), invalid values
+ * (22xxx) and PostgREST request errors (PGRST1xx, PGRST2xx). Expired sessions
+ * (PGRST3xx), server errors and timeouts are worth retrying.
+ */
+const isRejection = (error: unknown): boolean => {
+  const code = (error as { code?: string })?.code || '';
+  return code === '42501' || /^2[23][0-9A-Z]{3}$/.test(code) || /^PGRST[12]\d{2}$/.test(code);
+};
+
+// Wait before replaying a failed mutation again: 30s, 1m, 2m... up to 15 minutes
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 15 * 60 * 1000;
+
+const nextRetry = (mutation: Mutation): Date =>
+  new Date(Date.now() + Math.min(RETRY_BASE_MS * 2 ** (mutation.attempts ?? 0), RETRY_MAX_MS));
+
+const isWaitingToRetry = (mutation: Mutation): boolean =>
+  !!mutation.retryAt && new Date(mutation.retryAt).getTime() > Date.now();
+
+/**
+ * Record the time of every field that differs from the previous version of the item.
+ * New items get every field stamped.
+ */
+export const stampChangedFields = <T extends SyncableItem>(item: T, previous?: T): T => {
+  const now = new Date().toISOString();
+  const fieldUpdatedAt = { ...(previous?.fieldUpdatedAt || item.fieldUpdatedAt || {}) };
+
+  Object.keys(item).forEach(field => {
+    if (META_FIELDS.has(field)) return;
+    if (!previous || !isSameValue(item[field as keyof T], previous[field as keyof T])) {
+      fieldUpdatedAt[field] = now;
+    }
+  });
+
+  return { ...item, updatedAt: now, fieldUpdatedAt };
+};
+
+/**
+ * Merge two versions of the same item field by field: whichever side changed
+ * a field most recently wins. Fields the server has no timestamp for were last
+ * written before sync metadata existed, so any local change wins.
+ */
+export const mergeByField = <T extends SyncableItem>(local: T, remote: T): T => {
+  const localTimes = local.fieldUpdatedAt || {};
+  const remoteTimes = remote.fieldUpdatedAt || {};
+  const merged = { ...remote } as Record<string, unknown>;
+  const fieldUpdatedAt = { ...remoteTimes };
+
+  Object.entries(localTimes).forEach(([field, localTime]) => {
+    const remoteTime = remoteTimes[field];
+    if (!remoteTime || localTime > remoteTime) {
+      merged[field] = local[field as keyof T];
+      fieldUpdatedAt[field] = localTime;
+    }
+  });
+
+  return {
+    ...merged,
+    fieldUpdatedAt,
+    updatedAt: latest(local.updatedAt, remote.updatedAt)
+  } as T;
+};
+
+/**
+ * Offline-first provider: every write goes to the local provider first and is
+ * queued in IndexedDB. sync() replays the queue against the remote provider and
+ * merges the server's copy back into the local one.
+ */
+class SyncedStorage<T extends SyncableItem> implements StorageInterface<T> {
+  constructor(
+    protected local: LocalCollection<T>,
+    private remote: StorageInterface<T> | null,
+    private collection: SyncCollection,
+    private scope: string | null,
+    private onLocalWrite: () => void = () => {}
+  ) {}
+
+  get canSync(): boolean {
+    return this.remote !== null;
+  }
+
+  async getItems(): Promise<T[]> {
+    return this.local.getItems();
+  }
+
+  async addItem(item: T): Promise<T> {
+    const saved = await this.local.addItem(stampChangedFields(item));
+    await this.queue('add', saved.id, saved);
+    return saved;
+  }
+
+  async updateItem(item: T): Promise<T> {
+    const previous = (await this.local.getItems()).find(i => i.id === item.id);
+    const saved = await this.local.updateItem(stampChangedFields(item, previous));
+    await this.queue('update', saved.id, saved);
+    return saved;
+  }
+
+  async deleteItem(id: string): Promise<void> {
+    await this.local.deleteItem(id);
+    await this.queue('delete', id);
+  }
+
+  /**
+   * Queue items that were stored locally before this sync layer existed, so
+   * they reach the server the next time the user is signed in.
+   */
+  async queueUnsyncedItems(): Promise<void> {
+    const items = await this.local.getItems();
+    const unsynced = items.filter(item => !item.fieldUpdatedAt);
+    if (unsynced.length === 0) return;
+
+    // Items the old one-time migration already copied only need stamping
+    const alreadyCopied = this.scope === null && localStorage.getItem(LEGACY_MIGRATION_FLAG) === 'true';
+    const stamped = items.map(item => item.fieldUpdatedAt ? item : stampChangedFields(item));
+    await this.local.replaceItems(stamped);
+
+    if (!alreadyCopied) {
+      for (const item of stamped.filter(i => unsynced.some(u => u.id === i.id))) {
+        await enqueueMutation({ collection: this.collection, type: 'add', itemId: item.id, scope: this.scope, payload: item });
+      }
+      this.onLocalWrite();
+    }
+  }
+
+  // Replay queued mutations and pull the server copy. Throws when the server can't be reached.
+  async sync(): Promise<void> {
+    if (!this.remote) return;
+
+    const remoteItems = await this.remote.getItems();
+    const remoteById = new Map(remoteItems.map(item => [item.id, item]));
+    const rejectedIds = new Set<string>();
+
+    for (const mutation of await this.pendingMutations()) {
+      if (isWaitingToRetry(mutation)) continue;
+
+      try {
+        await this.replay(mutation, remoteById);
+        await removeMutation(mutation);
+      } catch (error) {
+        if (isNetworkError(error)) {
+          throw error;
+        }
+        if (!isRejection(error)) {
+          // Keep it queued and back off; the throw asks for another sync later
+          logger.error(`Retrying ${mutation.type} of ${this.collection} item ${mutation.itemId} later:`, error);
+          await deferMutation(mutation, nextRetry(mutation));
+          throw error;
+        }
+        // The server rejected the change (e.g. a viewer editing), so drop it and put the server copy back
+        logger.error(`Dropping ${mutation.type} of ${this.collection} item ${mutation.itemId}:`, error);
+        await removeMutation(mutation);
+        rejectedIds.add(mutation.itemId);
+      }
+    }
+
+    await this.mergeIntoLocal(remoteById, rejectedIds);
+  }
+
+  private async queue(type: Mutation['type'], itemId: string, payload?: T): Promise<void> {
+    try {
+      await enqueueMutation({ collection: this.collection, type, itemId, scope: this.scope, payload });
+    } catch (error) {
+      // The local write already succeeded; without IndexedDB it just won't reach the server
+      logger.error('Error queueing mutation:', error);
+    }
+    this.onLocalWrite();
+  }
+
+  // Mutations for this household or user; ones made while signed out wait until they are claimed
+  private async pendingMutations(): Promise<Mutation[]> {
+    const mutations = await getQueuedMutations(this.collection);
+    return mutations.filter(m => m.scope === this.scope);
+  }
+
+  private async replay(mutation: Mutation, remoteById: Map<string, T>): Promise<void> {
+    const remote = this.remote!;
+    const current = remoteById.get(mutation.itemId);
+
+    switch (mutation.type) {
+      case 'delete':
+        if (current) {
+          await remote.deleteItem(mutation.itemId);
+          remoteById.delete(mutation.itemId);
+        }
+        break;
+
+      case 'add': {
+        const saved = current
+          ? await remote.updateItem(mergeByField(mutation.payload as T, current))
+          : await remote.addItem(mutation.payload as T);
+        remoteById.set(saved.id, saved);
+        break;
+      }
+
+      case 'update':
+        // Deleted on another device while this one was offline: the delete wins
+        if (!current) break;
+        remoteById.set(current.id, await remote.updateItem(mergeByField(mutation.payload as T, current)));
+        break;
+    }
+  }
+
+  // Rejected items take the server copy as is: merging would keep the rejected fields, whose stamps are newer
+  private async mergeIntoLocal(remoteById: Map<string, T>, rejectedIds: Set<string>): Promise<void> {
+    const localItems = await this.local.getItems();
+    const localById = new Map(localItems.map(item => [item.id, item]));
+    const pendingIds = new Set((await this.pendingMutations()).map(m => m.itemId));
+    const merged: T[] = [];
+
+    remoteById.forEach((remoteItem, id) => {
+      const localItem = localById.get(id);
+      if (rejectedIds.has(id)) {
+        merged.push(remoteItem);
+      } else if (localItem) {
+        merged.push(mergeByField(localItem, remoteItem));
+      } else if (!pendingIds.has(id)) {
+        merged.push(remoteItem);
+      }
+      // Otherwise a local delete is still waiting to be sent
+    });
+
+    // Keep local items whose changes haven't reached the server yet; anything else was deleted elsewhere
+    localItems
+      .filter(item => !remoteById.has(item.id) && pendingIds.has(item.id))
+      .forEach(item => merged.push(item));
+
+    await this.local.replaceItems(merged);
+  }
+}
+
+export class FreezerItemsSyncedStorage extends SyncedStorage<FreezerItem> implements FreezerItemsStorage {
+  constructor(
+    protected local: FreezerItemsLocalStorage,
+    remote: FreezerItemsStorage | null,
+    scope: string | null,
+    onLocalWrite?: () => void
+  ) {
+    super(local, remote, 'freezerItems', scope, onLocalWrite);
+  }
+
+  async getExpiringItems(days: number): Promise<FreezerItem[]> {
+    return this.local.getExpiringItems(days);
+  }
+
+  async getItemsByLocation(location: string): Promise<FreezerItem[]> {
+    return this.local.getItemsByLocation(location);
+  }
+}
+
+export class ConsumptionEventsSyncedStorage extends SyncedStorage<ConsumptionEvent> implements ConsumptionEventsStorage {
+  constructor(
+    protected local: ConsumptionEventsLocalStorage,
+    remote: ConsumptionEventsStorage | null,
+    scope: string | null,
+    onLocalWrite?: () => void
+  ) {
+    super(local, remote, 'consumptionEvents', scope, onLocalWrite);
+  }
+
+  async getEventsForItem(freezerItemId: string): Promise<ConsumptionEvent[]> {
+    return this.local.getEventsForItem(freezerItemId);
+  }
+
+  async getEventsBetween(start: Date, end: Date): Promise<ConsumptionEvent[]> {
+    return this.local.getEventsBetween(start, end);
+  }
+}
+
+export class ShoppingItemsSyncedStorage extends SyncedStorage<ShoppingItem> implements ShoppingItemsStorage {
+  constructor(
+    protected local: ShoppingItemsLocalStorage,
+    remote: ShoppingItemsStorage | null,
+    scope: string | null,
+    onLocalWrite?: () => void
+  ) {
+    super(local, remote, 'shoppingItems', scope, onLocalWrite);
+  }
+
+  async getCompletedItems(): Promise<ShoppingItem[]> {
+    return this.local.getCompletedItems();
+  }
+
+  async getIncompleteItems(): Promise<ShoppingItem[]> {
+    return this.local.getIncompleteItems();
+  }
+
+  async getStaples(): Promise<ShoppingItem[]> {
+    return this.local.getStaples();
+  }
+
+  async getItemsInList(listId: string | null): Promise<ShoppingItem[]> {
+    return this.local.getItemsInList(listId);
+  }
+}
+
+export class MealIdeasSyncedStorage extends SyncedStorage<MealIdea> implements MealIdeasStorage {
+  constructor(
+    protected local: MealIdeasLocalStorage,
+    remote: MealIdeasStorage | null,
+    scope: string | null,
+    onLocalWrite?: () => void
+  ) {
+    super(local, remote, 'mealIdeas', scope, onLocalWrite);
+  }
+
+  async getFavorites(): Promise<MealIdea[]> {
+    return this.local.getFavorites();
+  }
+}
+
+const SETTINGS_ITEM_ID = 'settings';
+
+const isNewer = (a?: string, b?: string): boolean =>
+  !!a && (!b || new Date(a).getTime() > new Date(b).getTime());
+
+// Settings are a single record, so the most recently saved copy wins as a whole
+export class SettingsSyncedStorage implements SettingsStorage {
+  constructor(
+    private local: SettingsLocalStorage,
+    private remote: SettingsStorage | null,
+    private scope: string | null,
+    private onLocalWrite: () => void = () => {}
+  ) {}
+
+  get canSync(): boolean {
+    return this.remote !== null;
+  }
+
+  async getSettings(): Promise<UserSettings | null> {
+    return this.local.getSettings();
+  }
+
+  async saveSettings(settings: UserSettings): Promise<void> {
+    const stamped = { ...settings, updatedAt: new Date().toISOString() };
+    await this.local.saveSettings(stamped);
+
+    try {
+      await enqueueMutation({ collection: 'settings', type: 'update', itemId: SETTINGS_ITEM_ID, scope: this.scope, payload: stamped });
+    } catch (error) {
+      logger.error('Error queueing settings mutation:', error);
+    }
+    this.onLocalWrite();
+  }
+
+  // Queue settings saved before this sync layer existed
+  async queueUnsyncedItems(): Promise<void> {
+    const settings = await this.local.getSettings();
+    if (!settings || settings.updatedAt) return;
+
+    const stamped = { ...settings, updatedAt: new Date().toISOString() };
+    await this.local.saveSettings(stamped);
+
+    if (!(this.scope === null && localStorage.getItem(LEGACY_MIGRATION_FLAG) === 'true')) {
+      await enqueueMutation({ collection: 'settings', type: 'update', itemId: SETTINGS_ITEM_ID, scope: this.scope, payload: stamped });
+      this.onLocalWrite();
+    }
+  }
+
+  async sync(): Promise<void> {
+    if (!this.remote) return;
+
+    let remoteSettings = await this.remote.getSettings();
+    const mutations = (await getQueuedMutations('settings'))
+      .filter(m => m.scope === this.scope);
+
+    for (const mutation of mutations) {
+      const pending = mutation.payload as UserSettings;
+      if (!remoteSettings || isNewer(pending.updatedAt, remoteSettings.updatedAt)) {
+        await this.remote.saveSettings(pending);
+        remoteSettings = pending;
+      }
+      await removeMutation(mutation);
+    }
+
+    const localSettings = await this.local.getSettings();
+    if (remoteSettings && (!localSettings || !isNewer(localSettings.updatedAt, remoteSettings.updatedAt))) {
+      await this.local.saveSettings(remoteSettings);
+    }
+  }
+}
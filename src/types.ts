@@ -1,4 +1,10 @@
-export interface FreezerItem {
+// Sync bookkeeping written by the offline sync layer
+export interface SyncMetadata {
+  updatedAt?: string; // ISO timestamp of the latest change to any field
+  fieldUpdatedAt?: Record<string, string>; // ISO timestamp of the latest change per field
+}
+
+export interface FreezerItem extends SyncMetadata {
   id: string;
   name: string;
   addedDate: Date;
@@ -9,20 +15,66 @@ export interface FreezerItem {
   tags: string[];
   notes: string;
   imageUrl?: string; // Add optional imageUrl field
-  source?: 'text' | 'voice' | 'image' | 'barcode' | 'manual'; // Add source field
+  source?: 'text' | 'voice' | 'image' | 'barcode' | 'receipt' | 'shopping' | 'manual'; // Add source field
+  location?: string; // Freezer or fridge the item is stored in
+  zone?: string; // Optional shelf, drawer or zone within the location
+  restockBelow?: number | null; // Put it on the shopping list when fewer than this many are left
+  thawedAt?: string | null; // ISO timestamp of when it went in the fridge to thaw; expirationDate is then the fridge use-by
   user_id?: string; // Add user_id field for Supabase
+  household_id?: string; // Household that shares this item
 }
 
-export interface ShoppingItem {
+// Why an amount left the freezer
+export type ItemOutcome = 'consumed' | 'discarded' | 'expired';
+
+// One "use some" / "use all" or removal of a freezer item. Item details are copied
+// so the history survives after the item itself is removed.
+export interface ConsumptionEvent extends SyncMetadata {
+  id: string;
+  freezerItemId: string;
+  itemName: string;
+  category: string;
+  itemAddedDate: Date; // When the item went into the freezer
+  amount: number;
+  outcome: ItemOutcome;
+  meal?: string; // Optional meal the item was used for
+  consumedAt: Date;
+  user_id?: string;
+  household_id?: string;
+}
+
+// How a staple comes back onto the shopping list after it's ticked off
+export type ShoppingRecurrence =
+  | { type: 'weekly'; weekday: number } // 0 = Sunday
+  | { type: 'interval'; days: number }
+  | { type: 'lowStock'; freezerItem: string; below: number }; // Freezer count of items named like freezerItem
+
+// Why the app put an item on the shopping list: freezer stock fell below a restock threshold
+export interface ShoppingItemOrigin {
+  type: 'restock';
+  freezerItem: string; // Name of the freezer item that ran low
+  remaining: number;
+  below: number;
+  scope: 'item' | 'name'; // Threshold set on that one item, or a restock rule for the name
+  createdAt: string;
+}
+
+export interface ShoppingItem extends SyncMetadata {
   id: string;
   name: string;
   completed: boolean;
   category: string;
   quantity?: string;
+  recurrence?: ShoppingRecurrence | null; // Makes the item a staple
+  completedAt?: string | null; // ISO timestamp of when the item was last ticked off
+  origin?: ShoppingItemOrigin | null; // Set when the app added the item by itself
+  store?: string | null; // Store the item is bought at; null for any store
+  listId?: string | null; // Named list the item is on; null for the main list
   user_id?: string; // Add user_id field for Supabase
+  household_id?: string; // Household that shares this item
 }
 
-export interface MealIdea {
+export interface MealIdea extends SyncMetadata {
   id: string;
   title: string;
   description: string;
@@ -38,14 +90,191 @@ export interface MealIdea {
   user_id?: string; // Add user_id field for Supabase
 }
 
+// Some of a freezer item set aside for a planned meal
+export interface MealReservation {
+  freezerItemId: string;
+  itemName: string; // Copied so the plan still reads well once the item is used up
+  quantity: number;
+}
+
+// A meal placed on a day in the planner, from a meal idea or typed in
+export interface PlannedMeal {
+  id: string;
+  date: string; // YYYY-MM-DD, the day it's cooked
+  title: string;
+  mealIdeaId: string | null;
+  reservations: MealReservation[];
+  household_id?: string;
+}
+
+// A push reminder to take a reserved item out of the freezer ahead of its meal
+export interface ThawReminder {
+  freezerItemId: string;
+  itemName: string;
+  remindOn: string; // YYYY-MM-DD
+}
+
+// A household's "restock when below N" threshold for everything with a name
+export interface RestockRule {
+  id: string;
+  name: string; // Matches freezer items whose name contains it
+  below: number;
+  quantity: number | null; // How many to buy; null tops the freezer back up to the threshold
+  category: string;
+  household_id?: string;
+}
+
+// A named shopping list, e.g. for one big shop; the main list has no record
+export interface ShoppingList {
+  id: string;
+  name: string;
+  household_id?: string;
+}
+
+// A link that lets someone without an account see a list and tick items off
+export interface ShoppingListShare {
+  id: string;
+  listId: string | null;
+  token: string;
+  expiresAt: Date | null; // null when the link doesn't expire
+  createdAt: Date;
+}
+
+// What a shared list link shows: only what the shopper needs
+export type SharedShoppingItem = Pick<ShoppingItem, 'id' | 'name' | 'category' | 'quantity' | 'completed'>;
+
+export interface SharedShoppingList {
+  name: string;
+  items: SharedShoppingItem[];
+  expiresAt: string | null;
+}
+
+// A store and the order its aisles are walked in, by shopping list category
+export interface StoreLayout {
+  id: string;
+  name: string;
+  categoryOrder: string[];
+  household_id?: string;
+}
+
+// A product resolved from a scanned barcode by the scan-barcode edge function
+export interface Product {
+  barcode: string;
+  name: string;
+  brand: string;
+  size: string;
+  category: string;
+  imageUrl: string | null;
+  source: string;
+}
+
+export interface BarcodeLookup {
+  // Brand, name and size on one line, ready for parseItemText
+  productName: string;
+  product: Product | null;
+}
+
+// A household's own name for a barcode, checked before any product lookup
+export interface BarcodeMapping {
+  id: string;
+  barcode: string;
+  name: string;
+  size: string;
+  category: string;
+  shelfLifeDays: number | null; // Freezer life for new items; null falls back to FoodKeeper
+  household_id?: string;
+}
+
+// One product collected in a batch scan, editable before it goes into the freezer
+export interface ScannedItem {
+  barcode: string;
+  name: string;
+  size: string;
+  category: string;
+  quantity: number;
+  shelfLifeDays: number | null;
+  found: boolean; // False when no mapping or product lookup knew the barcode
+}
+
+// A freezer product read off a receipt by the scan-receipt edge function
+export interface ReceiptLine {
+  text: string; // The line as printed
+  name: string; // Abbreviations written out
+  quantity: number;
+}
+
+export interface ReceiptScan {
+  items: ReceiptLine[];
+  skipped: string[]; // Lines that weren't food, or weren't for the freezer
+  source: string;
+}
+
+// A receipt product on the import checklist
+export interface ReceiptItem {
+  id: string;
+  text: string;
+  name: string;
+  quantity: number;
+  category: string;
+  expirationDate: Date;
+  selected: boolean;
+  shoppingItemId: string | null; // Unticked shopping list item this product matches
+}
+
+// Where a detected item sits in a photo, as fractions of its width and height
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One item the recognize-image edge function found in a photo
+export interface ImageDetection {
+  id: string;
+  text: string; // "[Item name] [Size] #[category]", ready for parseItemText
+  confidence: number; // 0 to 1
+  box: BoundingBox | null; // Null when the model couldn't place the item
+}
+
+export type EmailDigestFrequency = 'daily' | 'weekly';
+
 export interface UserSettings {
   theme: 'light' | 'dark' | 'system';
   notifications: boolean;
   notificationTiming: number; // Days before expiration to notify (3, 7, 14, 30)
+  emailDigest: boolean; // Opt-in email summary of expiring and expired items
+  emailDigestFrequency: EmailDigestFrequency;
   dietary: {
     vegetarian: boolean;
     vegan: boolean;
     glutenFree: boolean;
     dairyFree: boolean;
   }
-}
\ No newline at end of file
+  updatedAt?: string; // ISO timestamp of the latest change, used to resolve sync conflicts
+}
+
+export type HouseholdRole = 'owner' | 'member' | 'viewer';
+
+export interface Household {
+  id: string;
+  name: string;
+  role: HouseholdRole; // Current user's role in this household
+}
+
+export interface HouseholdMember {
+  id: string;
+  householdId: string;
+  userId: string;
+  email: string;
+  role: HouseholdRole;
+}
+
+export interface HouseholdInvitation {
+  id: string;
+  householdId: string;
+  email: string;
+  role: Exclude<HouseholdRole, 'owner'>;
+  token: string;
+  expiresAt: Date;
+}
@@ -0,0 +1,78 @@
+/**
+ * Group the shopping list by store section, in the order a store's aisles are walked
+ */
+import { ShoppingItem, StoreLayout } from '../types';
+
+// Produce first and frozen food last, as most stores are laid out
+export const DEFAULT_AISLE_ORDER = [
+  'Fruits & Vegetables',
+  'Bakery & Bread',
+  'Meat & Poultry',
+  'Seafood',
+  'Dairy & Alternatives',
+  'Herbs & Seasonings',
+  'Soups & Broths',
+  'Prepared Meals',
+  'Ready-to-Eat',
+  'Other'
+];
+
+export interface AisleGroup<T extends Pick<ShoppingItem, 'category' | 'completed'> = ShoppingItem> {
+  category: string;
+  items: T[];
+}
+
+const sameStore = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const findStoreLayout = (layouts: StoreLayout[], store: string): StoreLayout | undefined =>
+  layouts.find(layout => sameStore(layout.name, store));
+
+/**
+ * A store's aisle order, falling back to the default one. Categories the order
+ * doesn't mention yet (custom ones, or ones added since) go at the end
+ */
+export const getAisleOrder = (layout: StoreLayout | undefined, categories: string[]): string[] => {
+  const order = layout?.categoryOrder.length ? layout.categoryOrder : DEFAULT_AISLE_ORDER;
+  const missing = categories
+    .filter(category => !order.includes(category))
+    .sort((a, b) => a.localeCompare(b));
+  return [...order, ...missing];
+};
+
+// Items to show at a store: the ones for that store and the ones for any store
+export const isForStore = (item: ShoppingItem, store: string): boolean =>
+  !store || !item.store || sameStore(item.store, store);
+
+/**
+ * Group items by category in aisle order. Within a section, items still to get
+ * come before ticked-off ones and otherwise keep the order they were added in
+ */
+export const groupByAisle = <T extends Pick<ShoppingItem, 'category' | 'completed'>>(items: T[], order: string[]): AisleGroup<T>[] => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const category = item.category || 'Other';
+    groups.set(category, [...(groups.get(category) || []), item]);
+  }
+
+  const position = (category: string) => {
+    const index = order.indexOf(category);
+    return index === -1 ? order.length : index;
+  };
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => position(a) - position(b) || a.localeCompare(b))
+    .map(([category, groupItems]) => ({
+      category,
+      items: [...groupItems].sort((a, b) => Number(a.completed) - Number(b.completed))
+    }));
+};
+
+// Move one section to another place in the aisle order
+export const moveCategory = (order: string[], from: number, to: number): string[] => {
+  if (from === to || from < 0 || to < 0 || from >= order.length || to >= order.length) return order;
+
+  const next = [...order];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
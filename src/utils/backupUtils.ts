@@ -0,0 +1,509 @@
+import { v4 as uuidv4 } from 'uuid';
+import { FreezerItem, ShoppingItem, ShoppingItemOrigin, ShoppingList, ShoppingRecurrence, MealIdea, UserSettings } from '../types';
+
+/**
+ * Utility functions for exporting and importing app data
+ */
+
+export const BACKUP_VERSION = 1;
+
+export type BackupCollection = 'freezerItems' | 'shoppingItems' | 'mealIdeas';
+
+export interface BackupData {
+  app: 'frostie';
+  version: number;
+  exportedAt: string;
+  freezerItems: FreezerItem[];
+  shoppingItems: ShoppingItem[];
+  mealIdeas: MealIdea[];
+  settings: UserSettings | null;
+}
+
+// Parsed file contents before validation
+export interface RawBackup {
+  freezerItems: unknown[];
+  shoppingItems: unknown[];
+  mealIdeas: unknown[];
+  settings?: unknown;
+}
+
+export interface ImportIssue {
+  collection: BackupCollection | 'settings';
+  row: number; // 1-based position in the file
+  message: string;
+}
+
+export interface CollectionPlan<T> {
+  items: T[]; // Valid records that aren't in the app yet
+  duplicates: T[]; // Valid records that match an existing one or an earlier row
+}
+
+export interface ImportPlan {
+  freezerItems: CollectionPlan<FreezerItem>;
+  shoppingItems: CollectionPlan<ShoppingItem>;
+  mealIdeas: CollectionPlan<MealIdea>;
+  settings: UserSettings | null;
+  issues: ImportIssue[];
+  idMap: Record<string, string>; // Original ID -> new ID for every imported record
+}
+
+export interface ExistingData {
+  freezerItems: FreezerItem[];
+  shoppingItems: ShoppingItem[];
+  mealIdeas: MealIdea[];
+  shoppingLists?: ShoppingList[]; // Named lists imported items can stay on
+}
+
+export const collectionLabels: Record<BackupCollection, string> = {
+  freezerItems: 'Freezer items',
+  shoppingItems: 'Shopping items',
+  mealIdeas: 'Meal ideas'
+};
+
+const csvColumns: Record<BackupCollection, string[]> = {
+  freezerItems: ['id', 'name', 'category', 'quantity', 'size', 'addedDate', 'expirationDate', 'location', 'zone', 'restockBelow', 'thawedAt', 'tags', 'notes', 'imageUrl', 'source'],
+  shoppingItems: ['id', 'name', 'category', 'quantity', 'store', 'listId', 'completed'],
+  mealIdeas: ['id', 'title', 'description', 'ingredients', 'matchedItems', 'cookingTime', 'imageUrl', 'vegetarian', 'vegan', 'glutenFree', 'dairyFree', 'favorite']
+};
+
+const LIST_SEPARATOR = '; ';
+const THEMES = ['light', 'dark', 'system'];
+const NOTIFICATION_TIMINGS = [3, 7, 14, 30];
+const SOURCES = ['text', 'voice', 'image', 'barcode', 'receipt', 'shopping', 'manual'];
+
+// ---- Export ----
+
+export const createBackup = (
+  data: ExistingData,
+  settings: UserSettings | null,
+  now: Date = new Date()
+): BackupData => ({
+  app: 'frostie',
+  version: BACKUP_VERSION,
+  exportedAt: now.toISOString(),
+  freezerItems: data.freezerItems,
+  shoppingItems: data.shoppingItems,
+  mealIdeas: data.mealIdeas,
+  settings
+});
+
+export const backupToJson = (backup: BackupData): string => JSON.stringify(backup, null, 2);
+
+const toDateOnly = (date: Date): string => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const escapeCsvValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvCell = (value: unknown): string => {
+  if (Array.isArray(value)) return escapeCsvValue(value.join(LIST_SEPARATOR));
+  if (value instanceof Date) return escapeCsvValue(toDateOnly(value));
+  return escapeCsvValue(value);
+};
+
+// One CSV per collection; dates are written as YYYY-MM-DD and lists joined with "; "
+export const collectionToCsv = (collection: BackupCollection, items: object[]): string => {
+  const columns = csvColumns[collection];
+  const rows = items.map(item => {
+    const record = item as Record<string, unknown>;
+    return columns.map(column => {
+      const value = record[column];
+      // Dates come back from storage as Date objects or ISO strings
+      if (column.endsWith('Date') && value) return toCsvCell(new Date(value as string));
+      return toCsvCell(value);
+    }).join(',');
+  });
+  return [columns.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+// ---- Parsing ----
+
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(r => r.some(value => value.trim() !== ''));
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return body.map(values =>
+    Object.fromEntries(columns.map((column, index) => [column, values[index] ?? '']))
+  );
+};
+
+// Work out which collection a CSV holds from its columns
+const detectCsvCollection = (columns: string[]): BackupCollection | null => {
+  if (columns.includes('title') && columns.includes('ingredients')) return 'mealIdeas';
+  if (columns.includes('expirationDate')) return 'freezerItems';
+  if (columns.includes('name') && columns.includes('completed')) return 'shoppingItems';
+  return null;
+};
+
+// Read a JSON backup or a CSV export of one collection
+export const parseBackupFile = (fileName: string, text: string): RawBackup => {
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[{[]/.test(text);
+
+  if (isJson) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('The file is not a Frostie backup');
+    }
+
+    const data = parsed as Record<string, unknown>;
+    if (typeof data.version === 'number' && data.version > BACKUP_VERSION) {
+      throw new Error('This backup was made by a newer version of Frostie');
+    }
+
+    const asArray = (value: unknown) => (Array.isArray(value) ? value : []);
+    const raw: RawBackup = {
+      freezerItems: asArray(data.freezerItems),
+      shoppingItems: asArray(data.shoppingItems),
+      mealIdeas: asArray(data.mealIdeas),
+      settings: data.settings ?? undefined
+    };
+
+    const isEmpty = raw.freezerItems.length + raw.shoppingItems.length + raw.mealIdeas.length === 0 && !raw.settings;
+    if (isEmpty && data.app !== 'frostie') {
+      throw new Error('The file is not a Frostie backup');
+    }
+    return raw;
+  }
+
+  const rows = parseCsv(text);
+  const collection = detectCsvCollection(rows.length > 0 ? Object.keys(rows[0]) : []);
+  if (!collection) {
+    throw new Error('Could not tell whether the CSV holds freezer items, shopping items or meal ideas');
+  }
+
+  return { freezerItems: [], shoppingItems: [], mealIdeas: [], [collection]: rows };
+};
+
+// ---- Validation ----
+
+type RawRecord = Record<string, unknown>;
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+const readString = (value: unknown, fallback = ''): string =>
+  isBlank(value) ? fallback : String(value).trim();
+
+const readBoolean = (value: unknown, fallback = false): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (isBlank(value)) return fallback;
+  return ['true', 'yes', 'y', '1', 'x'].includes(String(value).trim().toLowerCase());
+};
+
+const readNumber = (value: unknown): number | null => {
+  if (isBlank(value)) return null;
+  const parsed = typeof value === 'number' ? value : Number(String(value).trim());
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const readList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(entry => String(entry).trim()).filter(Boolean);
+  if (isBlank(value)) return [];
+  return String(value).split(/[;|]/).map(entry => entry.trim()).filter(Boolean);
+};
+
+// Plain YYYY-MM-DD dates (as written to CSV) are read as local midnight
+const readDate = (value: unknown): Date | null => {
+  if (isBlank(value)) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+
+  const text = String(value).trim();
+  const dateOnly = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = dateOnly
+    ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+    : new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Staple schedules are objects in JSON backups; anything unrecognised makes a one-off item
+const readRecurrence = (value: unknown): ShoppingRecurrence | null => {
+  if (isBlank(value) || typeof value !== 'object') return null;
+
+  const recurrence = value as Record<string, unknown>;
+  const weekday = readNumber(recurrence.weekday);
+  const days = readNumber(recurrence.days);
+  const below = readNumber(recurrence.below);
+  const freezerItem = readString(recurrence.freezerItem);
+
+  if (recurrence.type === 'weekly' && weekday !== null && weekday >= 0 && weekday <= 6) {
+    return { type: 'weekly', weekday: Math.floor(weekday) };
+  }
+  if (recurrence.type === 'interval' && days !== null && days >= 1) {
+    return { type: 'interval', days: Math.floor(days) };
+  }
+  if (recurrence.type === 'lowStock' && freezerItem && below !== null && below >= 1) {
+    return { type: 'lowStock', freezerItem, below: Math.floor(below) };
+  }
+  return null;
+};
+
+// Restock items remember which freezer item ran low; anything else was added by hand
+const readOrigin = (value: unknown): ShoppingItemOrigin | null => {
+  if (isBlank(value) || typeof value !== 'object') return null;
+
+  const origin = value as Record<string, unknown>;
+  const freezerItem = readString(origin.freezerItem);
+  const remaining = readNumber(origin.remaining);
+  const below = readNumber(origin.below);
+  const createdAt = readDate(origin.createdAt);
+
+  if (origin.type !== 'restock' || !freezerItem || remaining === null || below === null || !createdAt) return null;
+  return {
+    type: 'restock',
+    freezerItem,
+    remaining,
+    below,
+    scope: origin.scope === 'name' ? 'name' : 'item',
+    createdAt: createdAt.toISOString()
+  };
+};
+
+type Validated<T> = { item: T } | { error: string };
+
+const validateFreezerItem = (raw: RawRecord): Validated<FreezerItem> => {
+  const name = readString(raw.name);
+  if (!name) return { error: 'Missing name' };
+
+  const expirationDate = readDate(raw.expirationDate);
+  if (!expirationDate) return { error: `"${name}" has no valid expiration date` };
+
+  const addedDate = isBlank(raw.addedDate) ? new Date() : readDate(raw.addedDate);
+  if (!addedDate) return { error: `"${name}" has an invalid added date` };
+
+  const quantity = isBlank(raw.quantity) ? 1 : readNumber(raw.quantity);
+  if (quantity === null || quantity <= 0) return { error: `"${name}" has an invalid quantity` };
+
+  const source = readString(raw.source);
+  const restockBelow = readNumber(raw.restockBelow);
+
+  return {
+    item: {
+      id: readString(raw.id),
+      name,
+      addedDate,
+      expirationDate,
+      category: readString(raw.category, 'Other'),
+      quantity,
+      size: readString(raw.size),
+      tags: readList(raw.tags),
+      notes: readString(raw.notes),
+      imageUrl: readString(raw.imageUrl) || undefined,
+      source: SOURCES.includes(source) ? source as FreezerItem['source'] : 'manual',
+      location: readString(raw.location) || undefined,
+      zone: readString(raw.zone) || undefined,
+      restockBelow: restockBelow !== null && restockBelow >= 1 ? Math.floor(restockBelow) : null,
+      thawedAt: readDate(raw.thawedAt)?.toISOString() || null
+    }
+  };
+};
+
+const validateShoppingItem = (raw: RawRecord): Validated<ShoppingItem> => {
+  const name = readString(raw.name);
+  if (!name) return { error: 'Missing name' };
+
+  return {
+    item: {
+      id: readString(raw.id),
+      name,
+      completed: readBoolean(raw.completed),
+      category: readString(raw.category, 'Other'),
+      quantity: readString(raw.quantity) || undefined,
+      recurrence: readRecurrence(raw.recurrence),
+      completedAt: readDate(raw.completedAt)?.toISOString() || null,
+      origin: readOrigin(raw.origin),
+      store: readString(raw.store) || null,
+      listId: readString(raw.listId) || null
+    }
+  };
+};
+
+const validateMealIdea = (raw: RawRecord): Validated<MealIdea> => {
+  const title = readString(raw.title);
+  if (!title) return { error: 'Missing title' };
+
+  return {
+    item: {
+      id: readString(raw.id),
+      title,
+      description: readString(raw.description),
+      ingredients: readList(raw.ingredients),
+      matchedItems: readList(raw.matchedItems),
+      cookingTime: readString(raw.cookingTime, '30 minutes'),
+      imageUrl: readString(raw.imageUrl),
+      vegetarian: readBoolean(raw.vegetarian),
+      vegan: readBoolean(raw.vegan),
+      glutenFree: readBoolean(raw.glutenFree),
+      dairyFree: readBoolean(raw.dairyFree),
+      favorite: readBoolean(raw.favorite)
+    }
+  };
+};
+
+// Settings are merged over the current ones so a partial or older backup still imports
+const validateSettings = (raw: unknown, current: UserSettings): Validated<UserSettings> => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { error: 'Settings are not an object' };
+  const data = raw as RawRecord;
+  const dietary = (data.dietary && typeof data.dietary === 'object' ? data.dietary : {}) as RawRecord;
+  const timing = readNumber(data.notificationTiming);
+  const theme = readString(data.theme);
+  const frequency = readString(data.emailDigestFrequency);
+
+  return {
+    item: {
+      theme: THEMES.includes(theme) ? theme as UserSettings['theme'] : current.theme,
+      notifications: readBoolean(data.notifications, current.notifications),
+      notificationTiming: timing !== null && NOTIFICATION_TIMINGS.includes(timing) ? timing : current.notificationTiming,
+      emailDigest: readBoolean(data.emailDigest, current.emailDigest),
+      emailDigestFrequency: frequency === 'daily' || frequency === 'weekly' ? frequency : current.emailDigestFrequency,
+      dietary: {
+        vegetarian: readBoolean(dietary.vegetarian, current.dietary.vegetarian),
+        vegan: readBoolean(dietary.vegan, current.dietary.vegan),
+        glutenFree: readBoolean(dietary.glutenFree, current.dietary.glutenFree),
+        dairyFree: readBoolean(dietary.dairyFree, current.dietary.dairyFree)
+      }
+    }
+  };
+};
+
+// ---- Duplicate detection ----
+
+const normalize = (value: string | undefined) => (value || '').trim().toLowerCase();
+
+// Same item added again, not just another pack of the same thing: name, expiry day and location must match
+const freezerItemKey = (item: FreezerItem) =>
+  [normalize(item.name), toDateOnly(item.expirationDate), normalize(item.location)].join('|');
+
+const shoppingItemKey = (item: ShoppingItem) => normalize(item.name);
+
+const mealIdeaKey = (item: MealIdea) => normalize(item.title);
+
+// ---- Import plan ----
+
+const planCollection = <T extends { id: string }>(
+  collection: BackupCollection,
+  rawItems: unknown[],
+  existing: T[],
+  validate: (raw: RawRecord) => Validated<T>,
+  keyOf: (item: T) => string,
+  issues: ImportIssue[],
+  idMap: Record<string, string>
+): CollectionPlan<T> => {
+  const existingIds = new Set(existing.map(item => item.id));
+  const seenKeys = new Set(existing.map(keyOf));
+  const plan: CollectionPlan<T> = { items: [], duplicates: [] };
+
+  rawItems.forEach((raw, index) => {
+    if (!raw || typeof raw !== 'object') {
+      issues.push({ collection, row: index + 1, message: 'Not a record' });
+      return;
+    }
+
+    const result = validate(raw as RawRecord);
+    if ('error' in result) {
+      issues.push({ collection, row: index + 1, message: result.error });
+      return;
+    }
+
+    const originalId = result.item.id;
+    const key = keyOf(result.item);
+    const isDuplicate = (originalId && existingIds.has(originalId)) || seenKeys.has(key);
+    seenKeys.add(key);
+
+    // Every imported record gets a fresh ID so a backup can be restored next to the
+    // data it came from, or into another account, without colliding
+    const newId = uuidv4();
+    if (originalId) idMap[originalId] = newId;
+
+    const item = { ...result.item, id: newId };
+    if (isDuplicate) {
+      plan.duplicates.push(item);
+    } else {
+      plan.items.push(item);
+    }
+  });
+
+  return plan;
+};
+
+export const planImport = (raw: RawBackup, existing: ExistingData, currentSettings: UserSettings): ImportPlan => {
+  const issues: ImportIssue[] = [];
+  const idMap: Record<string, string> = {};
+
+  let settings: UserSettings | null = null;
+  if (raw.settings !== undefined) {
+    const result = validateSettings(raw.settings, currentSettings);
+    if ('error' in result) {
+      issues.push({ collection: 'settings', row: 1, message: result.error });
+    } else {
+      settings = result.item;
+    }
+  }
+
+  // Items from a list this household doesn't have go on the main list
+  const listIds = new Set((existing.shoppingLists || []).map(list => list.id));
+  const shoppingItems = planCollection('shoppingItems', raw.shoppingItems, existing.shoppingItems, validateShoppingItem, shoppingItemKey, issues, idMap);
+  const keepList = (item: ShoppingItem): ShoppingItem =>
+    item.listId && !listIds.has(item.listId) ? { ...item, listId: null } : item;
+
+  return {
+    freezerItems: planCollection('freezerItems', raw.freezerItems, existing.freezerItems, validateFreezerItem, freezerItemKey, issues, idMap),
+    shoppingItems: {
+      items: shoppingItems.items.map(keepList),
+      duplicates: shoppingItems.duplicates.map(keepList)
+    },
+    mealIdeas: planCollection('mealIdeas', raw.mealIdeas, existing.mealIdeas, validateMealIdea, mealIdeaKey, issues, idMap),
+    settings,
+    issues,
+    idMap
+  };
+};
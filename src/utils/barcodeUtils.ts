@@ -286,4 +286,31 @@ export const areSimilarBarcodes = (barcode1: string, barcode2: string): boolean
   
   // For non-numeric barcodes, require exact match for now
   return false;
-}
\ No newline at end of file
+}
+
+/**
+ * Finds the saved mapping for a scanned barcode, allowing for partial or misread scans
+ * @param {string} barcode The scanned barcode
+ * @param {T[]} mappings Saved mappings to search
+ * @returns {T | null} The exact match, else the match for the repaired barcode, else the
+ * only mapping similar to the scan; null if there is none or the near misses are ambiguous
+ */
+export const findBarcodeMapping = <T extends { barcode: string }>(barcode: string, mappings: T[]): T | null => {
+  if (!barcode || mappings.length === 0) {
+    return null;
+  }
+  
+  const exact = mappings.find(mapping => mapping.barcode === barcode);
+  if (exact) {
+    return exact;
+  }
+  
+  const repaired = attemptBarcodeRepair(barcode);
+  const repairedMatch = repaired ? mappings.find(mapping => mapping.barcode === repaired) : undefined;
+  if (repairedMatch) {
+    return repairedMatch;
+  }
+  
+  const similar = mappings.filter(mapping => areSimilarBarcodes(barcode, mapping.barcode));
+  return similar.length === 1 ? similar[0] : null;
+}
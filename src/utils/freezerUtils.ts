@@ -1,4 +1,5 @@
 import { FreezerItem } from '../types';
+import { getThawedUseBy } from '../data/thawing';
 
 /**
  * Utility functions for freezer items
@@ -28,6 +29,17 @@ export const getDaysUntilExpiration = (item: FreezerItem): number => {
   return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 };
 
+// Put an item in the fridge to thaw: from now it keeps for days, not months
+export const markAsThawing = (item: FreezerItem, now: Date = new Date()): FreezerItem => {
+  const useBy = getThawedUseBy(item, now);
+  const expirationDate = new Date(item.expirationDate);
+  return {
+    ...item,
+    thawedAt: now.toISOString(),
+    expirationDate: useBy < expirationDate ? useBy : expirationDate
+  };
+};
+
 // Format date for display
 export const formatDate = (date: Date): string => {
   if (!(date instanceof Date)) {
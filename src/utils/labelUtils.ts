@@ -0,0 +1,245 @@
+import QRCode from 'qrcode';
+import { FreezerItem } from '../types';
+import { formatDate } from './freezerUtils';
+
+/**
+ * Utility functions for printable freezer labels
+ */
+
+export type LabelLayoutId = 'avery-5160' | 'avery-5163' | 'avery-l7160' | 'avery-l7163' | 'thermal-57x32';
+
+// All measurements in millimetres
+export interface LabelLayout {
+  id: LabelLayoutId;
+  name: string;
+  description: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  columnGap: number;
+  rowGap: number;
+}
+
+const INCH = 25.4;
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  {
+    id: 'avery-5160',
+    name: 'Avery 5160',
+    description: 'US Letter, 30 per sheet, 2⅝ × 1 in',
+    pageWidth: 8.5 * INCH,
+    pageHeight: 11 * INCH,
+    columns: 3,
+    rows: 10,
+    labelWidth: 2.625 * INCH,
+    labelHeight: 1 * INCH,
+    marginTop: 0.5 * INCH,
+    marginLeft: 0.1875 * INCH,
+    columnGap: 0.125 * INCH,
+    rowGap: 0
+  },
+  {
+    id: 'avery-5163',
+    name: 'Avery 5163',
+    description: 'US Letter, 10 per sheet, 4 × 2 in',
+    pageWidth: 8.5 * INCH,
+    pageHeight: 11 * INCH,
+    columns: 2,
+    rows: 5,
+    labelWidth: 4 * INCH,
+    labelHeight: 2 * INCH,
+    marginTop: 0.5 * INCH,
+    marginLeft: 0.15625 * INCH,
+    columnGap: 0.1875 * INCH,
+    rowGap: 0
+  },
+  {
+    id: 'avery-l7160',
+    name: 'Avery L7160',
+    description: 'A4, 21 per sheet, 63.5 × 38.1 mm',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 7.2,
+    columnGap: 2.5,
+    rowGap: 0
+  },
+  {
+    id: 'avery-l7163',
+    name: 'Avery L7163',
+    description: 'A4, 14 per sheet, 99.1 × 38.1 mm',
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 2,
+    rows: 7,
+    labelWidth: 99.1,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 4.65,
+    columnGap: 2.5,
+    rowGap: 0
+  },
+  {
+    id: 'thermal-57x32',
+    name: 'Thermal 57 × 32 mm',
+    description: 'One label per page for Dymo, Zebra and similar printers',
+    pageWidth: 57,
+    pageHeight: 32,
+    columns: 1,
+    rows: 1,
+    labelWidth: 57,
+    labelHeight: 32,
+    marginTop: 0,
+    marginLeft: 0,
+    columnGap: 0,
+    rowGap: 0
+  }
+];
+
+export const DEFAULT_LABEL_LAYOUT: LabelLayoutId = 'avery-5160';
+
+export const getLabelLayout = (id: LabelLayoutId): LabelLayout =>
+  LABEL_LAYOUTS.find(layout => layout.id === id) || LABEL_LAYOUTS[0];
+
+export const getLabelsPerPage = (layout: LabelLayout): number => layout.columns * layout.rows;
+
+// Label QR codes link to the item on the freezer page, so any phone camera can open
+// them as well as the in-app scanner
+export const getItemLabelUrl = (itemId: string, origin: string = window.location.origin): string =>
+  `${origin}/freezer?item=${encodeURIComponent(itemId)}`;
+
+// The item ID from a scanned label, or null if the code isn't a Frostie label
+export const parseItemLabel = (text: string): string | null => {
+  try {
+    const url = new URL(text.trim());
+    if (url.pathname !== '/freezer') return null;
+    return url.searchParams.get('item');
+  } catch {
+    return null;
+  }
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const renderLabel = (item: FreezerItem, qrDataUrl: string): string => `
+  <div class="label">
+    <img class="qr" src="${qrDataUrl}" alt="" />
+    <div class="details">
+      <div class="name">${escapeHtml(item.name)}${item.size ? ` <span class="size">${escapeHtml(item.size)}</span>` : ''}</div>
+      <div class="date">Added ${escapeHtml(formatDate(item.addedDate))}</div>
+      <div class="date expires">Use by ${escapeHtml(formatDate(item.expirationDate))}</div>
+    </div>
+  </div>`;
+
+// A standalone HTML document with one page per sheet; `skip` leaves the first labels
+// blank so a partly used sheet can go back through the printer
+export const renderLabelSheets = async (
+  items: FreezerItem[],
+  layout: LabelLayout,
+  skip: number = 0
+): Promise<string> => {
+  const qrCodes = await Promise.all(
+    items.map(item => QRCode.toDataURL(getItemLabelUrl(item.id), { margin: 0, errorCorrectionLevel: 'M', width: 256 }))
+  );
+
+  const cells = [
+    ...Array.from({ length: skip }, () => '<div class="label empty"></div>'),
+    ...items.map((item, index) => renderLabel(item, qrCodes[index]))
+  ];
+
+  const perPage = getLabelsPerPage(layout);
+  const pages: string[] = [];
+  for (let i = 0; i < cells.length; i += perPage) {
+    pages.push(`<section class="sheet">${cells.slice(i, i + perPage).join('')}</section>`);
+  }
+
+  // Scale text with the label so small and large layouts both stay readable
+  const qrSize = Math.min(layout.labelHeight - 4, layout.labelWidth / 2.5);
+  const fontSize = Math.max(6, Math.min(12, layout.labelHeight / 3.2));
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Frostie labels</title>
+  <style>
+    @page { size: ${layout.pageWidth}mm ${layout.pageHeight}mm; margin: 0; }
+    * { box-sizing: border-box; }
+    html, body { margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #000; }
+    .sheet {
+      width: ${layout.pageWidth}mm;
+      height: ${layout.pageHeight}mm;
+      padding: ${layout.marginTop}mm 0 0 ${layout.marginLeft}mm;
+      display: grid;
+      grid-template-columns: repeat(${layout.columns}, ${layout.labelWidth}mm);
+      grid-auto-rows: ${layout.labelHeight}mm;
+      column-gap: ${layout.columnGap}mm;
+      row-gap: ${layout.rowGap}mm;
+      page-break-after: always;
+      break-after: page;
+      overflow: hidden;
+    }
+    .sheet:last-child { page-break-after: auto; break-after: auto; }
+    .label {
+      display: flex;
+      align-items: center;
+      gap: 2mm;
+      padding: 2mm;
+      overflow: hidden;
+      font-size: ${fontSize.toFixed(1)}pt;
+      line-height: 1.2;
+    }
+    .qr { width: ${qrSize.toFixed(1)}mm; height: ${qrSize.toFixed(1)}mm; flex-shrink: 0; }
+    .details { min-width: 0; }
+    .name { font-weight: 700; overflow: hidden; display: -webkit-box; -webkit-line-clamp: 2; -webkit-box-orient: vertical; }
+    .size { font-weight: 400; }
+    .date { font-size: 0.85em; white-space: nowrap; }
+    .expires { font-weight: 700; }
+  </style>
+</head>
+<body>${pages.join('')}</body>
+</html>`;
+};
+
+// Print through a hidden iframe so the app's own styles don't leak onto the labels
+export const printLabelSheets = (html: string): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const iframe = document.createElement('iframe');
+    iframe.setAttribute('aria-hidden', 'true');
+    Object.assign(iframe.style, { position: 'fixed', right: '0', bottom: '0', width: '0', height: '0', border: '0' });
+
+    iframe.onload = () => {
+      const frameWindow = iframe.contentWindow;
+      if (!frameWindow) {
+        iframe.remove();
+        reject(new Error('Could not prepare labels for printing'));
+        return;
+      }
+
+      frameWindow.focus();
+      frameWindow.print();
+      // print() blocks until the dialog closes in most browsers; give the rest a moment
+      setTimeout(() => {
+        iframe.remove();
+        resolve();
+      }, 1000);
+    };
+
+    iframe.srcdoc = html;
+    document.body.appendChild(iframe);
+  });
+};
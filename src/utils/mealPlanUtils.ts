@@ -0,0 +1,149 @@
+/**
+ * Work out what the meal plan needs from the freezer: what's set aside for which
+ * meal, what will have expired by the day it's cooked and what to take out to thaw
+ */
+import { FreezerItem, MealReservation, PlannedMeal, ThawReminder } from '../types';
+import { DEFAULT_LOCATION } from '../data/locations';
+import { getThawLeadHours } from '../data/thawing';
+
+// Planned dates are calendar days in the user's time zone, kept as YYYY-MM-DD
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Weeks start on Monday
+export const startOfWeek = (date: Date): Date => addDays(date, -((date.getDay() + 6) % 7));
+
+export const getWeekDays = (weekStart: Date): Date[] =>
+  Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+
+/**
+ * Freezer items an ingredient list calls for. Names match either way round, so
+ * "chicken" finds "Chicken Thighs" and "frozen peas" finds "Peas"
+ */
+export const matchFreezerItems = (ingredients: string[], items: FreezerItem[]): FreezerItem[] => {
+  const wanted = ingredients.map(ingredient => ingredient.trim().toLowerCase()).filter(Boolean);
+  return items.filter(item => {
+    const itemName = item.name.toLowerCase();
+    return wanted.some(ingredient => ingredient.includes(itemName) || itemName.includes(ingredient));
+  });
+};
+
+const TITLE_STOP_WORDS = ['and', 'the', 'with', 'for', 'from'];
+
+// A typed-in meal has no ingredient list, so its words stand in for one
+export const getTitleIngredients = (title: string): string[] =>
+  title
+    .toLowerCase()
+    .split(/[\s,&]+/)
+    .filter(word => word.length > 2 && !TITLE_STOP_WORDS.includes(word));
+
+// Meals from today on hold their items; earlier ones have been cooked or skipped
+const isUpcoming = (meal: PlannedMeal, today: string): boolean => meal.date >= today;
+
+/**
+ * How much of an item upcoming meals have set aside, leaving out one meal so it
+ * can be edited without counting against itself
+ */
+export const getReservedQuantity = (itemId: string, meals: PlannedMeal[], exceptMealId?: string): number => {
+  const today = toDateKey(new Date());
+  return meals
+    .filter(meal => meal.id !== exceptMealId && isUpcoming(meal, today))
+    .flatMap(meal => meal.reservations)
+    .filter(reservation => reservation.freezerItemId === itemId)
+    .reduce((total, reservation) => total + reservation.quantity, 0);
+};
+
+export const getAvailableQuantity = (item: FreezerItem, meals: PlannedMeal[], exceptMealId?: string): number =>
+  Math.max(0, item.quantity - getReservedQuantity(item.id, meals, exceptMealId));
+
+/**
+ * Set aside one of each matching item that isn't already spoken for, taking
+ * whatever expires first when several items match
+ */
+export const suggestReservations = (
+  matches: FreezerItem[],
+  meals: PlannedMeal[],
+  exceptMealId?: string
+): MealReservation[] =>
+  [...matches]
+    .sort((a, b) => new Date(a.expirationDate).getTime() - new Date(b.expirationDate).getTime())
+    .filter(item => getAvailableQuantity(item, meals, exceptMealId) > 0)
+    .map(item => ({ freezerItemId: item.id, itemName: item.name, quantity: 1 }));
+
+// 'missing': used up or removed; 'short': other meals or uses leave too little; 'expired': past its date by the day
+export type ReservationProblem = 'missing' | 'short' | 'expired';
+
+export interface ReservationCheck {
+  reservation: MealReservation;
+  item?: FreezerItem;
+  problem: ReservationProblem | null;
+}
+
+export const checkReservations = (
+  meal: PlannedMeal,
+  items: FreezerItem[],
+  meals: PlannedMeal[]
+): ReservationCheck[] =>
+  meal.reservations.map(reservation => {
+    const item = items.find(candidate => candidate.id === reservation.freezerItemId);
+    if (!item) return { reservation, problem: 'missing' };
+    if (getAvailableQuantity(item, meals, meal.id) < reservation.quantity) return { reservation, item, problem: 'short' };
+    if (toDateKey(new Date(item.expirationDate)) < meal.date) return { reservation, item, problem: 'expired' };
+    return { reservation, item, problem: null };
+  });
+
+export interface ThawSuggestion {
+  date: string; // Day to take the item out; today when that's already passed
+  meal: PlannedMeal;
+  item: FreezerItem;
+  quantity: number;
+  thawing: boolean; // Already taken out
+}
+
+// Anything kept in a fridge is ready to cook already
+const needsThawing = (item: FreezerItem): boolean => !/fridge/i.test(item.location || DEFAULT_LOCATION);
+
+// Take reserved items out of the freezer their thaw lead time before the meal
+export const getThawSuggestions = (meals: PlannedMeal[], items: FreezerItem[]): ThawSuggestion[] => {
+  const today = toDateKey(new Date());
+  return meals
+    .filter(meal => isUpcoming(meal, today))
+    .flatMap(meal => meal.reservations.flatMap(reservation => {
+      const item = items.find(candidate => candidate.id === reservation.freezerItemId);
+      if (!item || !needsThawing(item)) return [];
+
+      const leadHours = getThawLeadHours(item);
+      if (leadHours <= 0) return [];
+
+      const date = toDateKey(addDays(fromDateKey(meal.date), -Math.ceil(leadHours / 24)));
+      return [{
+        date: date < today ? today : date,
+        meal,
+        item,
+        quantity: reservation.quantity,
+        thawing: !!item.thawedAt
+      }];
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// What to remind the household to take out for one meal; items already thawing need no reminder
+export const getThawReminders = (meal: PlannedMeal, items: FreezerItem[]): ThawReminder[] =>
+  getThawSuggestions([meal], items)
+    .filter(suggestion => !suggestion.thawing)
+    .map(suggestion => ({
+      freezerItemId: suggestion.item.id,
+      itemName: suggestion.item.name,
+      remindOn: suggestion.date
+    }));
@@ -0,0 +1,71 @@
+/**
+ * Turn receipt lines into a checklist of freezer items, matched against the shopping list
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { ReceiptItem, ReceiptScan, ShoppingItem } from '../types';
+import { getExpirationInfo, calculateExpirationDate } from '../data/foodkeeperData';
+import { guessCategory } from '../data/categories';
+
+// Words that say nothing about which product it is
+const IGNORED_WORDS = new Set(['frozen', 'fresh', 'organic', 'pack', 'bag', 'box', 'of', 'the', 'a', 'and', 'with']);
+
+// Lowercase, singular words, so "Frozen Peas" and "pea" share "pea"
+const nameWords = (name: string): string[] =>
+  name
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(word => word.length > 1 && !IGNORED_WORDS.has(word))
+    .map(word => word.replace(/(?<=[^s])s$/, ''));
+
+/**
+ * Find the unticked shopping list item a receipt product is for: every word of the
+ * list item has to appear in the product name, and the most specific match wins
+ */
+export const findShoppingMatch = (
+  productName: string,
+  shoppingItems: ShoppingItem[]
+): ShoppingItem | undefined => {
+  const productWords = new Set(nameWords(productName));
+
+  let bestMatch: ShoppingItem | undefined;
+  let bestScore = 0;
+  for (const item of shoppingItems) {
+    if (item.completed) continue;
+
+    const itemWords = nameWords(item.name);
+    if (itemWords.length > bestScore && itemWords.every(word => productWords.has(word))) {
+      bestMatch = item;
+      bestScore = itemWords.length;
+    }
+  }
+
+  return bestMatch;
+};
+
+/**
+ * Build the import checklist, with FoodKeeper's category and shelf life for each product.
+ * Each shopping list item is matched at most once
+ */
+export const toReceiptItems = (scan: ReceiptScan, shoppingItems: ShoppingItem[]): ReceiptItem[] => {
+  let unmatched = shoppingItems.filter(item => !item.completed);
+
+  return scan.items.map(line => {
+    const foodkeeperInfo = getExpirationInfo(line.name);
+    const category = foodkeeperInfo?.category || guessCategory(line.name);
+    const match = findShoppingMatch(line.name, unmatched);
+    if (match) {
+      unmatched = unmatched.filter(item => item.id !== match.id);
+    }
+
+    return {
+      id: uuidv4(),
+      text: line.text,
+      name: line.name,
+      quantity: line.quantity,
+      category,
+      expirationDate: calculateExpirationDate(line.name, category),
+      selected: true,
+      shoppingItemId: match ? match.id : null
+    };
+  });
+};
@@ -0,0 +1,78 @@
+import { FreezerItem, ShoppingItem, ShoppingRecurrence } from '../types';
+
+/**
+ * Staples: shopping items that come back unticked on a schedule or when freezer stock runs low
+ */
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Time to unpack the shopping after ticking off a low-stock staple, before the count is checked again
+const LOW_STOCK_GRACE_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// How many of an item are in the freezer, counting every item whose name contains it
+export const countInFreezer = (name: string, freezerItems: FreezerItem[]): number => {
+  const needle = name.trim().toLowerCase();
+  if (!needle) return 0;
+
+  return freezerItems
+    .filter(item => item.name.toLowerCase().includes(needle))
+    .reduce((total, item) => total + item.quantity, 0);
+};
+
+// When a scheduled staple ticked off at completedAt comes back, at the start of that day
+export const getNextDueDate = (recurrence: ShoppingRecurrence, completedAt: Date): Date | null => {
+  const due = startOfDay(completedAt);
+
+  switch (recurrence.type) {
+    case 'weekly':
+      // The next matching weekday after the day it was bought
+      due.setDate(due.getDate() + (((recurrence.weekday - due.getDay() + 7) % 7) || 7));
+      return due;
+    case 'interval':
+      due.setDate(due.getDate() + Math.max(1, recurrence.days));
+      return due;
+    default:
+      return null;
+  }
+};
+
+// Whether a ticked-off staple should go back on the list
+export const isStapleDue = (item: ShoppingItem, freezerItems: FreezerItem[], now: Date = new Date()): boolean => {
+  if (!item.completed || !item.recurrence) return false;
+
+  // Ticked off before it was made a staple, so there's nothing to count from
+  if (!item.completedAt) return true;
+  const completedAt = new Date(item.completedAt);
+
+  if (item.recurrence.type === 'lowStock') {
+    return now.getTime() - completedAt.getTime() >= LOW_STOCK_GRACE_MS
+      && countInFreezer(item.recurrence.freezerItem, freezerItems) < item.recurrence.below;
+  }
+
+  const due = getNextDueDate(item.recurrence, completedAt);
+  return !!due && now >= due;
+};
+
+// Keep completedAt in step with the checkbox
+export const withCompletedAt = (item: ShoppingItem, previous?: ShoppingItem): ShoppingItem => {
+  if (!item.completed) {
+    return item.completedAt ? { ...item, completedAt: null } : item;
+  }
+  if (previous?.completed && previous.completedAt) {
+    return { ...item, completedAt: previous.completedAt };
+  }
+  return { ...item, completedAt: item.completedAt || new Date().toISOString() };
+};
+
+export const describeRecurrence = (recurrence: ShoppingRecurrence): string => {
+  switch (recurrence.type) {
+    case 'weekly':
+      return `Every ${WEEKDAYS[recurrence.weekday] || 'week'}`;
+    case 'interval':
+      return recurrence.days === 1 ? 'Every day' : `Every ${recurrence.days} days`;
+    case 'lowStock':
+      return `When fewer than ${recurrence.below} ${recurrence.freezerItem} in the freezer`;
+  }
+};
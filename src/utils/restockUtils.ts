@@ -0,0 +1,107 @@
+import { v4 as uuidv4 } from 'uuid';
+import { FreezerItem, RestockRule, ShoppingItem, ShoppingItemOrigin } from '../types';
+import { countInFreezer } from './recurrenceUtils';
+import { findShoppingMatch } from './receiptUtils';
+
+/**
+ * Restock thresholds: put things back on the shopping list when the freezer runs low
+ */
+
+// What to buy because an item ran low
+export interface RestockNeed {
+  name: string;
+  category: string;
+  quantity: number;
+  origin: ShoppingItemOrigin;
+}
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+// The most specific rule whose name appears in the item's name
+export const findRestockRule = (itemName: string, rules: RestockRule[]): RestockRule | undefined =>
+  rules
+    .filter(rule => normalize(rule.name) && normalize(itemName).includes(normalize(rule.name)))
+    .sort((a, b) => b.name.length - a.name.length)[0];
+
+/**
+ * Check whether a change to one freezer item took its stock below a threshold.
+ * Only the change that crosses the threshold counts, so using up the rest of a
+ * bag that was already low doesn't add it to the list again.
+ */
+export const findRestockNeed = (
+  item: FreezerItem,
+  before: FreezerItem[],
+  after: FreezerItem[],
+  rules: RestockRule[]
+): RestockNeed | null => {
+  const createdAt = new Date().toISOString();
+
+  if (item.restockBelow) {
+    const previous = before.find(i => i.id === item.id)?.quantity ?? 0;
+    const remaining = after.find(i => i.id === item.id)?.quantity ?? 0;
+    if (previous < item.restockBelow || remaining >= item.restockBelow) return null;
+
+    return {
+      name: item.name,
+      category: item.category,
+      quantity: item.restockBelow - remaining,
+      origin: { type: 'restock', freezerItem: item.name, remaining, below: item.restockBelow, scope: 'item', createdAt }
+    };
+  }
+
+  const rule = findRestockRule(item.name, rules);
+  if (!rule) return null;
+
+  const previous = countInFreezer(rule.name, before);
+  const remaining = countInFreezer(rule.name, after);
+  if (previous < rule.below || remaining >= rule.below) return null;
+
+  return {
+    name: rule.name,
+    category: rule.category,
+    quantity: rule.quantity || rule.below - remaining,
+    origin: { type: 'restock', freezerItem: rule.name, remaining, below: rule.below, scope: 'name', createdAt }
+  };
+};
+
+/**
+ * Turn a restock need into a shopping list change: raise the quantity of an item
+ * already on the list, untick one that was bought before, or add a new one
+ */
+export const mergeRestockNeed = (
+  need: RestockNeed,
+  shoppingItems: ShoppingItem[]
+): { item: ShoppingItem; isNew: boolean } => {
+  const existing = findShoppingMatch(need.name, shoppingItems)
+    || shoppingItems.find(item => normalize(item.name) === normalize(need.name));
+
+  if (existing) {
+    const quantity = existing.completed
+      ? need.quantity
+      : Math.max(Number(existing.quantity) || 1, need.quantity);
+
+    return {
+      item: { ...existing, completed: false, quantity: String(quantity), origin: need.origin },
+      isNew: false
+    };
+  }
+
+  return {
+    item: {
+      id: uuidv4(),
+      name: need.name.charAt(0).toUpperCase() + need.name.slice(1),
+      completed: false,
+      category: need.category || 'Other',
+      quantity: String(need.quantity),
+      origin: need.origin
+    },
+    isNew: true
+  };
+};
+
+export const describeOrigin = (origin: ShoppingItemOrigin): string => {
+  const left = origin.remaining === 0 ? 'none left' : `${origin.remaining} left`;
+  return origin.scope === 'item'
+    ? `${origin.freezerItem} ran low (${left}, restock below ${origin.below})`
+    : `Freezer stock of ${origin.freezerItem} ran low (${left}, restock below ${origin.below})`;
+};
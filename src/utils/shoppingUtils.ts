@@ -0,0 +1,57 @@
+/**
+ * Turn bought shopping list items into freezer items, and copy items between lists
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { FreezerItem, ShoppingItem } from '../types';
+import { getExpirationInfo, calculateExpirationDate } from '../data/foodkeeperData';
+import { guessCategory } from '../data/categories';
+import { parseItemText } from './textParser';
+import { getLastUsedLocation } from './storage';
+
+// 'Other' says nothing, so a later guess can replace it
+const knownCategory = (category?: string): string =>
+  category && category !== 'Other' ? category : '';
+
+/**
+ * Build the freezer item for something just bought. The name goes through the text
+ * parser for size and tags, FoodKeeper decides the shelf life where it knows the food,
+ * and the quantity on the shopping list wins over one parsed from the name
+ */
+export const toBoughtFreezerItem = async (item: ShoppingItem): Promise<FreezerItem> => {
+  const [parsedDetails] = await parseItemText(item.name, null, { splitItems: false });
+  const name = parsedDetails.name || item.name;
+
+  const foodkeeperInfo = getExpirationInfo(name);
+  const category = foodkeeperInfo?.category
+    || knownCategory(parsedDetails.category)
+    || knownCategory(item.category)
+    || guessCategory(name);
+
+  return {
+    id: uuidv4(),
+    name,
+    addedDate: new Date(),
+    expirationDate: foodkeeperInfo ? calculateExpirationDate(name, category) : parsedDetails.expirationDate,
+    category,
+    quantity: Number(item.quantity) || parsedDetails.quantity || 1,
+    size: parsedDetails.size || '',
+    tags: parsedDetails.tags || [],
+    notes: '',
+    source: 'shopping',
+    location: getLastUsedLocation()
+  };
+};
+
+// What the list without a name is called
+export const MAIN_LIST_NAME = 'Shopping List';
+
+// An unticked copy for another list. Copies are one-offs, so a staple isn't doubled up
+export const copyToList = (item: ShoppingItem, listId: string | null): ShoppingItem => ({
+  id: uuidv4(),
+  name: item.name,
+  completed: false,
+  category: item.category,
+  quantity: item.quantity,
+  store: item.store,
+  listId
+});
@@ -0,0 +1,108 @@
+import { ConsumptionEvent, ItemOutcome } from '../types';
+import { CATEGORIES } from '../data/categories';
+
+/**
+ * Utility functions for waste and consumption stats
+ */
+
+export type OutcomeTotals = Record<ItemOutcome, number>;
+
+export interface MonthlyOutcomes extends OutcomeTotals {
+  month: string; // YYYY-MM
+  label: string; // e.g. "Jun 2025"
+}
+
+export interface CategoryOutcomes extends OutcomeTotals {
+  category: string;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const emptyTotals = (): OutcomeTotals => ({ consumed: 0, discarded: 0, expired: 0 });
+
+const monthKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+// Total amount across all outcomes
+export const getOutcomeTotal = (totals: OutcomeTotals): number =>
+  totals.consumed + totals.discarded + totals.expired;
+
+// Events from the start of the month `months - 1` months ago until now
+export const getEventsInLastMonths = (
+  events: ConsumptionEvent[],
+  months: number,
+  now: Date = new Date()
+): ConsumptionEvent[] => {
+  const start = new Date(now.getFullYear(), now.getMonth() - (months - 1), 1);
+  return events.filter(event => new Date(event.consumedAt) >= start);
+};
+
+// Sum amounts per outcome
+export const getOutcomeTotals = (events: ConsumptionEvent[]): OutcomeTotals => {
+  return events.reduce((totals, event) => {
+    totals[event.outcome] += event.amount;
+    return totals;
+  }, emptyTotals());
+};
+
+// Amounts per outcome for each of the last `months` months, oldest first
+export const getMonthlyOutcomes = (
+  events: ConsumptionEvent[],
+  months: number = 6,
+  now: Date = new Date()
+): MonthlyOutcomes[] => {
+  const result: MonthlyOutcomes[] = [];
+
+  for (let i = months - 1; i >= 0; i--) {
+    const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
+    result.push({
+      month: monthKey(date),
+      label: date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' }),
+      ...emptyTotals()
+    });
+  }
+
+  const byMonth = new Map(result.map(entry => [entry.month, entry]));
+  events.forEach(event => {
+    const entry = byMonth.get(monthKey(new Date(event.consumedAt)));
+    if (entry) {
+      entry[event.outcome] += event.amount;
+    }
+  });
+
+  return result;
+};
+
+// Amounts per outcome for every predefined category; unknown categories count as 'Other'
+export const getCategoryOutcomes = (events: ConsumptionEvent[]): CategoryOutcomes[] => {
+  const byCategory = new Map<string, CategoryOutcomes>(
+    CATEGORIES.map(category => [category, { category, ...emptyTotals() }])
+  );
+
+  events.forEach(event => {
+    const entry = byCategory.get(event.category) || byCategory.get('Other')!;
+    entry[event.outcome] += event.amount;
+  });
+
+  return [...byCategory.values()];
+};
+
+// Average number of days items spent in the freezer before being used, or null without data
+export const getAverageDaysInFreezer = (events: ConsumptionEvent[]): number | null => {
+  const consumed = events.filter(event => event.outcome === 'consumed');
+  if (consumed.length === 0) return null;
+
+  const totalDays = consumed.reduce((sum, event) => {
+    const days = (new Date(event.consumedAt).getTime() - new Date(event.itemAddedDate).getTime()) / DAY_MS;
+    return sum + Math.max(0, days);
+  }, 0);
+
+  return Math.round(totalDays / consumed.length);
+};
+
+// Share of everything that left the freezer that was thrown away (0-100)
+export const getWastePercentage = (totals: OutcomeTotals): number => {
+  const total = getOutcomeTotal(totals);
+  if (total === 0) return 0;
+  return Math.round(((totals.discarded + totals.expired) / total) * 100);
+};
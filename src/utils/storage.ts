@@ -2,6 +2,7 @@
  * Utility functions for local storage operations
  */
 import { logger } from "@/lib/logger";
+import { DEFAULT_LOCATION } from "../data/locations";
 
 // Get items from localStorage with a given key
 export const getStoredItems = (key: string): any[] => {
@@ -42,6 +43,69 @@ export const removeStoredItems = (key: string): void => {
   }
 };
 
+const LAST_USED_LOCATION_KEY = 'lastUsedLocation';
+
+// Get the location most recently used when adding items
+export const getLastUsedLocation = (): string => {
+  try {
+    return localStorage.getItem(LAST_USED_LOCATION_KEY) || DEFAULT_LOCATION;
+  } catch (error) {
+    logger.error('Error retrieving last used location from localStorage:', error);
+    return DEFAULT_LOCATION;
+  }
+};
+
+// Remember the location used when adding items
+export const setLastUsedLocation = (location: string): void => {
+  try {
+    localStorage.setItem(LAST_USED_LOCATION_KEY, location);
+  } catch (error) {
+    logger.error('Error storing last used location in localStorage:', error);
+  }
+};
+
+const LAST_USED_STORE_KEY = 'lastUsedStore';
+
+// Get the store the shopping list was last shown for, or '' for any store
+export const getLastUsedStore = (): string => {
+  try {
+    return localStorage.getItem(LAST_USED_STORE_KEY) || '';
+  } catch (error) {
+    logger.error('Error retrieving last used store from localStorage:', error);
+    return '';
+  }
+};
+
+// Remember the store the shopping list is shown for
+export const setLastUsedStore = (store: string): void => {
+  try {
+    localStorage.setItem(LAST_USED_STORE_KEY, store);
+  } catch (error) {
+    logger.error('Error storing last used store in localStorage:', error);
+  }
+};
+
+const LAST_USED_LIST_KEY = 'lastUsedShoppingList';
+
+// Get the shopping list last open, or null for the main list
+export const getLastUsedList = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_USED_LIST_KEY) || null;
+  } catch (error) {
+    logger.error('Error retrieving last used shopping list from localStorage:', error);
+    return null;
+  }
+};
+
+// Remember the shopping list that's open
+export const setLastUsedList = (listId: string | null): void => {
+  try {
+    localStorage.setItem(LAST_USED_LIST_KEY, listId || '');
+  } catch (error) {
+    logger.error('Error storing last used shopping list in localStorage:', error);
+  }
+};
+
 // Clear all app data from localStorage
 export const clearAllStoredData = (): void => {
   try {
@@ -49,6 +113,13 @@ export const clearAllStoredData = (): void => {
     localStorage.removeItem('shoppingItems');
     localStorage.removeItem('mealIdeas');
     localStorage.removeItem('userSettings');
+    localStorage.removeItem('barcodeMappings');
+    localStorage.removeItem('storeLayouts');
+    localStorage.removeItem('shoppingLists');
+    localStorage.removeItem('plannedMeals');
+    localStorage.removeItem(LAST_USED_LOCATION_KEY);
+    localStorage.removeItem(LAST_USED_STORE_KEY);
+    localStorage.removeItem(LAST_USED_LIST_KEY);
   } catch (error) {
     logger.error('Error clearing all data from localStorage:', error);
   }
@@ -8,7 +8,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { UserSettings } from '../types';
 import { logger } from "@/lib/logger";
 
-interface ParsedItemDetails {
+export interface ParsedItemDetails {
   name: string;
   quantity: number;
   category: string;
@@ -17,7 +17,20 @@ interface ParsedItemDetails {
   tags: string[];
 }
 
-export const parseItemText = async (input: string, userSettings: UserSettings | null): Promise<ParsedItemDetails> => {
+export interface ParseItemOptions {
+  // Set to false when the input is known to be one item, e.g. a product name with commas in it
+  splitItems?: boolean;
+}
+
+/**
+ * Parse text describing one or more items, e.g. "3 chicken breasts, 1 bag frozen peas".
+ * Always resolves with at least one item
+ */
+export const parseItemText = async (
+  input: string,
+  userSettings: UserSettings | null,
+  { splitItems = true }: ParseItemOptions = {}
+): Promise<ParsedItemDetails[]> => {
   // Always use 30 days as the fallback expiration period
   const defaultExpirationDays = 30;
   
@@ -27,63 +40,16 @@ export const parseItemText = async (input: string, userSettings: UserSettings |
   try {
     // Try to use the Supabase Edge Function with Gemini AI
     debugLog('Attempting to use AI parser via Edge Function');
-    const result = await parseItemTextWithAI(input);
+    const result = await parseItemTextWithAI(input, splitItems);
+    
+    // Older deployments of the function return a single parsedDetails object
+    const aiItems: any[] = result?.items || (result?.parsedDetails ? [result.parsedDetails] : []);
     
-    if (result && result.parsedDetails) {
+    if (aiItems.length > 0) {
       debugLog('Received AI parsing response:', result);
-      
-      // Convert the ISO date string back to a Date object
-      const expirationDate = new Date(result.parsedDetails.expirationDate);
-      debugLog('Parsed expiration date:', expirationDate);
-      
-      // Validate that the date is in the future
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      if (expirationDate < today) {
-        debugLog('WARNING: AI returned a date in the past:', expirationDate);
-        
-        // Look up the item in the FoodKeeper database for a better expiration date
-        logger.debug(`🔍 FoodKeeper lookup for ${result.parsedDetails.name} in category ${result.parsedDetails.category}`);
-        const foodkeeperExpDate = getFoodkeeperExpirationDate(
-          result.parsedDetails.name, 
-          result.parsedDetails.category, 
-          defaultExpirationDays
-        );
-        
-        logger.debug(`✅ FoodKeeper result: ${foodkeeperExpDate.toISOString().split('T')[0]} (${Math.round((foodkeeperExpDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24))} days from now)`);
-        debugLog('Using FoodKeeper expiration date instead:', foodkeeperExpDate);
-        
-        const parsedDetails = {
-          ...result.parsedDetails,
-          expirationDate: foodkeeperExpDate
-        };
-        
-        debugLog(`Fixed with FoodKeeper date:`, parsedDetails);
-        return {
-          name: parsedDetails.name || '',
-          quantity: Number(parsedDetails.quantity) || 1,
-          category: parsedDetails.category || 'Other',
-          size: parsedDetails.size || '',
-          expirationDate: parsedDetails.expirationDate,
-          tags: parsedDetails.tags || []
-        };
-      }
-      
-      const parsedDetails = {
-        ...result.parsedDetails,
-        expirationDate
-      };
-      
-      debugLog(`Successfully parsed with ${result.source} parser:`, parsedDetails);
-      return {
-        name: parsedDetails.name || '',
-        quantity: Number(parsedDetails.quantity) || 1,
-        category: parsedDetails.category || 'Other',
-        size: parsedDetails.size || '',
-        expirationDate: parsedDetails.expirationDate,
-        tags: parsedDetails.tags || []
-      };
+      const items = aiItems.map(details => fromAIParsedDetails(details, defaultExpirationDays));
+      debugLog(`Successfully parsed ${items.length} item(s) with ${result.source} parser:`, items);
+      return items;
     }
   } catch (error) {
     debugLog('Error using AI parser:', error);
@@ -92,13 +58,87 @@ export const parseItemText = async (input: string, userSettings: UserSettings |
 
   // Fallback to regex-based parsing
   debugLog('Falling back to regex-based parsing');
-  return regexParseItemText(input, defaultExpirationDays);
+  return regexParseItemText(input, defaultExpirationDays, { splitItems });
 };
 
+// Convert one item from the edge function, replacing past dates with FoodKeeper's
+const fromAIParsedDetails = (details: any, defaultExpirationDays: number): ParsedItemDetails => {
+  // Convert the ISO date string back to a Date object
+  let expirationDate = new Date(details.expirationDate);
+  debugLog('Parsed expiration date:', expirationDate);
+  
+  // Validate that the date is in the future
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  
+  if (isNaN(expirationDate.getTime()) || expirationDate < today) {
+    debugLog('WARNING: AI returned a date in the past:', expirationDate);
+    
+    // Look up the item in the FoodKeeper database for a better expiration date
+    logger.debug(`🔍 FoodKeeper lookup for ${details.name} in category ${details.category}`);
+    expirationDate = getFoodkeeperExpirationDate(
+      details.name, 
+      details.category, 
+      defaultExpirationDays
+    );
+    
+    logger.debug(`✅ FoodKeeper result: ${expirationDate.toISOString().split('T')[0]} (${Math.round((expirationDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24))} days from now)`);
+  }
+  
+  return {
+    name: details.name || '',
+    quantity: Number(details.quantity) || 1,
+    category: details.category || 'Other',
+    size: details.size || '',
+    expirationDate,
+    tags: details.tags || []
+  };
+};
+
+// Words that start a new item in a spoken list, as in "peas and a pound of beef"
+const ITEM_START = /(?:\d+(?:\.\d+)?|an?|one|two|three|four|five|six|seven|eight|nine|ten|twelve|a few|some|half|another)\s/i;
+
+// Clauses that describe the item before them rather than starting a new one
+const ITEM_DETAIL = /^(?:expires?|exp\b|good\s+for|for\s|in\s\d|in\s(?:one|two|three|four|five|six|seven|eight|nine|ten)\b|from\s|#)/i;
+
 /**
- * Fallback regex-based parser for when AI parsing is unavailable
+ * Split a dictated list such as "two bags of peas and a pound of ground beef" into one
+ * phrase per item. "and" only splits before a quantity, so "mac and cheese" stays whole
  */
-export const regexParseItemText = (input: string, defaultExpirationDays: number = 30): ParsedItemDetails => {
+export const splitItemPhrases = (input: string): string[] => {
+  const parts = input
+    .split(/\s*(?:[,;\n]|\bthen\b|\bplus\b|\balso\b)\s*/i)
+    .flatMap(part => part.split(new RegExp(`\\s+and\\s+(?=${ITEM_START.source})`, 'i')))
+    .map(part => part.replace(/^and\s+/i, '').trim())
+    .filter(Boolean);
+
+  // Put "expires in two weeks" and the like back on the item they belong to
+  const phrases = parts.reduce<string[]>((merged, part) => {
+    if (merged.length > 0 && ITEM_DETAIL.test(part)) {
+      merged[merged.length - 1] = `${merged[merged.length - 1]} ${part}`;
+    } else {
+      merged.push(part);
+    }
+    return merged;
+  }, []);
+
+  debugLog('Split item phrases:', phrases);
+  return phrases.length > 0 ? phrases : [input.trim()];
+};
+
+/**
+ * Fallback regex-based parser for when AI parsing is unavailable, one item per phrase
+ */
+export const regexParseItemText = (
+  input: string,
+  defaultExpirationDays: number = 30,
+  { splitItems = true }: ParseItemOptions = {}
+): ParsedItemDetails[] => {
+  const phrases = splitItems ? splitItemPhrases(input) : [input];
+  return phrases.map(phrase => regexParseSingleItem(phrase, defaultExpirationDays));
+};
+
+const regexParseSingleItem = (input: string, defaultExpirationDays: number): ParsedItemDetails => {
   debugLog('Starting regex text parsing for input:', input);
   debugLog('Using default expiration days:', defaultExpirationDays);
   
@@ -423,18 +463,18 @@ const suggestBasicTags = (name: string, category: string): string[] => {
 };
 
 /**
- * Create a freezer item from parsed text
+ * Create freezer items from parsed text, one for each item it describes
  */
 export const createFreezerItemFromParsedText = async (
   text: string, 
   imageUrl?: string, 
   userSettings: UserSettings | null = null
-): Promise<any> => {
+): Promise<any[]> => {
   // Parse the text to extract item details
-  const parsedDetails = await parseItemText(text, userSettings);
+  const parsedItems = await parseItemText(text, userSettings);
   
-  // Create a new freezer item with the parsed details
-  return {
+  // Create a new freezer item with each item's parsed details
+  return parsedItems.map(parsedDetails => ({
     id: uuidv4(), // Use UUID instead of timestamp to ensure it's compatible with Supabase
     name: parsedDetails.name,
     quantity: parsedDetails.quantity,
@@ -445,5 +485,5 @@ export const createFreezerItemFromParsedText = async (
     notes: '',
     tags: parsedDetails.tags,
     imageUrl: imageUrl || '' // Use provided image URL or empty string
-  };
-};
\ No newline at end of file
+  }));
+};
@@ -5,8 +5,12 @@ interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string;
   readonly VITE_SUPABASE_ANON_KEY: string;
   readonly VITE_OPEN_FOOD_FACTS_API_URL: string;
+  readonly VITE_VAPID_PUBLIC_KEY: string;
+  readonly VITE_SPEECH_PROVIDER?: string;
 }
 
 interface ImportMeta {
   readonly env: ImportMetaEnv;
-}
\ No newline at end of file
+}
+// Build id injected by vite.config.ts, used to version the service worker
+declare const __APP_VERSION__: string;
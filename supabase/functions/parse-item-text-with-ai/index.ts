@@ -20,7 +20,7 @@ serve(async (req) => {
   }
 
   try {
-    const { inputText, defaultExpirationDays = 30 } = await req.json();
+    const { inputText, defaultExpirationDays = 30, splitItems = true } = await req.json();
     
     if (!inputText || typeof inputText !== 'string') {
       return new Response(
@@ -36,7 +36,7 @@ serve(async (req) => {
     }
 
     // Log important values for debugging
-    console.log(`Processing input text: "${inputText}", defaultExpirationDays: ${defaultExpirationDays}`);
+    console.log(`Processing input text: "${inputText}", defaultExpirationDays: ${defaultExpirationDays}, splitItems: ${splitItems}`);
 
     // Get the API key from the environment
     const apiKey = Deno.env.get("GEMINI_API_KEY");
@@ -44,18 +44,7 @@ serve(async (req) => {
     // Use fallback parsing if no API key is available
     if (!apiKey) {
       console.log("No Gemini API key available, using fallback parser");
-      return new Response(
-        JSON.stringify({ 
-          parsedDetails: fallbackParser(inputText, defaultExpirationDays),
-          source: "fallback" 
-        }),
-        { 
-          headers: { 
-            "Content-Type": "application/json",
-            ...corsHeaders
-          }
-        }
-      );
+      return itemsResponse(fallbackItems(inputText, defaultExpirationDays, splitItems), "fallback");
     }
     
     // Initialize the Gemini API client
@@ -66,7 +55,7 @@ serve(async (req) => {
     const prompt = `
       You are a food item parser for a freezer inventory app called Frostie.
       
-      Given the following text describing a food item, extract the following information:
+      Given the following text describing ${splitItems ? "one or more food items" : "a single food item"}, extract the following information${splitItems ? " for each item" : ""}:
       
       - name: The name of the food item (use proper capitalization and pluralize if quantity > 1)
       - quantity: The number of units of the food item (default to 1 if not specified)
@@ -78,17 +67,23 @@ serve(async (req) => {
         - If no explicit expiration is mentioned, set to null so we can use FoodKeeper database for accurate lookup
       - tags: A list of 2-3 relevant tags for the food item (e.g., protein, dinner, breakfast, homemade, italian)
       
+      ${splitItems
+        ? `Items may be separated by commas, new lines or "and" (e.g. "3 chicken breasts, 1 bag frozen peas and lasagna leftovers" is three items). Dishes like "mac and cheese" are one item. Details such as an expiration belong to the item they follow.`
+        : `Treat the whole text as one item, even if it contains commas or "and".`}
+      
       Text: "${inputText}"
       
-      Return only a JSON object with these properties, no other text. Here's the exact format:
-      {
-        "name": string,
-        "quantity": number,
-        "category": string,
-        "size": string,
-        "expirationDate": string (ISO date format YYYY-MM-DD) or null,
-        "tags": string[]
-      }
+      Return only a JSON array with one object per item, no other text. Here's the exact format:
+      [
+        {
+          "name": string,
+          "quantity": number,
+          "category": string,
+          "size": string,
+          "expirationDate": string (ISO date format YYYY-MM-DD) or null,
+          "tags": string[]
+        }
+      ]
     `;
 
     // Generate the response
@@ -99,105 +94,31 @@ serve(async (req) => {
     console.log("Gemini response:", text);
     
     try {
-      // Find the JSON object in the response text
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
+      // Find the JSON array in the response text, accepting a bare object too
+      const jsonMatch = text.match(/\[[\s\S]*\]/) || text.match(/\{[\s\S]*\}/);
       if (!jsonMatch) {
         throw new Error("No valid JSON found in response");
       }
       
-      const jsonStr = jsonMatch[0];
-      const parsedData = JSON.parse(jsonStr);
+      const parsedJson = JSON.parse(jsonMatch[0]);
+      const parsedItems = (Array.isArray(parsedJson) ? parsedJson : [parsedJson])
+        .filter(item => item && typeof item === "object" && item.name);
       
-      console.log("Parsed data from Gemini:", parsedData);
+      console.log("Parsed data from Gemini:", parsedItems);
       
-      // Get today's date for reference
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      // STEP 1: Check if AI provided a valid, future expiration date
-      let expirationDate = null;
-      let expirationSource = "default"; // Track where the expiration date came from
-      
-      if (isValidDateString(parsedData.expirationDate)) {
-        const aiProvidedDate = new Date(parsedData.expirationDate);
-        
-        // Ensure the AI-provided date is in the future
-        if (aiProvidedDate > today) {
-          expirationDate = aiProvidedDate;
-          expirationSource = "ai";
-          console.log("Using AI-provided future date:", expirationDate.toISOString());
-        } else {
-          console.warn("AI returned a date in the past:", parsedData.expirationDate);
-          // We'll check FoodKeeper next
-        }
-      }
-      
-      // STEP 2: If AI didn't provide a valid future date, check FoodKeeper
-      if (!expirationDate) {
-        console.log(`🔍 FoodKeeper lookup: Looking up "${parsedData.name}" in category "${parsedData.category}"`);
-        const foodkeeperExpDate = getFoodkeeperExpirationDate(
-          parsedData.name,
-          parsedData.category,
-          defaultExpirationDays
-        );
-        
-        // Check if FoodKeeper provided a different date than the default
-        const defaultDate = new Date(today);
-        defaultDate.setDate(defaultDate.getDate() + defaultExpirationDays);
-        const daysFromNow = Math.round((foodkeeperExpDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-        
-        if (foodkeeperExpDate.getTime() !== defaultDate.getTime()) {
-          // FoodKeeper gave us a specific date, use it
-          expirationDate = foodkeeperExpDate;
-          expirationSource = "foodkeeper";
-          console.log(`✅ SUCCESS: FoodKeeper match found for "${parsedData.name}": ${foodkeeperExpDate.toISOString().split('T')[0]} (${daysFromNow} days)`);
-        } else {
-          // STEP 3: If no specific FoodKeeper data, use default days
-          expirationDate = defaultDate;
-          expirationSource = "default";
-          console.log(`❌ FoodKeeper match not found for "${parsedData.name}"`);
-          console.log(`Using default: ${defaultExpirationDays} days (explicitly passed in request)`);
-        }
+      if (parsedItems.length === 0) {
+        throw new Error("No items found in response");
       }
       
-      // Convert to ISO format with only the date part (YYYY-MM-DD)
-      const isoDateStr = expirationDate.toISOString().split('T')[0];
-      
-      const validatedData = {
-        name: parsedData.name || "",
-        quantity: typeof parsedData.quantity === 'number' ? parsedData.quantity : 1,
-        category: isValidCategory(parsedData.category) ? parsedData.category : "Other",
-        size: parsedData.size || "",
-        expirationDate: isoDateStr,
-        tags: Array.isArray(parsedData.tags) ? parsedData.tags.map(t => String(t)) : []
-      };
+      // Only the first item counts when the text was meant to be one item
+      const validatedItems = (splitItems ? parsedItems : parsedItems.slice(0, 1))
+        .map(parsedData => validateParsedItem(parsedData, defaultExpirationDays));
       
-      console.log("Validated data:", validatedData, "Expiration source:", expirationSource);
-      
-      return new Response(
-        JSON.stringify({ parsedDetails: validatedData, source: "gemini" }),
-        { 
-          headers: { 
-            "Content-Type": "application/json",
-            ...corsHeaders
-          }
-        }
-      );
+      return itemsResponse(validatedItems, "gemini");
     } catch (error) {
       console.error("Error parsing Gemini response:", error);
       // Fall back to the simple parser if something goes wrong
-      return new Response(
-        JSON.stringify({ 
-          parsedDetails: fallbackParser(inputText, defaultExpirationDays),
-          source: "fallback" 
-        }),
-        { 
-          headers: { 
-            "Content-Type": "application/json",
-            ...corsHeaders
-          }
-        }
-      );
+      return itemsResponse(fallbackItems(inputText, defaultExpirationDays, splitItems), "fallback");
     }
   } catch (error) {
     console.error("Error processing request:", error);
@@ -206,7 +127,7 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({ 
         error: "Internal server error",
-        parsedDetails: fallbackParser(inputText || "", defaultExpirationDays),
+        items: [fallbackParser(inputText || "", defaultExpirationDays)],
         source: "fallback" 
       }),
       { 
@@ -220,6 +141,116 @@ serve(async (req) => {
   }
 });
 
+// parsedDetails repeats the first item for app versions that only read one
+function itemsResponse(items: any[], source: string): Response {
+  return new Response(
+    JSON.stringify({ items, parsedDetails: items[0], source }),
+    { 
+      headers: { 
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    }
+  );
+}
+
+// Check one item from Gemini, filling in its expiration from FoodKeeper when needed
+function validateParsedItem(parsedData: any, defaultExpirationDays: number): any {
+  // Get today's date for reference
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  
+  // STEP 1: Check if AI provided a valid, future expiration date
+  let expirationDate = null;
+  let expirationSource = "default"; // Track where the expiration date came from
+  
+  if (isValidDateString(parsedData.expirationDate)) {
+    const aiProvidedDate = new Date(parsedData.expirationDate);
+    
+    // Ensure the AI-provided date is in the future
+    if (aiProvidedDate > today) {
+      expirationDate = aiProvidedDate;
+      expirationSource = "ai";
+      console.log("Using AI-provided future date:", expirationDate.toISOString());
+    } else {
+      console.warn("AI returned a date in the past:", parsedData.expirationDate);
+      // We'll check FoodKeeper next
+    }
+  }
+  
+  // STEP 2: If AI didn't provide a valid future date, check FoodKeeper
+  if (!expirationDate) {
+    console.log(`🔍 FoodKeeper lookup: Looking up "${parsedData.name}" in category "${parsedData.category}"`);
+    const foodkeeperExpDate = getFoodkeeperExpirationDate(
+      parsedData.name,
+      parsedData.category,
+      defaultExpirationDays
+    );
+    
+    // Check if FoodKeeper provided a different date than the default
+    const defaultDate = new Date(today);
+    defaultDate.setDate(defaultDate.getDate() + defaultExpirationDays);
+    const daysFromNow = Math.round((foodkeeperExpDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+    
+    if (foodkeeperExpDate.getTime() !== defaultDate.getTime()) {
+      // FoodKeeper gave us a specific date, use it
+      expirationDate = foodkeeperExpDate;
+      expirationSource = "foodkeeper";
+      console.log(`✅ SUCCESS: FoodKeeper match found for "${parsedData.name}": ${foodkeeperExpDate.toISOString().split('T')[0]} (${daysFromNow} days)`);
+    } else {
+      // STEP 3: If no specific FoodKeeper data, use default days
+      expirationDate = defaultDate;
+      expirationSource = "default";
+      console.log(`❌ FoodKeeper match not found for "${parsedData.name}"`);
+      console.log(`Using default: ${defaultExpirationDays} days (explicitly passed in request)`);
+    }
+  }
+  
+  // Convert to ISO format with only the date part (YYYY-MM-DD)
+  const isoDateStr = expirationDate.toISOString().split('T')[0];
+  
+  const validatedData = {
+    name: parsedData.name || "",
+    quantity: typeof parsedData.quantity === 'number' ? parsedData.quantity : 1,
+    category: isValidCategory(parsedData.category) ? parsedData.category : "Other",
+    size: parsedData.size || "",
+    expirationDate: isoDateStr,
+    tags: Array.isArray(parsedData.tags) ? parsedData.tags.map(t => String(t)) : []
+  };
+  
+  console.log("Validated data:", validatedData, "Expiration source:", expirationSource);
+  return validatedData;
+}
+
+// Same rules as splitItemPhrases in the app: commas, semicolons and new lines always start
+// a new item, "and" only when a quantity follows, and expiry clauses stay with their item
+function splitItemPhrases(input: string): string[] {
+  const itemStart = "(?:\\d+(?:\\.\\d+)?|an?|one|two|three|four|five|six|seven|eight|nine|ten|twelve|a few|some|half|another)\\s";
+  const itemDetail = /^(?:expires?|exp\b|good\s+for|for\s|in\s\d|in\s(?:one|two|three|four|five|six|seven|eight|nine|ten)\b|from\s|#)/i;
+
+  const parts = input
+    .split(/\s*(?:[,;\n]|\bthen\b|\bplus\b|\balso\b)\s*/i)
+    .flatMap(part => part.split(new RegExp(`\\s+and\\s+(?=${itemStart})`, "i")))
+    .map(part => part.replace(/^and\s+/i, "").trim())
+    .filter(Boolean);
+
+  const phrases = parts.reduce<string[]>((merged, part) => {
+    if (merged.length > 0 && itemDetail.test(part)) {
+      merged[merged.length - 1] = `${merged[merged.length - 1]} ${part}`;
+    } else {
+      merged.push(part);
+    }
+    return merged;
+  }, []);
+
+  return phrases.length > 0 ? phrases : [input.trim()];
+}
+
+function fallbackItems(input: string, defaultExpirationDays: number, splitItems: boolean): any[] {
+  const phrases = splitItems ? splitItemPhrases(input) : [input];
+  return phrases.map(phrase => fallbackParser(phrase, defaultExpirationDays));
+}
+
 // Helper function to check if a category is valid
 function isValidCategory(category: string): boolean {
   const validCategories = [
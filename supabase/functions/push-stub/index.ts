@@ -0,0 +1,76 @@
+// Follow this setup guide to integrate the Deno language server with your editor:
+// https://deno.land/manual/getting_started/setup_your_environment
+
+// Local stand-in for a push service. Point send-expiry-notifications at it with
+// PUSH_STUB_URL=http://host.docker.internal:54321/functions/v1/push-stub, then
+// GET this function to see what would have been delivered.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+};
+
+const MAX_MESSAGES = 50;
+
+// Kept in memory only, so it resets whenever the function restarts
+const received: { receivedAt: string; subscription: unknown; payload: unknown }[] = [];
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method === "DELETE") {
+    received.length = 0;
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method === "POST") {
+    try {
+      const { subscription, payload } = await req.json();
+      received.unshift({ receivedAt: new Date().toISOString(), subscription, payload });
+      received.length = Math.min(received.length, MAX_MESSAGES);
+      console.log("Stub push received:", JSON.stringify(payload));
+
+      return new Response(
+        JSON.stringify({ ok: true }),
+        {
+          status: 201,
+          headers: {
+            "Content-Type": "application/json",
+            ...corsHeaders
+          }
+        }
+      );
+    } catch (error) {
+      console.error("Error reading stub push:", error);
+      return new Response(
+        JSON.stringify({ error: "Invalid push payload" }),
+        {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            ...corsHeaders
+          }
+        }
+      );
+    }
+  }
+
+  return new Response(
+    JSON.stringify({ messages: received }),
+    {
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    }
+  );
+});
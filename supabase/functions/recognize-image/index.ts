@@ -10,6 +10,50 @@ const corsHeaders = {
   "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
 };
 
+// Where a detected item sits in the photo, as fractions of its width and height
+interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Detection {
+  text: string; // "[Item name] [Size] #[category]", ready for parseItemText
+  confidence: number; // 0 to 1
+  box: BoundingBox | null;
+}
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+// Gemini gives boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid
+const toBoundingBox = (box2d: unknown): BoundingBox | null => {
+  if (!Array.isArray(box2d) || box2d.length !== 4 || !box2d.every(n => typeof n === "number")) {
+    return null;
+  }
+
+  const [yMin, xMin, yMax, xMax] = box2d.map(n => clamp(n / 1000));
+  if (xMax <= xMin || yMax <= yMin) return null;
+
+  return { x: xMin, y: yMin, width: xMax - xMin, height: yMax - yMin };
+};
+
+// Answer with every detection, keeping recognizedText for older clients
+const detectionsResponse = (detections: Detection[], source: string) =>
+  new Response(
+    JSON.stringify({
+      recognizedText: detections[0]?.text || "",
+      detections,
+      source
+    }),
+    {
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders
+      }
+    }
+  );
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -58,15 +102,7 @@ serve(async (req) => {
     // Use mock data if no API key provided
     if (!apiKey) {
       console.log("No API key provided, using mock recognition");
-      return new Response(
-        JSON.stringify({ recognizedText: getMockRecognizedItem() }),
-        { 
-          headers: { 
-            "Content-Type": "application/json",
-            ...corsHeaders
-          }
-        }
-      );
+      return detectionsResponse(getMockDetections(), "mock");
     }
     
     // Initialize the Gemini API client
@@ -75,7 +111,6 @@ serve(async (req) => {
     
     // Convert the file to a base64 string
     const arrayBuffer = await imageFile.arrayBuffer();
-    const bytes = new Uint8Array(arrayBuffer);
     
     // Create a FileObject for the Gemini API
     const imageData = {
@@ -87,46 +122,43 @@ serve(async (req) => {
     
     // Create the prompt for Gemini
     const prompt = `
-      Look at this image of a food item. Please identify what it is in the format:
-      "[Item name] [Size if visible] #[category]"
-      
-      For example:
-      "Frozen Chicken Breast 500g #protein"
-      "Ice Cream 1L #dessert"
-      "Frozen Pizza 12" #dinner"
-      
-      Only provide the formatted response, nothing else. The category tag should be one word.
-      If you cannot identify the item clearly, make your best guess.
+      Look at this photo of food, which may be a single item or a whole freezer drawer or shelf.
+      Find every separate food item you can see, and for each one return:
+      - text: the item in the format "[Item name] [Size if visible] #[category]",
+        for example "Frozen Chicken Breast 500g #protein", "Ice Cream 1L #dessert" or "Frozen Pizza 12" #dinner".
+        The category tag should be one word.
+      - confidence: how sure you are of the name, from 0 to 1
+      - box_2d: the item's bounding box as [ymin, xmin, ymax, xmax], scaled 0 to 1000
+
+      Count identical packs separately. If you cannot identify an item clearly, make your best guess with a low confidence.
+      Return only a JSON array of objects with these properties, no other text.
     `;
     
     // Generate the response
     const result = await model.generateContent([prompt, imageData]);
-    const response = result.response;
-    const text = response.text().trim();
-    
-    // Return the recognized text
-    return new Response(
-      JSON.stringify({ recognizedText: text }),
-      { 
-        headers: { 
-          "Content-Type": "application/json",
-          ...corsHeaders
-        }
-      }
-    );
+    const text = result.response.text();
+    console.log("Gemini detection response:", text);
+
+    const jsonMatch = text.match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      throw new Error("No valid JSON found in response");
+    }
+
+    const detections: Detection[] = (JSON.parse(jsonMatch[0]) as any[])
+      .filter(detection => detection && typeof detection.text === "string" && detection.text.trim())
+      .map(detection => ({
+        text: detection.text.trim(),
+        confidence: typeof detection.confidence === "number" ? clamp(detection.confidence) : 0.5,
+        box: toBoundingBox(detection.box_2d)
+      }))
+      .sort((a, b) => b.confidence - a.confidence);
+
+    return detectionsResponse(detections, "gemini");
   } catch (error) {
     console.error("Error processing image:", error);
     
     // Fall back to mock data on error
-    return new Response(
-      JSON.stringify({ recognizedText: getMockRecognizedItem() }),
-      { 
-        headers: { 
-          "Content-Type": "application/json",
-          ...corsHeaders
-        }
-      }
-    );
+    return detectionsResponse(getMockDetections(), "mock");
   }
 });
 
@@ -141,14 +173,13 @@ function arrayBufferToBase64(buffer: ArrayBuffer): string {
   return btoa(binary);
 }
 
-// Function to generate a mock recognized item
-function getMockRecognizedItem(): string {
-  const mockItems = [
-    'Frozen Chicken Breast 500g #protein',
-    'Ice Cream 1L #dessert',
-    'Frozen Pizza 12" #dinner',
-    'Frozen Vegetables 250g #healthy',
-    'Homemade Soup 500ml #leftovers'
+// Function to generate mock detections, laid out like a freezer drawer
+function getMockDetections(): Detection[] {
+  return [
+    { text: 'Frozen Chicken Breast 500g #protein', confidence: 0.93, box: { x: 0.04, y: 0.08, width: 0.3, height: 0.38 } },
+    { text: 'Ice Cream 1L #dessert', confidence: 0.88, box: { x: 0.38, y: 0.06, width: 0.26, height: 0.34 } },
+    { text: 'Frozen Pizza 12" #dinner', confidence: 0.81, box: { x: 0.68, y: 0.1, width: 0.28, height: 0.36 } },
+    { text: 'Frozen Vegetables 250g #healthy', confidence: 0.67, box: { x: 0.08, y: 0.54, width: 0.36, height: 0.38 } },
+    { text: 'Homemade Soup 500ml #leftovers', confidence: 0.41, box: { x: 0.52, y: 0.52, width: 0.34, height: 0.4 } }
   ];
-  return mockItems[Math.floor(Math.random() * mockItems.length)];
 }
\ No newline at end of file
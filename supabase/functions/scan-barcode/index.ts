@@ -2,6 +2,7 @@
 // https://deno.land/manual/getting_started/setup_your_environment
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,19 +10,223 @@ const corsHeaders = {
   "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
 };
 
-// Mock barcode database
-const mockBarcodeDatabase: Record<string, string> = {
-  "1234": "Frozen Chicken Breast 500g #protein",
-  "2345": "Ice Cream 1L #dessert",
-  "3456": "Frozen Pizza 12\" #dinner",
-  "4567": "Frozen Mixed Vegetables 250g #healthy",
-  "5678": "Frozen Berries 400g #breakfast",
-  "6789": "Fish Fillets 300g #protein",
-  "7890": "Ready Meal - Lasagna 350g #dinner",
-  "8901": "Frozen Dumplings 20pk #dinner",
-  "9012": "Frozen Bread Rolls 6pk #bakery",
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Cached provider results are looked up again after this long; 'local' rows never expire
+const CACHE_MAX_AGE_DAYS = 30;
+
+interface Product {
+  barcode: string;
+  name: string;
+  brand: string;
+  size: string;
+  category: string;
+  imageUrl: string | null;
+  source: string;
+}
+
+interface ProductProvider {
+  name: string;
+  // Whether results should be written to the products table
+  cacheable: boolean;
+  lookup(barcode: string): Promise<Product | null>;
+}
+
+// Fixed products for offline testing, keyed on full GTINs from the 200-299 in-store range
+// so they can't collide with real products
+const mockProducts: Record<string, Omit<Product, "barcode" | "source">> = {
+  "2000000000015": { name: "Chicken Breast Fillets", brand: "Frostie Farms", size: "500 g", category: "Meat & Poultry", imageUrl: null },
+  "2000000000022": { name: "Vanilla Ice Cream", brand: "Frostie Dairy", size: "1 L", category: "Dairy & Alternatives", imageUrl: null },
+  "2000000000039": { name: "Margherita Pizza", brand: "Frostie Kitchen", size: "12 in", category: "Prepared Meals", imageUrl: null },
+  "2000000000046": { name: "Mixed Vegetables", brand: "Frostie Garden", size: "250 g", category: "Fruits & Vegetables", imageUrl: null },
+  "2000000000053": { name: "Mixed Berries", brand: "Frostie Garden", size: "400 g", category: "Fruits & Vegetables", imageUrl: null },
+  "2000000000060": { name: "Cod Fillets", brand: "Frostie Sea", size: "300 g", category: "Seafood", imageUrl: null },
+  "2000000000077": { name: "Beef Lasagna", brand: "Frostie Kitchen", size: "350 g", category: "Prepared Meals", imageUrl: null },
+  "2000000000084": { name: "Pork Dumplings", brand: "Frostie Kitchen", size: "20 pk", category: "Prepared Meals", imageUrl: null },
+  "2000000000091": { name: "Bread Rolls", brand: "Frostie Bakery", size: "6 pk", category: "Bakery & Bread", imageUrl: null },
 };
 
+// Open Food Facts category tags mapped to the app's categories; tags are checked from the
+// most specific (last) to the most general
+const categoryTagMappings: [RegExp, string][] = [
+  [/soups?|broths?|stocks?/, "Soups & Broths"],
+  [/seafood|fishes|fish|shrimps?|prawns?|salmon|tuna|cod/, "Seafood"],
+  [/meats?|poultry|chicken|beef|pork|sausages?|turkey|lamb/, "Meat & Poultry"],
+  [/pizzas?|meals|prepared|lasagnas?|dumplings?|ready/, "Prepared Meals"],
+  [/breads?|pastries|viennoiseries|cakes?|bakery|rolls/, "Bakery & Bread"],
+  [/dairies|dairy|ice-creams?|cheeses?|milks?|yogurts?|butters?/, "Dairy & Alternatives"],
+  [/fruits?|vegetables?|berries|peas|beans|potatoes/, "Fruits & Vegetables"],
+  [/herbs?|spices?|condiments?|seasonings?/, "Herbs & Seasonings"],
+  [/snacks?|desserts?|sweets?/, "Ready-to-Eat"],
+];
+
+const mapCategory = (categoryTags: string[]): string => {
+  for (const tag of [...categoryTags].reverse()) {
+    const plainTag = tag.replace(/^[a-z]{2}:/, "");
+    const match = categoryTagMappings.find(([pattern]) => pattern.test(plainTag));
+    if (match) {
+      return match[1];
+    }
+  }
+  return "Other";
+};
+
+// Checks the GS1 mod-10 check digit shared by EAN-8, UPC-A, EAN-13 and GTIN-14
+const hasValidCheckDigit = (digits: string): boolean => {
+  const sum = digits
+    .slice(0, -1)
+    .split("")
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+// Normalise a scanned code to the GTIN form used as the cache key: UPC-A gains a leading
+// zero and zero-padded GTIN-14s lose theirs, so the same product always has one key
+const normalizeGtin = (barcode: string): string | null => {
+  let digits = barcode.replace(/\D/g, "");
+  if (![8, 12, 13, 14].includes(digits.length) || !hasValidCheckDigit(digits)) {
+    return null;
+  }
+
+  if (digits.length === 12) {
+    digits = `0${digits}`;
+  } else if (digits.length === 14 && digits.startsWith("0")) {
+    digits = digits.slice(1);
+  }
+  return digits;
+};
+
+// Products added by hand, plus earlier provider results that haven't gone stale
+const createProductTableProvider = (supabase: SupabaseClient): ProductProvider => ({
+  name: "local",
+  cacheable: false,
+  async lookup(barcode) {
+    const { data, error } = await supabase
+      .from("products")
+      .select("barcode, name, brand, size, category, image_url, source, updated_at")
+      .eq("barcode", barcode)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error reading products table:", error);
+      return null;
+    }
+    if (!data) {
+      return null;
+    }
+
+    const age = Date.now() - new Date(data.updated_at).getTime();
+    if (data.source !== "local" && age > CACHE_MAX_AGE_DAYS * DAY_MS) {
+      return null;
+    }
+
+    return {
+      barcode: data.barcode,
+      name: data.name,
+      brand: data.brand || "",
+      size: data.size || "",
+      category: data.category || "Other",
+      imageUrl: data.image_url,
+      source: data.source,
+    };
+  },
+});
+
+// Same lookup as searchOpenFoodFacts in src/api/services/images.ts, keeping the fields apart
+const createOpenFoodFactsProvider = (baseUrl: string): ProductProvider => ({
+  name: "openfoodfacts",
+  cacheable: true,
+  async lookup(barcode) {
+    const response = await fetch(
+      `${baseUrl}/api/v2/product/${barcode}.json?fields=product_name,brands,quantity,categories_tags,image_front_url,image_url`,
+      { headers: { "User-Agent": "Frostie/1.0" } }
+    );
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Open Food Facts API call failed with status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data.status !== 1 || !data.product) {
+      return null;
+    }
+
+    const brand = (data.product.brands || "").split(",")[0].trim();
+    const name = (data.product.product_name || "").trim();
+    if (!name && !brand) {
+      return null;
+    }
+
+    return {
+      barcode,
+      name: name || brand,
+      brand: name ? brand : "",
+      size: (data.product.quantity || "").trim(),
+      category: mapCategory(data.product.categories_tags || []),
+      imageUrl: data.product.image_front_url || data.product.image_url || null,
+      source: "openfoodfacts",
+    };
+  },
+});
+
+const mockProvider: ProductProvider = {
+  name: "mock",
+  cacheable: false,
+  lookup(barcode) {
+    const product = mockProducts[barcode];
+    return Promise.resolve(product ? { ...product, barcode, source: "mock" } : null);
+  },
+};
+
+// PRODUCT_PROVIDERS picks the chain in order, e.g. "mock" for offline tests; defaults to
+// the products table followed by Open Food Facts
+const getProviders = (supabase: SupabaseClient | null): ProductProvider[] => {
+  const names = (Deno.env.get("PRODUCT_PROVIDERS") || "local,openfoodfacts")
+    .split(",")
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  return names.flatMap((name): ProductProvider[] => {
+    switch (name) {
+      case "local":
+        return supabase ? [createProductTableProvider(supabase)] : [];
+      case "openfoodfacts":
+        return [createOpenFoodFactsProvider(Deno.env.get("OPEN_FOOD_FACTS_URL") || "https://world.openfoodfacts.net")];
+      case "mock":
+        return [mockProvider];
+      default:
+        console.warn(`Unknown product provider "${name}"`);
+        return [];
+    }
+  });
+};
+
+const saveProduct = async (supabase: SupabaseClient, product: Product) => {
+  const { error } = await supabase
+    .from("products")
+    .upsert({
+      barcode: product.barcode,
+      name: product.name,
+      brand: product.brand,
+      size: product.size,
+      category: product.category,
+      image_url: product.imageUrl,
+      source: product.source,
+    });
+
+  if (error) {
+    console.error("Error caching product:", error);
+  }
+};
+
+// The single line the client parses into a freezer item, as before
+const formatProductName = (product: Product): string =>
+  [product.brand, product.name, product.size].filter(Boolean).join(" ");
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -33,29 +238,57 @@ serve(async (req) => {
 
   try {
     const { barcode } = await req.json();
-    
+
     if (!barcode) {
       return new Response(
         JSON.stringify({ error: "No barcode provided" }),
-        { 
+        {
           status: 400,
-          headers: { 
+          headers: {
             "Content-Type": "application/json",
             ...corsHeaders
           }
         }
       );
     }
-    
-    // Try to find the barcode in our mock database
-    // In a real app, we would call a barcode lookup API here
-    const firstFourDigits = barcode.substring(0, 4);
-    const productName = mockBarcodeDatabase[firstFourDigits] || `Unknown Item ${barcode.substring(0, 8)} #other`;
-    
+
+    // Without the service role key the function still works, just without the cache
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const supabase = supabaseUrl && serviceRoleKey
+      ? createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } })
+      : null;
+
+    // Codes that aren't GTINs (e.g. Code 128 shelf labels) can't be looked up anywhere
+    const gtin = normalizeGtin(String(barcode));
+    let product: Product | null = null;
+
+    if (gtin) {
+      for (const provider of getProviders(supabase)) {
+        try {
+          product = await provider.lookup(gtin);
+        } catch (error) {
+          console.error(`Product provider ${provider.name} failed:`, error);
+          continue;
+        }
+
+        if (product) {
+          if (supabase && provider.cacheable) {
+            await saveProduct(supabase, product);
+          }
+          break;
+        }
+      }
+    }
+
+    const productName = product
+      ? formatProductName(product)
+      : `Unknown Item ${String(barcode).substring(0, 14)} #other`;
+
     return new Response(
-      JSON.stringify({ productName }),
-      { 
-        headers: { 
+      JSON.stringify({ productName, product }),
+      {
+        headers: {
           "Content-Type": "application/json",
           ...corsHeaders
         }
@@ -65,13 +298,13 @@ serve(async (req) => {
     console.error("Error processing barcode:", error);
     return new Response(
       JSON.stringify({ error: "Internal server error" }),
-      { 
+      {
         status: 500,
-        headers: { 
+        headers: {
           "Content-Type": "application/json",
           ...corsHeaders
         }
       }
     );
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,265 @@
+// Follow this setup guide to integrate the Deno language server with your editor:
+// https://deno.land/manual/getting_started/setup_your_environment
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { GoogleGenerativeAI } from "npm:@google/generative-ai";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+// One line of a receipt as the OCR provider read it
+interface ReceiptLine {
+  text: string;
+  name: string;
+  quantity: number;
+  isFood: boolean;
+  isFrozen: boolean;
+}
+
+interface ReceiptOcrProvider {
+  name: string;
+  read(image: File): Promise<ReceiptLine[]>;
+}
+
+// Shorthand printed on till receipts, expanded word by word
+const abbreviations: Record<string, string> = {
+  "bf": "beef",
+  "bnls": "boneless",
+  "brst": "breast",
+  "brd": "bread",
+  "brcl": "broccoli",
+  "brgr": "burger",
+  "burg": "burger",
+  "chkn": "chicken",
+  "chk": "chicken",
+  "chs": "cheese",
+  "choc": "chocolate",
+  "crm": "cream",
+  "dmplg": "dumplings",
+  "fil": "fillets",
+  "flt": "fillets",
+  "frz": "frozen",
+  "frzn": "frozen",
+  "fz": "frozen",
+  "grd": "ground",
+  "grnd": "ground",
+  "lsgna": "lasagna",
+  "mxd": "mixed",
+  "org": "organic",
+  "pk": "pack",
+  "pz": "pizza",
+  "pizz": "pizza",
+  "shrmp": "shrimp",
+  "sknls": "skinless",
+  "stwbry": "strawberry",
+  "strwb": "strawberry",
+  "trky": "turkey",
+  "van": "vanilla",
+  "veg": "vegetables",
+  "vgtbl": "vegetables",
+  "wf": "waffles",
+  "whl": "whole",
+};
+
+// Lines that are never products
+const nonItemPattern = /\b(sub\s*total|total|tax|vat|change|cash|visa|mastercard|amex|debit|credit|card|balance|savings|discount|coupon|points|receipt|thank|store|tel|phone|www\.)\b/i;
+
+// Products that aren't food, or don't go in a freezer
+const nonFoodPattern = /\b(bags?|batter(y|ies)|detergent|soap|shampoo|paper|towels?|foil|wrap|tissues?|bleach|lightbulb|magazine|gift)\b/i;
+const nonFreezerPattern = /\b(milk|eggs?|water|soda|cola|juice|coffee|tea|wine|beer|cereal|crisps|chips|rice|pasta|flour|sugar|salt|oil|vinegar|sauce|ketchup|canned|tin|bananas?|apples?|lettuce|tomatoes?|onions?)\b/i;
+const freezerPattern = /\b(frozen|ice\s*cream|ice|pizza|peas|fries|waffles|dumplings|nuggets|fish\s*fingers|sorbet|popsicles?|chicken|beef|pork|turkey|lamb|mince|ground|sausages?|burgers?|bacon|shrimp|prawns|salmon|cod|fillets|berries|strawberry|lasagna|pie|pastry|bread|rolls|bagels|vegetables|broccoli|spinach|corn)\b/i;
+
+const titleCase = (text: string): string =>
+  text.toLowerCase().replace(/\b[a-z]/g, letter => letter.toUpperCase());
+
+// "CHKN BRST BNLS" -> "Chicken Breast Boneless"
+const normalizeProductName = (name: string): string => {
+  const words = name
+    .replace(/[^a-z0-9&'\s]/gi, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    // Drop store codes, weights and volumes that OCR keeps, e.g. "4011", "0.52KG" or "2L"
+    .filter(word => !/^\d+$/.test(word) && !/^\d+(\.\d+)?(kg|lb|g|oz|l|ml)$/i.test(word))
+    .map(word => abbreviations[word.toLowerCase()] || word);
+
+  return titleCase(words.join(" "));
+};
+
+// Rule-based reading of a raw receipt line, for the mock provider
+const parseReceiptLine = (text: string): ReceiptLine => {
+  let rest = text.trim();
+  let quantity = 1;
+
+  // "2 @ 3.49" or "2 X 3.49" anywhere, or a leading "2 "
+  const multiMatch = rest.match(/(?:^|\s)(\d+)\s*(?:@|x)\s*\$?\d+[.,]\d{2}/i);
+  if (multiMatch) {
+    quantity = parseInt(multiMatch[1], 10);
+    rest = rest.replace(multiMatch[0], " ");
+  } else {
+    const leadingMatch = rest.match(/^(\d+)\s+(?=[a-z])/i);
+    if (leadingMatch) {
+      quantity = parseInt(leadingMatch[1], 10);
+      rest = rest.replace(leadingMatch[0], "");
+    }
+  }
+
+  // Prices and trailing tax flags
+  rest = rest.replace(/-?\$?\d+[.,]\d{2}\s*[A-Z]?\s*$/i, "").trim();
+
+  const name = normalizeProductName(rest);
+  return {
+    text,
+    name,
+    quantity: quantity > 0 ? quantity : 1,
+    isFood: !!name && !nonItemPattern.test(text) && !nonFoodPattern.test(name),
+    isFrozen: freezerPattern.test(name) && !nonFreezerPattern.test(name),
+  };
+};
+
+const createGeminiProvider = (apiKey: string): ReceiptOcrProvider => ({
+  name: "gemini",
+  async read(image) {
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+
+    const prompt = `
+      This is a photo of a grocery receipt. Read every purchased product line.
+
+      For each line return:
+      - text: the line exactly as printed
+      - name: the product name with abbreviations written out in plain words (e.g. "CHKN BRST BNLS" -> "Boneless Chicken Breast"), without prices, codes or weights
+      - quantity: how many were bought (default 1)
+      - isFood: false for anything that isn't food or drink (bags, cleaning products, toiletries)
+      - isFrozen: true if the product is frozen or something people usually freeze (meat, fish, bread, ice cream, frozen vegetables)
+
+      Leave out totals, tax, payment and store information.
+      Return only a JSON array of objects with these properties, no other text.
+    `;
+
+    const result = await model.generateContent([
+      prompt,
+      {
+        inlineData: {
+          data: arrayBufferToBase64(await image.arrayBuffer()),
+          mimeType: image.type || "image/jpeg",
+        },
+      },
+    ]);
+
+    const text = result.response.text();
+    console.log("Gemini receipt response:", text);
+
+    const jsonMatch = text.match(/\[[\s\S]*\]/);
+    if (!jsonMatch) {
+      throw new Error("No valid JSON found in response");
+    }
+
+    return (JSON.parse(jsonMatch[0]) as any[])
+      .filter(line => line && typeof line.text === "string")
+      .map(line => ({
+        text: line.text,
+        name: normalizeProductName(String(line.name || line.text)),
+        quantity: Number(line.quantity) > 0 ? Number(line.quantity) : 1,
+        isFood: line.isFood !== false && !nonItemPattern.test(line.text),
+        isFrozen: line.isFrozen === true,
+      }));
+  },
+});
+
+// A fixed receipt run through the same rules, for testing without an API key
+const mockProvider: ReceiptOcrProvider = {
+  name: "mock",
+  read() {
+    return Promise.resolve([
+      "FRZ PEAS 1KG            2.49 F",
+      "CHKN BRST BNLS SKNLS    8.99 F",
+      "2 @ 3.49 VAN ICE CRM    6.98 F",
+      "WHOLE MILK 2L           1.65 F",
+      "GRND BF 500G            4.75 F",
+      "CARRIER BAG             0.10",
+      "PZ MARGHERITA           3.00 F",
+      "DISH SOAP               2.20",
+      "SUBTOTAL               30.16",
+      "VISA                   30.16",
+    ].map(parseReceiptLine));
+  },
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const formData = await req.formData();
+    const imageFile = formData.get("image");
+
+    if (!imageFile || !(imageFile instanceof File)) {
+      return new Response(
+        JSON.stringify({ error: "No image file provided" }),
+        {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            ...corsHeaders
+          }
+        }
+      );
+    }
+
+    // Use mock data if no API key provided
+    const apiKey = Deno.env.get("GEMINI_API_KEY");
+    if (!apiKey) {
+      console.log("No API key provided, using mock receipt");
+    }
+    const provider = apiKey ? createGeminiProvider(apiKey) : mockProvider;
+
+    const lines = await provider.read(imageFile);
+    const items = lines
+      .filter(line => line.isFood && line.isFrozen && line.name)
+      .map(({ text, name, quantity }) => ({ text, name, quantity }));
+    const skipped = lines
+      .filter(line => !(line.isFood && line.isFrozen && line.name))
+      .map(line => line.text);
+
+    return new Response(
+      JSON.stringify({ items, skipped, source: provider.name }),
+      {
+        headers: {
+          "Content-Type": "application/json",
+          ...corsHeaders
+        }
+      }
+    );
+  } catch (error) {
+    console.error("Error scanning receipt:", error);
+    return new Response(
+      JSON.stringify({ error: "Couldn't read the receipt" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+          ...corsHeaders
+        }
+      }
+    );
+  }
+});
+
+// Helper function to convert ArrayBuffer to base64
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  let binary = '';
+  const bytes = new Uint8Array(buffer);
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
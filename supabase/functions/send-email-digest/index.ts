@@ -0,0 +1,330 @@
+// Follow this setup guide to integrate the Deno language server with your editor:
+// https://deno.land/manual/getting_started/setup_your_environment
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import nodemailer from "npm:nodemailer@6.9.13";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+const HOUR_MS = 1000 * 60 * 60;
+const DAY_MS = HOUR_MS * 24;
+
+// How long after the last digest the next one is due. Slightly under a full period so
+// a daily schedule that runs a little early doesn't skip a day.
+const DIGEST_INTERVAL_MS: Record<string, number> = {
+  daily: DAY_MS - 4 * HOUR_MS,
+  weekly: 7 * DAY_MS - 4 * HOUR_MS,
+};
+
+interface DigestItem {
+  name: string;
+  category: string;
+  quantity: number;
+  size: string;
+  expirationDate: Date;
+}
+
+interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// Any SMTP server; locally this is the Inbucket instance that ships with `supabase start`
+const createSmtpTransport = (host: string): MailTransport => {
+  const port = Number(Deno.env.get("SMTP_PORT") || 587);
+  const user = Deno.env.get("SMTP_USER");
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: Deno.env.get("SMTP_SECURE") === "true" || port === 465,
+    auth: user ? { user, pass: Deno.env.get("SMTP_PASS") } : undefined,
+  });
+  const from = Deno.env.get("MAIL_FROM") || "Frostie <digest@frostie.app>";
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+};
+
+// Without an SMTP server, only log what would have been sent
+const logTransport: MailTransport = {
+  name: "log",
+  send(message) {
+    console.log(`Would email ${message.to}: ${message.subject}\n${message.text}`);
+    return Promise.resolve();
+  },
+};
+
+const getMailTransport = (): MailTransport => {
+  const smtpHost = Deno.env.get("SMTP_HOST");
+  if (smtpHost) {
+    return createSmtpTransport(smtpHost);
+  }
+
+  console.log("No SMTP_HOST set, logging digests instead of sending them");
+  return logTransport;
+};
+
+// Same calculation as getDaysUntilExpiration in src/utils/freezerUtils.ts, so the
+// digest matches what the app shows
+const getDaysUntilExpiration = (item: DigestItem, now: Date): number => {
+  const diffTime = item.expirationDate.getTime() - now.getTime();
+  return Math.ceil(diffTime / DAY_MS);
+};
+
+// Same wording as getExpirationStatus in src/utils/freezerUtils.ts
+const getExpirationStatus = (daysLeft: number): string => {
+  if (daysLeft <= 0) return "Expired";
+  if (daysLeft === 1) return "1 day left";
+  return `${daysLeft} days left`;
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Items grouped by category, soonest first within each group
+const groupByCategory = (items: DigestItem[]): [string, DigestItem[]][] => {
+  const groups = new Map<string, DigestItem[]>();
+  [...items]
+    .sort((a, b) => a.expirationDate.getTime() - b.expirationDate.getTime())
+    .forEach((item) => {
+      const category = item.category || "Other";
+      groups.set(category, [...(groups.get(category) || []), item]);
+    });
+  return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+};
+
+const renderDigest = (items: DigestItem[], frequency: string, appUrl: string, now: Date): Omit<MailMessage, "to"> => {
+  const freezerUrl = `${appUrl}/freezer`;
+  const expired = items.filter((item) => getDaysUntilExpiration(item, now) <= 0).length;
+  const expiring = items.length - expired;
+
+  const summary = [
+    expiring > 0 ? `${expiring} item${expiring === 1 ? "" : "s"} expiring soon` : "",
+    expired > 0 ? `${expired} expired` : "",
+  ].filter(Boolean).join(", ");
+
+  const groups = groupByCategory(items);
+
+  const htmlGroups = groups.map(([category, groupItems]) => `
+    <h2 style="font-size:16px;color:#1e293b;margin:24px 0 8px">${escapeHtml(category)}</h2>
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse">
+      ${groupItems.map((item) => {
+        const daysLeft = getDaysUntilExpiration(item, now);
+        const color = daysLeft <= 0 ? "#ef4444" : daysLeft <= 3 ? "#f97316" : daysLeft <= 7 ? "#eab308" : "#22c55e";
+        const amount = [item.quantity > 1 ? `${item.quantity}×` : "", item.size].filter(Boolean).join(" ");
+        return `
+      <tr>
+        <td style="padding:6px 0;border-bottom:1px solid #e2e8f0">
+          <a href="${freezerUrl}" style="color:#1e293b;text-decoration:none">${escapeHtml(item.name)}</a>
+          ${amount ? `<span style="color:#64748b"> · ${escapeHtml(amount)}</span>` : ""}
+        </td>
+        <td style="padding:6px 0;border-bottom:1px solid #e2e8f0;text-align:right;color:${color};white-space:nowrap">
+          ${getExpirationStatus(daysLeft)}
+        </td>
+      </tr>`;
+      }).join("")}
+    </table>`).join("");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f8fafc;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+      <h1 style="font-size:20px;color:#1e293b;margin:0 0 4px">Your ${frequency} freezer digest</h1>
+      <p style="color:#64748b;margin:0">${escapeHtml(summary)}</p>
+      ${htmlGroups}
+      <p style="margin:24px 0 0">
+        <a href="${freezerUrl}" style="display:inline-block;background:#2563eb;color:#ffffff;padding:10px 16px;border-radius:6px;text-decoration:none">Open your freezer</a>
+      </p>
+      <p style="color:#94a3b8;font-size:12px;margin:24px 0 0">
+        You're receiving this because you turned on the email digest in <a href="${appUrl}/settings" style="color:#94a3b8">Frostie settings</a>.
+      </p>
+    </div>
+  </body>
+</html>`;
+
+  const text = [
+    `Your ${frequency} freezer digest: ${summary}`,
+    ...groups.map(([category, groupItems]) =>
+      `\n${category}\n${groupItems.map((item) => `- ${item.name}: ${getExpirationStatus(getDaysUntilExpiration(item, now))}`).join("\n")}`
+    ),
+    `\nOpen your freezer: ${freezerUrl}`,
+  ].join("\n");
+
+  return {
+    subject: `Frostie: ${summary}`,
+    html,
+    text,
+  };
+};
+
+// Runs with the service-role key, so only the scheduler may trigger it: either with the
+// CRON_SECRET in an x-cron-secret header, or authenticated as the service role itself
+const isScheduler = (req: Request, serviceRoleKey: string): boolean => {
+  const cronSecret = Deno.env.get("CRON_SECRET");
+  if (cronSecret && req.headers.get("x-cron-secret") === cronSecret) return true;
+  return req.headers.get("Authorization") === `Bearer ${serviceRoleKey}`;
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set");
+    }
+
+    if (!isScheduler(req, serviceRoleKey)) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        {
+          status: 401,
+          headers: {
+            "Content-Type": "application/json",
+            ...corsHeaders
+          }
+        }
+      );
+    }
+
+    // Scheduled runs send no body; `userId` and `force` make it easy to try one digest
+    const { userId, force, dryRun } = req.method === "POST"
+      ? await req.json().catch(() => ({}))
+      : {};
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+    const transport = getMailTransport();
+    const appUrl = (Deno.env.get("APP_URL") || "http://localhost:5173").replace(/\/$/, "");
+    const now = new Date();
+
+    let settingsQuery = supabase
+      .from("user_settings")
+      .select("user_id, notification_timing, email_digest_frequency, last_email_digest_at")
+      .eq("email_digest", true);
+
+    if (userId) {
+      settingsQuery = settingsQuery.eq("user_id", userId);
+    }
+
+    const { data: settings, error: settingsError } = await settingsQuery;
+    if (settingsError) throw settingsError;
+
+    const results: number[] = [];
+
+    for (const setting of settings || []) {
+      const frequency = setting.email_digest_frequency === "daily" ? "daily" : "weekly";
+      const lastSent = setting.last_email_digest_at ? new Date(setting.last_email_digest_at).getTime() : 0;
+      if (!force && now.getTime() - lastSent < DIGEST_INTERVAL_MS[frequency]) continue;
+
+      const { data: memberships, error: membershipsError } = await supabase
+        .from("household_members")
+        .select("household_id")
+        .eq("user_id", setting.user_id);
+
+      if (membershipsError) throw membershipsError;
+      const householdIds = (memberships || []).map((m) => m.household_id);
+      if (householdIds.length === 0) continue;
+
+      // A weekly digest has to cover everything that expires before the next one
+      const windowDays = Math.max(setting.notification_timing ?? 3, frequency === "weekly" ? 7 : 0);
+      const windowEnd = new Date(now.getTime() + windowDays * DAY_MS);
+
+      const { data: rows, error: itemsError } = await supabase
+        .from("freezer_items")
+        .select("name, category, quantity, size, expiry_date")
+        .in("household_id", householdIds)
+        .lt("expiry_date", windowEnd.toISOString());
+
+      if (itemsError) throw itemsError;
+      if (!rows || rows.length === 0) continue;
+
+      const { data: userData, error: userError } = await supabase.auth.admin.getUserById(setting.user_id);
+      if (userError) throw userError;
+      const email = userData.user?.email;
+      if (!email) continue;
+
+      const items: DigestItem[] = rows.map((row) => ({
+        name: row.name,
+        category: row.category,
+        quantity: row.quantity,
+        size: row.size || "",
+        expirationDate: new Date(row.expiry_date),
+      }));
+      const message = { ...renderDigest(items, frequency, appUrl, now), to: email };
+
+      if (!dryRun) {
+        await transport.send(message);
+
+        const { error: updateError } = await supabase
+          .from("user_settings")
+          .update({ last_email_digest_at: now.toISOString() })
+          .eq("user_id", setting.user_id);
+
+        if (updateError) throw updateError;
+      }
+
+      results.push(items.length);
+    }
+
+    console.log(`Email digests via ${transport.name}:`, results.length);
+
+    return new Response(
+      // Counts only: addresses and digest contents stay out of the response
+      JSON.stringify({
+        transport: transport.name,
+        dryRun: !!dryRun,
+        digests: results.length,
+        items: results.reduce((total, count) => total + count, 0),
+      }),
+      {
+        headers: {
+          "Content-Type": "application/json",
+          ...corsHeaders
+        }
+      }
+    );
+  } catch (error) {
+    console.error("Error sending email digests:", error);
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Failed to send email digests" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+          ...corsHeaders
+        }
+      }
+    );
+  }
+});
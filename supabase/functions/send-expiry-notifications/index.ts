@@ -0,0 +1,357 @@
+// Follow this setup guide to integrate the Deno language server with your editor:
+// https://deno.land/manual/getting_started/setup_your_environment
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import webpush from "npm:web-push@3.6.7";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+interface StoredSubscription {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+}
+
+interface PushResult {
+  ok: boolean;
+  // The push service no longer knows this subscription and it should be deleted
+  gone: boolean;
+  status?: number;
+}
+
+interface PushSender {
+  name: string;
+  send(subscription: StoredSubscription, payload: PushPayload): Promise<PushResult>;
+}
+
+// Sends encrypted Web Push messages signed with the VAPID key pair
+const createWebPushSender = (publicKey: string, privateKey: string, subject: string): PushSender => {
+  webpush.setVapidDetails(subject, publicKey, privateKey);
+
+  return {
+    name: "web-push",
+    async send(subscription, payload) {
+      try {
+        const response = await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          JSON.stringify(payload)
+        );
+        return { ok: true, gone: false, status: response.statusCode };
+      } catch (error) {
+        const status = (error as { statusCode?: number }).statusCode;
+        console.error(`Push to ${subscription.endpoint} failed:`, status, error);
+        return { ok: false, gone: status === 404 || status === 410, status };
+      }
+    },
+  };
+};
+
+// Posts the unencrypted payload to a local endpoint (see the push-stub function) so the
+// digest can be checked without a real push service
+const createStubSender = (url: string): PushSender => ({
+  name: "stub",
+  async send(subscription, payload) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ subscription: { userId: subscription.user_id, endpoint: subscription.endpoint }, payload }),
+    });
+    return { ok: response.ok, gone: response.status === 410, status: response.status };
+  },
+});
+
+// Without VAPID keys or a stub URL, only log what would have been sent
+const logSender: PushSender = {
+  name: "log",
+  send(subscription, payload) {
+    console.log(`Would push to ${subscription.endpoint}:`, payload);
+    return Promise.resolve({ ok: true, gone: false });
+  },
+};
+
+const getPushSender = (): PushSender => {
+  const stubUrl = Deno.env.get("PUSH_STUB_URL");
+  if (stubUrl) {
+    return createStubSender(stubUrl);
+  }
+
+  const publicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+  const privateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+  if (publicKey && privateKey) {
+    return createWebPushSender(publicKey, privateKey, Deno.env.get("VAPID_SUBJECT") || "mailto:notifications@frostie.app");
+  }
+
+  console.log("No VAPID keys or PUSH_STUB_URL set, logging notifications instead of sending them");
+  return logSender;
+};
+
+// Start of the given UTC day, or of today
+const startOfDay = (date?: string): Date => {
+  const day = date ? new Date(`${date}T00:00:00Z`) : new Date();
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate()));
+};
+
+const buildDigest = (itemNames: string[], days: number): PushPayload => {
+  const count = itemNames.length;
+  const when = days === 0 ? "today" : days === 1 ? "tomorrow" : `in ${days} days`;
+  const listed = itemNames.slice(0, 3).join(", ");
+  const more = count > 3 ? ` and ${count - 3} more` : "";
+
+  return {
+    title: `${count} item${count === 1 ? "" : "s"} expiring ${when}`,
+    body: `${listed}${more}`,
+    url: "/freezer",
+    tag: "expiry-digest",
+  };
+};
+
+interface DueThawReminder {
+  id: string;
+  item_name: string;
+  meal_title: string;
+  meal_date: string;
+}
+
+const describeDay = (mealDate: string, today: Date): string => {
+  const day = startOfDay(mealDate);
+  const days = Math.round((day.getTime() - today.getTime()) / DAY_MS);
+  if (days <= 0) return "today";
+  if (days === 1) return "tomorrow";
+  return `on ${day.toLocaleDateString("en-US", { weekday: "long", timeZone: "UTC" })}`;
+};
+
+const buildThawReminder = (reminders: DueThawReminder[], today: Date): PushPayload => {
+  const [first] = reminders;
+  const count = reminders.length;
+
+  return {
+    title: count === 1 ? `Take ${first.item_name} out to thaw` : `Take ${count} items out to thaw`,
+    body: count === 1
+      ? `For ${first.meal_title} ${describeDay(first.meal_date, today)}`
+      : reminders.map((reminder) => `${reminder.item_name} for ${reminder.meal_title}`).join(", "),
+    url: "/plan",
+    tag: "thaw-reminder",
+  };
+};
+
+// Runs with the service-role key, so only the scheduler may trigger it: either with the
+// CRON_SECRET in an x-cron-secret header, or authenticated as the service role itself
+const isScheduler = (req: Request, serviceRoleKey: string): boolean => {
+  const cronSecret = Deno.env.get("CRON_SECRET");
+  if (cronSecret && req.headers.get("x-cron-secret") === cronSecret) return true;
+  return req.headers.get("Authorization") === `Bearer ${serviceRoleKey}`;
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set");
+    }
+
+    if (!isScheduler(req, serviceRoleKey)) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        {
+          status: 401,
+          headers: {
+            "Content-Type": "application/json",
+            ...corsHeaders
+          }
+        }
+      );
+    }
+
+    // Scheduled runs send no body; `date` lets a run be replayed for a specific day
+    const { date, dryRun } = req.method === "POST"
+      ? await req.json().catch(() => ({}))
+      : {};
+
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return new Response(
+        JSON.stringify({ error: "date must be formatted as YYYY-MM-DD" }),
+        {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            ...corsHeaders
+          }
+        }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+    const sender = getPushSender();
+    const today = startOfDay(date);
+
+    const { data: settings, error: settingsError } = await supabase
+      .from("user_settings")
+      .select("user_id, notification_timing")
+      .eq("notifications", true);
+
+    if (settingsError) throw settingsError;
+
+    const todayKey = today.toISOString().slice(0, 10);
+    const results = [];
+    const sentReminderIds = new Set<string>();
+
+    for (const setting of settings || []) {
+      const timing = setting.notification_timing ?? 3;
+
+      const { data: subscriptions, error: subscriptionsError } = await supabase
+        .from("push_subscriptions")
+        .select("id, user_id, endpoint, p256dh, auth")
+        .eq("user_id", setting.user_id);
+
+      if (subscriptionsError) throw subscriptionsError;
+      if (!subscriptions || subscriptions.length === 0) continue;
+
+      const { data: memberships, error: membershipsError } = await supabase
+        .from("household_members")
+        .select("household_id")
+        .eq("user_id", setting.user_id);
+
+      if (membershipsError) throw membershipsError;
+      const householdIds = (memberships || []).map((m) => m.household_id);
+      if (householdIds.length === 0) continue;
+
+      // Items whose expiry date minus the user's notification timing is today
+      const windowStart = new Date(today.getTime() + timing * DAY_MS);
+      const windowEnd = new Date(windowStart.getTime() + DAY_MS);
+
+      const { data: items, error: itemsError } = await supabase
+        .from("freezer_items")
+        .select("name")
+        .in("household_id", householdIds)
+        .gte("expiry_date", windowStart.toISOString())
+        .lt("expiry_date", windowEnd.toISOString())
+        .order("expiry_date", { ascending: true });
+
+      if (itemsError) throw itemsError;
+
+      // Thaw reminders are scheduled by day when a meal is planned; skip any whose item is already thawing
+      const { data: reminders, error: remindersError } = await supabase
+        .from("thaw_reminders")
+        .select("id, item_name, meal_title, meal_date, freezer_items(thawed_at)")
+        .in("household_id", householdIds)
+        .is("sent_at", null)
+        .lte("remind_on", todayKey)
+        .gte("meal_date", todayKey)
+        .order("meal_date", { ascending: true });
+
+      if (remindersError) throw remindersError;
+      const dueReminders = (reminders || []).filter(
+        (reminder) => !(reminder.freezer_items as { thawed_at: string | null } | null)?.thawed_at
+      ) as DueThawReminder[];
+
+      const payloads: PushPayload[] = [];
+      if (items && items.length > 0) {
+        payloads.push(buildDigest(items.map((item) => item.name), timing));
+      }
+      if (dueReminders.length > 0) {
+        payloads.push(buildThawReminder(dueReminders, today));
+      }
+      if (payloads.length === 0) continue;
+
+      let delivered = 0;
+
+      if (!dryRun) {
+        const gone = new Set<string>();
+        for (const payload of payloads) {
+          for (const subscription of subscriptions as StoredSubscription[]) {
+            if (gone.has(subscription.id)) continue;
+            const result = await sender.send(subscription, payload);
+            if (result.ok) {
+              delivered++;
+            } else if (result.gone) {
+              gone.add(subscription.id);
+              await supabase.from("push_subscriptions").delete().eq("id", subscription.id);
+            }
+          }
+        }
+
+        // Household reminders go to every member before they're marked as sent
+        if (delivered > 0) {
+          dueReminders.forEach((reminder) => sentReminderIds.add(reminder.id));
+        }
+      }
+
+      results.push({
+        items: items?.length ?? 0,
+        thawReminders: dueReminders.length,
+        subscriptions: subscriptions.length,
+        delivered,
+      });
+    }
+
+    if (sentReminderIds.size > 0) {
+      const { error: sentError } = await supabase
+        .from("thaw_reminders")
+        .update({ sent_at: new Date().toISOString() })
+        .in("id", [...sentReminderIds]);
+
+      if (sentError) throw sentError;
+    }
+
+    console.log(`Expiry digests for ${todayKey} via ${sender.name}:`, results.length);
+
+    return new Response(
+      // Counts only: who was notified and about what stays out of the response
+      JSON.stringify({
+        date: todayKey,
+        sender: sender.name,
+        dryRun: !!dryRun,
+        users: results.length,
+        items: results.reduce((total, result) => total + result.items, 0),
+        thawReminders: results.reduce((total, result) => total + result.thawReminders, 0),
+        delivered: results.reduce((total, result) => total + result.delivered, 0),
+      }),
+      {
+        headers: {
+          "Content-Type": "application/json",
+          ...corsHeaders
+        }
+      }
+    );
+  } catch (error) {
+    console.error("Error sending expiry notifications:", error);
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Failed to send expiry notifications" }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+          ...corsHeaders
+        }
+      }
+    );
+  }
+});
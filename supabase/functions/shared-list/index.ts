@@ -0,0 +1,162 @@
+// Follow this setup guide to integrate the Deno language server with your editor:
+// https://deno.land/manual/getting_started/setup_your_environment
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+const MAIN_LIST_NAME = "Shopping List";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface Share {
+  household_id: string;
+  list_id: string | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+// Only these columns ever leave the function
+const ITEM_COLUMNS = "id, name, category, quantity, completed";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...corsHeaders
+    }
+  });
+
+// Unknown, revoked and expired links all get the same answer
+const invalidLink = () => jsonResponse({ error: "This link has expired or been turned off" }, 404);
+
+const findShare = async (supabase: SupabaseClient, token: unknown): Promise<Share | null> => {
+  if (typeof token !== "string" || !UUID_PATTERN.test(token)) return null;
+
+  const { data, error } = await supabase
+    .from("shopping_list_shares")
+    .select("household_id, list_id, expires_at, created_at")
+    .eq("token", token)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+  if (data.expires_at && new Date(data.expires_at).getTime() <= Date.now()) return null;
+  return data as Share;
+};
+
+// Items on the shared list: everything still to buy, plus anything ticked off since
+// the link was made so the shopper can see (and undo) what they've done
+const fetchItems = async (supabase: SupabaseClient, share: Share) => {
+  const query = supabase
+    .from("shopping_items")
+    .select(ITEM_COLUMNS)
+    .eq("household_id", share.household_id)
+    .or(`completed.eq.false,completed_at.gte."${share.created_at}"`);
+
+  const { data, error } = await (share.list_id ? query.eq("list_id", share.list_id) : query.is("list_id", null))
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const fetchListName = async (supabase: SupabaseClient, share: Share): Promise<string> => {
+  if (!share.list_id) return MAIN_LIST_NAME;
+
+  const { data, error } = await supabase
+    .from("shopping_lists")
+    .select("name")
+    .eq("id", share.list_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.name || MAIN_LIST_NAME;
+};
+
+// Tick an item off (or back on), stamping the fields the apps merge by so the change
+// wins over older edits when they next sync
+const setCompleted = async (supabase: SupabaseClient, share: Share, itemId: unknown, completed: boolean) => {
+  if (typeof itemId !== "string" || !UUID_PATTERN.test(itemId)) return null;
+
+  const itemQuery = supabase
+    .from("shopping_items")
+    .select("id, field_updated_at")
+    .eq("id", itemId)
+    .eq("household_id", share.household_id);
+
+  const { data: item, error } = await (share.list_id ? itemQuery.eq("list_id", share.list_id) : itemQuery.is("list_id", null))
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!item) return null;
+
+  const now = new Date().toISOString();
+  const { data: updated, error: updateError } = await supabase
+    .from("shopping_items")
+    .update({
+      completed,
+      completed_at: completed ? now : null,
+      updated_at: now,
+      field_updated_at: { ...(item.field_updated_at || {}), completed: now, completedAt: now }
+    })
+    .eq("id", item.id)
+    .select(ITEM_COLUMNS)
+    .single();
+
+  if (updateError) throw updateError;
+  return updated;
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set");
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { persistSession: false },
+    });
+
+    // GET ?token=... reads the list; POST { token, itemId, completed } ticks an item
+    if (req.method === "GET") {
+      const share = await findShare(supabase, new URL(req.url).searchParams.get("token"));
+      if (!share) return invalidLink();
+
+      const [name, items] = await Promise.all([fetchListName(supabase, share), fetchItems(supabase, share)]);
+      return jsonResponse({ name, items, expiresAt: share.expires_at });
+    }
+
+    if (req.method === "POST") {
+      const { token, itemId, completed } = await req.json().catch(() => ({}));
+      const share = await findShare(supabase, token);
+      if (!share) return invalidLink();
+
+      const item = await setCompleted(supabase, share, itemId, completed === true);
+      if (!item) return jsonResponse({ error: "That item is no longer on the list" }, 404);
+
+      return jsonResponse({ item });
+    }
+
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  } catch (error) {
+    console.error("Error serving shared list:", error);
+    return jsonResponse({ error: "Failed to load the shared list" }, 500);
+  }
+});
@@ -10,6 +10,100 @@ const corsHeaders = {
   "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
 };
 
+interface TranscriptionProvider {
+  name: string;
+  transcribe(audio: File): Promise<string>;
+}
+
+// Any OpenAI-compatible /audio/transcriptions endpoint (OpenAI, Groq, a local whisper.cpp server)
+const createWhisperProvider = (apiUrl: string, apiKey: string, model: string): TranscriptionProvider => ({
+  name: "whisper",
+  async transcribe(audio) {
+    const formData = new FormData();
+    formData.append("file", audio, audio.name || "dictation.webm");
+    formData.append("model", model);
+    formData.append("response_format", "json");
+    formData.append("language", "en");
+
+    const response = await fetch(apiUrl, {
+      method: "POST",
+      headers: { "Authorization": `Bearer ${apiKey}` },
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Transcription API returned ${response.status}: ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    return String(data.text || "").trim();
+  },
+});
+
+const createGeminiProvider = (apiKey: string): TranscriptionProvider => ({
+  name: "gemini",
+  async transcribe(audio) {
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+
+    const result = await model.generateContent([
+      {
+        inlineData: {
+          data: arrayBufferToBase64(await audio.arrayBuffer()),
+          mimeType: audio.type || "audio/webm",
+        },
+      },
+      "Transcribe this dictated list of food items exactly as spoken. Only provide the transcription, nothing else.",
+    ]);
+
+    return result.response.text().trim();
+  },
+});
+
+const mockProvider: TranscriptionProvider = {
+  name: "mock",
+  transcribe() {
+    return Promise.resolve(getMockTranscription());
+  },
+};
+
+// TRANSCRIPTION_PROVIDER picks one of "whisper", "gemini" or "mock"; without it the first
+// provider with an API key is used. Mock transcriptions are only used when asked for by name,
+// since they would add items nobody said
+const getProvider = (): TranscriptionProvider | null => {
+  const openAiKey = Deno.env.get("OPENAI_API_KEY");
+  const geminiKey = Deno.env.get("GEMINI_API_KEY");
+  const name = Deno.env.get("TRANSCRIPTION_PROVIDER") || (openAiKey ? "whisper" : geminiKey ? "gemini" : null);
+
+  switch (name) {
+    case "whisper":
+      if (openAiKey) {
+        return createWhisperProvider(
+          Deno.env.get("TRANSCRIPTION_API_URL") || "https://api.openai.com/v1/audio/transcriptions",
+          openAiKey,
+          Deno.env.get("TRANSCRIPTION_MODEL") || "whisper-1"
+        );
+      }
+      break;
+    case "gemini":
+      if (geminiKey) {
+        return createGeminiProvider(geminiKey);
+      }
+      break;
+    case "mock":
+      return mockProvider;
+    case null:
+      console.error("No transcription API key set");
+      return null;
+    default:
+      console.error(`Unknown transcription provider "${name}"`);
+      return null;
+  }
+
+  console.error(`No API key for transcription provider "${name}"`);
+  return null;
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -25,68 +119,56 @@ serve(async (req) => {
     if (!contentType.includes("multipart/form-data")) {
       return new Response(
         JSON.stringify({ error: "Request must be multipart/form-data" }),
-        { 
-          status: 400, 
-          headers: { 
+        {
+          status: 400,
+          headers: {
             "Content-Type": "application/json",
             ...corsHeaders
           }
         }
       );
     }
-    
+
     // Parse the multipart form data
     const formData = await req.formData();
     const audioFile = formData.get("audio");
-    
+
     if (!audioFile || !(audioFile instanceof File)) {
       return new Response(
         JSON.stringify({ error: "No audio file provided" }),
-        { 
-          status: 400, 
-          headers: { 
+        {
+          status: 400,
+          headers: {
             "Content-Type": "application/json",
             ...corsHeaders
           }
         }
       );
     }
-    
-    // Get API key from Deno environment variables
-    const apiKey = Deno.env.get("GEMINI_API_KEY");
-    
-    // Use mock data if no API key provided
-    if (!apiKey) {
-      console.log("No API key provided, using mock transcription data");
+
+    const provider = getProvider();
+    if (!provider) {
       return new Response(
-        JSON.stringify({ 
-          transcription: getMockTranscription(),
-          source: "mock" 
-        }),
-        { 
-          headers: { 
+        JSON.stringify({ error: "Transcription is not configured" }),
+        {
+          status: 503,
+          headers: {
             "Content-Type": "application/json",
             ...corsHeaders
           }
         }
       );
     }
-    
-    // Initialize the Gemini API client
-    // Note: Gemini currently doesn't have direct audio transcription capabilities in its API
-    // This is a placeholder for when it gets that feature or when we integrate with another
-    // service like Google Cloud Speech-to-Text
-    // For now, we'll return mock data
-    
-    console.log("Using mock transcription as Gemini does not support audio transcription yet");
-    
+
+    const transcription = await provider.transcribe(audioFile);
+
     return new Response(
-      JSON.stringify({ 
-        transcription: getMockTranscription(),
-        source: "mock" 
+      JSON.stringify({
+        transcription,
+        source: provider.name
       }),
-      { 
-        headers: { 
+      {
+        headers: {
           "Content-Type": "application/json",
           ...corsHeaders
         }
@@ -94,16 +176,13 @@ serve(async (req) => {
     );
   } catch (error) {
     console.error("Error transcribing audio:", error);
-    
-    // Fall back to mock data on error
+
+    // A made-up transcription would add items nobody said, so report the failure instead
     return new Response(
-      JSON.stringify({ 
-        transcription: getMockTranscription(),
-        source: "mock",
-        error: error.message
-      }),
-      { 
-        headers: { 
+      JSON.stringify({ error: "Transcription failed" }),
+      {
+        status: 502,
+        headers: {
           "Content-Type": "application/json",
           ...corsHeaders
         }
@@ -112,17 +191,28 @@ serve(async (req) => {
   }
 });
 
+// Helper function to convert ArrayBuffer to base64
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  let binary = '';
+  const bytes = new Uint8Array(buffer);
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
 // Function to generate mock transcription data
 function getMockTranscription(): string {
   const mockTranscriptions = [
     "Frozen chicken breast expires in two weeks",
-    "Two bags of frozen peas",
+    "Two bags of frozen peas and a pound of ground beef",
     "Homemade tomato sauce from last month",
     "Ice cream vanilla one pint",
     "Leftover lasagna from last night",
     "Three pounds of ground beef good for six months",
     "Frozen pizza pepperoni expires next week"
   ];
-  
+
   return mockTranscriptions[Math.floor(Math.random() * mockTranscriptions.length)];
-}
\ No newline at end of file
+}
@@ -0,0 +1,29 @@
+/*
+  # Add storage location columns to freezer_items table
+
+  1. Changes
+    - Add `location` column to the `freezer_items` table
+    - Add `zone` column for an optional shelf, drawer or zone within the location
+    - Default `location` to 'Kitchen Freezer' so existing items keep living in one implicit freezer
+    - Add an index on (user_id, location) for the location filter
+
+  2. Purpose
+    - Support households with more than one freezer or fridge
+*/
+
+-- Add location columns to the freezer_items table
+ALTER TABLE public.freezer_items
+ADD COLUMN IF NOT EXISTS location text DEFAULT 'Kitchen Freezer',
+ADD COLUMN IF NOT EXISTS zone text DEFAULT '';
+
+-- Backfill any rows that ended up without a location
+UPDATE public.freezer_items
+SET location = 'Kitchen Freezer'
+WHERE location IS NULL OR location = '';
+
+-- Index for filtering items by location
+CREATE INDEX IF NOT EXISTS freezer_items_user_location_idx
+ON public.freezer_items (user_id, location);
+
+COMMENT ON COLUMN public.freezer_items.location IS 'Freezer or fridge the item is stored in, e.g. Kitchen Freezer or Garage Freezer.';
+COMMENT ON COLUMN public.freezer_items.zone IS 'Optional shelf, drawer or zone within the location.';
@@ -0,0 +1,356 @@
+/*
+  # Add shared households with role-based access
+
+  1. New Tables
+    - `households`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `created_by` (uuid, foreign key to auth.users.id)
+      - `created_at` (timestamp with time zone, default now())
+    - `household_members`
+      - `id` (uuid, primary key)
+      - `household_id` (uuid, foreign key to households.id)
+      - `user_id` (uuid, foreign key to auth.users.id)
+      - `email` (text, copied from auth.users so members can see each other)
+      - `role` (text, one of 'owner', 'member', 'viewer')
+      - `created_at` (timestamp with time zone, default now())
+    - `household_invitations`
+      - `id` (uuid, primary key)
+      - `household_id` (uuid, foreign key to households.id)
+      - `email` (text)
+      - `role` (text, one of 'member', 'viewer')
+      - `token` (uuid, unique)
+      - `invited_by` (uuid, foreign key to auth.users.id)
+      - `accepted_at` (timestamp with time zone)
+      - `expires_at` (timestamp with time zone, default now() + 7 days)
+      - `created_at` (timestamp with time zone, default now())
+
+  2. Changes
+    - Add `household_id` to `freezer_items` and `shopping_items`
+    - Create a personal household for every existing user and backfill `household_id`
+    - Default `household_id` on insert to the user's first household
+
+  3. Security
+    - Replace the `auth.uid() = user_id` policies on `freezer_items` and `shopping_items`
+      with household policies: every member can read, owners and members can write,
+      viewers are read-only
+    - Only owners can rename the household, change roles, remove members and invite
+    - Invitations are accepted through `accept_household_invitation`, which checks
+      the token, expiry and the invitee's email
+*/
+
+-- Households
+CREATE TABLE IF NOT EXISTS public.households (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL DEFAULT 'My Household',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+-- Household membership with roles
+CREATE TABLE IF NOT EXISTS public.household_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES public.households(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member', 'viewer')),
+  created_at timestamp with time zone DEFAULT now(),
+  UNIQUE (household_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS household_members_user_idx
+ON public.household_members (user_id);
+
+-- Pending invitations to join a household
+CREATE TABLE IF NOT EXISTS public.household_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES public.households(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('member', 'viewer')),
+  token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at timestamp with time zone,
+  expires_at timestamp with time zone DEFAULT (now() + interval '7 days'),
+  created_at timestamp with time zone DEFAULT now()
+);
+
+-- Link inventory rows to a household
+ALTER TABLE public.freezer_items
+ADD COLUMN IF NOT EXISTS household_id uuid REFERENCES public.households(id) ON DELETE CASCADE;
+
+ALTER TABLE public.shopping_items
+ADD COLUMN IF NOT EXISTS household_id uuid REFERENCES public.households(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS freezer_items_household_idx
+ON public.freezer_items (household_id);
+
+CREATE INDEX IF NOT EXISTS shopping_items_household_idx
+ON public.shopping_items (household_id);
+
+-- Role of the current user in a household, or NULL if not a member
+CREATE OR REPLACE FUNCTION public.household_role(target_household uuid)
+RETURNS text AS $$
+  SELECT role
+  FROM public.household_members
+  WHERE household_id = target_household
+    AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Return the user's first household, creating a personal one if needed
+CREATE OR REPLACE FUNCTION public.get_or_create_household_for(target_user uuid)
+RETURNS uuid AS $$
+DECLARE
+  existing_household uuid;
+  new_household uuid;
+BEGIN
+  SELECT household_id INTO existing_household
+  FROM public.household_members
+  WHERE user_id = target_user
+  ORDER BY created_at ASC
+  LIMIT 1;
+
+  IF existing_household IS NOT NULL THEN
+    RETURN existing_household;
+  END IF;
+
+  INSERT INTO public.households (name, created_by)
+  VALUES ('My Household', target_user)
+  RETURNING id INTO new_household;
+
+  INSERT INTO public.household_members (household_id, user_id, email, role)
+  VALUES (new_household, target_user, (SELECT email FROM auth.users WHERE id = target_user), 'owner');
+
+  RETURN new_household;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_or_create_household_for(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Client entry point: ensure the signed-in user has a household
+CREATE OR REPLACE FUNCTION public.ensure_personal_household()
+RETURNS uuid AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN public.get_or_create_household_for(auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create an additional household owned by the current user
+CREATE OR REPLACE FUNCTION public.create_household(household_name text)
+RETURNS uuid AS $$
+DECLARE
+  new_household uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.households (name, created_by)
+  VALUES (coalesce(nullif(trim(household_name), ''), 'My Household'), auth.uid())
+  RETURNING id INTO new_household;
+
+  INSERT INTO public.household_members (household_id, user_id, email, role)
+  VALUES (new_household, auth.uid(), auth.jwt() ->> 'email', 'owner');
+
+  RETURN new_household;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept an invitation addressed to the current user's email
+CREATE OR REPLACE FUNCTION public.accept_household_invitation(invite_token uuid)
+RETURNS uuid AS $$
+DECLARE
+  invitation public.household_invitations%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO invitation
+  FROM public.household_invitations
+  WHERE token = invite_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invitation has already been used';
+  END IF;
+
+  IF invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'Invitation has expired';
+  END IF;
+
+  IF lower(invitation.email) <> lower(coalesce(auth.jwt() ->> 'email', '')) THEN
+    RAISE EXCEPTION 'Invitation was sent to a different email address';
+  END IF;
+
+  INSERT INTO public.household_members (household_id, user_id, email, role)
+  VALUES (invitation.household_id, auth.uid(), auth.jwt() ->> 'email', invitation.role)
+  ON CONFLICT (household_id, user_id) DO NOTHING;
+
+  UPDATE public.household_invitations
+  SET accepted_at = now()
+  WHERE id = invitation.id;
+
+  RETURN invitation.household_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Fill in household_id for rows inserted without one (e.g. the local data migration)
+CREATE OR REPLACE FUNCTION public.set_default_household_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.household_id IS NULL AND NEW.user_id IS NOT NULL THEN
+    NEW.household_id := public.get_or_create_household_for(NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS freezer_items_default_household ON public.freezer_items;
+CREATE TRIGGER freezer_items_default_household
+BEFORE INSERT ON public.freezer_items
+FOR EACH ROW
+EXECUTE FUNCTION public.set_default_household_id();
+
+DROP TRIGGER IF EXISTS shopping_items_default_household ON public.shopping_items;
+CREATE TRIGGER shopping_items_default_household
+BEFORE INSERT ON public.shopping_items
+FOR EACH ROW
+EXECUTE FUNCTION public.set_default_household_id();
+
+-- Backfill: every existing user gets a personal household holding their items
+UPDATE public.freezer_items
+SET household_id = public.get_or_create_household_for(user_id)
+WHERE household_id IS NULL AND user_id IS NOT NULL;
+
+UPDATE public.shopping_items
+SET household_id = public.get_or_create_household_for(user_id)
+WHERE household_id IS NULL AND user_id IS NOT NULL;
+
+-- Enable Row Level Security on the new tables
+ALTER TABLE public.households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.household_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.household_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Households: members can read, owners can rename or delete
+CREATE POLICY "Members can view their households"
+ON public.households
+FOR SELECT
+TO authenticated
+USING (public.household_role(id) IS NOT NULL);
+
+CREATE POLICY "Owners can update their households"
+ON public.households
+FOR UPDATE
+TO authenticated
+USING (public.household_role(id) = 'owner')
+WITH CHECK (public.household_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete their households"
+ON public.households
+FOR DELETE
+TO authenticated
+USING (public.household_role(id) = 'owner');
+
+-- Members: everyone in a household can see the member list,
+-- owners manage roles, anyone can leave
+CREATE POLICY "Members can view household members"
+ON public.household_members
+FOR SELECT
+TO authenticated
+USING (public.household_role(household_id) IS NOT NULL);
+
+CREATE POLICY "Owners can change member roles"
+ON public.household_members
+FOR UPDATE
+TO authenticated
+USING (public.household_role(household_id) = 'owner')
+WITH CHECK (public.household_role(household_id) = 'owner');
+
+CREATE POLICY "Owners can remove members and members can leave"
+ON public.household_members
+FOR DELETE
+TO authenticated
+USING (public.household_role(household_id) = 'owner' OR auth.uid() = user_id);
+
+-- Invitations: owners manage them, invitees can see their own
+CREATE POLICY "Owners and invitees can view invitations"
+ON public.household_invitations
+FOR SELECT
+TO authenticated
+USING (
+  public.household_role(household_id) = 'owner'
+  OR lower(email) = lower(coalesce(auth.jwt() ->> 'email', ''))
+);
+
+CREATE POLICY "Owners can create invitations"
+ON public.household_invitations
+FOR INSERT
+TO authenticated
+WITH CHECK (public.household_role(household_id) = 'owner' AND auth.uid() = invited_by);
+
+CREATE POLICY "Owners can revoke invitations"
+ON public.household_invitations
+FOR DELETE
+TO authenticated
+USING (public.household_role(household_id) = 'owner');
+
+-- Replace the per-user inventory policies with household policies
+DROP POLICY IF EXISTS "Users can view and manage their own freezer items" ON public.freezer_items;
+DROP POLICY IF EXISTS "Users can view and manage their own shopping items" ON public.shopping_items;
+
+CREATE POLICY "Household members can view freezer items"
+ON public.freezer_items
+FOR SELECT
+TO authenticated
+USING (public.household_role(household_id) IS NOT NULL);
+
+CREATE POLICY "Household editors can add freezer items"
+ON public.freezer_items
+FOR INSERT
+TO authenticated
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member') AND auth.uid() = user_id);
+
+CREATE POLICY "Household editors can update freezer items"
+ON public.freezer_items
+FOR UPDATE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'))
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member'));
+
+CREATE POLICY "Household editors can delete freezer items"
+ON public.freezer_items
+FOR DELETE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'));
+
+CREATE POLICY "Household members can view shopping items"
+ON public.shopping_items
+FOR SELECT
+TO authenticated
+USING (public.household_role(household_id) IS NOT NULL);
+
+CREATE POLICY "Household editors can add shopping items"
+ON public.shopping_items
+FOR INSERT
+TO authenticated
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member') AND auth.uid() = user_id);
+
+CREATE POLICY "Household editors can update shopping items"
+ON public.shopping_items
+FOR UPDATE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'))
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member'));
+
+CREATE POLICY "Household editors can delete shopping items"
+ON public.shopping_items
+FOR DELETE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'));
@@ -0,0 +1,76 @@
+/*
+  # Add sync metadata for offline-first clients
+
+  1. Changes
+    - Add `updated_at` to `freezer_items`, `shopping_items` and `meal_ideas`
+    - Add `field_updated_at` (jsonb) holding the last modification time of each field
+    - Bump `updated_at` on every update with a trigger
+    - Backfill `updated_at` from `created_at` for existing rows
+
+  2. Purpose
+    - Clients write locally first and replay queued changes when they come back online
+    - Conflicting edits from different devices are resolved per field, newest change wins
+*/
+
+ALTER TABLE public.freezer_items
+ADD COLUMN IF NOT EXISTS updated_at timestamptz,
+ADD COLUMN IF NOT EXISTS field_updated_at jsonb DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.shopping_items
+ADD COLUMN IF NOT EXISTS updated_at timestamptz,
+ADD COLUMN IF NOT EXISTS field_updated_at jsonb DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.meal_ideas
+ADD COLUMN IF NOT EXISTS updated_at timestamptz,
+ADD COLUMN IF NOT EXISTS field_updated_at jsonb DEFAULT '{}'::jsonb;
+
+-- Existing rows were last touched when they were created
+UPDATE public.freezer_items
+SET updated_at = COALESCE(created_at, now())
+WHERE updated_at IS NULL;
+
+ALTER TABLE public.freezer_items ALTER COLUMN updated_at SET DEFAULT now();
+
+UPDATE public.shopping_items
+SET updated_at = COALESCE(created_at, now())
+WHERE updated_at IS NULL;
+
+ALTER TABLE public.shopping_items ALTER COLUMN updated_at SET DEFAULT now();
+
+UPDATE public.meal_ideas
+SET updated_at = COALESCE(created_at, now())
+WHERE updated_at IS NULL;
+
+ALTER TABLE public.meal_ideas ALTER COLUMN updated_at SET DEFAULT now();
+
+-- Keep updated_at current for writes that do not set it themselves
+CREATE OR REPLACE FUNCTION public.touch_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.updated_at IS NULL OR NEW.updated_at = OLD.updated_at THEN
+    NEW.updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS freezer_items_touch_updated_at ON public.freezer_items;
+CREATE TRIGGER freezer_items_touch_updated_at
+BEFORE UPDATE ON public.freezer_items
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS shopping_items_touch_updated_at ON public.shopping_items;
+CREATE TRIGGER shopping_items_touch_updated_at
+BEFORE UPDATE ON public.shopping_items
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS meal_ideas_touch_updated_at ON public.meal_ideas;
+CREATE TRIGGER meal_ideas_touch_updated_at
+BEFORE UPDATE ON public.meal_ideas
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+COMMENT ON COLUMN public.freezer_items.field_updated_at IS 'Last modification time of each field, used to merge offline edits.';
+COMMENT ON COLUMN public.shopping_items.field_updated_at IS 'Last modification time of each field, used to merge offline edits.';
+COMMENT ON COLUMN public.meal_ideas.field_updated_at IS 'Last modification time of each field, used to merge offline edits.';
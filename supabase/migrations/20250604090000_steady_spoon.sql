@@ -0,0 +1,86 @@
+/*
+  # Add consumption events for partial-use tracking
+
+  1. New Tables
+    - `consumption_events`
+      - `id` (uuid, primary key)
+      - `household_id` (uuid, foreign key to households.id)
+      - `user_id` (uuid, foreign key to auth.users.id, who used the item)
+      - `freezer_item_id` (uuid, the item used; kept after the item is removed)
+      - `item_name` (text, copied from the item)
+      - `category` (text, copied from the item)
+      - `item_added_date` (timestamp with time zone, when the item went into the freezer)
+      - `amount` (numeric, how much was taken out)
+      - `meal` (text, optional meal the item was used for)
+      - `consumed_at` (timestamp with time zone, default now())
+      - `updated_at` / `field_updated_at` (sync metadata)
+      - `created_at` (timestamp with time zone, default now())
+
+  2. Purpose
+    - "Use some" and "use all" on freezer items record how much was used and when
+    - Item details are copied onto each event so usage history survives after the
+      item itself reaches zero and is removed
+
+  3. Security
+    - Household members can read events, owners and members can record them
+*/
+
+CREATE TABLE IF NOT EXISTS public.consumption_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  freezer_item_id uuid,
+  item_name text NOT NULL,
+  category text DEFAULT 'Other',
+  item_added_date timestamptz,
+  amount numeric NOT NULL CHECK (amount > 0),
+  meal text DEFAULT '',
+  consumed_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  field_updated_at jsonb DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS consumption_events_household_consumed_idx
+ON public.consumption_events (household_id, consumed_at DESC);
+
+CREATE INDEX IF NOT EXISTS consumption_events_item_idx
+ON public.consumption_events (freezer_item_id);
+
+DROP TRIGGER IF EXISTS consumption_events_default_household ON public.consumption_events;
+CREATE TRIGGER consumption_events_default_household
+BEFORE INSERT ON public.consumption_events
+FOR EACH ROW
+EXECUTE FUNCTION public.set_default_household_id();
+
+DROP TRIGGER IF EXISTS consumption_events_touch_updated_at ON public.consumption_events;
+CREATE TRIGGER consumption_events_touch_updated_at
+BEFORE UPDATE ON public.consumption_events
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.consumption_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view consumption events"
+ON public.consumption_events
+FOR SELECT
+TO authenticated
+USING (public.household_role(household_id) IS NOT NULL);
+
+CREATE POLICY "Household editors can record consumption events"
+ON public.consumption_events
+FOR INSERT
+TO authenticated
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member') AND auth.uid() = user_id);
+
+CREATE POLICY "Household editors can update consumption events"
+ON public.consumption_events
+FOR UPDATE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'))
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member'));
+
+CREATE POLICY "Household editors can delete consumption events"
+ON public.consumption_events
+FOR DELETE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'));
@@ -0,0 +1,21 @@
+/*
+  # Record why items left the freezer
+
+  1. Changes
+    - Add `outcome` to `consumption_events`: 'consumed', 'discarded' or 'expired'
+    - Existing events were all recorded by "use some" / "use all", so they default to 'consumed'
+    - Add an index on (household_id, outcome, consumed_at) for the stats page
+
+  2. Purpose
+    - Removing an item from the freezer now records a 'discarded' event, or 'expired'
+      if it was past its expiration date, so waste can be compared with usage
+*/
+
+ALTER TABLE public.consumption_events
+ADD COLUMN IF NOT EXISTS outcome text NOT NULL DEFAULT 'consumed'
+CHECK (outcome IN ('consumed', 'discarded', 'expired'));
+
+CREATE INDEX IF NOT EXISTS consumption_events_household_outcome_idx
+ON public.consumption_events (household_id, outcome, consumed_at);
+
+COMMENT ON COLUMN public.consumption_events.outcome IS 'Why the amount left the freezer: consumed, discarded or expired.';
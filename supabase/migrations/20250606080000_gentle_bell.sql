@@ -0,0 +1,96 @@
+/*
+  # Store Web Push subscriptions for expiration notifications
+
+  1. New Tables
+    - `push_subscriptions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users.id)
+      - `endpoint` (text, unique push service URL for one browser)
+      - `p256dh` (text, public key used to encrypt payloads)
+      - `auth` (text, authentication secret)
+      - `user_agent` (text, browser the subscription was made from)
+      - `created_at` / `updated_at` (timestamp with time zone)
+
+  2. New Functions
+    - `save_push_subscription`: stores the current browser's subscription for the signed-in
+      user, taking it over if another account subscribed from the same browser before
+
+  3. Purpose
+    - Each browser that enables expiration notifications stores its subscription here
+    - The `send-expiry-notifications` edge function reads them with the service role key
+      and pushes a daily digest; subscriptions rejected by the push service are removed
+
+  4. Security
+    - Users can only see and manage their own subscriptions
+*/
+
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS push_subscriptions_user_idx
+ON public.push_subscriptions (user_id);
+
+DROP TRIGGER IF EXISTS push_subscriptions_touch_updated_at ON public.push_subscriptions;
+CREATE TRIGGER push_subscriptions_touch_updated_at
+BEFORE UPDATE ON public.push_subscriptions
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own push subscriptions"
+ON public.push_subscriptions
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own push subscriptions"
+ON public.push_subscriptions
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own push subscriptions"
+ON public.push_subscriptions
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own push subscriptions"
+ON public.push_subscriptions
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Client entry point: an endpoint belongs to one browser, so a new sign-in on that
+-- browser takes the subscription over from whoever registered it before
+CREATE OR REPLACE FUNCTION public.save_push_subscription(
+  sub_endpoint text,
+  sub_p256dh text,
+  sub_auth text,
+  sub_user_agent text DEFAULT ''
+)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), sub_endpoint, sub_p256dh, sub_auth, coalesce(sub_user_agent, ''))
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent,
+      updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,28 @@
+/*
+  # Add an opt-in email digest of expiring items
+
+  1. Changes
+    - Add `email_digest` to `user_settings` (boolean, default false)
+    - Add `email_digest_frequency` to `user_settings` ('daily' or 'weekly', default 'weekly')
+    - Add `last_email_digest_at` to `user_settings` (timestamp with time zone, when the
+      last digest went out)
+
+  2. Purpose
+    - Household members who don't install the app can get expiring and expired items by
+      email; the `send-email-digest` edge function runs daily and uses
+      `last_email_digest_at` to only send weekly digests once a week
+*/
+
+ALTER TABLE public.user_settings
+ADD COLUMN IF NOT EXISTS email_digest boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.user_settings
+ADD COLUMN IF NOT EXISTS email_digest_frequency text NOT NULL DEFAULT 'weekly'
+CHECK (email_digest_frequency IN ('daily', 'weekly'));
+
+ALTER TABLE public.user_settings
+ADD COLUMN IF NOT EXISTS last_email_digest_at timestamptz;
+
+COMMENT ON COLUMN public.user_settings.email_digest IS 'Whether the user receives an email digest of expiring items.';
+COMMENT ON COLUMN public.user_settings.email_digest_frequency IS 'How often the email digest is sent: daily or weekly.';
+COMMENT ON COLUMN public.user_settings.last_email_digest_at IS 'When the last email digest was sent, set by the send-email-digest edge function.';
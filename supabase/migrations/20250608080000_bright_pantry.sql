@@ -0,0 +1,47 @@
+/*
+  # Cache product lookups for scanned barcodes
+
+  1. New Tables
+    - `products`
+      - `barcode` (text, primary key, normalised GTIN-8/13/14)
+      - `name` (text, product name without brand or size)
+      - `brand` (text)
+      - `size` (text, package size such as "500 g")
+      - `category` (text, one of the app's categories)
+      - `image_url` (text, product photo)
+      - `source` (text, 'local' for entries added by hand, otherwise the provider that found it)
+      - `created_at` / `updated_at` (timestamp with time zone)
+
+  2. Purpose
+    - The `scan-barcode` edge function checks this table before asking Open Food Facts and
+      stores what it finds, so each product is only looked up once
+    - Rows with source 'local' are never refreshed and take priority over every provider
+
+  3. Security
+    - Any signed-in user can read products; only the service role can write them
+*/
+
+CREATE TABLE IF NOT EXISTS public.products (
+  barcode text PRIMARY KEY,
+  name text NOT NULL,
+  brand text DEFAULT '',
+  size text DEFAULT '',
+  category text DEFAULT 'Other',
+  image_url text,
+  source text NOT NULL DEFAULT 'local',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS products_touch_updated_at ON public.products;
+CREATE TRIGGER products_touch_updated_at
+BEFORE UPDATE ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view products"
+ON public.products
+FOR SELECT
+TO authenticated
+USING (true);
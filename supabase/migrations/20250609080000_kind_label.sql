@@ -0,0 +1,75 @@
+/*
+  # Let households name barcodes the product lookup doesn't know
+
+  1. New Tables
+    - `barcode_mappings`
+      - `id` (uuid, primary key)
+      - `household_id` (uuid, foreign key to households.id)
+      - `user_id` (uuid, foreign key to auth.users.id, who added the mapping)
+      - `barcode` (text, as scanned)
+      - `name` (text, product name to use for new items)
+      - `size` (text, package size)
+      - `category` (text)
+      - `shelf_life_days` (integer, optional freezer life for new items)
+      - `created_at` / `updated_at` (timestamp with time zone)
+
+  2. Purpose
+    - When a scan comes back as an unknown item, "remember this product" saves what the
+      user typed so the next scan of the same barcode (or a near miss of it) in the
+      household resolves straight away, before asking any product provider
+
+  3. Security
+    - Household members can read mappings, owners and members can add and change them
+*/
+
+CREATE TABLE IF NOT EXISTS public.barcode_mappings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  barcode text NOT NULL,
+  name text NOT NULL,
+  size text DEFAULT '',
+  category text DEFAULT 'Other',
+  shelf_life_days integer CHECK (shelf_life_days > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (household_id, barcode)
+);
+
+DROP TRIGGER IF EXISTS barcode_mappings_default_household ON public.barcode_mappings;
+CREATE TRIGGER barcode_mappings_default_household
+BEFORE INSERT ON public.barcode_mappings
+FOR EACH ROW
+EXECUTE FUNCTION public.set_default_household_id();
+
+DROP TRIGGER IF EXISTS barcode_mappings_touch_updated_at ON public.barcode_mappings;
+CREATE TRIGGER barcode_mappings_touch_updated_at
+BEFORE UPDATE ON public.barcode_mappings
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.barcode_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view barcode mappings"
+ON public.barcode_mappings
+FOR SELECT
+TO authenticated
+USING (public.household_role(household_id) IS NOT NULL);
+
+CREATE POLICY "Household editors can add barcode mappings"
+ON public.barcode_mappings
+FOR INSERT
+TO authenticated
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member') AND auth.uid() = user_id);
+
+CREATE POLICY "Household editors can update barcode mappings"
+ON public.barcode_mappings
+FOR UPDATE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'))
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member'));
+
+CREATE POLICY "Household editors can delete barcode mappings"
+ON public.barcode_mappings
+FOR DELETE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'));
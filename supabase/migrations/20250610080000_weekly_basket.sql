@@ -0,0 +1,35 @@
+/*
+  # Recurring staples on the shopping list
+
+  1. Changes
+    - Add `recurrence` (jsonb) to `shopping_items`. Null for one-off items; for staples one of:
+      - `{"type": "weekly", "weekday": 0-6}` (0 = Sunday)
+      - `{"type": "interval", "days": N}`
+      - `{"type": "lowStock", "freezerItem": "peas", "below": N}`
+    - Add `completed_at` (timestamp with time zone) to `shopping_items`, when the item was last ticked off
+
+  2. Purpose
+    - A ticked-off staple goes back on the list, unticked, once its next day comes round
+      or once the household's freezer holds fewer than N of the item. The app checks this
+      on every device, so the columns only need to record the schedule and the last purchase.
+*/
+
+ALTER TABLE public.shopping_items
+ADD COLUMN IF NOT EXISTS recurrence jsonb,
+ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+
+ALTER TABLE public.shopping_items
+DROP CONSTRAINT IF EXISTS shopping_items_recurrence_check;
+
+ALTER TABLE public.shopping_items
+ADD CONSTRAINT shopping_items_recurrence_check CHECK (
+  recurrence IS NULL
+  OR (recurrence->>'type' = 'weekly' AND (recurrence->>'weekday')::int BETWEEN 0 AND 6)
+  OR (recurrence->>'type' = 'interval' AND (recurrence->>'days')::int > 0)
+  OR (recurrence->>'type' = 'lowStock' AND recurrence->>'freezerItem' <> '' AND (recurrence->>'below')::int > 0)
+);
+
+-- Staples management lists them on their own
+CREATE INDEX IF NOT EXISTS shopping_items_staples_idx
+ON public.shopping_items (household_id)
+WHERE recurrence IS NOT NULL;
@@ -0,0 +1,83 @@
+/*
+  # Restock thresholds
+
+  1. New Tables
+    - `restock_rules`
+      - `id` (uuid, primary key)
+      - `household_id` (uuid, foreign key to households.id)
+      - `user_id` (uuid, foreign key to auth.users.id, who added the rule)
+      - `name` (text, lowercase; matches freezer items whose name contains it)
+      - `below` (integer, restock when the freezer holds fewer than this many)
+      - `quantity` (integer, optional amount to buy; null tops back up to `below`)
+      - `category` (text, for the shopping list item)
+      - `created_at` / `updated_at` (timestamp with time zone)
+
+  2. Changes
+    - Add `restock_below` (integer) to `freezer_items`, a threshold for that one item
+    - Add `origin` (jsonb) to `shopping_items`, recording why the app added an item by itself:
+      `{"type": "restock", "freezerItem", "remaining", "below", "scope": "item" | "name", "createdAt"}`
+
+  3. Purpose
+    - When using up or removing freezer items takes the count below a threshold, the app
+      adds the item to the shopping list (or raises the quantity of the one already there)
+
+  4. Security
+    - Household members can read rules, owners and members can add and change them
+*/
+
+ALTER TABLE public.freezer_items
+ADD COLUMN IF NOT EXISTS restock_below integer CHECK (restock_below > 0);
+
+ALTER TABLE public.shopping_items
+ADD COLUMN IF NOT EXISTS origin jsonb;
+
+CREATE TABLE IF NOT EXISTS public.restock_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  name text NOT NULL CHECK (name <> ''),
+  below integer NOT NULL CHECK (below > 0),
+  quantity integer CHECK (quantity > 0),
+  category text DEFAULT 'Other',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (household_id, name)
+);
+
+DROP TRIGGER IF EXISTS restock_rules_default_household ON public.restock_rules;
+CREATE TRIGGER restock_rules_default_household
+BEFORE INSERT ON public.restock_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.set_default_household_id();
+
+DROP TRIGGER IF EXISTS restock_rules_touch_updated_at ON public.restock_rules;
+CREATE TRIGGER restock_rules_touch_updated_at
+BEFORE UPDATE ON public.restock_rules
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.restock_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view restock rules"
+ON public.restock_rules
+FOR SELECT
+TO authenticated
+USING (public.household_role(household_id) IS NOT NULL);
+
+CREATE POLICY "Household editors can add restock rules"
+ON public.restock_rules
+FOR INSERT
+TO authenticated
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member') AND auth.uid() = user_id);
+
+CREATE POLICY "Household editors can update restock rules"
+ON public.restock_rules
+FOR UPDATE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'))
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member'));
+
+CREATE POLICY "Household editors can delete restock rules"
+ON public.restock_rules
+FOR DELETE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'));
@@ -0,0 +1,73 @@
+/*
+  # Store aisle orders
+
+  1. New Tables
+    - `store_layouts`
+      - `id` (uuid, primary key)
+      - `household_id` (uuid, foreign key to households.id)
+      - `user_id` (uuid, foreign key to auth.users.id, who added the store)
+      - `name` (text, the store's name as shown in the store picker)
+      - `category_order` (text[], shopping list categories in the order the aisles are walked)
+      - `created_at` / `updated_at` (timestamp with time zone)
+
+  2. Changes
+    - Add `store` (text) to `shopping_items`, the store the item is bought at
+
+  3. Purpose
+    - Group the shopping list by category and sort the groups in each store's aisle order
+
+  4. Security
+    - Household members can read store layouts, owners and members can add and change them
+*/
+
+ALTER TABLE public.shopping_items
+ADD COLUMN IF NOT EXISTS store text;
+
+CREATE TABLE IF NOT EXISTS public.store_layouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  name text NOT NULL CHECK (name <> ''),
+  category_order text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (household_id, name)
+);
+
+DROP TRIGGER IF EXISTS store_layouts_default_household ON public.store_layouts;
+CREATE TRIGGER store_layouts_default_household
+BEFORE INSERT ON public.store_layouts
+FOR EACH ROW
+EXECUTE FUNCTION public.set_default_household_id();
+
+DROP TRIGGER IF EXISTS store_layouts_touch_updated_at ON public.store_layouts;
+CREATE TRIGGER store_layouts_touch_updated_at
+BEFORE UPDATE ON public.store_layouts
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.store_layouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view store layouts"
+ON public.store_layouts
+FOR SELECT
+TO authenticated
+USING (public.household_role(household_id) IS NOT NULL);
+
+CREATE POLICY "Household editors can add store layouts"
+ON public.store_layouts
+FOR INSERT
+TO authenticated
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member') AND auth.uid() = user_id);
+
+CREATE POLICY "Household editors can update store layouts"
+ON public.store_layouts
+FOR UPDATE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'))
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member'));
+
+CREATE POLICY "Household editors can delete store layouts"
+ON public.store_layouts
+FOR DELETE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'));
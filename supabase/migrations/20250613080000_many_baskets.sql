@@ -0,0 +1,75 @@
+/*
+  # Named shopping lists
+
+  1. New Tables
+    - `shopping_lists`
+      - `id` (uuid, primary key)
+      - `household_id` (uuid, foreign key to households.id)
+      - `user_id` (uuid, foreign key to auth.users.id, who created the list)
+      - `name` (text, e.g. "Costco run")
+      - `created_at` / `updated_at` (timestamp with time zone)
+
+  2. Changes
+    - Add `list_id` (uuid, foreign key to shopping_lists.id) to `shopping_items`.
+      Items without a list are on the household's main shopping list, so existing
+      items stay where they are. Deleting a list deletes its items.
+
+  3. Security
+    - Household members can read lists, owners and members can add, rename and delete them
+*/
+
+CREATE TABLE IF NOT EXISTS public.shopping_lists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  name text NOT NULL CHECK (name <> ''),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS shopping_lists_household_idx
+ON public.shopping_lists (household_id);
+
+ALTER TABLE public.shopping_items
+ADD COLUMN IF NOT EXISTS list_id uuid REFERENCES public.shopping_lists(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS shopping_items_list_idx
+ON public.shopping_items (list_id);
+
+DROP TRIGGER IF EXISTS shopping_lists_default_household ON public.shopping_lists;
+CREATE TRIGGER shopping_lists_default_household
+BEFORE INSERT ON public.shopping_lists
+FOR EACH ROW
+EXECUTE FUNCTION public.set_default_household_id();
+
+DROP TRIGGER IF EXISTS shopping_lists_touch_updated_at ON public.shopping_lists;
+CREATE TRIGGER shopping_lists_touch_updated_at
+BEFORE UPDATE ON public.shopping_lists
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.shopping_lists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view shopping lists"
+ON public.shopping_lists
+FOR SELECT
+TO authenticated
+USING (public.household_role(household_id) IS NOT NULL);
+
+CREATE POLICY "Household editors can add shopping lists"
+ON public.shopping_lists
+FOR INSERT
+TO authenticated
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member') AND auth.uid() = user_id);
+
+CREATE POLICY "Household editors can update shopping lists"
+ON public.shopping_lists
+FOR UPDATE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'))
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member'));
+
+CREATE POLICY "Household editors can delete shopping lists"
+ON public.shopping_lists
+FOR DELETE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'));
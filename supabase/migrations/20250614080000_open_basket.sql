@@ -0,0 +1,56 @@
+/*
+  # Shared shopping list links
+
+  1. New Tables
+    - `shopping_list_shares`
+      - `id` (uuid, primary key)
+      - `household_id` (uuid, foreign key to households.id)
+      - `list_id` (uuid, foreign key to shopping_lists.id; null for the main list)
+      - `token` (uuid, unique, the secret part of the link)
+      - `created_by` (uuid, foreign key to auth.users.id)
+      - `expires_at` (timestamp with time zone, null for links that don't expire)
+      - `created_at` (timestamp with time zone)
+
+  2. Purpose
+    - Anyone with the link can see a list's unticked items and tick them off, without an account.
+      The shared-list edge function reads and writes items with the service role after checking
+      the token, so the link gives no access to anything else.
+    - Revoking a link deletes its row
+
+  3. Security
+    - Household members can see the household's links, owners and members can create and revoke them
+    - There are no policies for anonymous users; only the edge function looks tokens up
+*/
+
+CREATE TABLE IF NOT EXISTS public.shopping_list_shares (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES public.households(id) ON DELETE CASCADE,
+  list_id uuid REFERENCES public.shopping_lists(id) ON DELETE CASCADE,
+  token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS shopping_list_shares_household_idx
+ON public.shopping_list_shares (household_id);
+
+ALTER TABLE public.shopping_list_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view shared list links"
+ON public.shopping_list_shares
+FOR SELECT
+TO authenticated
+USING (public.household_role(household_id) IS NOT NULL);
+
+CREATE POLICY "Household editors can create shared list links"
+ON public.shopping_list_shares
+FOR INSERT
+TO authenticated
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member') AND auth.uid() = created_by);
+
+CREATE POLICY "Household editors can revoke shared list links"
+ON public.shopping_list_shares
+FOR DELETE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'));
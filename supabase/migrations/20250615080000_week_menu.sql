@@ -0,0 +1,71 @@
+/*
+  # Meal planner
+
+  1. New Tables
+    - `planned_meals`
+      - `id` (uuid, primary key)
+      - `household_id` (uuid, foreign key to households.id)
+      - `user_id` (uuid, foreign key to auth.users.id, who planned the meal)
+      - `date` (date, the day the meal is cooked)
+      - `title` (text, the meal idea's title or whatever was typed in)
+      - `meal_idea_id` (text, the meal idea it came from, if any)
+      - `reservations` (jsonb, freezer items set aside for the meal as
+        `[{ "freezerItemId", "itemName", "quantity" }]`)
+      - `created_at` / `updated_at` (timestamp with time zone)
+
+  2. Security
+    - Household members can read the plan, owners and members can add, move and remove meals
+*/
+
+CREATE TABLE IF NOT EXISTS public.planned_meals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  date date NOT NULL,
+  title text NOT NULL CHECK (title <> ''),
+  meal_idea_id text,
+  reservations jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS planned_meals_household_date_idx
+ON public.planned_meals (household_id, date);
+
+DROP TRIGGER IF EXISTS planned_meals_default_household ON public.planned_meals;
+CREATE TRIGGER planned_meals_default_household
+BEFORE INSERT ON public.planned_meals
+FOR EACH ROW
+EXECUTE FUNCTION public.set_default_household_id();
+
+DROP TRIGGER IF EXISTS planned_meals_touch_updated_at ON public.planned_meals;
+CREATE TRIGGER planned_meals_touch_updated_at
+BEFORE UPDATE ON public.planned_meals
+FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+ALTER TABLE public.planned_meals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view planned meals"
+ON public.planned_meals
+FOR SELECT
+TO authenticated
+USING (public.household_role(household_id) IS NOT NULL);
+
+CREATE POLICY "Household editors can add planned meals"
+ON public.planned_meals
+FOR INSERT
+TO authenticated
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member') AND auth.uid() = user_id);
+
+CREATE POLICY "Household editors can update planned meals"
+ON public.planned_meals
+FOR UPDATE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'))
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member'));
+
+CREATE POLICY "Household editors can delete planned meals"
+ON public.planned_meals
+FOR DELETE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'));
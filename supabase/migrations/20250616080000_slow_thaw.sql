@@ -0,0 +1,72 @@
+/*
+  # Thaw reminders
+
+  1. New Tables
+    - `thaw_reminders`
+      - `id` (uuid, primary key)
+      - `household_id` (uuid, foreign key to households.id)
+      - `planned_meal_id` (uuid, foreign key to planned_meals.id)
+      - `freezer_item_id` (uuid, foreign key to freezer_items.id)
+      - `item_name` / `meal_title` (text, copied for the notification)
+      - `meal_date` (date, the day the meal is cooked)
+      - `remind_on` (date, the day to take the item out: the meal date less the
+        item's thaw lead time)
+      - `sent_at` (timestamp with time zone, set once the reminder has been pushed)
+      - `created_at` (timestamp with time zone)
+
+  2. Changes
+    - Add `thawed_at` (timestamp with time zone) to `freezer_items`. Set when an item is
+      marked as thawing; its `expiry_date` is then the fridge use-by date.
+
+  3. Purpose
+    - The app schedules a reminder whenever a planned meal sets aside an item that needs
+      thawing. `send-expiry-notifications` pushes the ones due each day to household
+      members with notifications turned on, and skips items already thawing.
+      Reminders go with their meal or item when either is deleted.
+
+  4. Security
+    - Household members can read reminders, owners and members can schedule and cancel them
+*/
+
+ALTER TABLE public.freezer_items
+ADD COLUMN IF NOT EXISTS thawed_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS public.thaw_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES public.households(id) ON DELETE CASCADE,
+  planned_meal_id uuid NOT NULL REFERENCES public.planned_meals(id) ON DELETE CASCADE,
+  freezer_item_id uuid NOT NULL REFERENCES public.freezer_items(id) ON DELETE CASCADE,
+  item_name text NOT NULL,
+  meal_title text NOT NULL,
+  meal_date date NOT NULL,
+  remind_on date NOT NULL,
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS thaw_reminders_due_idx
+ON public.thaw_reminders (household_id, remind_on)
+WHERE sent_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS thaw_reminders_meal_idx
+ON public.thaw_reminders (planned_meal_id);
+
+ALTER TABLE public.thaw_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Household members can view thaw reminders"
+ON public.thaw_reminders
+FOR SELECT
+TO authenticated
+USING (public.household_role(household_id) IS NOT NULL);
+
+CREATE POLICY "Household editors can add thaw reminders"
+ON public.thaw_reminders
+FOR INSERT
+TO authenticated
+WITH CHECK (public.household_role(household_id) IN ('owner', 'member'));
+
+CREATE POLICY "Household editors can delete thaw reminders"
+ON public.thaw_reminders
+FOR DELETE
+TO authenticated
+USING (public.household_role(household_id) IN ('owner', 'member'));
@@ -0,0 +1,24 @@
+/*
+  # Live shopping lists
+
+  1. Changes
+    - Publish `shopping_items` to `supabase_realtime`
+    - Set its replica identity to full, so delete events carry `household_id`
+
+  2. Purpose
+    - The app subscribes to the household's shopping items, filtered by `household_id`,
+      and syncs whenever someone else adds, ticks, moves or removes one. Row-level
+      security still decides who hears about which rows.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'shopping_items'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.shopping_items;
+  END IF;
+END $$;
+
+ALTER TABLE public.shopping_items REPLICA IDENTITY FULL;
@@ -0,0 +1,47 @@
+/*
+  # Keep an owner in every household
+
+  1. Changes
+    - Trigger on `household_members` that rejects deleting or demoting the last owner
+
+  2. Purpose
+    - Only owners can invite, change roles or rename a household, so one left without an
+      owner could never be managed again. The row policies let members leave and owners
+      change any role, including their own, so the check has to look at the whole
+      household.
+    - Deleting the household itself, or the owner's account, still removes the rows:
+      by the time those cascades reach `household_members` the parent row is gone.
+*/
+
+CREATE OR REPLACE FUNCTION public.keep_household_owner()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.role <> 'owner' OR (TG_OP = 'UPDATE' AND NEW.role = 'owner') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Cascading from a deleted household or account
+  IF NOT EXISTS (SELECT 1 FROM public.households WHERE id = OLD.household_id)
+    OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.household_members
+    WHERE household_id = OLD.household_id
+      AND role = 'owner'
+      AND id <> OLD.id
+  ) THEN
+    RAISE EXCEPTION 'A household needs at least one owner'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS household_members_keep_owner ON public.household_members;
+CREATE TRIGGER household_members_keep_owner
+BEFORE UPDATE OF role OR DELETE ON public.household_members
+FOR EACH ROW EXECUTE FUNCTION public.keep_household_owner();
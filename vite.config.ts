@@ -1,10 +1,30 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
 
+// Changes on every build so browsers pick up a new service worker after a deploy
+const appVersion = Date.now().toString(36);
+
+// Lists the hashed build output so public/sw.js can precache the app shell
+const precacheManifest = (): Plugin => ({
+  name: 'frostie-precache-manifest',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const files = Object.keys(bundle).filter(file => !file.endsWith('.map'));
+    this.emitFile({
+      type: 'asset',
+      fileName: 'precache-manifest.json',
+      source: JSON.stringify({ version: appVersion, files }, null, 2)
+    });
+  }
+});
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
+  define: {
+    __APP_VERSION__: JSON.stringify(appVersion),
+  },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
@@ -13,4 +33,4 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
-});
\ No newline at end of file
+});